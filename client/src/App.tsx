@@ -19,11 +19,17 @@ import InstructorAvailability from "@/pages/InstructorAvailability";
 import InstructorSessions from "@/pages/InstructorSessions";
 import InstructorFormationContent from "@/pages/InstructorFormationContent";
 import Login from "@/pages/Login";
+import ChangePassword from "@/pages/ChangePassword";
+import ResetPassword from "@/pages/ResetPassword";
+import CertificateVerification from "@/pages/CertificateVerification";
 import NotFound from "@/pages/not-found";
 import DataVisualization from "@/pages/DataVisualization";
 import CoachDashboard from "@/pages/CoachDashboard";
 import AccountSettings from "@/pages/AccountSettings";
 import AttendanceSign from "@/pages/AttendanceSign";
+import AuditLog from "@/pages/AuditLog";
+import EmailOutbox from "@/pages/EmailOutbox";
+import Notifications from "@/pages/Notifications";
 import type { User } from "@shared/schema";
 import { Loader2, LogOut } from "lucide-react";
 import { useEffect } from "react";
@@ -64,6 +70,7 @@ function Router({
       <Route path="/training/:id" component={() => <TrainingDetail currentUser={currentUser} />} />
       <Route path="/my-trainings" component={renderDashboard} />
       <Route path="/account" component={() => <AccountSettings currentUser={currentUser} />} />
+      <Route path="/notifications" component={Notifications} />
       <Route path="/interests" component={InterestManagement} />
       <Route path="/consultants" component={ConsultantManagement} />
       <Route path="/formations" component={FormationManagement} />
@@ -71,6 +78,8 @@ function Router({
       <Route path="/communication" component={CommunicationManagement} />
       <Route path="/off-catalog" component={OffCatalogArchive} />
       <Route path="/data-visualisation" component={DataVisualization} />
+      <Route path="/audit" component={AuditLog} />
+      <Route path="/email-outbox" component={EmailOutbox} />
       <Route path="/instructor-formations" component={InstructorFormations} />
       <Route path="/instructor-formations/:id" component={InstructorFormationContent} />
       <Route path="/instructor-availability" component={InstructorAvailability} />
@@ -158,7 +167,7 @@ function AppContent() {
     },
   });
 
-  const [, setLocation] = useLocation();
+  const [location, setLocation] = useLocation();
 
   const handleLogin = (user: User) => {
     setLocation("/dashboard", { replace: true });
@@ -187,10 +196,29 @@ function AppContent() {
     );
   }
 
+  if (location === "/reset-password") {
+    return <ResetPassword onDone={() => setLocation("/dashboard", { replace: true })} />;
+  }
+
+  // Public page, reachable from the link printed on certificates
+  if (location.startsWith("/certificates/verify")) {
+    return <CertificateVerification />;
+  }
+
   if (!userData?.user) {
     return <Login onLoginSuccess={handleLogin} />;
   }
 
+  if (userData.user.mustChangePassword) {
+    return (
+      <ChangePassword
+        user={userData.user}
+        onPasswordChanged={() => refetch()}
+        onLogout={handleLogout}
+      />
+    );
+  }
+
   return (
     <AuthenticatedApp
       user={userData.user}
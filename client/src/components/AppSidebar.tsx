@@ -13,6 +13,9 @@ import {
   UserCog,
   Megaphone,
   Archive,
+  History,
+  Mail,
+  Bell,
   type LucideIcon,
 } from "lucide-react";
 import { Link, useLocation } from "wouter";
@@ -32,7 +35,7 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useEffect, useMemo, useRef, useState } from "react";
-import { formatRoles, isInstructor } from "@shared/roles";
+import { formatRoles, hasPermission, isInstructor, type Permission } from "@shared/roles";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { Button } from "@/components/ui/button";
 import logoWhite from "@/assets/logo-white.png";
@@ -53,6 +56,9 @@ interface MenuItem {
   url?: string;
   description?: string;
   action?: "becomeInstructor" | "resignInstructor";
+  permission?: Permission;
+  // Badge with every unread notification, which stay unread when the page opens
+  countsAllUnread?: boolean;
 }
 
 export default function AppSidebar({ currentUser }: AppSidebarProps) {
@@ -69,6 +75,7 @@ export default function AppSidebar({ currentUser }: AppSidebarProps) {
   const { data: notificationsData } = useNotifications();
   const markNotificationsRead = useMarkNotificationsRead();
   const unreadCounts = notificationsData?.unreadCounts ?? {};
+  const totalUnread = notificationsData?.totalUnread ?? 0;
 
   const becomeInstructorMutation = useMutation({
     mutationFn: async () => {
@@ -116,65 +123,66 @@ export default function AppSidebar({ currentUser }: AppSidebarProps) {
     const sections: MenuSection[] = [];
     const roles = currentUser.roles;
 
-    if (roles.includes("consultant") || roles.includes("rh")) {
-      sections.push({
-        label: roles.includes("rh") || isInstructor(roles) ? "Mes formations" : undefined,
-        icon: Home,
-        items: [
-          { title: "Tableau de bord", url: "/", icon: Home },
-          { title: "Catalogue", url: "/catalog", icon: BookOpen },
-        ],
-      });
-    }
+    const can = (permission: Permission) => hasPermission(roles, permission);
+    const addSection = (section: MenuSection) => {
+      const items = section.items.filter((item) => !item.permission || can(item.permission));
+      if (items.length > 0) {
+        sections.push({ ...section, items });
+      }
+    };
 
-    if (isInstructor(roles)) {
-      sections.push({
-        label: "Formation",
-        icon: BookOpen,
-        items: [
-          { title: "Mes formations", url: "/instructor-formations", icon: BookOpen },
-          { title: "Mes disponibilités", url: "/instructor-availability", icon: Calendar },
-          { title: "Mes sessions", url: "/instructor-sessions", icon: Users },
-        ],
-      });
-    }
+    addSection({
+      label:
+        can("users.manage") || can("instructor.workspace") ? "Mes formations" : undefined,
+      icon: Home,
+      items: [
+        { title: "Tableau de bord", url: "/", icon: Home, permission: "learning.access" },
+        { title: "Catalogue", url: "/catalog", icon: BookOpen, permission: "learning.access" },
+      ],
+    });
 
-    if (roles.includes("rh")) {
-      sections.push({
-        label: "Administration RH",
-        icon: Users,
-        items: [
-          { title: "Formations", url: "/formations", icon: BookOpen },
-          { title: "Sessions", url: "/sessions", icon: Calendar },
-          { title: "Intentions", url: "/interests", icon: Heart },
-          { title: "Hors catalogue", url: "/off-catalog", icon: Archive },
-          { title: "Communication", url: "/communication", icon: Megaphone },
-          { title: "Collaborateurs", url: "/consultants", icon: Users },
-          { title: "Data visualisation", url: "/data-visualisation", icon: BarChart },
-        ],
-      });
-    }
+    addSection({
+      label: "Formation",
+      icon: BookOpen,
+      items: [
+        { title: "Mes formations", url: "/instructor-formations", icon: BookOpen, permission: "instructor.workspace" },
+        { title: "Mes disponibilités", url: "/instructor-availability", icon: Calendar, permission: "instructor.workspace" },
+        { title: "Mes sessions", url: "/instructor-sessions", icon: Users, permission: "instructor.workspace" },
+      ],
+    });
 
-    if (roles.includes("manager")) {
-      sections.push({
-        label: "Management",
-        icon: BarChart,
-        items: [
-          { title: "Mon équipe", url: "/team", icon: Home },
-          { title: "Suivi formations", url: "/team-trainings", icon: BarChart },
-        ],
-      });
-    }
+    addSection({
+      label: "Administration RH",
+      icon: Users,
+      items: [
+        { title: "Formations", url: "/formations", icon: BookOpen, permission: "catalog.manage" },
+        { title: "Sessions", url: "/sessions", icon: Calendar, permission: "sessions.plan" },
+        { title: "Intentions", url: "/interests", icon: Heart, permission: "interests.manage" },
+        { title: "Hors catalogue", url: "/off-catalog", icon: Archive, permission: "interests.manage" },
+        { title: "Communication", url: "/communication", icon: Megaphone, permission: "communication.manage" },
+        { title: "Suivi des emails", url: "/email-outbox", icon: Mail, permission: "communication.manage" },
+        { title: "Collaborateurs", url: "/consultants", icon: Users, permission: "users.manage" },
+        { title: "Data visualisation", url: "/data-visualisation", icon: BarChart, permission: "analytics.view" },
+        { title: "Journal d'audit", url: "/audit", icon: History, permission: "audit.view" },
+      ],
+    });
 
-    if (roles.includes("coach")) {
-      sections.push({
-        label: "Coaching",
-        icon: UserCheck,
-        items: [
-          { title: "Mes coachés", url: "/coach", icon: Users },
-        ],
-      });
-    }
+    addSection({
+      label: "Management",
+      icon: BarChart,
+      items: [
+        { title: "Mon équipe", url: "/team", icon: Home, permission: "team.view" },
+        { title: "Suivi formations", url: "/team-trainings", icon: BarChart, permission: "team.view" },
+      ],
+    });
+
+    addSection({
+      label: "Coaching",
+      icon: UserCheck,
+      items: [
+        { title: "Mes coachés", url: "/coach", icon: Users, permission: "coaching.access" },
+      ],
+    });
 
     const settingsItems: MenuItem[] = [
       {
@@ -183,6 +191,13 @@ export default function AppSidebar({ currentUser }: AppSidebarProps) {
         icon: UserCog,
         description: "Mettre à jour mes informations personnelles",
       },
+      {
+        title: "Notifications",
+        url: "/notifications",
+        icon: Bell,
+        description: "Retrouver toutes mes notifications",
+        countsAllUnread: true,
+      },
     ];
 
     if (isInstructor(roles)) {
@@ -306,7 +321,7 @@ export default function AppSidebar({ currentUser }: AppSidebarProps) {
         <div className="mt-12 flex flex-1 flex-col items-center gap-5">
           {menuSections.map((section, index) => {
             const sectionUnread = section.items.reduce((total, item) => {
-              if (!item.url) return total;
+              if (!item.url || item.countsAllUnread) return total;
               return total + (unreadCounts[item.url] ?? 0);
             }, 0);
 
@@ -394,14 +409,14 @@ export default function AppSidebar({ currentUser }: AppSidebarProps) {
                   {activeSection.items.map((item) => {
                     if (item.url) {
                       const isCurrentLocation = location === item.url;
-                      const itemUnread = unreadCounts[item.url] ?? 0;
+                      const itemUnread = item.countsAllUnread ? totalUnread : unreadCounts[item.url] ?? 0;
                       return (
                         <Link
                           key={item.title}
                           href={item.url}
                           data-testid={`link-${item.url.slice(1) || "home"}`}
                           onClick={() => {
-                            if (itemUnread > 0) {
+                            if (itemUnread > 0 && !item.countsAllUnread) {
                               markNotificationsRead.mutate({ route: item.url });
                             }
                             setIsSectionDialogOpen(false);
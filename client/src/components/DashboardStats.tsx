@@ -1,5 +1,8 @@
 import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
 import { Calendar, CheckCircle, AlertCircle } from "lucide-react";
+import type { QuotaSummary } from "@shared/quota";
+import type { QuotaCycleUsage } from "@shared/schema";
 
 interface StatCardProps {
   title: string;
@@ -29,44 +32,64 @@ function StatCard({ title, value, icon, description, iconClass = "" }: StatCardP
 interface DashboardStatsProps {
   upcomingCount: number;
   completedCount: number;
-  p1Used: number;
-  p2Used: number;
+  quota?: QuotaSummary;
+  quotaHistory?: QuotaCycleUsage[];
 }
 
 export default function DashboardStats({
   upcomingCount,
   completedCount,
-  p1Used,
-  p2Used,
+  quota,
+  quotaHistory = [],
 }: DashboardStatsProps) {
-  const p1Remaining = Math.max(0, 1 - p1Used);
-  const p2Remaining = Math.max(0, 1 - p2Used);
-  const prioritiesRemaining = Math.max(0, 2 - (p1Used + p2Used));
+  const p1Remaining = quota?.remaining.P1 ?? 0;
+  const p2Remaining = quota?.remaining.P2 ?? 0;
+  const prioritiesRemaining = p1Remaining + p2Remaining;
+  const prioritiesDescription = [
+    `P1 restantes: ${p1Remaining}/${quota?.allowance.P1 ?? 0}`,
+    `P2 restantes: ${p2Remaining}/${quota?.allowance.P2 ?? 0}`,
+    quota &&
+      `Renouvellement le ${new Date(quota.cycle.endsAt).toLocaleDateString("fr-FR", { timeZone: "UTC" })}`,
+  ]
+    .filter(Boolean)
+    .join(" • ");
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6" data-testid="dashboard-stats">
-      <StatCard
-        title="Formations à venir"
-        value={upcomingCount}
-        icon={<Calendar className="h-5 w-5" />}
-        iconClass="bg-primary/10 text-primary"
-        data-testid="stat-upcoming"
-      />
-      <StatCard
-        title="Formations réalisées"
-        value={completedCount}
-        icon={<CheckCircle className="h-5 w-5" />}
-        iconClass="bg-secondary text-foreground"
-        data-testid="stat-completed"
-      />
-      <StatCard
-        title="Priorités restantes"
-        value={prioritiesRemaining}
-        icon={<AlertCircle className="h-5 w-5" />}
-        iconClass="bg-destructive/10 text-destructive"
-        description={`P1 restantes: ${p1Remaining} • P2 restantes: ${p2Remaining}`}
-        data-testid="stat-priorities"
-      />
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6" data-testid="dashboard-stats">
+        <StatCard
+          title="Formations à venir"
+          value={upcomingCount}
+          icon={<Calendar className="h-5 w-5" />}
+          iconClass="bg-primary/10 text-primary"
+          data-testid="stat-upcoming"
+        />
+        <StatCard
+          title="Formations réalisées"
+          value={completedCount}
+          icon={<CheckCircle className="h-5 w-5" />}
+          iconClass="bg-secondary text-foreground"
+          data-testid="stat-completed"
+        />
+        <StatCard
+          title={quota ? `Priorités restantes ${quota.cycle.label}` : "Priorités restantes"}
+          value={prioritiesRemaining}
+          icon={<AlertCircle className="h-5 w-5" />}
+          iconClass="bg-destructive/10 text-destructive"
+          description={prioritiesDescription}
+          data-testid="stat-priorities"
+        />
+      </div>
+      {quotaHistory.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground" data-testid="quota-history">
+          <span>Cycles précédents :</span>
+          {quotaHistory.map((usage) => (
+            <Badge key={usage.id} variant="outline" className="font-normal">
+              {usage.cycleLabel} · P1 {usage.p1Used}/{usage.p1Allowance} · P2 {usage.p2Used}/{usage.p2Allowance}
+            </Badge>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,360 @@
+import { useEffect, useMemo, useState, type ChangeEvent } from "react";
+import { keepPreviousData, useMutation, useQuery } from "@tanstack/react-query";
+import { AlertTriangle, Eye, Loader2, Mail, RotateCcw, Send } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Formation, Session } from "@shared/schema";
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_TEMPLATE_DEFINITIONS,
+  EMAIL_TEMPLATE_KEYS,
+  EMAIL_TEMPLATE_VARIABLES,
+  type EmailTemplate,
+  type EmailTemplateKey,
+  type EmailTemplatesSettings,
+} from "@shared/email-templates";
+import type { AdminEmailTemplatePreview } from "@/types/admin";
+
+// Waits for a pause in typing before asking the server for a new preview
+const PREVIEW_DELAY_MS = 400;
+
+const formatSessionLabel = (session: Session, formationsById: Map<string, Formation>) =>
+  `${formationsById.get(session.formationId)?.title ?? "Formation"} — ${new Date(
+    session.startDate,
+  ).toLocaleDateString("fr-FR", { day: "numeric", month: "short", year: "numeric" })}`;
+
+export default function EmailTemplatesEditor() {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<EmailTemplatesSettings>(DEFAULT_EMAIL_TEMPLATES);
+  const [activeKey, setActiveKey] = useState<EmailTemplateKey>("session_invitation");
+  const [sessionId, setSessionId] = useState<string>("");
+  const [previewRequest, setPreviewRequest] = useState<{
+    key: EmailTemplateKey;
+    sessionId: string;
+    template: EmailTemplate;
+  } | null>(null);
+
+  const { data: savedTemplates, isFetching } = useQuery<EmailTemplatesSettings>({
+    queryKey: ["/api/admin/email-templates"],
+  });
+  const { data: sessions = [] } = useQuery<Session[]>({ queryKey: ["/api/sessions"] });
+  const { data: formations = [] } = useQuery<Formation[]>({ queryKey: ["/api/formations"] });
+
+  useEffect(() => {
+    if (savedTemplates) {
+      setDrafts(savedTemplates);
+    }
+  }, [savedTemplates]);
+
+  const formationsById = useMemo(
+    () => new Map(formations.map((formation) => [formation.id, formation])),
+    [formations],
+  );
+
+  const sortedSessions = useMemo(
+    () =>
+      [...sessions]
+        .filter((session) => session.status !== "cancelled")
+        .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime()),
+    [sessions],
+  );
+
+  // Defaults to the next session to come, or the latest one when none is planned
+  useEffect(() => {
+    if (sessionId || sortedSessions.length === 0) {
+      return;
+    }
+    const now = Date.now();
+    const upcoming = sortedSessions.find((session) => new Date(session.startDate).getTime() >= now);
+    setSessionId((upcoming ?? sortedSessions[sortedSessions.length - 1]).id);
+  }, [sessionId, sortedSessions]);
+
+  const activeTemplate = drafts[activeKey];
+
+  useEffect(() => {
+    if (!sessionId) {
+      return;
+    }
+    const timer = setTimeout(() => {
+      setPreviewRequest({ key: activeKey, sessionId, template: activeTemplate });
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [activeKey, sessionId, activeTemplate]);
+
+  const { data: preview, isFetching: isPreviewFetching, error: previewError } =
+    useQuery<AdminEmailTemplatePreview>({
+      queryKey: ["/api/admin/email-templates/preview", previewRequest],
+      queryFn: () => apiRequest("/api/admin/email-templates/preview", "POST", previewRequest),
+      enabled: Boolean(previewRequest),
+      placeholderData: keepPreviousData,
+      retry: false,
+    });
+
+  const saveMutation = useMutation({
+    mutationFn: async (payload: EmailTemplatesSettings) =>
+      apiRequest("/api/admin/email-templates", "PATCH", payload),
+    onSuccess: (data: EmailTemplatesSettings) => {
+      queryClient.setQueryData(["/api/admin/email-templates"], data);
+      setDrafts(data);
+      toast({
+        title: "Modèles enregistrés",
+        description: "Les prochains emails utiliseront ces textes.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error?.message || "Impossible d'enregistrer les modèles.",
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("/api/admin/email-templates/test", "POST", {
+        key: activeKey,
+        sessionId,
+        template: activeTemplate,
+      }),
+    onSuccess: (data: { recipient: string }) => {
+      toast({
+        title: "Email de test envoyé",
+        description: `Un exemple a été envoyé à ${data.recipient}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error?.message || "Impossible d'envoyer l'email de test.",
+      });
+    },
+  });
+
+  const handleTemplateChange = (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = event.target;
+    setDrafts((prev) => ({
+      ...prev,
+      [activeKey]: { ...prev[activeKey], [name as keyof EmailTemplate]: value },
+    }));
+  };
+
+  const isDirty = JSON.stringify(drafts) !== JSON.stringify(savedTemplates ?? DEFAULT_EMAIL_TEMPLATES);
+  const isDefault =
+    JSON.stringify(activeTemplate) === JSON.stringify(DEFAULT_EMAIL_TEMPLATES[activeKey]);
+  const definition = EMAIL_TEMPLATE_DEFINITIONS[activeKey];
+
+  return (
+    <Card className="rounded-[1.75rem] border border-border/60 p-8 shadow-sm">
+      <div className="mb-8 flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div className="flex items-start gap-3">
+          <Mail className="mt-1 h-5 w-5 text-primary" />
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">Modèles d'emails</h2>
+            <p className="text-sm text-muted-foreground">
+              Personnalisez l'objet et le contenu des emails envoyés aux collaborateurs.
+            </p>
+          </div>
+        </div>
+        <Tabs value={activeKey} onValueChange={(value) => setActiveKey(value as EmailTemplateKey)}>
+          <TabsList className="inline-flex h-auto flex-wrap items-center gap-2 rounded-3xl bg-muted/40 p-1">
+            {EMAIL_TEMPLATE_KEYS.map((key) => (
+              <TabsTrigger
+                key={key}
+                value={key}
+                className="rounded-full px-4 py-2 text-sm font-medium transition data-[state=active]:bg-primary data-[state=active]:text-primary-foreground"
+                data-testid={`tab-email-template-${key}`}
+              >
+                {EMAIL_TEMPLATE_DEFINITIONS[key].label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="grid gap-10 lg:grid-cols-[minmax(0,1fr)_minmax(0,1fr)]">
+        <div className="space-y-6">
+          <p className="text-sm text-muted-foreground">{definition.description}</p>
+
+          <div className="space-y-2">
+            <Label htmlFor="email-template-subject">Objet</Label>
+            <Input
+              id="email-template-subject"
+              name="subject"
+              value={activeTemplate.subject}
+              onChange={handleTemplateChange}
+              autoComplete="off"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email-template-text">Version texte</Label>
+            <Textarea
+              id="email-template-text"
+              name="text"
+              value={activeTemplate.text}
+              onChange={handleTemplateChange}
+              rows={12}
+              className="font-mono text-xs"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email-template-html">Version HTML</Label>
+            <Textarea
+              id="email-template-html"
+              name="html"
+              value={activeTemplate.html}
+              onChange={handleTemplateChange}
+              rows={12}
+              className="font-mono text-xs"
+            />
+          </div>
+
+          <div className="space-y-3 rounded-2xl bg-muted/40 p-4">
+            <p className="text-sm font-medium text-foreground">Variables disponibles</p>
+            <ul className="space-y-1.5 text-xs text-muted-foreground">
+              {definition.variables.map((name) => (
+                <li key={name} className="flex flex-wrap items-center gap-2">
+                  <code className="rounded bg-background px-1.5 py-0.5 text-foreground">{`{{${name}}}`}</code>
+                  <span>{EMAIL_TEMPLATE_VARIABLES[name]}</span>
+                </li>
+              ))}
+            </ul>
+            <p className="text-xs text-muted-foreground">
+              Un bloc <code>{"{{#session.location}}…{{/session.location}}"}</code> n'est affiché que si la variable
+              est renseignée. Les informations du destinataire sont vides lorsqu'un email vise plusieurs personnes.
+            </p>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <Button
+              type="button"
+              className="gap-2"
+              disabled={!isDirty || saveMutation.isPending}
+              onClick={() => saveMutation.mutate(drafts)}
+              data-testid="button-save-email-templates"
+            >
+              {saveMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mail className="h-4 w-4" />}
+              Enregistrer les modèles
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              className="gap-2"
+              disabled={!sessionId || testMutation.isPending}
+              onClick={() => testMutation.mutate()}
+              data-testid="button-send-test-email"
+            >
+              {testMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              M'envoyer un test
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="gap-2 text-xs"
+              disabled={isDefault}
+              onClick={() =>
+                setDrafts((prev) => ({ ...prev, [activeKey]: DEFAULT_EMAIL_TEMPLATES[activeKey] }))
+              }
+            >
+              <RotateCcw className="h-3.5 w-3.5" />
+              Texte par défaut
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="text-xs"
+              disabled={isFetching || !isDirty || saveMutation.isPending}
+              onClick={() => setDrafts(savedTemplates ?? DEFAULT_EMAIL_TEMPLATES)}
+            >
+              Réinitialiser les modifications
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-2 text-sm font-semibold text-muted-foreground">
+              <Eye className="h-4 w-4" />
+              Aperçu
+              {isPreviewFetching && <Loader2 className="h-3.5 w-3.5 animate-spin" />}
+            </div>
+            <Select value={sessionId} onValueChange={setSessionId}>
+              <SelectTrigger className="w-72" data-testid="select-email-preview-session">
+                <SelectValue placeholder="Choisir une session" />
+              </SelectTrigger>
+              <SelectContent>
+                {sortedSessions.map((session) => (
+                  <SelectItem key={session.id} value={session.id}>
+                    {formatSessionLabel(session, formationsById)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!sessionId ? (
+            <p className="text-sm text-muted-foreground">
+              Planifiez une session pour prévisualiser les emails avec des données réelles.
+            </p>
+          ) : previewError ? (
+            <p className="text-sm text-destructive">
+              {(previewError as Error).message || "Impossible de générer l'aperçu."}
+            </p>
+          ) : preview ? (
+            <div className="space-y-4">
+              {preview.unknownVariables.length > 0 && (
+                <div className="flex items-start gap-2 rounded-xl bg-amber-50 p-3 text-xs text-amber-800">
+                  <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                  <span>
+                    Variables inconnues :{" "}
+                    {preview.unknownVariables.map((name) => `{{${name}}}`).join(", ")}
+                  </span>
+                </div>
+              )}
+              <div className="space-y-1">
+                <Badge variant="outline">Objet</Badge>
+                <p className="text-sm font-medium text-foreground">{preview.subject}</p>
+              </div>
+              <div className="space-y-1">
+                <Badge variant="outline">HTML</Badge>
+                {/* Sandboxed so that the edited markup cannot run scripts in the application */}
+                <iframe
+                  title="Aperçu HTML de l'email"
+                  sandbox=""
+                  srcDoc={preview.html}
+                  className="h-80 w-full rounded-xl border border-border/60 bg-white"
+                />
+              </div>
+              <div className="space-y-1">
+                <Badge variant="outline">Texte</Badge>
+                <pre className="max-h-80 overflow-auto whitespace-pre-wrap rounded-xl border border-border/60 bg-muted/30 p-4 text-xs text-foreground">
+                  {preview.text}
+                </pre>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                L'aperçu utilise votre nom comme destinataire et un exemple de message contextuel.
+              </p>
+            </div>
+          ) : null}
+        </div>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,121 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Bell, Loader2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { hasPermission } from "@shared/roles";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_DEFINITIONS,
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  type NotificationCategory,
+  type NotificationChannel,
+  type NotificationPreferences,
+} from "@shared/notification-preferences";
+
+interface NotificationPreferencesCardProps {
+  roles: string[];
+}
+
+export default function NotificationPreferencesCard({ roles }: NotificationPreferencesCardProps) {
+  const { toast } = useToast();
+  const { data: preferences = DEFAULT_NOTIFICATION_PREFERENCES, isLoading } = useQuery<NotificationPreferences>({
+    queryKey: ["/api/notification-preferences"],
+  });
+
+  // Only reviewers receive validation requests
+  const categories = NOTIFICATION_CATEGORIES.filter(
+    (category) =>
+      category !== "validation_requests" ||
+      hasPermission(roles, "interests.manage") ||
+      hasPermission(roles, "coaching.access"),
+  );
+
+  const saveMutation = useMutation({
+    mutationFn: async (payload: Partial<NotificationPreferences>) =>
+      apiRequest("/api/notification-preferences", "PUT", payload),
+    onSuccess: (data: NotificationPreferences) => {
+      queryClient.setQueryData(["/api/notification-preferences"], data);
+      toast({ title: "Préférences enregistrées" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error?.message || "Impossible d'enregistrer vos préférences.",
+      });
+    },
+  });
+
+  const handleChange = (category: NotificationCategory, channel: NotificationChannel) => {
+    saveMutation.mutate({ [category]: channel });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Notifications</CardTitle>
+            <CardDescription>
+              Choisissez comment être prévenu pour chaque type d'événement. Les récapitulatifs sont envoyés par email
+              chaque matin ou chaque lundi.
+            </CardDescription>
+          </div>
+          {saveMutation.isPending ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : (
+            <Bell className="h-5 w-5 text-muted-foreground" />
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {categories.map((category) => (
+          <div
+            key={category}
+            className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between md:gap-6"
+          >
+            <div className="space-y-1">
+              <Label htmlFor={`notification-preference-${category}`}>
+                {NOTIFICATION_CATEGORY_DEFINITIONS[category].label}
+              </Label>
+              <p className="text-sm text-muted-foreground">
+                {NOTIFICATION_CATEGORY_DEFINITIONS[category].description}
+              </p>
+            </div>
+            <Select
+              value={preferences[category]}
+              onValueChange={(value) => handleChange(category, value as NotificationChannel)}
+              disabled={isLoading || saveMutation.isPending}
+            >
+              <SelectTrigger
+                id={`notification-preference-${category}`}
+                className="md:w-64"
+                data-testid={`select-notification-preference-${category}`}
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NOTIFICATION_CHANNELS.map((channel) => (
+                  <SelectItem key={channel} value={channel}>
+                    {NOTIFICATION_CHANNEL_LABELS[channel]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, X } from "lucide-react";
+import {
+  PREREQUISITE_GROUP_MODES,
+  PREREQUISITE_GROUP_MODE_LABELS,
+  type PrerequisiteGroup,
+  type PrerequisiteGroupMode,
+} from "@shared/formation-prerequisites";
+
+const parseValidityMonths = (value: string) => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) && parsed > 0 ? Math.min(240, parsed) : null;
+};
+
+interface PrerequisiteGroupsEditorProps {
+  value: PrerequisiteGroup[];
+  onChange: (groups: PrerequisiteGroup[]) => void;
+  // Formations that may be required, without the edited one
+  formations: Array<{ id: string; title: string }>;
+}
+
+export default function PrerequisiteGroupsEditor({ value, onChange, formations }: PrerequisiteGroupsEditorProps) {
+  const titles = new Map(formations.map((formation) => [formation.id, formation.title]));
+
+  const updateGroup = (index: number, updates: Partial<PrerequisiteGroup>) => {
+    onChange(value.map((group, groupIndex) => (groupIndex === index ? { ...group, ...updates } : group)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {value.map((group, index) => {
+        const availableFormations = formations.filter((formation) => !group.formationIds.includes(formation.id));
+
+        return (
+          <div key={index} className="space-y-3 rounded-lg border p-4" data-testid={`prerequisite-group-editor-${index}`}>
+            <div className="grid grid-cols-[1fr_10rem_auto] items-end gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Condition</Label>
+                <Select
+                  value={group.mode}
+                  onValueChange={(mode) => updateGroup(index, { mode: mode as PrerequisiteGroupMode })}
+                >
+                  <SelectTrigger data-testid={`select-prerequisite-mode-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PREREQUISITE_GROUP_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {PREREQUISITE_GROUP_MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Validité (mois)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={240}
+                  placeholder="Illimitée"
+                  value={group.validityMonths ?? ""}
+                  onChange={(event) => updateGroup(index, { validityMonths: parseValidityMonths(event.target.value) })}
+                  data-testid={`input-prerequisite-validity-${index}`}
+                />
+              </div>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                onClick={() => onChange(value.filter((_, groupIndex) => groupIndex !== index))}
+                data-testid={`button-remove-prerequisite-group-${index}`}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {group.formationIds.map((formationId) => (
+                <Badge key={formationId} variant="secondary" className="gap-1 pr-1">
+                  {titles.get(formationId) ?? formationId}
+                  <button
+                    type="button"
+                    className="rounded-full p-0.5 hover:bg-background/60"
+                    onClick={() =>
+                      updateGroup(index, { formationIds: group.formationIds.filter((id) => id !== formationId) })
+                    }
+                    aria-label="Retirer la formation"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </Badge>
+              ))}
+              {group.formationIds.length === 0 && (
+                <p className="text-sm text-destructive">Choisissez au moins une formation</p>
+              )}
+            </div>
+
+            {availableFormations.length > 0 && (
+              <Select
+                value=""
+                onValueChange={(formationId) =>
+                  updateGroup(index, { formationIds: [...group.formationIds, formationId] })
+                }
+              >
+                <SelectTrigger data-testid={`select-prerequisite-formation-${index}`}>
+                  <SelectValue placeholder="Ajouter une formation" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableFormations.map((formation) => (
+                    <SelectItem key={formation.id} value={formation.id}>
+                      {formation.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        );
+      })}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...value, { mode: "all_of", formationIds: [], validityMonths: null }])}
+        disabled={formations.length === 0}
+        data-testid="button-add-prerequisite-group"
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Ajouter un groupe de prérequis
+      </Button>
+    </div>
+  );
+}
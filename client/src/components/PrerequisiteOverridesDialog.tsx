@@ -0,0 +1,207 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Formation, User } from "@shared/schema";
+import type { AdminPrerequisiteOverride } from "@/types/admin";
+
+interface PrerequisiteOverridesDialogProps {
+  formation: Formation | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function PrerequisiteOverridesDialog({ formation, onOpenChange }: PrerequisiteOverridesDialogProps) {
+  const { toast } = useToast();
+  const [userId, setUserId] = useState("");
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    setUserId("");
+    setReason("");
+  }, [formation?.id]);
+
+  const { data: overrides = [], isLoading } = useQuery<AdminPrerequisiteOverride[]>({
+    queryKey: ["/api/admin/prerequisite-overrides", { formationId: formation?.id }],
+    queryFn: async () => {
+      const res = await fetch(`/api/admin/prerequisite-overrides?formationId=${formation!.id}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Impossible de charger les dérogations");
+      return res.json();
+    },
+    enabled: !!formation,
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users", { archived: false }],
+    queryFn: async () => {
+      const res = await fetch("/api/users?archived=false", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch users");
+      return res.json();
+    },
+    enabled: !!formation,
+  });
+
+  const invalidateOverrides = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/prerequisite-overrides"] });
+    if (formation) {
+      queryClient.invalidateQueries({ queryKey: ["/api/formations", formation.id, "prerequisites"] });
+    }
+  };
+
+  const grantMutation = useMutation({
+    mutationFn: async () =>
+      apiRequest("/api/admin/prerequisite-overrides", "POST", {
+        userId,
+        formationId: formation!.id,
+        reason: reason.trim(),
+      }),
+    onSuccess: () => {
+      invalidateOverrides();
+      toast({ title: "Dérogation accordée" });
+      setUserId("");
+      setReason("");
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error.message || "Impossible d'accorder la dérogation",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/admin/prerequisite-overrides/${id}`, "DELETE"),
+    onSuccess: () => {
+      invalidateOverrides();
+      toast({ title: "Dérogation retirée" });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error.message || "Impossible de retirer la dérogation",
+      });
+    },
+  });
+
+  const overriddenUserIds = new Set(overrides.map((override) => override.userId));
+  const candidates = users
+    .filter((user) => !overriddenUserIds.has(user.id))
+    .sort((a, b) => a.name.localeCompare(b.name, "fr"));
+
+  return (
+    <Dialog open={!!formation} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Dérogations aux prérequis</DialogTitle>
+          <DialogDescription>
+            Les collaborateurs listés peuvent s'inscrire à « {formation?.title} » sans avoir suivi ses prérequis.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : overrides.length === 0 ? (
+          <p className="rounded-lg border border-dashed p-4 text-center text-sm text-muted-foreground">
+            Aucune dérogation accordée pour cette formation.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-lg border">
+            {overrides.map((override) => (
+              <li
+                key={override.id}
+                className="flex items-start justify-between gap-4 p-3"
+                data-testid={`row-prerequisite-override-${override.id}`}
+              >
+                <div className="space-y-1">
+                  <p className="font-medium">{override.userName ?? override.userId}</p>
+                  <p className="text-sm text-muted-foreground">{override.reason}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Accordée le {new Date(override.createdAt).toLocaleDateString("fr-FR")}
+                    {override.grantedByName && ` par ${override.grantedByName}`}
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => revokeMutation.mutate(override.id)}
+                  disabled={revokeMutation.isPending}
+                  data-testid={`button-revoke-prerequisite-override-${override.id}`}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="space-y-2">
+            <Label htmlFor="prerequisite-override-user">Collaborateur</Label>
+            <Select value={userId} onValueChange={setUserId}>
+              <SelectTrigger id="prerequisite-override-user" data-testid="select-prerequisite-override-user">
+                <SelectValue placeholder="Choisir un collaborateur" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="prerequisite-override-reason">Motif</Label>
+            <Textarea
+              id="prerequisite-override-reason"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+              rows={2}
+              maxLength={500}
+              placeholder="ex : compétences acquises en mission"
+              data-testid="textarea-prerequisite-override-reason"
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Fermer
+          </Button>
+          <Button
+            onClick={() => grantMutation.mutate()}
+            disabled={!userId || !reason.trim() || grantMutation.isPending}
+            data-testid="button-grant-prerequisite-override"
+          >
+            {grantMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Accorder la dérogation
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
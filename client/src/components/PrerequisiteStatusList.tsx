@@ -0,0 +1,67 @@
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, CheckCircle, XCircle } from "lucide-react";
+import {
+  PREREQUISITE_GROUP_MODE_LABELS,
+  type PrerequisiteFormationStatus,
+  type PrerequisiteGroupStatus,
+} from "@shared/formation-prerequisites";
+
+const STATUS_ICONS: Record<PrerequisiteFormationStatus, { icon: typeof CheckCircle; className: string }> = {
+  completed: { icon: CheckCircle, className: "text-accent" },
+  expired: { icon: AlertCircle, className: "text-yellow-600" },
+  missing: { icon: XCircle, className: "text-destructive" },
+};
+
+const describeCompletion = (formation: PrerequisiteGroupStatus["formations"][number]) => {
+  if (!formation.completedAt) {
+    return "Non suivie";
+  }
+  const date = new Date(formation.completedAt).toLocaleDateString("fr-FR", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+  });
+  return formation.status === "expired" ? `Suivie le ${date}, à renouveler` : `Suivie le ${date}`;
+};
+
+interface PrerequisiteStatusListProps {
+  groups: PrerequisiteGroupStatus[];
+}
+
+export default function PrerequisiteStatusList({ groups }: PrerequisiteStatusListProps) {
+  return (
+    <div className="space-y-4">
+      {groups.map((group, index) => (
+        <div
+          key={index}
+          className="rounded-2xl border border-border/60 p-4"
+          data-testid={`prerequisite-group-${index}`}
+        >
+          <div className="mb-3 flex flex-wrap items-center gap-2">
+            <p className="font-medium text-foreground">{PREREQUISITE_GROUP_MODE_LABELS[group.mode]}</p>
+            {group.validityMonths && (
+              <Badge variant="outline">Suivie depuis moins de {group.validityMonths} mois</Badge>
+            )}
+            <Badge variant={group.met ? "secondary" : "destructive"}>{group.met ? "Rempli" : "Non rempli"}</Badge>
+          </div>
+          <ul className="space-y-2">
+            {group.formations.map((formation) => {
+              const config = STATUS_ICONS[formation.status];
+              const Icon = config.icon;
+              return (
+                <li key={formation.formationId} className="flex flex-wrap items-center gap-2 text-sm">
+                  <Icon className={`h-4 w-4 ${config.className}`} />
+                  <Link href={`/training/${formation.formationId}`} className="font-medium text-primary hover:underline">
+                    {formation.title}
+                  </Link>
+                  <span className="text-muted-foreground">{describeCompletion(formation)}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,15 +3,24 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Info, AlertCircle, Circle } from "lucide-react";
 import { Card } from "@/components/ui/card";
+import type { QuotaSummary } from "@shared/quota";
 
 interface PrioritySelectorProps {
   value: "P1" | "P2" | "P3";
   onChange: (value: "P1" | "P2" | "P3") => void;
   p1Available: boolean;
   p2Available: boolean;
+  quota?: QuotaSummary;
 }
 
-export default function PrioritySelector({ value, onChange, p1Available, p2Available }: PrioritySelectorProps) {
+const formatAllowance = (count: number, priority: string) =>
+  `${count} priorité${count > 1 ? "s" : ""} ${priority}`;
+
+export default function PrioritySelector({ value, onChange, p1Available, p2Available, quota }: PrioritySelectorProps) {
+  const allowanceText = quota
+    ? `Vous disposez de ${formatAllowance(quota.allowance.P1, "P1")} et ${formatAllowance(quota.allowance.P2, "P2")} sur le cycle ${quota.cycle.label}.`
+    : "Vous disposez d'un nombre limité de priorités P1 et P2 par cycle.";
+
   return (
     <div className="space-y-6" data-testid="priority-selector">
       <div>
@@ -19,7 +28,7 @@ export default function PrioritySelector({ value, onChange, p1Available, p2Avail
         <Alert className="bg-accent/10 border-accent/20">
           <Info className="h-5 w-5 text-accent" />
           <AlertDescription className="text-sm text-primary">
-            Vous disposez de 1 priorité P1 et 1 priorité P2 par an. Les priorités P1 sont traitées en premier, suivies
+            {allowanceText} Les priorités P1 sont traitées en premier, suivies
             des P2, puis des P3.
           </AlertDescription>
         </Alert>
@@ -40,11 +49,11 @@ export default function PrioritySelector({ value, onChange, p1Available, p2Avail
                   </Label>
                 </div>
                 <p className="text-sm text-muted-foreground mb-2">
-                  Limitée à 1 par an. Traitement prioritaire et validation garantie sous 48h.
+                  Nombre limité par cycle. Traitement prioritaire et validation garantie sous 48h.
                 </p>
                 {!p1Available && (
                   <div className="bg-destructive/10 border border-destructive/20 rounded-lg px-3 py-2 mt-3">
-                    <p className="text-xs font-medium text-destructive">⚠️ Quota P1 déjà utilisé cette année</p>
+                    <p className="text-xs font-medium text-destructive">⚠️ Quota P1 épuisé pour ce cycle</p>
                   </div>
                 )}
               </div>
@@ -64,11 +73,11 @@ export default function PrioritySelector({ value, onChange, p1Available, p2Avail
                   </Label>
                 </div>
                 <p className="text-sm text-muted-foreground mb-2">
-                  Limitée à 1 par an. Traitement après les P1, validation sous 5 jours.
+                  Nombre limité par cycle. Traitement après les P1, validation sous 5 jours.
                 </p>
                 {!p2Available && (
                   <div className="bg-accent/10 border border-accent/20 rounded-lg px-3 py-2 mt-3">
-                    <p className="text-xs font-medium text-accent">⚠️ Quota P2 déjà utilisé cette année</p>
+                    <p className="text-xs font-medium text-accent">⚠️ Quota P2 épuisé pour ce cycle</p>
                   </div>
                 )}
               </div>
@@ -0,0 +1,314 @@
+import { useEffect, useMemo, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { SENIORITY_LEVELS } from "@shared/schema";
+import {
+  DEFAULT_QUOTA_CYCLE_SETTINGS,
+  getQuotaCycle,
+  type QuotaCycleSettings,
+} from "@shared/quota";
+
+const MONTH_LABELS = [
+  "janvier",
+  "février",
+  "mars",
+  "avril",
+  "mai",
+  "juin",
+  "juillet",
+  "août",
+  "septembre",
+  "octobre",
+  "novembre",
+  "décembre",
+];
+
+const ANY_SENIORITY = "any";
+
+const clampAllowance = (value: string) => {
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? Math.min(10, Math.max(0, parsed)) : 0;
+};
+
+interface QuotaCycleSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function QuotaCycleSettingsDialog({ open, onOpenChange }: QuotaCycleSettingsDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<QuotaCycleSettings>(DEFAULT_QUOTA_CYCLE_SETTINGS);
+
+  const { data: settings, isLoading } = useQuery<QuotaCycleSettings>({
+    queryKey: ["/api/admin/settings/quota-cycle"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && settings) {
+      setDraft(settings);
+    }
+  }, [open, settings]);
+
+  const currentCycle = useMemo(() => getQuotaCycle(new Date(), draft), [draft]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (payload: QuotaCycleSettings) => {
+      return apiRequest("/api/admin/settings/quota-cycle", "PATCH", payload);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings/quota-cycle"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      toast({
+        title: "Quotas mis à jour",
+        description: "Le cycle et les droits P1/P2 ont été enregistrés.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error.message || "Impossible d'enregistrer les quotas",
+      });
+    },
+  });
+
+  const updateRule = (index: number, changes: Partial<QuotaCycleSettings["rules"][number]>) => {
+    setDraft((current) => ({
+      ...current,
+      rules: current.rules.map((rule, ruleIndex) => (ruleIndex === index ? { ...rule, ...changes } : rule)),
+    }));
+  };
+
+  const handleSave = () => {
+    saveMutation.mutate({
+      ...draft,
+      rules: draft.rules.map((rule) => ({
+        ...rule,
+        businessUnit: rule.businessUnit?.trim() || null,
+      })),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Cycle des priorités P1/P2</DialogTitle>
+          <DialogDescription>
+            Les droits P1/P2 sont renouvelés à chaque date anniversaire de campagne. La consommation est recalculée à partir des intentions et inscriptions du cycle.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-10">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="quota-start-day">Début de campagne</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="quota-start-day"
+                    type="number"
+                    min={1}
+                    max={28}
+                    className="w-20"
+                    value={draft.startDay}
+                    onChange={(event) =>
+                      setDraft((current) => ({
+                        ...current,
+                        startDay: Math.min(28, Math.max(1, Number.parseInt(event.target.value, 10) || 1)),
+                      }))
+                    }
+                    data-testid="input-quota-start-day"
+                  />
+                  <Select
+                    value={String(draft.startMonth)}
+                    onValueChange={(value) =>
+                      setDraft((current) => ({ ...current, startMonth: Number(value) }))
+                    }
+                  >
+                    <SelectTrigger data-testid="select-quota-start-month">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MONTH_LABELS.map((label, index) => (
+                        <SelectItem key={label} value={String(index + 1)}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Cycle en cours : {currentCycle.label} (du{" "}
+                  {currentCycle.startsAt.toLocaleDateString("fr-FR", { timeZone: "UTC" })} au{" "}
+                  {new Date(currentCycle.endsAt.getTime() - 1).toLocaleDateString("fr-FR", { timeZone: "UTC" })})
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label>Droits par défaut</Label>
+                <div className="flex items-center gap-3">
+                  {(["P1", "P2"] as const).map((priority) => (
+                    <div key={priority} className="flex items-center gap-2">
+                      <span className="text-sm font-medium">{priority}</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={10}
+                        className="w-20"
+                        value={draft.defaultAllowance[priority]}
+                        onChange={(event) =>
+                          setDraft((current) => ({
+                            ...current,
+                            defaultAllowance: {
+                              ...current.defaultAllowance,
+                              [priority]: clampAllowance(event.target.value),
+                            },
+                          }))
+                        }
+                        data-testid={`input-quota-default-${priority.toLowerCase()}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-foreground">Règles spécifiques</p>
+                  <p className="text-xs text-muted-foreground">
+                    La première règle correspondant au collaborateur s'applique. Un critère vide accepte toutes les valeurs.
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setDraft((current) => ({
+                      ...current,
+                      rules: [
+                        ...current.rules,
+                        { seniority: null, businessUnit: null, ...current.defaultAllowance },
+                      ],
+                    }))
+                  }
+                  data-testid="button-add-quota-rule"
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Ajouter
+                </Button>
+              </div>
+
+              {draft.rules.length === 0 ? (
+                <p className="rounded-2xl border border-dashed border-border/60 p-4 text-center text-sm text-muted-foreground">
+                  Tous les collaborateurs bénéficient des droits par défaut.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {draft.rules.map((rule, index) => (
+                    <div
+                      key={index}
+                      className="grid items-center gap-2 rounded-2xl border border-border/50 p-3 sm:grid-cols-[1fr_1fr_auto_auto_auto]"
+                    >
+                      <Select
+                        value={rule.seniority ?? ANY_SENIORITY}
+                        onValueChange={(value) =>
+                          updateRule(index, { seniority: value === ANY_SENIORITY ? null : value })
+                        }
+                      >
+                        <SelectTrigger data-testid={`select-quota-rule-seniority-${index}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={ANY_SENIORITY}>Toutes séniorités</SelectItem>
+                          {SENIORITY_LEVELS.map((level) => (
+                            <SelectItem key={level} value={level}>
+                              {level}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        placeholder="Toutes BU"
+                        value={rule.businessUnit ?? ""}
+                        onChange={(event) => updateRule(index, { businessUnit: event.target.value })}
+                        data-testid={`input-quota-rule-bu-${index}`}
+                      />
+                      {(["P1", "P2"] as const).map((priority) => (
+                        <div key={priority} className="flex items-center gap-1">
+                          <span className="text-xs font-medium">{priority}</span>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={10}
+                            className="w-16"
+                            value={rule[priority]}
+                            onChange={(event) =>
+                              updateRule(index, { [priority]: clampAllowance(event.target.value) })
+                            }
+                            data-testid={`input-quota-rule-${priority.toLowerCase()}-${index}`}
+                          />
+                        </div>
+                      ))}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Supprimer la règle"
+                        onClick={() =>
+                          setDraft((current) => ({
+                            ...current,
+                            rules: current.rules.filter((_, ruleIndex) => ruleIndex !== index),
+                          }))
+                        }
+                        data-testid={`button-remove-quota-rule-${index}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Annuler
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || saveMutation.isPending} data-testid="button-save-quota-cycle">
+            {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Enregistrer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
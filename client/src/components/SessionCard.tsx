@@ -2,6 +2,7 @@ import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Calendar, MapPin, Users, User, Check } from "lucide-react";
 import type { Session } from "@shared/schema";
+import { DEEP_LINK_HIGHLIGHT_CLASS, getDeepLinkElementId } from "@/hooks/use-deep-link";
 
 interface SessionCardProps {
   session: Session;
@@ -9,6 +10,10 @@ interface SessionCardProps {
   enrolledCount: number;
   isSelected?: boolean;
   isFull?: boolean;
+  // Full sessions stay selectable to join their waitlist
+  waitlistOpen?: boolean;
+  // Target of the notification link that opened the page
+  isHighlighted?: boolean;
   onClick?: () => void;
 }
 
@@ -18,8 +23,11 @@ export default function SessionCard({
   enrolledCount,
   isSelected,
   isFull,
+  waitlistOpen,
+  isHighlighted,
   onClick,
 }: SessionCardProps) {
+  const isDisabled = isFull && !waitlistOpen;
   const capacityPercentage = (enrolledCount / session.capacity) * 100;
   
   // Convert string dates to Date objects
@@ -32,8 +40,11 @@ export default function SessionCard({
         isSelected 
           ? "ring-2 ring-accent border-accent shadow-lg" 
           : "shadow-md hover:shadow-lg border-border"
-      } ${isFull ? "opacity-50 cursor-not-allowed" : "hover:border-accent/50"}`}
-      onClick={!isFull ? onClick : undefined}
+      } ${isDisabled ? "opacity-50 cursor-not-allowed" : "hover:border-accent/50"} ${
+        isHighlighted && !isSelected ? DEEP_LINK_HIGHLIGHT_CLASS : ""
+      }`}
+      onClick={!isDisabled ? onClick : undefined}
+      id={getDeepLinkElementId("session", session.id)}
       data-testid={`card-session-${session.id}`}
     >
       <div className="space-y-4">
@@ -62,7 +73,11 @@ export default function SessionCard({
               <Check className="w-4 h-4" />
             </div>
           )}
-          {isFull && <Badge className="bg-muted text-muted-foreground">Complet</Badge>}
+          {isFull && (
+            <Badge className="bg-muted text-muted-foreground">
+              {waitlistOpen ? "Complet · liste d'attente" : "Complet"}
+            </Badge>
+          )}
         </div>
 
         {session.location && (
@@ -0,0 +1,120 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { BellRing, Loader2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  DEFAULT_SESSION_REMINDER_SETTINGS,
+  type SessionReminderSettings,
+} from "@shared/session-reminders";
+
+const formatOffsets = (offsets: number[]) => offsets.join(", ");
+
+const parseOffsets = (value: string) =>
+  value
+    .split(/[,;\s]+/)
+    .map((part) => part.trim().replace(/^j-/i, ""))
+    .filter(Boolean)
+    .map((part) => Number.parseInt(part, 10));
+
+export default function SessionReminderSettingsCard() {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(DEFAULT_SESSION_REMINDER_SETTINGS.enabled);
+  const [offsetsInput, setOffsetsInput] = useState(
+    formatOffsets(DEFAULT_SESSION_REMINDER_SETTINGS.offsetsInDays),
+  );
+
+  const { data: settings } = useQuery<SessionReminderSettings>({
+    queryKey: ["/api/admin/settings/session-reminders"],
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setEnabled(settings.enabled);
+      setOffsetsInput(formatOffsets(settings.offsetsInDays));
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (payload: SessionReminderSettings) =>
+      apiRequest("/api/admin/settings/session-reminders", "PATCH", payload),
+    onSuccess: (data: SessionReminderSettings) => {
+      queryClient.setQueryData(["/api/admin/settings/session-reminders"], data);
+      toast({
+        title: "Rappels mis à jour",
+        description: data.enabled
+          ? `Rappels envoyés à ${data.offsetsInDays.map((offset) => `J-${offset}`).join(" et ")}.`
+          : "Les rappels de session sont désactivés.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error?.message || "Impossible d'enregistrer les rappels.",
+      });
+    },
+  });
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const offsetsInDays = parseOffsets(offsetsInput);
+    if (offsetsInDays.some((offset) => !Number.isInteger(offset) || offset < 1 || offset > 60)) {
+      toast({
+        variant: "destructive",
+        title: "Délais invalides",
+        description: "Indiquez des nombres de jours entre 1 et 60, séparés par des virgules.",
+      });
+      return;
+    }
+    saveMutation.mutate({ enabled, offsetsInDays });
+  };
+
+  return (
+    <Card className="rounded-[1.75rem] border border-border/60 p-8 shadow-sm">
+      <form onSubmit={handleSubmit} className="flex flex-col gap-6 md:flex-row md:items-end md:justify-between">
+        <div className="flex items-start gap-3">
+          <BellRing className="mt-1 h-5 w-5 text-primary" />
+          <div>
+            <h2 className="text-xl font-semibold text-foreground">Rappels de session</h2>
+            <p className="text-sm text-muted-foreground">
+              Participants et formateurs reçoivent un rappel avec les supports et l'invitation calendrier avant chaque
+              session.
+            </p>
+          </div>
+        </div>
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex items-center gap-2 pb-2">
+            <Switch
+              id="session-reminders-enabled"
+              checked={enabled}
+              onCheckedChange={(checked) => setEnabled(Boolean(checked))}
+            />
+            <Label htmlFor="session-reminders-enabled">Activés</Label>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="session-reminders-offsets">Jours avant la session</Label>
+            <Input
+              id="session-reminders-offsets"
+              value={offsetsInput}
+              onChange={(event) => setOffsetsInput(event.target.value)}
+              placeholder="7, 1"
+              className="w-40"
+              disabled={!enabled}
+              data-testid="input-session-reminder-offsets"
+            />
+          </div>
+          <Button type="submit" disabled={saveMutation.isPending} className="gap-2">
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Enregistrer
+          </Button>
+        </div>
+      </form>
+    </Card>
+  );
+}
@@ -15,6 +15,8 @@ export default function StatusBadge({ status }: StatusBadgeProps) {
         return { label: "Ouvert", className: "bg-accent text-accent-foreground" };
       case "pending":
         return { label: "En attente", className: "bg-destructive/10 text-destructive border-destructive/20" };
+      case "waitlisted":
+        return { label: "Liste d'attente", className: "bg-secondary text-secondary-foreground" };
       case "cancelled":
         return { label: "Annulé", className: "bg-muted text-muted-foreground" };
       case "full":
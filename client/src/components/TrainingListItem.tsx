@@ -2,7 +2,7 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import StatusBadge from "./StatusBadge";
 import PriorityBadge from "./PriorityBadge";
-import { Calendar, MapPin, ArrowRight } from "lucide-react";
+import { Calendar, MapPin, ArrowRight, Award } from "lucide-react";
 
 interface TrainingListItemProps {
   title: string;
@@ -10,6 +10,8 @@ interface TrainingListItemProps {
   priority?: "P1" | "P2" | "P3";
   date: Date;
   location?: string;
+  // Downloads the attestation, shown once the training is completed and attended
+  onDownloadCertificate?: () => void;
   onViewDetails: () => void;
 }
 
@@ -19,6 +21,7 @@ export default function TrainingListItem({
   priority,
   date,
   location,
+  onDownloadCertificate,
   onViewDetails,
 }: TrainingListItemProps) {
   return (
@@ -50,18 +53,35 @@ export default function TrainingListItem({
           </div>
         </div>
       </div>
-      <Button
-        variant="ghost"
-        size="icon"
-        className="flex-shrink-0 rounded-lg border border-black/10 bg-white text-muted-foreground transition hover:border-primary/20 hover:text-primary"
-        onClick={(e) => {
-          e.stopPropagation();
-          onViewDetails();
-        }}
-        data-testid="button-view-training"
-      >
-        <ArrowRight className="h-5 w-5" />
-      </Button>
+      <div className="flex flex-shrink-0 items-center gap-2">
+        {onDownloadCertificate && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-lg"
+            onClick={(e) => {
+              e.stopPropagation();
+              onDownloadCertificate();
+            }}
+            data-testid="button-download-certificate"
+          >
+            <Award className="mr-2 h-4 w-4" />
+            Attestation
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="flex-shrink-0 rounded-lg border border-black/10 bg-white text-muted-foreground transition hover:border-primary/20 hover:text-primary"
+          onClick={(e) => {
+            e.stopPropagation();
+            onViewDetails();
+          }}
+          data-testid="button-view-training"
+        >
+          <ArrowRight className="h-5 w-5" />
+        </Button>
+      </div>
     </Card>
   );
 }
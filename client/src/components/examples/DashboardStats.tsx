@@ -5,8 +5,17 @@ export default function DashboardStatsExample() {
     <DashboardStats
       upcomingCount={2}
       completedCount={5}
-      p1Used={0}
-      p2Used={1}
+      quota={{
+        cycle: {
+          year: 2025,
+          label: "2025",
+          startsAt: "2025-01-01T00:00:00.000Z",
+          endsAt: "2026-01-01T00:00:00.000Z",
+        },
+        allowance: { P1: 1, P2: 1 },
+        used: { P1: 0, P2: 1 },
+        remaining: { P1: 1, P2: 0 },
+      }}
     />
   );
 }
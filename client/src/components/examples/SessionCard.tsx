@@ -10,9 +10,12 @@ export default function SessionCardExample() {
     startDate: new Date("2025-11-15T09:00:00"),
     endDate: new Date("2025-11-16T17:00:00"),
     location: "Salle Paris - La Défense",
+    meetingUrl: null,
     capacity: 12,
     instructorId: "3",
     status: "open",
+    cancellationReason: null,
+    cancelledAt: null,
   };
 
   const session2 = {
@@ -21,9 +24,12 @@ export default function SessionCardExample() {
     startDate: new Date("2025-12-10T09:00:00"),
     endDate: new Date("2025-12-11T17:00:00"),
     location: "Salle Lyon Part-Dieu",
+    meetingUrl: null,
     capacity: 12,
     instructorId: "3",
     status: "full",
+    cancellationReason: null,
+    cancelledAt: null,
   };
 
   return (
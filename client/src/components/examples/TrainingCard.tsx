@@ -8,12 +8,16 @@ export default function TrainingCardExample() {
     objectives: "Comprendre les valeurs Agile",
     prerequisites: "Aucun",
     duration: "2 jours",
+    durationUnit: "days",
+    durationValue: 2,
+    dailySchedule: null,
     modality: "presentiel",
     seniorityRequired: "Junior",
     theme: "Gestion de projet",
     tags: ["agile", "scrum", "gestion projet"],
     active: true,
     content: null,
+    prerequisiteGroups: null,
   };
 
   return (
@@ -0,0 +1,32 @@
+import { useEffect, useMemo } from "react";
+import { useSearch } from "wouter";
+
+// Classes marking the element a notification link points to; rows cannot carry a ring
+export const DEEP_LINK_HIGHLIGHT_CLASS = "ring-2 ring-primary ring-offset-2";
+export const DEEP_LINK_ROW_HIGHLIGHT_CLASS = "bg-primary/10 hover:bg-primary/10";
+
+export const getDeepLinkElementId = (param: string, id: string) => `${param}-${id}`;
+
+/**
+ * Reads the id a notification link targets (`?interest=…`, `?session=…`) and scrolls to the
+ * element carrying `getDeepLinkElementId(param, id)` once `ready` says it is rendered.
+ */
+export function useDeepLinkTarget(param: string, ready = true) {
+  const search = useSearch();
+  const targetId = useMemo(() => new URLSearchParams(search).get(param), [search, param]);
+
+  useEffect(() => {
+    if (!targetId || !ready) {
+      return;
+    }
+    // Waits a frame so tabs switched for the target have rendered their content
+    const frame = window.requestAnimationFrame(() => {
+      document
+        .getElementById(getDeepLinkElementId(param, targetId))
+        ?.scrollIntoView({ behavior: "smooth", block: "center" });
+    });
+    return () => window.cancelAnimationFrame(frame);
+  }, [param, targetId, ready]);
+
+  return targetId;
+}
@@ -1,6 +1,7 @@
-import { useMemo } from "react";
+import { useEffect, useMemo, useSyncExternalStore } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { NotificationMetadata } from "@shared/schema";
 
 export interface UserNotification {
   id: string;
@@ -8,10 +9,13 @@ export interface UserNotification {
   route: string;
   title: string;
   message?: string | null;
-  metadata?: Record<string, unknown> | null;
+  kind?: string | null;
+  category?: string | null;
+  metadata?: NotificationMetadata | null;
   read: boolean;
   createdAt: string;
   readAt?: string | null;
+  archivedAt?: string | null;
 }
 
 export interface NotificationsResponse {
@@ -20,9 +24,126 @@ export interface NotificationsResponse {
   totalUnread: number;
 }
 
+export interface NotificationHistoryResponse {
+  notifications: UserNotification[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export type NotificationHistoryStatus = "all" | "unread" | "read" | "archived";
+
+export interface NotificationHistoryFilters {
+  status: NotificationHistoryStatus;
+  category?: string;
+  page: number;
+  pageSize: number;
+}
+
 export const notificationsQueryKey = ["/api/notifications"] as const;
+// Nested under the main key so every invalidation of notifications refreshes the history too
+const notificationHistoryQueryKey = [...notificationsQueryKey, "history"] as const;
+
+// Polling only covers for the stream: frequent while disconnected, occasional as a safety net
+const DISCONNECTED_POLL_INTERVAL_MS = 60_000;
+const CONNECTED_POLL_INTERVAL_MS = 5 * 60_000;
+
+type UnreadSummary = Pick<NotificationsResponse, "unreadCounts" | "totalUnread">;
+
+const applyUnreadSummary = (summary: UnreadSummary) => {
+  queryClient.setQueryData<NotificationsResponse>(notificationsQueryKey, (previous) =>
+    previous
+      ? { ...previous, unreadCounts: summary.unreadCounts, totalUnread: summary.totalUnread }
+      : previous
+  );
+};
+
+/**
+ * One EventSource per tab, shared by every component reading notifications. The browser
+ * reconnects on its own after a network error; polling takes over in the meantime.
+ */
+const notificationStream = (() => {
+  let source: EventSource | null = null;
+  let subscriberCount = 0;
+  let connected = false;
+  const listeners = new Set<() => void>();
+
+  const setConnected = (value: boolean) => {
+    if (connected !== value) {
+      connected = value;
+      listeners.forEach((listener) => listener());
+    }
+  };
+
+  const open = () => {
+    if (source || typeof EventSource === "undefined") {
+      return;
+    }
+    source = new EventSource("/api/notifications/stream", { withCredentials: true });
+    source.onopen = () => setConnected(true);
+    source.onerror = () => setConnected(false);
+
+    source.addEventListener("unread", (event) => {
+      applyUnreadSummary(JSON.parse((event as MessageEvent).data) as UnreadSummary);
+    });
+    source.addEventListener("notification", (event) => {
+      const { notification, ...summary } = JSON.parse((event as MessageEvent).data) as UnreadSummary & {
+        notification: UserNotification;
+      };
+      queryClient.setQueryData<NotificationsResponse>(notificationsQueryKey, (previous) =>
+        previous
+          ? {
+              notifications: [
+                notification,
+                ...previous.notifications.filter((existing) => existing.id !== notification.id),
+              ],
+              ...summary,
+            }
+          : previous
+      );
+      queryClient.invalidateQueries({ queryKey: notificationHistoryQueryKey });
+    });
+    // Read flags changed elsewhere (another tab or device): refresh the list itself
+    source.addEventListener("read", (event) => {
+      applyUnreadSummary(JSON.parse((event as MessageEvent).data) as UnreadSummary);
+      queryClient.invalidateQueries({ queryKey: notificationsQueryKey });
+    });
+  };
+
+  const close = () => {
+    source?.close();
+    source = null;
+    setConnected(false);
+  };
+
+  return {
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    isConnected: () => connected,
+    retain() {
+      subscriberCount += 1;
+      open();
+      return () => {
+        subscriberCount -= 1;
+        if (subscriberCount === 0) {
+          close();
+        }
+      };
+    },
+  };
+})();
 
 export function useNotifications() {
+  useEffect(() => notificationStream.retain(), []);
+  const streamConnected = useSyncExternalStore(
+    notificationStream.subscribe,
+    notificationStream.isConnected
+  );
+
   return useQuery<NotificationsResponse>({
     queryKey: notificationsQueryKey,
     queryFn: async () => {
@@ -32,15 +153,40 @@ export function useNotifications() {
       }
       return response.json();
     },
-    refetchInterval: 60_000,
+    refetchInterval: streamConnected ? CONNECTED_POLL_INTERVAL_MS : DISCONNECTED_POLL_INTERVAL_MS,
     refetchOnWindowFocus: true,
     staleTime: 30_000,
   });
 }
 
+export function useNotificationHistory(filters: NotificationHistoryFilters) {
+  return useQuery<NotificationHistoryResponse>({
+    queryKey: [...notificationHistoryQueryKey, filters],
+    queryFn: async () => {
+      const params = new URLSearchParams({
+        status: filters.status,
+        page: String(filters.page),
+        pageSize: String(filters.pageSize),
+      });
+      if (filters.category) {
+        params.set("category", filters.category);
+      }
+      const response = await fetch(`/api/notifications/history?${params.toString()}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Impossible de récupérer les notifications");
+      }
+      return response.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+}
+
 export type MarkNotificationInput = {
   route?: string;
   notificationIds?: string[];
+  all?: true;
 };
 
 export function useMarkNotificationsRead() {
@@ -56,6 +202,32 @@ export function useMarkNotificationsRead() {
   });
 }
 
+export function useMarkNotificationsUnread() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (notificationIds: string[]) => {
+      await apiRequest("/api/notifications/unread", "POST", { notificationIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationsQueryKey });
+    },
+  });
+}
+
+export function useArchiveNotifications() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: { notificationIds: string[]; archived: boolean }) => {
+      await apiRequest("/api/notifications/archive", "POST", input);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: notificationsQueryKey });
+    },
+  });
+}
+
 export function useRouteNotifications(route: string) {
   const query = useNotifications();
 
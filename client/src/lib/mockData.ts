@@ -14,9 +14,9 @@ export const mockUsers: User[] = [
     roles: ["consultant"],
     seniority: "Senior",
     businessUnit: "Digital",
-    p1Used: 0,
-    p2Used: 1,
     archived: false,
+    mustChangePassword: false,
+    ssoRoles: [],
   },
   {
     id: "2",
@@ -30,9 +30,9 @@ export const mockUsers: User[] = [
     roles: ["consultant", "rh"],
     seniority: null,
     businessUnit: "RH",
-    p1Used: 0,
-    p2Used: 0,
     archived: false,
+    mustChangePassword: false,
+    ssoRoles: [],
   },
   {
     id: "3",
@@ -46,9 +46,9 @@ export const mockUsers: User[] = [
     roles: ["consultant", "formateur"],
     seniority: "Directeur",
     businessUnit: "Tech",
-    p1Used: 0,
-    p2Used: 0,
     archived: false,
+    mustChangePassword: false,
+    ssoRoles: [],
   },
   {
     id: "5",
@@ -62,9 +62,9 @@ export const mockUsers: User[] = [
     roles: ["formateur_externe"],
     seniority: "Supervising Senior",
     businessUnit: "Partenaire externe",
-    p1Used: 0,
-    p2Used: 0,
     archived: false,
+    mustChangePassword: false,
+    ssoRoles: [],
   },
   {
     id: "4",
@@ -78,9 +78,9 @@ export const mockUsers: User[] = [
     roles: ["consultant", "manager"],
     seniority: "Supervising Senior",
     businessUnit: "Consulting",
-    p1Used: 0,
-    p2Used: 0,
     archived: false,
+    mustChangePassword: false,
+    ssoRoles: [],
   },
 ];
 
@@ -93,12 +93,16 @@ export const mockFormations: Formation[] = [
     objectives: "Comprendre les valeurs Agile, maîtriser les cérémonies Scrum, appliquer les bonnes pratiques",
     prerequisites: "Aucun prérequis",
     duration: "2 jours",
+    durationUnit: "days",
+    durationValue: 2,
+    dailySchedule: null,
     modality: "presentiel",
     seniorityRequired: "Alternant",
     theme: "Gestion de projet",
     tags: ["agile", "scrum", "gestion projet"],
     active: true,
     content: null,
+    prerequisiteGroups: null,
   },
   {
     id: "f2",
@@ -107,12 +111,16 @@ export const mockFormations: Formation[] = [
     objectives: "Développer son style de leadership, motiver ses équipes, gérer les conflits",
     prerequisites: "Expérience en management souhaitée",
     duration: "3 jours",
+    durationUnit: "days",
+    durationValue: 3,
+    dailySchedule: null,
     modality: "hybride",
     seniorityRequired: "Manager",
     theme: "Management",
     tags: ["leadership", "management", "soft skills"],
     active: true,
     content: null,
+    prerequisiteGroups: null,
   },
   {
     id: "f3",
@@ -121,12 +129,16 @@ export const mockFormations: Formation[] = [
     objectives: "Maîtriser pandas, créer des modèles ML, visualiser les données",
     prerequisites: "Connaissance de base en Python",
     duration: "5 jours",
+    durationUnit: "days",
+    durationValue: 5,
+    dailySchedule: null,
     modality: "distanciel",
     seniorityRequired: "Senior",
     theme: "Technique",
     tags: ["python", "data science", "machine learning"],
     active: true,
     content: null,
+    prerequisiteGroups: null,
   },
   {
     id: "f4",
@@ -135,12 +147,16 @@ export const mockFormations: Formation[] = [
     objectives: "Structurer ses messages, adapter sa communication, gérer les situations délicates",
     prerequisites: "Aucun prérequis",
     duration: "1 jour",
+    durationUnit: "days",
+    durationValue: 1,
+    dailySchedule: null,
     modality: "presentiel",
     seniorityRequired: "Junior",
     theme: "Soft Skills",
     tags: ["communication", "soft skills"],
     active: true,
     content: null,
+    prerequisiteGroups: null,
   },
   {
     id: "f5",
@@ -149,12 +165,16 @@ export const mockFormations: Formation[] = [
     objectives: "Concevoir des architectures scalables, optimiser les coûts, sécuriser les infrastructures",
     prerequisites: "Expérience en infrastructure IT",
     duration: "4 jours",
+    durationUnit: "days",
+    durationValue: 4,
+    dailySchedule: null,
     modality: "distanciel",
     seniorityRequired: "Supervising Senior",
     theme: "Technique",
     tags: ["aws", "cloud", "architecture"],
     active: true,
     content: null,
+    prerequisiteGroups: null,
   },
   {
     id: "f6",
@@ -163,12 +183,16 @@ export const mockFormations: Formation[] = [
     objectives: "Identifier les opportunités digitales, piloter la transformation, mesurer les résultats",
     prerequisites: "Expérience en stratégie d'entreprise",
     duration: "2 jours",
+    durationUnit: "days",
+    durationValue: 2,
+    dailySchedule: null,
     modality: "presentiel",
     seniorityRequired: "Senior Manager",
     theme: "Stratégie",
     tags: ["digital", "transformation", "stratégie"],
     active: true,
     content: null,
+    prerequisiteGroups: null,
   },
 ];
 
@@ -180,9 +204,12 @@ export const mockSessions: Session[] = [
     startDate: new Date("2025-11-15T09:00:00"),
     endDate: new Date("2025-11-16T17:00:00"),
     location: "Salle Paris - La Défense",
+    meetingUrl: null,
     capacity: 12,
     instructorId: "3",
     status: "open",
+    cancellationReason: null,
+    cancelledAt: null,
   },
   {
     id: "s2",
@@ -190,9 +217,12 @@ export const mockSessions: Session[] = [
     startDate: new Date("2025-12-10T09:00:00"),
     endDate: new Date("2025-12-11T17:00:00"),
     location: "Salle Lyon Part-Dieu",
+    meetingUrl: null,
     capacity: 12,
     instructorId: "3",
     status: "open",
+    cancellationReason: null,
+    cancelledAt: null,
   },
   {
     id: "s3",
@@ -200,9 +230,12 @@ export const mockSessions: Session[] = [
     startDate: new Date("2025-11-20T09:00:00"),
     endDate: new Date("2025-11-22T17:00:00"),
     location: "Salle Paris + Visio",
+    meetingUrl: null,
     capacity: 15,
     instructorId: "3",
     status: "open",
+    cancellationReason: null,
+    cancelledAt: null,
   },
   {
     id: "s4",
@@ -210,9 +243,12 @@ export const mockSessions: Session[] = [
     startDate: new Date("2025-11-25T09:00:00"),
     endDate: new Date("2025-11-29T17:00:00"),
     location: "Visio Teams",
+    meetingUrl: null,
     capacity: 20,
     instructorId: "3",
     status: "open",
+    cancellationReason: null,
+    cancelledAt: null,
   },
   {
     id: "s5",
@@ -220,9 +256,12 @@ export const mockSessions: Session[] = [
     startDate: new Date("2025-11-08T09:00:00"),
     endDate: new Date("2025-11-08T17:00:00"),
     location: "Salle Toulouse",
+    meetingUrl: null,
     capacity: 10,
     instructorId: "3",
     status: "full",
+    cancellationReason: null,
+    cancelledAt: null,
   },
 ];
 
@@ -235,6 +274,7 @@ export const mockRegistrations: Registration[] = [
     formationId: "f2",
     priority: "P2",
     status: "validated",
+    waitlistPosition: null,
     registeredAt: new Date("2025-10-15T10:30:00"),
     attended: false,
     attendanceSignedAt: null,
@@ -246,6 +286,7 @@ export const mockRegistrations: Registration[] = [
     formationId: "f3",
     priority: "P3",
     status: "pending",
+    waitlistPosition: null,
     registeredAt: new Date("2025-10-20T14:00:00"),
     attended: false,
     attendanceSignedAt: null,
@@ -26,6 +26,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 import { Loader2, Shield } from "lucide-react";
+import NotificationPreferencesCard from "@/components/NotificationPreferencesCard";
 
 const optionalTextField = z.preprocess(
   (value) => (typeof value === "string" ? value.trim() : value),
@@ -245,7 +246,7 @@ export default function AccountSettings({ currentUser }: AccountSettingsProps) {
       <div className="space-y-2">
         <h1 className="text-3xl font-semibold tracking-tight text-foreground">Mes informations</h1>
         <p className="text-muted-foreground">
-          Consultez et mettez à jour vos informations personnelles ainsi que votre mot de passe.
+          Consultez et mettez à jour vos informations personnelles, votre mot de passe et vos notifications.
         </p>
       </div>
 
@@ -464,6 +465,8 @@ export default function AccountSettings({ currentUser }: AccountSettingsProps) {
           </Card>
         </form>
       </Form>
+
+      <NotificationPreferencesCard roles={currentUser.roles} />
     </div>
   );
 }
@@ -7,13 +7,22 @@ import { Loader2, CheckCircle, QrCode, ArrowLeft } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
+import type { AttendancePeriod } from "@shared/schema";
 
 interface AttendanceResponse {
   message: string;
   sessionId: string;
+  segmentIndex: number;
+  period: AttendancePeriod;
   attendanceSignedAt: string;
 }
 
+const PERIOD_SUFFIXES: Record<AttendancePeriod, string> = {
+  day: "",
+  morning: " (matin)",
+  afternoon: " (après-midi)",
+};
+
 export default function AttendanceSign() {
   const [, fullRouteParams] = useRoute("/attendance/:token");
   const [, shortRouteParams] = useRoute("/a/:token");
@@ -76,7 +85,8 @@ export default function AttendanceSign() {
             <Alert className="border-accent/40 bg-accent/10 text-accent-foreground">
               <CheckCircle className="w-5 h-5 mr-2" />
               <AlertDescription>
-                Présence enregistrée pour la session #{success.sessionId}.
+                {success.message} pour le jour {success.segmentIndex + 1}
+                {PERIOD_SUFFIXES[success.period]} de la session #{success.sessionId}.
               </AlertDescription>
             </Alert>
           ) : (
@@ -0,0 +1,368 @@
+import { Fragment, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Download, Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import type { AdminAuditEventsResponse } from "@/types/admin";
+import type { AuditEntityType, User } from "@shared/schema";
+
+const PAGE_SIZE = 50;
+const ALL_VALUE = "all";
+
+const ENTITY_TYPE_LABELS: Record<AuditEntityType, string> = {
+  user: "Collaborateur",
+  formation: "Formation",
+  session: "Session",
+  registration: "Inscription",
+  interest: "Intention",
+  coach_assignment: "Affectation coach",
+  app_setting: "Paramètre",
+  prerequisite_override: "Dérogation aux prérequis",
+};
+
+interface AuditFilters {
+  entityType: string;
+  actorId: string;
+  action: string;
+  entityId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = {
+  entityType: ALL_VALUE,
+  actorId: ALL_VALUE,
+  action: "",
+  entityId: "",
+  from: "",
+  to: "",
+};
+
+const buildAuditQuery = (filters: AuditFilters) => {
+  const params = new URLSearchParams();
+  if (filters.entityType !== ALL_VALUE) params.set("entityType", filters.entityType);
+  if (filters.actorId !== ALL_VALUE) params.set("actorId", filters.actorId);
+  if (filters.action.trim()) params.set("action", filters.action.trim());
+  if (filters.entityId.trim()) params.set("entityId", filters.entityId.trim());
+  // Date inputs are local days, the range includes the whole "to" day
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+};
+
+const formatSnapshot = (value: unknown) =>
+  value === null || value === undefined ? "—" : JSON.stringify(value, null, 2);
+
+export default function AuditLog() {
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [expandedEventId, setExpandedEventId] = useState<string | null>(null);
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((current) => ({ ...current, [key]: value }));
+    setPage(1);
+  };
+
+  const filterParams = useMemo(() => buildAuditQuery(filters), [filters]);
+
+  const { data, isLoading, isFetching } = useQuery<AdminAuditEventsResponse>({
+    queryKey: ["/api/admin/audit-events", filterParams.toString(), page],
+    queryFn: async () => {
+      const params = new URLSearchParams(filterParams);
+      params.set("page", String(page));
+      params.set("pageSize", String(PAGE_SIZE));
+      const res = await fetch(`/api/admin/audit-events?${params.toString()}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch audit events");
+      return res.json();
+    },
+    placeholderData: (previous) => previous,
+  });
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+    queryFn: async () => {
+      const res = await fetch("/api/users", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch users");
+      return res.json();
+    },
+  });
+
+  const actors = useMemo(
+    () =>
+      users
+        .filter((candidate) => candidate.roles.some((role) => role !== "consultant"))
+        .sort((a, b) => a.name.localeCompare(b.name, "fr")),
+    [users]
+  );
+
+  const events = data?.events ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const exportHref = `/api/admin/audit-events/export?${filterParams.toString()}`;
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-12 w-12 animate-spin text-primary" />
+          <p className="text-muted-foreground">Chargement du journal d'audit...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-12">
+      <section className="surface-elevated relative overflow-hidden rounded-[2rem] px-12 py-14">
+        <div className="pointer-events-none absolute inset-y-10 right-0 hidden w-80 rounded-l-[40px] bg-[radial-gradient(circle_at_center,rgba(0,158,203,0.12),transparent_65%)] md:block" />
+        <div className="relative z-10 flex flex-col gap-10 md:flex-row md:items-center md:justify-between">
+          <div className="max-w-3xl space-y-4">
+            <p className="eyebrow text-muted-foreground">Suivi RH</p>
+            <h1 className="text-4xl font-semibold tracking-tight text-foreground md:text-5xl">
+              Journal d'audit
+            </h1>
+            <p className="text-base leading-relaxed text-muted-foreground">
+              Historique des modifications apportées aux collaborateurs, formations, sessions, intentions, inscriptions et paramètres.
+            </p>
+          </div>
+          <div className="rounded-3xl bg-white/70 p-6 shadow-lg ring-1 ring-black/5">
+            <p className="text-sm text-muted-foreground">Événements</p>
+            <p className="mt-2 text-4xl font-semibold text-foreground">{total}</p>
+            <p className="mt-3 text-xs uppercase tracking-wide text-muted-foreground">
+              correspondant aux filtres
+            </p>
+          </div>
+        </div>
+      </section>
+
+      <Card className="rounded-[1.75rem] border border-border/60 p-6 shadow-sm">
+        <div className="grid gap-4 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="audit-entity-type">Type d'élément</Label>
+            <Select
+              value={filters.entityType}
+              onValueChange={(value) => updateFilter("entityType", value)}
+            >
+              <SelectTrigger id="audit-entity-type" data-testid="select-audit-entity-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VALUE}>Tous les types</SelectItem>
+                {Object.entries(ENTITY_TYPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-actor">Auteur</Label>
+            <Select value={filters.actorId} onValueChange={(value) => updateFilter("actorId", value)}>
+              <SelectTrigger id="audit-actor" data-testid="select-audit-actor">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VALUE}>Tous les auteurs</SelectItem>
+                {actors.map((actor) => (
+                  <SelectItem key={actor.id} value={actor.id}>
+                    {actor.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-action">Action</Label>
+            <Input
+              id="audit-action"
+              data-testid="input-audit-action"
+              placeholder="ex. user.archive"
+              value={filters.action}
+              onChange={(event) => updateFilter("action", event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-entity-id">Identifiant de l'élément</Label>
+            <Input
+              id="audit-entity-id"
+              data-testid="input-audit-entity-id"
+              value={filters.entityId}
+              onChange={(event) => updateFilter("entityId", event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-from">Du</Label>
+            <Input
+              id="audit-from"
+              type="date"
+              data-testid="input-audit-from"
+              value={filters.from}
+              onChange={(event) => updateFilter("from", event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="audit-to">Au</Label>
+            <Input
+              id="audit-to"
+              type="date"
+              data-testid="input-audit-to"
+              value={filters.to}
+              onChange={(event) => updateFilter("to", event.target.value)}
+            />
+          </div>
+        </div>
+        <div className="mt-6 flex flex-wrap items-center justify-between gap-3">
+          <Button
+            variant="ghost"
+            onClick={() => {
+              setFilters(EMPTY_FILTERS);
+              setPage(1);
+            }}
+            data-testid="button-reset-audit-filters"
+          >
+            Réinitialiser les filtres
+          </Button>
+          <Button asChild variant="outline" className="flex items-center gap-2">
+            <a href={exportHref} data-testid="link-export-audit">
+              <Download className="h-4 w-4" />
+              Exporter en CSV
+            </a>
+          </Button>
+        </div>
+      </Card>
+
+      {events.length === 0 ? (
+        <Card className="rounded-[1.75rem] border border-dashed border-border/60 bg-muted/30 p-12 text-center shadow-none">
+          <p className="text-lg font-semibold text-foreground">Aucun événement</p>
+          <p className="mt-2 text-sm text-muted-foreground">
+            Aucune modification ne correspond à ces filtres.
+          </p>
+        </Card>
+      ) : (
+        <Card className="rounded-[1.75rem] border border-border/60 p-6 shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Auteur</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Élément</TableHead>
+                <TableHead className="text-right">Détails</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => {
+                const isExpanded = expandedEventId === event.id;
+                return (
+                  <Fragment key={event.id}>
+                    <TableRow data-testid={`row-audit-${event.id}`}>
+                      <TableCell className="whitespace-nowrap">
+                        {format(new Date(event.createdAt), "dd MMM yyyy HH:mm:ss", { locale: fr })}
+                      </TableCell>
+                      <TableCell>{event.actorName ?? "Système"}</TableCell>
+                      <TableCell>
+                        <code className="text-xs">{event.action}</code>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex flex-col gap-1">
+                          <Badge variant="outline" className="w-fit">
+                            {ENTITY_TYPE_LABELS[event.entityType as AuditEntityType] ?? event.entityType}
+                          </Badge>
+                          {event.entityId && (
+                            <span className="text-xs text-muted-foreground">{event.entityId}</span>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedEventId(isExpanded ? null : event.id)}
+                          data-testid={`button-toggle-audit-${event.id}`}
+                        >
+                          {isExpanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={5}>
+                          <div className="grid gap-4 md:grid-cols-2">
+                            <div className="space-y-2">
+                              <p className="text-sm font-semibold text-foreground">Avant</p>
+                              <pre className="max-h-80 overflow-auto rounded-xl bg-muted/40 p-4 text-xs">
+                                {formatSnapshot(event.before)}
+                              </pre>
+                            </div>
+                            <div className="space-y-2">
+                              <p className="text-sm font-semibold text-foreground">Après</p>
+                              <pre className="max-h-80 overflow-auto rounded-xl bg-muted/40 p-4 text-xs">
+                                {formatSnapshot(event.after)}
+                              </pre>
+                            </div>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          <div className="mt-6 flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              Page {page} sur {pageCount}
+              {isFetching && <Loader2 className="ml-2 inline h-4 w-4 animate-spin" />}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1}
+                onClick={() => setPage((current) => Math.max(1, current - 1))}
+                data-testid="button-audit-previous-page"
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Précédent
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= pageCount}
+                onClick={() => setPage((current) => Math.min(pageCount, current + 1))}
+                data-testid="button-audit-next-page"
+              >
+                Suivant
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
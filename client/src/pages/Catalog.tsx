@@ -1,24 +1,105 @@
-import { useState, useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import SearchBar from "@/components/SearchBar";
 import FilterPanel from "@/components/FilterPanel";
 import TrainingCard, { FormationWithRating } from "@/components/TrainingCard";
 import { Card } from "@/components/ui/card";
-import { BookOpen, Calendar, CheckCircle, Layers, Loader2 } from "lucide-react";
-import { useLocation } from "wouter";
-import { resolveSeniorityLevel } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { BookOpen, Calendar, CheckCircle, ChevronLeft, ChevronRight, Layers, Loader2 } from "lucide-react";
+import { useLocation, useSearch } from "wouter";
 import type { Session, Registration } from "@shared/schema";
+import { FORMATION_SORTS, FORMATION_SORT_LABELS, isFormationSort } from "@shared/catalog";
+
+const PAGE_SIZE = 20;
+const SEARCH_DEBOUNCE_MS = 300;
+
+type CatalogFormation = FormationWithRating & { nextSessionDate: string | null };
+
+interface FormationSearchResponse {
+  formations: CatalogFormation[];
+  total: number;
+  catalogTotal: number;
+  page: number;
+  pageSize: number;
+}
 
 export default function Catalog() {
-  const [, setLocation] = useLocation();
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedThemes, setSelectedThemes] = useState<string[]>([]);
-  const [selectedModalities, setSelectedModalities] = useState<string[]>([]);
-  const [selectedSeniority, setSelectedSeniority] = useState<string[]>([]);
-  const [filtersOpen, setFiltersOpen] = useState(false);
-
-  const { data: formations = [], isLoading: isLoadingFormations } = useQuery<FormationWithRating[]>({
-    queryKey: ["/api/formations"],
+  const [location, setLocation] = useLocation();
+  // The URL holds the search so it survives reloads and can be shared
+  const search = useSearch();
+  const params = useMemo(() => new URLSearchParams(search), [search]);
+  const searchQuery = params.get("q") ?? "";
+  const selectedThemes = params.getAll("theme");
+  const selectedModalities = params.getAll("modality");
+  const selectedSeniority = params.getAll("seniority");
+  const sortParam = params.get("sort");
+  const sort = isFormationSort(sortParam) ? sortParam : "relevance";
+  const page = Math.max(1, Number(params.get("page")) || 1);
+
+  const totalActiveFilters = selectedThemes.length + selectedModalities.length + selectedSeniority.length;
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const [filtersOpen, setFiltersOpen] = useState(totalActiveFilters > 0);
+
+  // Any change but a page turn starts again from the first page
+  const updateParams = (updates: Record<string, string | string[] | null>, options?: { replace?: boolean }) => {
+    const next = new URLSearchParams(search);
+    Object.entries(updates).forEach(([key, value]) => {
+      next.delete(key);
+      (Array.isArray(value) ? value : value ? [value] : []).forEach((item) => next.append(key, item));
+    });
+    if (!("page" in updates)) {
+      next.delete("page");
+    }
+    const query = next.toString();
+    setLocation(query ? `${location}?${query}` : location, options);
+  };
+
+  // Back and forward navigation bring their own query back into the field
+  useEffect(() => {
+    setSearchInput((current) => (current.trim() === searchQuery ? current : searchQuery));
+  }, [searchQuery]);
+
+  useEffect(() => {
+    const trimmed = searchInput.trim();
+    if (trimmed === searchQuery) {
+      return;
+    }
+    const timeout = window.setTimeout(() => {
+      updateParams({ q: trimmed || null }, { replace: true });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+    // `search` restarts the delay so a filter picked meanwhile is kept
+  }, [searchInput, searchQuery, search]);
+
+  // The API reads the same parameters as the page URL
+  const searchParams = useMemo(() => {
+    const next = new URLSearchParams(search);
+    next.set("sort", sort);
+    next.set("page", String(page));
+    next.set("pageSize", String(PAGE_SIZE));
+    return next.toString();
+  }, [search, sort, page]);
+
+  const {
+    data: results,
+    isLoading: isLoadingFormations,
+    isFetching: isFetchingFormations,
+  } = useQuery<FormationSearchResponse>({
+    queryKey: ["/api/formations", "search", searchParams],
+    queryFn: async () => {
+      const res = await fetch(`/api/formations?${searchParams}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch formations");
+      return res.json();
+    },
+    placeholderData: (previous) => previous,
   });
 
   const { data: sessions = [], isLoading: isLoadingSessions } = useQuery<Session[]>({
@@ -40,57 +121,15 @@ export default function Catalog() {
 
   const reviewsVisible = reviewSettings?.reviewsVisible ?? true;
 
-  const filteredFormations = useMemo(() => {
-    return formations.filter((formation) => {
-      if (!formation.active) return false;
-
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase();
-        const searchableText = `${formation.title} ${formation.description} ${formation.tags?.join(" ")}`.toLowerCase();
-        if (!searchableText.includes(query)) return false;
-      }
-
-      if (selectedThemes.length > 0 && !selectedThemes.includes(formation.theme)) {
-        return false;
-      }
-
-      if (selectedModalities.length > 0 && !selectedModalities.includes(formation.modality)) {
-        return false;
-      }
-
-      if (selectedSeniority.length > 0 && formation.seniorityRequired) {
-        const normalizedSeniority = resolveSeniorityLevel(formation.seniorityRequired);
-        const comparisonValue = normalizedSeniority ?? formation.seniorityRequired;
-
-        if (!selectedSeniority.includes(comparisonValue)) {
-          return false;
-        }
-      }
-
-      if (selectedSeniority.length > 0 && !formation.seniorityRequired) {
-        return false;
-      }
-
-      return true;
-    });
-  }, [formations, searchQuery, selectedThemes, selectedModalities, selectedSeniority]);
-
-  const getNextSession = (formationId: string) => {
-    const formationSessions = sessions
-      .filter((s) => s.formationId === formationId && s.status === "open")
-      .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
-    return formationSessions[0] ? new Date(formationSessions[0].startDate) : undefined;
-  };
+  const formations = results?.formations ?? [];
+  const total = results?.total ?? 0;
+  const activeFormations = results?.catalogTotal ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
   const handleReset = () => {
-    setSelectedThemes([]);
-    setSelectedModalities([]);
-    setSelectedSeniority([]);
+    updateParams({ theme: null, modality: null, seniority: null });
   };
 
-  const totalActiveFilters = selectedThemes.length + selectedModalities.length + selectedSeniority.length;
-
-  const activeFormations = formations.filter((f) => f.active).length;
   const openSessionsCount = sessions.filter((s) => s.status === "open").length;
   const completedFormationsCount = useMemo(() => {
     const completedRegistrations = registrations.filter((registration) => registration.status === "completed");
@@ -154,8 +193,8 @@ export default function Catalog() {
       </div>
 
       <SearchBar
-        value={searchQuery}
-        onChange={setSearchQuery}
+        value={searchInput}
+        onChange={setSearchInput}
         onToggleFilters={() => setFiltersOpen((prev) => !prev)}
         filtersOpen={filtersOpen}
         activeFiltersCount={totalActiveFilters}
@@ -166,36 +205,85 @@ export default function Catalog() {
           selectedThemes={selectedThemes}
           selectedModalities={selectedModalities}
           selectedSeniority={selectedSeniority}
-          onThemeChange={setSelectedThemes}
-          onModalityChange={setSelectedModalities}
-          onSeniorityChange={setSelectedSeniority}
+          onThemeChange={(themes) => updateParams({ theme: themes })}
+          onModalityChange={(modalities) => updateParams({ modality: modalities })}
+          onSeniorityChange={(levels) => updateParams({ seniority: levels })}
           onReset={handleReset}
           layout="inline"
         />
       )}
 
       <div className="space-y-6">
-        {filteredFormations.length > 0 ? (
+        {formations.length > 0 ? (
           <>
-            <div className="flex items-baseline gap-3">
-              <p className="text-sm font-semibold text-foreground">
-                {filteredFormations.length} formation{filteredFormations.length > 1 ? "s" : ""} trouvée{filteredFormations.length > 1 ? "s" : ""}
-              </p>
-              {(searchQuery || totalActiveFilters > 0) && (
-                <p className="text-sm text-muted-foreground">sur {formations.filter((f) => f.active).length} au total</p>
-              )}
+            <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+              <div className="flex items-baseline gap-3">
+                <p className="text-sm font-semibold text-foreground">
+                  {total} formation{total > 1 ? "s" : ""} trouvée{total > 1 ? "s" : ""}
+                </p>
+                {(searchQuery || totalActiveFilters > 0) && (
+                  <p className="text-sm text-muted-foreground">sur {activeFormations} au total</p>
+                )}
+                {isFetchingFormations && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </div>
+              <div className="flex items-center gap-3">
+                <Label htmlFor="catalog-sort" className="text-sm text-muted-foreground">
+                  Trier par
+                </Label>
+                <Select value={sort} onValueChange={(value) => updateParams({ sort: value })}>
+                  <SelectTrigger id="catalog-sort" className="w-48" data-testid="select-catalog-sort">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FORMATION_SORTS.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {FORMATION_SORT_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
             <div className="grid gap-6 md:grid-cols-2">
-              {filteredFormations.map((formation) => (
+              {formations.map((formation) => (
                 <TrainingCard
                   key={formation.id}
                   formation={formation}
-                  nextSessionDate={getNextSession(formation.id)}
+                  nextSessionDate={formation.nextSessionDate ? new Date(formation.nextSessionDate) : undefined}
                   onViewDetails={() => setLocation(`/training/${formation.id}`)}
                   reviewsVisible={reviewsVisible}
                 />
               ))}
             </div>
+            {pageCount > 1 && (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>
+                  Page {page} sur {pageCount}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page <= 1}
+                    onClick={() => updateParams({ page: page > 2 ? String(page - 1) : null })}
+                    data-testid="button-catalog-previous-page"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    Précédent
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={page >= pageCount}
+                    onClick={() => updateParams({ page: String(page + 1) })}
+                    data-testid="button-catalog-next-page"
+                  >
+                    Suivant
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
           </>
         ) : (
           <div className="surface-tonal rounded-[1.75rem] p-16 text-center">
@@ -0,0 +1,112 @@
+import { useState, type FormEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, Award, CheckCircle, Loader2 } from "lucide-react";
+import type { CertificateVerificationResponse } from "@/types/api";
+import logoWhite from "@/assets/logo-white.png";
+import logoBlue from "@/assets/logo-blue.png";
+
+const VERIFY_PATH_PREFIX = "/certificates/verify";
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleDateString("fr-FR") : "");
+
+export default function CertificateVerification() {
+  const [location, setLocation] = useLocation();
+  const code = decodeURIComponent(location.slice(VERIFY_PATH_PREFIX.length).replace(/^\//, ""));
+  const [draft, setDraft] = useState(code);
+
+  const { data, isFetching } = useQuery<CertificateVerificationResponse>({
+    queryKey: ["/api/certificates/verify", code],
+    enabled: Boolean(code),
+    retry: false,
+    queryFn: async () => {
+      const res = await fetch(`/api/certificates/verify/${encodeURIComponent(code)}`);
+      if (!res.ok && res.status !== 400 && res.status !== 404) {
+        throw new Error(`${res.status}: ${res.statusText}`);
+      }
+      return (await res.json()) as CertificateVerificationResponse;
+    },
+  });
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const trimmed = draft.trim();
+    if (trimmed) {
+      setLocation(`${VERIFY_PATH_PREFIX}/${encodeURIComponent(trimmed)}`);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-6 py-12">
+      <Card className="surface-elevated relative w-full max-w-xl space-y-8 rounded-[2.5rem] px-12 py-14">
+        <div className="mx-auto flex items-center justify-center">
+          <img src={logoBlue} alt="Colombus Consulting" className="h-16 w-auto dark:hidden" />
+          <img src={logoWhite} alt="Colombus Consulting" className="hidden h-16 w-auto dark:block" />
+        </div>
+        <div className="space-y-3 text-center">
+          <p className="eyebrow text-muted-foreground">Attestation de formation</p>
+          <h1 className="flex items-center justify-center gap-2 text-2xl font-semibold tracking-tight text-foreground">
+            <Award className="h-6 w-6 text-primary" />
+            Vérifier une attestation
+          </h1>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <Label htmlFor="certificate-code">Code de vérification</Label>
+          <div className="flex gap-2">
+            <Input
+              id="certificate-code"
+              value={draft}
+              placeholder="XXXX-XXXX-XXXX"
+              onChange={(event) => setDraft(event.target.value)}
+              data-testid="input-certificate-code"
+            />
+            <Button type="submit" className="rounded-xl" data-testid="button-verify-certificate">
+              Vérifier
+            </Button>
+          </div>
+        </form>
+
+        {isFetching && (
+          <div className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        )}
+
+        {!isFetching && data?.valid && (
+          <div
+            className="flex items-start gap-2 rounded-xl border border-accent/30 bg-accent/10 p-4"
+            data-testid="status-certificate-valid"
+          >
+            <CheckCircle className="mt-0.5 h-5 w-5 text-accent" />
+            <div className="space-y-1 text-sm text-foreground">
+              <p className="font-semibold">Attestation authentique</p>
+              <p>
+                Délivrée à <strong>{data.participantName}</strong> pour la formation{" "}
+                <strong>{data.formationTitle}</strong>, suivie du {formatDate(data.sessionStartDate)} au{" "}
+                {formatDate(data.sessionEndDate)}.
+              </p>
+              <p className="text-muted-foreground">
+                Code {data.code}, émise le {formatDate(data.issuedAt)}.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {!isFetching && data && !data.valid && (
+          <div
+            className="flex items-start gap-2 rounded-xl border border-destructive/20 bg-destructive/10 p-4"
+            data-testid="status-certificate-invalid"
+          >
+            <AlertCircle className="mt-0.5 h-5 w-5 text-destructive" />
+            <p className="text-sm text-destructive">{data.message || "Attestation introuvable"}</p>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
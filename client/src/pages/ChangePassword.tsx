@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, KeyRound } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { User } from "@shared/schema";
+import logoWhite from "@/assets/logo-white.png";
+import logoBlue from "@/assets/logo-blue.png";
+
+const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Le mot de passe actuel est requis"),
+    newPassword: z.string().min(6, "Le mot de passe doit contenir au moins 6 caractères"),
+    confirmPassword: z.string().min(1, "Merci de confirmer le nouveau mot de passe"),
+  })
+  .superRefine((data, ctx) => {
+    if (data.newPassword !== data.confirmPassword) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["confirmPassword"],
+        message: "Les mots de passe ne correspondent pas",
+      });
+    }
+
+    if (data.newPassword && data.newPassword === data.currentPassword) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["newPassword"],
+        message: "Le nouveau mot de passe doit être différent de l'actuel",
+      });
+    }
+  });
+
+type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
+
+interface ChangePasswordProps {
+  user: User;
+  onPasswordChanged: () => void;
+  onLogout: () => void;
+}
+
+export default function ChangePassword({ user, onPasswordChanged, onLogout }: ChangePasswordProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<ChangePasswordFormData>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: {
+      currentPassword: "",
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = async (data: ChangePasswordFormData) => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      await apiRequest("/api/auth/change-password", "POST", {
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/me"] });
+      onPasswordChanged();
+    } catch (err: any) {
+      setError(err.message || "Impossible de modifier le mot de passe");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-6 py-12">
+      <Card className="surface-elevated relative w-full max-w-xl space-y-8 rounded-[2.5rem] px-12 py-14">
+        <div className="mx-auto flex items-center justify-center">
+          <img src={logoBlue} alt="Colombus Consulting" className="h-16 w-auto dark:hidden" />
+          <img src={logoWhite} alt="Colombus Consulting" className="hidden h-16 w-auto dark:block" />
+        </div>
+        <div className="space-y-3 text-center">
+          <p className="eyebrow text-muted-foreground">Première connexion</p>
+          <h1 className="flex items-center justify-center gap-2 text-2xl font-semibold tracking-tight text-foreground">
+            <KeyRound className="h-6 w-6 text-primary" />
+            Définissez votre mot de passe
+          </h1>
+          <p className="text-sm text-muted-foreground">
+            Bonjour {user.name}, votre compte a été créé avec un mot de passe temporaire. Choisissez
+            un mot de passe personnel pour accéder à Colombus Learning.
+          </p>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Mot de passe temporaire</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="password"
+                      autoComplete="current-password"
+                      data-testid="input-current-password"
+                      disabled={isLoading}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Nouveau mot de passe</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="password"
+                      autoComplete="new-password"
+                      data-testid="input-new-password"
+                      disabled={isLoading}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirmation</FormLabel>
+                  <FormControl>
+                    <Input
+                      {...field}
+                      type="password"
+                      autoComplete="new-password"
+                      data-testid="input-confirm-password"
+                      disabled={isLoading}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {error && (
+              <div className="flex items-start gap-2 rounded-xl border border-destructive/20 bg-destructive/10 p-3">
+                <AlertCircle className="mt-0.5 h-5 w-5 text-destructive" />
+                <p className="text-sm text-destructive">{error}</p>
+              </div>
+            )}
+
+            <Button
+              type="submit"
+              className="w-full rounded-xl bg-primary py-4 text-sm font-semibold text-white shadow-[0_24px_40px_-28px_rgba(10,132,255,0.65)] hover:bg-primary/90"
+              disabled={isLoading}
+              data-testid="button-change-password"
+            >
+              {isLoading ? "Enregistrement..." : "Enregistrer mon mot de passe"}
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              className="w-full"
+              onClick={onLogout}
+              disabled={isLoading}
+              data-testid="button-change-password-logout"
+            >
+              Se déconnecter
+            </Button>
+          </form>
+        </Form>
+      </Card>
+    </div>
+  );
+}
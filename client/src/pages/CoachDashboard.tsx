@@ -26,6 +26,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import PriorityBadge from "@/components/PriorityBadge";
 import { cn } from "@/lib/utils";
+import { DEEP_LINK_ROW_HIGHLIGHT_CLASS, getDeepLinkElementId, useDeepLinkTarget } from "@/hooks/use-deep-link";
 import type {
   User,
   FormationInterest,
@@ -73,6 +74,7 @@ export default function CoachDashboard({ currentUser }: CoachDashboardProps) {
     refetchOnWindowFocus: true,
     staleTime: 0,
   });
+  const targetInterestId = useDeepLinkTarget("interest", !isLoading);
 
   const { data: formations = [] } = useQuery<Formation[]>({
     queryKey: ["/api/formations"],
@@ -589,7 +591,11 @@ export default function CoachDashboard({ currentUser }: CoachDashboardProps) {
                           ? interest.customDescription ?? ""
                           : formation?.description ?? "";
                         return (
-                          <TableRow key={interest.id}>
+                          <TableRow
+                            key={interest.id}
+                            id={getDeepLinkElementId("interest", interest.id)}
+                            className={cn(targetInterestId === interest.id && DEEP_LINK_ROW_HIGHLIGHT_CLASS)}
+                          >
                             <TableCell>
                               <div className="font-medium">{coachee?.name ?? "Consultant inconnu"}</div>
                               <div className="text-xs text-muted-foreground">{coachee?.businessUnit || ""}</div>
@@ -673,7 +679,11 @@ export default function CoachDashboard({ currentUser }: CoachDashboardProps) {
                             ? interest.customTitle ?? "Formation hors catalogue"
                             : formation?.title ?? "Formation inconnue";
                           return (
-                            <TableRow key={interest.id}>
+                            <TableRow
+                              key={interest.id}
+                              id={getDeepLinkElementId("interest", interest.id)}
+                              className={cn(targetInterestId === interest.id && DEEP_LINK_ROW_HIGHLIGHT_CLASS)}
+                            >
                               <TableCell>{coachee?.name ?? "Consultant inconnu"}</TableCell>
                               <TableCell>{formationTitle}</TableCell>
                               <TableCell className="text-sm text-muted-foreground">{formatDate(interest.expressedAt)}</TableCell>
@@ -726,7 +736,11 @@ export default function CoachDashboard({ currentUser }: CoachDashboardProps) {
                           ? interest.customTitle ?? "Formation hors catalogue"
                           : formation?.title ?? "Formation inconnue";
                         return (
-                          <TableRow key={interest.id}>
+                          <TableRow
+                            key={interest.id}
+                            id={getDeepLinkElementId("interest", interest.id)}
+                            className={cn(targetInterestId === interest.id && DEEP_LINK_ROW_HIGHLIGHT_CLASS)}
+                          >
                             <TableCell>{coachee?.name ?? "Consultant inconnu"}</TableCell>
                             <TableCell>{formationTitle}</TableCell>
                             <TableCell className="text-sm text-muted-foreground">{formatDate(interest.coachValidatedAt)}</TableCell>
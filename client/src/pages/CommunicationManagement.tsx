@@ -2,6 +2,8 @@ import { useEffect, useMemo, useState, type ChangeEvent, type FormEvent } from "
 import { useMutation, useQuery } from "@tanstack/react-query";
 import { Megaphone, Palette, Sparkles } from "lucide-react";
 import DashboardInformationCard from "@/components/DashboardInformationCard";
+import EmailTemplatesEditor from "@/components/EmailTemplatesEditor";
+import SessionReminderSettingsCard from "@/components/SessionReminderSettingsCard";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
@@ -179,7 +181,7 @@ export default function CommunicationManagement() {
               </Badge>
             </div>
             <p className="text-base leading-relaxed text-muted-foreground">
-              Publiez des annonces clés pour tous les collaborateurs directement dans le tableau de bord Colombus Learning.
+              Publiez des annonces clés dans le tableau de bord Colombus Learning et personnalisez les emails envoyés aux collaborateurs.
             </p>
           </div>
           <Card className="surface-soft flex w-full max-w-sm flex-col gap-4 rounded-2xl border-none p-6 shadow-sm">
@@ -357,6 +359,11 @@ export default function CommunicationManagement() {
           </form>
         </Card>
       </section>
+
+      <section className="space-y-10">
+        <SessionReminderSettingsCard />
+        <EmailTemplatesEditor />
+      </section>
     </div>
   );
 }
@@ -51,6 +51,8 @@ import {
   UserPlus,
   XCircle,
   UserCircle,
+  Lock,
+  Unlock,
 } from "lucide-react";
 import type {
   User,
@@ -70,6 +72,7 @@ import CreateCollaboratorDialog from "@/components/CreateCollaboratorDialog";
 import EditExternalInstructorDialog from "@/components/EditExternalInstructorDialog";
 import EditConsultantDialog from "@/components/EditConsultantDialog";
 import { formatRoles } from "@shared/roles";
+import type { AdminLockedAccount } from "@/types/admin";
 
 type BulkUploadResult = {
   createdCount: number;
@@ -170,6 +173,31 @@ export default function ConsultantManagement() {
     },
   });
 
+  const { data: lockedAccounts = [] } = useQuery<AdminLockedAccount[]>({
+    queryKey: ["/api/admin/locked-accounts"],
+    refetchInterval: 60000,
+  });
+
+  const unlockAccountMutation = useMutation({
+    mutationFn: async (userId: string) => {
+      return apiRequest(`/api/admin/users/${userId}/unlock`, "POST");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/locked-accounts"] });
+      toast({
+        title: "Compte déverrouillé",
+        description: "Le collaborateur peut de nouveau se connecter.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erreur",
+        description: error.message || "Impossible de déverrouiller le compte",
+        variant: "destructive",
+      });
+    },
+  });
+
   const archiveMutation = useMutation({
     mutationFn: async (userId: string) => {
       return apiRequest(`/api/users/${userId}/archive`, "PATCH");
@@ -718,6 +746,63 @@ export default function ConsultantManagement() {
           ) : null}
         </Card>
 
+        {lockedAccounts.length > 0 ? (
+          <Card className="rounded-[1.75rem] border border-destructive/30 shadow-sm">
+            <div className="flex flex-col gap-2 p-6 border-b border-border/60 md:flex-row md:items-center md:justify-between">
+              <div>
+                <h2 className="text-xl font-semibold flex items-center gap-2">
+                  <Lock className="w-5 h-5 text-destructive" />
+                  Comptes verrouillés
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  Ces comptes sont temporairement bloqués suite à plusieurs échecs de connexion. Le verrou se lève
+                  automatiquement à l'échéance indiquée.
+                </p>
+              </div>
+              <div className="text-sm text-muted-foreground">
+                {`${lockedAccounts.length} compte${lockedAccounts.length > 1 ? "s" : ""} verrouillé${lockedAccounts.length > 1 ? "s" : ""}`}
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Collaborateur</TableHead>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Échecs</TableHead>
+                    <TableHead>Verrouillé jusqu'à</TableHead>
+                    <TableHead className="w-[160px] text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lockedAccounts.map((account) => (
+                    <TableRow key={account.userId}>
+                      <TableCell className="font-semibold">{account.name}</TableCell>
+                      <TableCell>{account.email}</TableCell>
+                      <TableCell>{account.failureCount}</TableCell>
+                      <TableCell>
+                        {format(new Date(account.lockedUntil), "d MMM yyyy 'à' HH:mm", { locale: fr })}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => unlockAccountMutation.mutate(account.userId)}
+                          disabled={unlockAccountMutation.isPending}
+                          data-testid={`button-unlock-account-${account.userId}`}
+                        >
+                          <Unlock className="mr-2 h-4 w-4" />
+                          Déverrouiller
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </Card>
+        ) : null}
+
         <Card className="rounded-[1.75rem] border border-border/50 shadow-sm">
           <div className="flex flex-col gap-2 p-6 border-b border-border/60 md:flex-row md:items-center md:justify-between">
             <div>
@@ -25,12 +25,14 @@ import {
   ExternalLink,
   CalendarCheck,
   MessageSquareQuote,
+  Award,
 } from "lucide-react";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
 import { FormEvent, useEffect, useMemo, useState } from "react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useRouteNotifications, useMarkNotificationsRead } from "@/hooks/use-notifications";
+import { DEEP_LINK_HIGHLIGHT_CLASS, getDeepLinkElementId, useDeepLinkTarget } from "@/hooks/use-deep-link";
 import type {
   User,
   Registration,
@@ -93,6 +95,7 @@ interface DashboardProps {
 
 export default function Dashboard({ currentUser: _currentUser, initialCoach = null }: DashboardProps) {
   const { toast } = useToast();
+  const [, setLocation] = useLocation();
   const [deleteInterestId, setDeleteInterestId] = useState<string | null>(null);
   const [deleteRegistrationId, setDeleteRegistrationId] = useState<string | null>(null);
   const [showOffCatalogDialog, setShowOffCatalogDialog] = useState(false);
@@ -131,6 +134,7 @@ export default function Dashboard({ currentUser: _currentUser, initialCoach = nu
   const { data: registrations = [], isLoading: isLoadingRegistrations } = useQuery<Registration[]>({
     queryKey: ["/api/registrations"],
   });
+  const targetInterestId = useDeepLinkTarget("interest", !isLoadingInterests && !isLoadingRegistrations);
 
   const { data: formations = [] } = useQuery<Formation[]>({
     queryKey: ["/api/formations"],
@@ -278,6 +282,24 @@ export default function Dashboard({ currentUser: _currentUser, initialCoach = nu
     },
   });
 
+  // The first download issues the attestation, later ones reuse its code
+  const downloadCertificateMutation = useMutation({
+    mutationFn: async (registrationId: string) => {
+      await apiRequest(`/api/registrations/${registrationId}/certificate`, "POST");
+      return registrationId;
+    },
+    onSuccess: (registrationId) => {
+      window.location.assign(`/api/registrations/${registrationId}/certificate`);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Erreur",
+        description: error.message || "Impossible de télécharger l'attestation",
+        variant: "destructive",
+      });
+    },
+  });
+
   const OffCatalogInterestCard = ({ interest }: { interest: FormationInterest }) => {
     const [plannedDateValue, setPlannedDateValue] = useState<string>(
       formatDateForInput(interest.customPlannedDate)
@@ -393,7 +415,12 @@ export default function Dashboard({ currentUser: _currentUser, initialCoach = nu
     const reviewDisabled = reviewRatingValue < 1;
 
     return (
-      <Card className="surface-soft flex h-full flex-col rounded-2xl p-6">
+      <Card
+        id={getDeepLinkElementId("interest", interest.id)}
+        className={`surface-soft flex h-full flex-col rounded-2xl p-6 ${
+          targetInterestId === interest.id ? DEEP_LINK_HIGHLIGHT_CLASS : ""
+        }`}
+      >
         <div className="flex flex-1 flex-col space-y-4">
           <div className="flex flex-wrap items-start justify-between gap-3">
             <div className="space-y-2">
@@ -780,8 +807,8 @@ export default function Dashboard({ currentUser: _currentUser, initialCoach = nu
       <DashboardStats
         upcomingCount={upcomingTrainings.length}
         completedCount={completedTrainings.length}
-        p1Used={currentUser.p1Used || 0}
-        p2Used={currentUser.p2Used || 0}
+        quota={userData?.quota}
+        quotaHistory={userData?.quotaHistory}
       />
 
       {catalogInterests.length > 0 && (
@@ -811,7 +838,8 @@ export default function Dashboard({ currentUser: _currentUser, initialCoach = nu
               return (
                 <Card
                   key={interest.id}
-                  className={`surface-soft flex h-full flex-col rounded-2xl p-6 transition-transform duration-300 ${isRejected ? 'opacity-70' : 'hover:-translate-y-1'}`}
+                  id={getDeepLinkElementId("interest", interest.id)}
+                  className={`surface-soft flex h-full flex-col rounded-2xl p-6 transition-transform duration-300 ${isRejected ? 'opacity-70' : 'hover:-translate-y-1'} ${targetInterestId === interest.id ? DEEP_LINK_HIGHLIGHT_CLASS : ''}`}
                 >
                   <div className="flex flex-1 flex-col space-y-4">
                     <div className="flex items-start justify-between gap-3">
@@ -972,6 +1000,42 @@ export default function Dashboard({ currentUser: _currentUser, initialCoach = nu
         )}
       </section>
 
+      {completedTrainings.length > 0 && (
+        <section className="space-y-8">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex items-center gap-4">
+              <div className="flex h-12 w-12 items-center justify-center rounded-xl bg-accent/10 text-accent">
+                <Award className="h-5 w-5" />
+              </div>
+              <div>
+                <p className="eyebrow text-muted-foreground">Parcours réalisé</p>
+                <h2 className="text-2xl font-semibold text-foreground">Formations terminées</h2>
+              </div>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Téléchargez l'attestation des formations auxquelles votre présence a été enregistrée.
+            </p>
+          </div>
+
+          <div className="grid gap-5 md:grid-cols-2">
+            {completedTrainings.map((reg) => (
+              <TrainingListItem
+                key={reg.id}
+                title={getFormationTitle(reg.formationId)}
+                status={reg.status}
+                priority={reg.priority as "P1" | "P2" | "P3"}
+                date={getSessionDate(reg.sessionId)}
+                location={getSessionLocation(reg.sessionId)}
+                onDownloadCertificate={
+                  reg.attended ? () => downloadCertificateMutation.mutate(reg.id) : undefined
+                }
+                onViewDetails={() => setLocation(`/training/${reg.formationId}`)}
+              />
+            ))}
+          </div>
+        </section>
+      )}
+
       {cancelledTrainings.length > 0 && (
         <section className="space-y-8">
           <div className="flex flex-wrap items-center justify-between gap-4">
@@ -132,6 +132,9 @@ type TimelineEntry = {
   priority: string | null | undefined;
   durationHours: number;
   durationDays: number;
+  // Time covered by the day and half-day attendance signatures
+  attendedHours: number;
+  attendedDays: number;
   seniority: string | null;
   businessUnit: string | null;
 };
@@ -285,7 +288,7 @@ export default function DataVisualization() {
         });
       }
       const record = aggregation.get(key)!;
-      record.hours += entry.attended ? entry.durationHours : 0;
+      record.hours += entry.attendedHours;
       record.absences += entry.attended === false ? 1 : 0;
     });
 
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RotateCcw } from "lucide-react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { AdminEmailOutboxResponse } from "@/types/admin";
+import type { EmailOutboxStatus } from "@shared/schema";
+
+const ALL_VALUE = "all";
+
+const STATUS_LABELS: Record<EmailOutboxStatus, string> = {
+  pending: "En attente",
+  sending: "En cours d'envoi",
+  sent: "Envoyé",
+  failed: "Échec",
+};
+
+const STATUS_VARIANTS: Record<EmailOutboxStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  sending: "secondary",
+  sent: "outline",
+  failed: "destructive",
+};
+
+const KIND_LABELS: Record<string, string> = {
+  invitation: "Invitation",
+  invitation_cancel: "Annulation",
+  registration_confirmation: "Confirmation d'inscription",
+  session_reminder: "Rappel participant",
+  instructor_reminder: "Rappel formateur",
+  template_test: "Test de modèle",
+  notification: "Notification",
+  notification_digest: "Récapitulatif",
+};
+
+const formatDateTime = (value: string | null) =>
+  value ? format(new Date(value), "dd MMM yyyy HH:mm", { locale: fr }) : "—";
+
+export default function EmailOutbox() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<string>("failed");
+
+  const { data, isLoading, isFetching } = useQuery<AdminEmailOutboxResponse>({
+    queryKey: ["/api/admin/email-outbox", status],
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      if (status !== ALL_VALUE) params.set("status", status);
+      const res = await fetch(`/api/admin/email-outbox?${params.toString()}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error("Failed to fetch email outbox");
+      return res.json();
+    },
+    placeholderData: (previous) => previous,
+    refetchInterval: 30000,
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/admin/email-outbox/${id}/resend`, "POST"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-outbox"] });
+      toast({
+        title: "Email remis en file d'envoi",
+        description: "Une nouvelle série de tentatives d'envoi commence.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error.message || "Impossible de renvoyer l'email",
+      });
+    },
+  });
+
+  const emails = data?.emails ?? [];
+  const failedCount = emails.filter((email) => email.status === "failed").length;
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-12 w-12 animate-spin text-primary" />
+          <p className="text-muted-foreground">Chargement des emails...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-12">
+      <section className="surface-elevated relative overflow-hidden rounded-[2rem] px-12 py-14">
+        <div className="pointer-events-none absolute inset-y-10 right-0 hidden w-80 rounded-l-[40px] bg-[radial-gradient(circle_at_center,rgba(0,158,203,0.12),transparent_65%)] md:block" />
+        <div className="relative z-10 flex flex-col gap-10 md:flex-row md:items-center md:justify-between">
+          <div className="max-w-3xl space-y-4">
+            <p className="eyebrow text-muted-foreground">Suivi RH</p>
+            <h1 className="text-4xl font-semibold tracking-tight text-foreground md:text-5xl">
+              Suivi des emails
+            </h1>
+            <p className="text-base leading-relaxed text-muted-foreground">
+              Invitations et confirmations envoyées aux participants. Les envois en échec sont retentés
+              automatiquement jusqu'à {data?.maxAttempts ?? 0} fois, puis peuvent être renvoyés manuellement.
+            </p>
+          </div>
+          {status === "failed" && (
+            <div className="rounded-3xl bg-white/70 p-6 shadow-lg ring-1 ring-black/5">
+              <p className="text-sm text-muted-foreground">Envois en échec</p>
+              <p className="mt-2 text-4xl font-semibold text-foreground">{failedCount}</p>
+            </div>
+          )}
+        </div>
+      </section>
+
+      <Card className="rounded-[1.75rem] border border-border/60 p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div className="w-full max-w-xs space-y-2">
+            <Label htmlFor="outbox-status">Statut</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger id="outbox-status" data-testid="select-outbox-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VALUE}>Tous les statuts</SelectItem>
+                {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isFetching && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+      </Card>
+
+      {emails.length === 0 ? (
+        <Card className="rounded-[1.75rem] border border-dashed border-border/60 bg-muted/30 p-12 text-center shadow-none">
+          <p className="text-lg font-semibold text-foreground">Aucun email</p>
+          <p className="mt-2 text-sm text-muted-foreground">
+            {status === "failed"
+              ? "Tous les emails ont été délivrés."
+              : "Aucun email ne correspond à ce statut."}
+          </p>
+        </Card>
+      ) : (
+        <Card className="rounded-[1.75rem] border border-border/60 p-6 shadow-sm">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Créé le</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Destinataires</TableHead>
+                <TableHead>Statut</TableHead>
+                <TableHead>Dernière erreur</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {emails.map((email) => (
+                <TableRow key={email.id} data-testid={`row-outbox-${email.id}`}>
+                  <TableCell className="whitespace-nowrap">{formatDateTime(email.createdAt)}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      <Badge variant="outline" className="w-fit">
+                        {KIND_LABELS[email.kind] ?? email.kind}
+                      </Badge>
+                      <span className="text-sm text-foreground">{email.subject}</span>
+                      {email.session && (
+                        <span className="text-xs text-muted-foreground">
+                          Session du {format(new Date(email.session.startDate), "dd MMM yyyy", { locale: fr })}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-[16rem]">
+                    <span className="break-words text-sm">{email.recipients.join(", ")}</span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-col gap-1">
+                      <Badge variant={STATUS_VARIANTS[email.status]} className="w-fit">
+                        {STATUS_LABELS[email.status]}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground">
+                        {email.attempts} tentative{email.attempts > 1 ? "s" : ""}
+                      </span>
+                      {email.status === "sent" && (
+                        <span className="text-xs text-muted-foreground">{formatDateTime(email.sentAt)}</span>
+                      )}
+                      {email.status === "pending" && email.attempts > 0 && (
+                        <span className="text-xs text-muted-foreground">
+                          Nouvel essai {formatDateTime(email.nextAttemptAt)}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-[18rem]">
+                    <span className="break-words text-xs text-muted-foreground">{email.lastError ?? "—"}</span>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {(email.status === "failed" || email.status === "sent") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={resendMutation.isPending}
+                        onClick={() => resendMutation.mutate(email.id)}
+                        data-testid={`button-resend-outbox-${email.id}`}
+                      >
+                        <RotateCcw className="mr-2 h-4 w-4" />
+                        Renvoyer
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      )}
+    </div>
+  );
+}
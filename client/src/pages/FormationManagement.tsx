@@ -49,18 +49,41 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Plus, Pencil, Trash2, Loader2, BookOpen } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Plus, Pencil, Trash2, Loader2, BookOpen, AlertTriangle, ShieldCheck } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import type { Formation } from "@shared/schema";
 import { insertFormationSchema, SENIORITY_LEVELS, resolveSeniorityLevel } from "@shared/schema";
+import {
+  DEFAULT_FORMATION_SCHEDULE,
+  FORMATION_DURATION_UNITS,
+  FORMATION_DURATION_UNIT_LABELS,
+  formationDurationSchema,
+  formationScheduleSchema,
+  getFormationDuration,
+} from "@shared/formation-duration";
+import { prerequisiteGroupsSchema } from "@shared/formation-prerequisites";
 import { z } from "zod";
 import RatingStars from "@/components/RatingStars";
-
-const formationFormSchema = insertFormationSchema.extend({
-  tags: z.string().optional(),
-  content: z.string().optional(),
-});
+import PrerequisiteGroupsEditor from "@/components/PrerequisiteGroupsEditor";
+import PrerequisiteOverridesDialog from "@/components/PrerequisiteOverridesDialog";
+
+const formationFormSchema = insertFormationSchema
+  .omit({ duration: true })
+  .extend({
+    tags: z.string().optional(),
+    content: z.string().optional(),
+    durationValue: z.coerce.number().positive("La durée doit être positive"),
+    dailySchedule: formationScheduleSchema,
+    prerequisiteGroups: prerequisiteGroupsSchema,
+  })
+  .superRefine((data, ctx) => {
+    const result = formationDurationSchema.safeParse({ unit: data.durationUnit, value: data.durationValue });
+    if (!result.success) {
+      result.error.issues.forEach((issue) => ctx.addIssue({ ...issue, path: ["durationValue"] }));
+    }
+  });
 
 type FormationFormData = z.infer<typeof formationFormSchema>;
 
@@ -79,6 +102,7 @@ export default function FormationManagement() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingFormation, setEditingFormation] = useState<Formation | null>(null);
   const [deleteFormation, setDeleteFormation] = useState<Formation | null>(null);
+  const [overridesFormation, setOverridesFormation] = useState<Formation | null>(null);
   const { toast } = useToast();
 
   const { data: formations = [], isLoading } = useQuery<Formation[]>({
@@ -134,7 +158,10 @@ export default function FormationManagement() {
       objectives: "",
       prerequisites: "",
       content: "",
-      duration: "",
+      durationUnit: "days",
+      durationValue: 1,
+      dailySchedule: DEFAULT_FORMATION_SCHEDULE,
+      prerequisiteGroups: [],
       modality: "presentiel",
       seniorityRequired: undefined,
       theme: "",
@@ -275,7 +302,10 @@ export default function FormationManagement() {
       objectives: "",
       prerequisites: "",
       content: "",
-      duration: "",
+      durationUnit: "days",
+      durationValue: 1,
+      dailySchedule: DEFAULT_FORMATION_SCHEDULE,
+      prerequisiteGroups: [],
       modality: "presentiel",
       seniorityRequired: undefined,
       theme: "",
@@ -288,6 +318,7 @@ export default function FormationManagement() {
   const handleEdit = (formation: Formation) => {
     setEditingFormation(formation);
     const normalizedSeniority = resolveSeniorityLevel(formation.seniorityRequired);
+    const duration = getFormationDuration(formation);
 
     form.reset({
       title: formation.title,
@@ -295,7 +326,11 @@ export default function FormationManagement() {
       objectives: formation.objectives,
       prerequisites: formation.prerequisites || "",
       content: formation.content || "",
-      duration: formation.duration,
+      // Legacy durations the migration could not read are entered again by RH
+      durationUnit: duration?.unit ?? "days",
+      durationValue: duration?.value,
+      dailySchedule: duration?.schedule ?? DEFAULT_FORMATION_SCHEDULE,
+      prerequisiteGroups: formation.prerequisiteGroups ?? [],
       modality: formation.modality,
       seniorityRequired: normalizedSeniority ?? formation.seniorityRequired ?? undefined,
       theme: formation.theme,
@@ -315,6 +350,9 @@ export default function FormationManagement() {
 
   const isPending = createMutation.isPending || updateMutation.isPending;
 
+  // Free-text durations the migration could not convert
+  const formationsWithInvalidDuration = formations.filter((formation) => !getFormationDuration(formation));
+
   return (
     <div className="space-y-12">
       <section className="surface-elevated relative overflow-hidden rounded-[2rem] px-12 py-14">
@@ -346,6 +384,38 @@ export default function FormationManagement() {
       </section>
 
       <section className="space-y-8">
+        {formationsWithInvalidDuration.length > 0 && (
+          <Alert variant="destructive" data-testid="alert-invalid-durations">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>
+              {formationsWithInvalidDuration.length} durée{formationsWithInvalidDuration.length > 1 ? "s" : ""} à corriger
+            </AlertTitle>
+            <AlertDescription>
+              <p>
+                Ces durées n'ont pas pu être converties en jours, demi-journées ou heures. Tant qu'elles ne sont pas
+                corrigées, les disponibilités, les horaires des sessions et les statistiques de ces formations ne
+                tiennent pas compte de leur durée.
+              </p>
+              <ul className="mt-3 space-y-2">
+                {formationsWithInvalidDuration.map((formation) => (
+                  <li key={formation.id} className="flex flex-wrap items-center gap-3">
+                    <span className="font-medium">{formation.title}</span>
+                    <span>« {formation.duration} »</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleEdit(formation)}
+                      data-testid={`button-fix-duration-${formation.id}`}
+                    >
+                      Corriger
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
         <Card className="rounded-[1.75rem] border border-border/50 shadow-sm">
           <CardHeader>
             <CardTitle className="flex items-center justify-between">
@@ -391,7 +461,13 @@ export default function FormationManagement() {
                         <TableCell>
                           <Badge variant="outline">{formation.theme}</Badge>
                         </TableCell>
-                        <TableCell>{formation.duration}</TableCell>
+                        <TableCell>
+                          {getFormationDuration(formation) ? (
+                            formation.duration
+                          ) : (
+                            <Badge variant="destructive">À corriger</Badge>
+                          )}
+                        </TableCell>
                         <TableCell>
                           <Badge
                           variant={
@@ -433,6 +509,17 @@ export default function FormationManagement() {
                           >
                             <Pencil className="h-4 w-4" />
                           </Button>
+                          {(formation.prerequisiteGroups?.length ?? 0) > 0 && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => setOverridesFormation(formation)}
+                              title="Dérogations aux prérequis"
+                              data-testid={`button-prerequisite-overrides-${formation.id}`}
+                            >
+                              <ShieldCheck className="h-4 w-4" />
+                            </Button>
+                          )}
                           <Button
                             size="icon"
                             variant="ghost"
@@ -594,21 +681,62 @@ export default function FormationManagement() {
                   )}
                 />
 
-                <div className="grid grid-cols-2 gap-4">
+                {editingFormation && !getFormationDuration(editingFormation) && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      La durée « {editingFormation.duration} » n'a pas pu être convertie : saisissez-la ci-dessous.
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="grid grid-cols-3 gap-4">
                   <FormField
                     control={form.control}
-                    name="duration"
+                    name="durationValue"
                     render={({ field }) => (
                       <FormItem>
                         <FormLabel>Durée *</FormLabel>
                         <FormControl>
-                          <Input {...field} placeholder="ex: 2 jours, 3h30" data-testid="input-formation-duration" />
+                          <Input
+                            {...field}
+                            value={field.value ?? ""}
+                            type="number"
+                            min={0}
+                            step={form.watch("durationUnit") === "hours" ? 0.25 : 1}
+                            data-testid="input-formation-duration-value"
+                          />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="durationUnit"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Unité *</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-formation-duration-unit">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {FORMATION_DURATION_UNITS.map((unit) => (
+                              <SelectItem key={unit} value={unit}>
+                                {FORMATION_DURATION_UNIT_LABELS[unit]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={form.control}
                     name="modality"
@@ -633,6 +761,40 @@ export default function FormationManagement() {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Horaires d'une journée</p>
+                  <div className="grid grid-cols-4 gap-4">
+                    {(
+                      [
+                        ["morningStart", "Début matin"],
+                        ["morningEnd", "Fin matin"],
+                        ["afternoonStart", "Début après-midi"],
+                        ["afternoonEnd", "Fin après-midi"],
+                      ] as const
+                    ).map(([key, label]) => (
+                      <FormField
+                        key={key}
+                        control={form.control}
+                        name={`dailySchedule.${key}`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel className="text-xs text-muted-foreground">{label}</FormLabel>
+                            <FormControl>
+                              <Input {...field} type="time" data-testid={`input-formation-schedule-${key}`} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                  {form.formState.errors.dailySchedule?.message && (
+                    <p className="text-sm font-medium text-destructive">
+                      {form.formState.errors.dailySchedule.message}
+                    </p>
+                  )}
+                </div>
+
                 <FormField
                   control={form.control}
                   name="seniorityRequired"
@@ -704,6 +866,25 @@ export default function FormationManagement() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="prerequisiteGroups"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Formations prérequises</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        Chaque groupe doit être rempli pour manifester un intérêt ou s'inscrire.
+                      </p>
+                      <PrerequisiteGroupsEditor
+                        value={field.value}
+                        onChange={field.onChange}
+                        formations={formations.filter((formation) => formation.id !== editingFormation?.id)}
+                      />
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="content"
@@ -779,6 +960,11 @@ export default function FormationManagement() {
           </DialogContent>
       </Dialog>
 
+      <PrerequisiteOverridesDialog
+        formation={overridesFormation}
+        onOpenChange={(open) => !open && setOverridesFormation(null)}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog open={!!deleteFormation} onOpenChange={() => setDeleteFormation(null)}>
         <AlertDialogContent>
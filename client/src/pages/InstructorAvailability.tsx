@@ -11,12 +11,12 @@ import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import type { Formation, InstructorAvailability, AvailabilitySlot } from "@shared/schema";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-
-// Helper to extract number of days from duration string like "2 jours", "3 jours", "1 jour"
-function extractDaysFromDuration(duration: string): number {
-  const match = duration.match(/(\d+)\s*jour/i);
-  return match ? parseInt(match[1], 10) : 0;
-}
+import {
+  countSlotHalfDays,
+  formatHalfDays,
+  getFormationDuration,
+  getRequiredHalfDays,
+} from "@shared/formation-duration";
 
 // Time slot labels
 const TIME_SLOT_LABELS: Record<string, string> = {
@@ -54,7 +54,9 @@ export default function InstructorAvailability() {
 
   // Get selected formation
   const selectedFormation = myFormations.find(f => f.id === selectedFormationId);
-  const requiredDays = selectedFormation ? extractDaysFromDuration(selectedFormation.duration) : 0;
+  // Counted in half-days: a full day slot covers two, a morning or an afternoon one
+  const selectedDuration = selectedFormation ? getFormationDuration(selectedFormation) : null;
+  const requiredHalfDays = selectedDuration ? getRequiredHalfDays(selectedDuration) : 0;
 
   // Get existing availability for selected formation
   const validAvailabilities = Array.isArray(availabilities) ? availabilities : [];
@@ -260,8 +262,7 @@ export default function InstructorAvailability() {
     return dayOfWeek === 0 || dayOfWeek === 6;
   };
 
-  // Count unique dates (days) from slots
-  const uniqueDaysCount = slots.length;
+  const selectedHalfDays = countSlotHalfDays(slots);
 
   return (
     <div className="space-y-12">
@@ -335,7 +336,7 @@ export default function InstructorAvailability() {
               </CardTitle>
               <p className="text-sm text-muted-foreground mt-2">
                 Durée de la formation : {selectedFormation?.duration}
-                {requiredDays > 0 && ` (${requiredDays} jour${requiredDays > 1 ? 's' : ''})`}
+                {selectedDuration?.unit === "hours" && ` (${formatHalfDays(requiredHalfDays)})`}
               </p>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -363,7 +364,7 @@ export default function InstructorAvailability() {
                 <div className="space-y-3">
                   <label className="text-sm font-medium block">
                     <Clock className="w-4 h-4 inline mr-2" />
-                    Vos disponibilités ({uniqueDaysCount} jour{uniqueDaysCount > 1 ? 's' : ''})
+                    Vos disponibilités ({formatHalfDays(selectedHalfDays)})
                   </label>
                   <div className="space-y-2">
                     {[...slots]
@@ -409,18 +410,18 @@ export default function InstructorAvailability() {
                       })}
                   </div>
 
-                  {requiredDays > 0 && uniqueDaysCount < requiredDays && (
+                  {requiredHalfDays > 0 && selectedHalfDays < requiredHalfDays && (
                     <Alert className="mt-3">
                       <AlertDescription>
-                        ⚠️ Il manque {requiredDays - uniqueDaysCount} jour{requiredDays - uniqueDaysCount > 1 ? 's' : ''} par rapport à la durée de la formation ({requiredDays} jour{requiredDays > 1 ? 's' : ''}). Vous pouvez quand même enregistrer si d'autres formateurs complètent les jours manquants.
+                        ⚠️ Il manque {formatHalfDays(requiredHalfDays - selectedHalfDays)} par rapport à la durée de la formation ({formatHalfDays(requiredHalfDays)}). Vous pouvez quand même enregistrer si d'autres formateurs complètent les jours manquants.
                       </AlertDescription>
                     </Alert>
                   )}
 
-                  {uniqueDaysCount > requiredDays && (
+                  {requiredHalfDays > 0 && selectedHalfDays > requiredHalfDays && (
                     <Alert className="mt-3">
                       <AlertDescription>
-                        ℹ️ Vous avez sélectionné {uniqueDaysCount - requiredDays} jour{uniqueDaysCount - requiredDays > 1 ? 's' : ''} de plus que la durée de la formation ({requiredDays} jour{requiredDays > 1 ? 's' : ''}).
+                        ℹ️ Vous avez sélectionné {formatHalfDays(selectedHalfDays - requiredHalfDays)} de plus que la durée de la formation ({formatHalfDays(requiredHalfDays)}).
                       </AlertDescription>
                     </Alert>
                   )}
@@ -1,10 +1,19 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState, useMemo, useEffect } from "react";
-import type { Session, Formation, User } from "@shared/schema";
+import type { Session, Formation, User, AttendancePeriod } from "@shared/schema";
 import type { AuthMeResponse } from "@/types/api";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Dialog,
   DialogContent,
@@ -24,6 +33,7 @@ import {
   AlertCircle,
   Copy,
   Check,
+  Download,
 } from "lucide-react";
 import { format } from "date-fns";
 import { fr } from "date-fns/locale";
@@ -37,6 +47,7 @@ interface SessionAttendee {
   status: string;
   attended: boolean;
   attendanceSignedAt?: string | null;
+  attendance: Array<{ segmentIndex: number; period: AttendancePeriod; signedAt: string }>;
   registeredAt: string;
   priority: string;
   user: {
@@ -51,8 +62,31 @@ interface AttendanceTokenResponse {
   token: string;
   expiresAt: string;
   sessionId: string;
+  segmentIndex: number;
+  period: AttendancePeriod;
+  live: boolean;
+  segments: Array<{ index: number; start: string; end: string }>;
+}
+
+interface AttendanceTokenRequest {
+  sessionId: string;
+  segmentIndex?: number;
+  period?: AttendancePeriod;
+  live?: boolean;
 }
 
+interface LiveCodeResponse {
+  code: string;
+  window: number;
+  rotatesAt: string;
+}
+
+const PERIOD_LABELS: Record<AttendancePeriod, string> = {
+  day: "Journée",
+  morning: "Matin",
+  afternoon: "Après-midi",
+};
+
 export default function InstructorSessions() {
   const { toast } = useToast();
   const [selectedSession, setSelectedSession] = useState<Session | null>(null);
@@ -86,12 +120,25 @@ export default function InstructorSessions() {
       }
       return res.json();
     },
+    refetchInterval: tokenData?.live ? 10000 : false,
+  });
+
+  // Live codes rotate server-side; refetch right after each rotation
+  const liveCodeQuery = useQuery<LiveCodeResponse>({
+    queryKey: ["/api/sessions", tokenData?.sessionId, "attendance-token", tokenData?.token, "live-code"],
+    enabled: Boolean(isDialogOpen && tokenData?.live),
+    refetchInterval: (query) => {
+      const rotatesAt = query.state.data?.rotatesAt;
+      return rotatesAt ? Math.max(1000, new Date(rotatesAt).getTime() - Date.now() + 250) : 5000;
+    },
   });
 
+  const displayedCode = tokenData?.live ? liveCodeQuery.data?.code : tokenData?.token;
+
   const generateTokenMutation = useMutation({
-    mutationFn: async (sessionId: string) => {
+    mutationFn: async ({ sessionId, segmentIndex, period }: AttendanceTokenRequest) => {
       setTokenError(null);
-      return apiRequest(`/api/sessions/${sessionId}/attendance-token`, "POST", {});
+      return apiRequest(`/api/sessions/${sessionId}/attendance-token`, "POST", { segmentIndex, period });
     },
     onSuccess: (response: AttendanceTokenResponse) => {
       setTokenData(response);
@@ -113,20 +160,25 @@ export default function InstructorSessions() {
   });
 
   const attendees = attendeesQuery.data ?? [];
-  const attendedCount = useMemo(
-    () => attendees.filter((attendee) => attendee.attended).length,
-    [attendees]
-  );
+  // Present for the day and half-day the current QR Code signs for
+  const hasSignedCurrentSlot = (attendee: SessionAttendee) =>
+    Boolean(tokenData) &&
+    attendee.attendance.some(
+      (record) =>
+        record.segmentIndex === tokenData?.segmentIndex &&
+        (record.period === "day" || record.period === tokenData?.period)
+    );
+  const attendedCount = attendees.filter(hasSignedCurrentSlot).length;
 
   const { qrLink, qrLinkError } = useMemo(() => {
-    if (!tokenData) {
+    if (!tokenData || !displayedCode) {
       return { qrLink: "", qrLinkError: null as string | null };
     }
 
     const buildUrl = (origin: string | undefined) => {
       if (!origin) return "";
       try {
-        return new URL(`/a/${tokenData.token}`, origin).toString();
+        return new URL(`/a/${displayedCode}`, origin).toString();
       } catch {
         return "";
       }
@@ -149,7 +201,7 @@ export default function InstructorSessions() {
       qrLinkError:
         "Impossible de déterminer l'URL du QR Code. Assurez-vous que l'application est servie avec une origine accessible ou configurez VITE_PUBLIC_APP_URL.",
     };
-  }, [tokenData]);
+  }, [tokenData, displayedCode]);
 
   useEffect(() => {
     if (!tokenData) return;
@@ -188,12 +240,20 @@ export default function InstructorSessions() {
     setTokenData(null);
     setTokenError(null);
     setLinkCopied(false);
-    generateTokenMutation.mutate(session.id);
+    generateTokenMutation.mutate({ sessionId: session.id });
   };
 
-  const handleTokenRefresh = (sessionId: string) => {
+  const handleTokenRefresh = (
+    sessionId: string,
+    slot: { segmentIndex?: number; period?: AttendancePeriod; live?: boolean } = {}
+  ) => {
     setLinkCopied(false);
-    generateTokenMutation.mutate(sessionId);
+    generateTokenMutation.mutate({
+      sessionId,
+      segmentIndex: slot.segmentIndex ?? tokenData?.segmentIndex,
+      period: slot.period ?? tokenData?.period,
+      live: slot.live ?? tokenData?.live,
+    });
   };
 
   // Filter sessions where I'm the instructor
@@ -353,7 +413,13 @@ export default function InstructorSessions() {
                 <div className="flex flex-col items-center gap-4 rounded-xl border bg-muted/30 p-6">
                   {tokenData && !tokenError ? (
                     <>
-                      <QRCodeCanvas value={qrValue} size={220} />
+                      {qrValue ? (
+                        <QRCodeCanvas value={qrValue} size={220} />
+                      ) : (
+                        <div className="flex h-[220px] w-[220px] items-center justify-center">
+                          <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
+                        </div>
+                      )}
                       <div className="space-y-3 text-center text-sm">
                         <div className="space-y-1">
                           <p className="font-medium">Lien direct</p>
@@ -366,19 +432,25 @@ export default function InstructorSessions() {
                             {qrLink}
                           </a>
                         </div>
-                        <Button
-                          variant="outline"
-                          size="sm"
-                          className="gap-2"
-                          onClick={handleCopyLink}
-                          disabled={!qrLink}
-                        >
-                          {linkCopied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
-                          {linkCopied ? "Lien copié" : "Copier le lien"}
-                        </Button>
+                        {tokenData.live ? (
+                          <p className="text-xs text-muted-foreground">
+                            Code dynamique : il change toutes les 30 secondes, une photo partagée ne permet pas de signer.
+                          </p>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-2"
+                            onClick={handleCopyLink}
+                            disabled={!qrLink}
+                          >
+                            {linkCopied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+                            {linkCopied ? "Lien copié" : "Copier le lien"}
+                          </Button>
+                        )}
                         <div>
                           <p className="font-medium">Code manuel</p>
-                          <p className="font-mono text-xs text-muted-foreground break-all">{tokenData.token}</p>
+                          <p className="font-mono text-xs text-muted-foreground break-all">{displayedCode}</p>
                         </div>
                         <p className="text-xs text-muted-foreground">
                           Expire le {format(new Date(tokenData.expiresAt), "d MMMM yyyy 'à' HH:mm", { locale: fr })}
@@ -407,6 +479,63 @@ export default function InstructorSessions() {
                       <Loader2 className="w-8 h-8 animate-spin text-muted-foreground" />
                     </div>
                   )}
+                  {tokenData && (
+                    <div className="flex w-full items-center justify-between gap-2">
+                      <Label htmlFor="attendance-live-mode" className="text-sm">
+                        Mode live
+                      </Label>
+                      <Switch
+                        id="attendance-live-mode"
+                        checked={tokenData.live}
+                        onCheckedChange={(checked) =>
+                          selectedSession && handleTokenRefresh(selectedSession.id, { live: checked })
+                        }
+                        disabled={generateTokenMutation.isPending}
+                        data-testid="switch-attendance-live"
+                      />
+                    </div>
+                  )}
+                  {tokenData && (
+                    <div className="grid w-full grid-cols-2 gap-2">
+                      <Select
+                        value={String(tokenData.segmentIndex)}
+                        onValueChange={(value) =>
+                          selectedSession && handleTokenRefresh(selectedSession.id, { segmentIndex: Number(value) })
+                        }
+                        disabled={generateTokenMutation.isPending}
+                      >
+                        <SelectTrigger data-testid="select-attendance-segment">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {tokenData.segments.map((segment) => (
+                            <SelectItem key={segment.index} value={String(segment.index)}>
+                              Jour {segment.index + 1} · {format(new Date(segment.start), "d MMM", { locale: fr })}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={tokenData.period}
+                        onValueChange={(value) =>
+                          selectedSession &&
+                          handleTokenRefresh(selectedSession.id, { period: value as AttendancePeriod })
+                        }
+                        disabled={generateTokenMutation.isPending}
+                      >
+                        <SelectTrigger data-testid="select-attendance-period">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(PERIOD_LABELS) as AttendancePeriod[]).map((period) => (
+                            <SelectItem key={period} value={period}>
+                              {PERIOD_LABELS[period]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
                   {tokenData && (
                     <Button
                       variant="outline"
@@ -461,9 +590,18 @@ export default function InstructorSessions() {
                                 <p className="text-xs text-muted-foreground">{attendee.user.email}</p>
                               )}
                             </div>
-                            <Badge variant={attendee.attended ? "default" : "outline"}>
-                              {attendee.attended ? "Présent" : "En attente"}
-                            </Badge>
+                            <div className="flex flex-col items-end gap-1">
+                              <Badge variant={hasSignedCurrentSlot(attendee) ? "default" : "outline"}>
+                                {hasSignedCurrentSlot(attendee) ? "Présent" : "En attente"}
+                              </Badge>
+                              {attendee.attendance.length > 0 && (
+                                <span className="text-xs text-muted-foreground">
+                                  {attendee.attendance
+                                    .map((record) => `J${record.segmentIndex + 1} ${PERIOD_LABELS[record.period].toLowerCase()}`)
+                                    .join(", ")}
+                                </span>
+                              )}
+                            </div>
                           </div>
                         ))}
                       </div>
@@ -474,7 +612,28 @@ export default function InstructorSessions() {
             </div>
           )}
 
-          <DialogFooter>
+          <DialogFooter className="gap-2 sm:justify-between">
+            {selectedSession && (
+              <div className="flex flex-wrap gap-2">
+                <Button asChild variant="outline">
+                  <a
+                    href={`/api/sessions/${selectedSession.id}/attendees/sheet`}
+                    data-testid="link-attendance-sheet"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Feuille d'émargement (PDF)
+                  </a>
+                </Button>
+                <Button asChild variant="ghost">
+                  <a
+                    href={`/api/sessions/${selectedSession.id}/attendees/sheet?blank=1`}
+                    data-testid="link-attendance-sheet-blank"
+                  >
+                    Feuille vierge
+                  </a>
+                </Button>
+              </div>
+            )}
             <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
               Fermer
             </Button>
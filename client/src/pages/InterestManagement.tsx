@@ -37,6 +37,7 @@ import {
   UserX,
   Megaphone,
   AlertTriangle,
+  CalendarRange,
 } from "lucide-react";
 import {
   Dialog,
@@ -56,13 +57,16 @@ import type { AdminInterestsResponse } from "@/types/admin";
 import { format } from "date-fns";
 import { fr } from "date-fns/locale";
 import PriorityBadge from "@/components/PriorityBadge";
+import QuotaCycleSettingsDialog from "@/components/QuotaCycleSettingsDialog";
 import { useRouteNotifications, useMarkNotificationsRead } from "@/hooks/use-notifications";
+import { DEEP_LINK_ROW_HIGHLIGHT_CLASS, getDeepLinkElementId, useDeepLinkTarget } from "@/hooks/use-deep-link";
 
 export default function InterestManagement() {
   const [selectedInterest, setSelectedInterest] = useState<FormationInterest | null>(null);
   const [actionType, setActionType] = useState<"approve" | "reject" | null>(null);
   const [cancelInterestTarget, setCancelInterestTarget] = useState<FormationInterest | null>(null);
   const [isValidationDialogOpen, setIsValidationDialogOpen] = useState(false);
+  const [isQuotaDialogOpen, setIsQuotaDialogOpen] = useState(false);
   const { toast } = useToast();
 
   // Fetch all interests (RH access)
@@ -80,6 +84,9 @@ export default function InterestManagement() {
 
   const interests = interestsData?.interests || [];
   const aggregated = interestsData?.aggregated || [];
+  const targetInterestId = useDeepLinkTarget("interest", !isLoadingInterests);
+  // A notification link opens the tab listing the intention it points to
+  const targetInterestTab = interests.find((interest) => interest.id === targetInterestId)?.status ?? "pending";
 
   const { data: validationSettings } = useQuery<{ coachValidationOnly: boolean; rhValidationOnly: boolean }>({
     queryKey: ["/api/admin/settings/coach-validation"],
@@ -466,7 +473,11 @@ export default function InterestManagement() {
                 ].filter(Boolean);
 
                 return (
-                  <TableRow key={interest.id}>
+                  <TableRow
+                    key={interest.id}
+                    id={getDeepLinkElementId("interest", interest.id)}
+                    className={cn(targetInterestId === interest.id && DEEP_LINK_ROW_HIGHLIGHT_CLASS)}
+                  >
                     <TableCell className="font-medium">
                       <div>
                         <div>{user?.name || "Utilisateur inconnu"}</div>
@@ -745,6 +756,17 @@ export default function InterestManagement() {
                   </DialogFooter>
                 </DialogContent>
               </Dialog>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-12 w-12 rounded-xl"
+                aria-label="Configurer le cycle des priorités"
+                onClick={() => setIsQuotaDialogOpen(true)}
+                data-testid="button-open-quota-settings"
+              >
+                <CalendarRange className="h-5 w-5" />
+              </Button>
+              <QuotaCycleSettingsDialog open={isQuotaDialogOpen} onOpenChange={setIsQuotaDialogOpen} />
             </div>
           </div>
         </div>
@@ -823,7 +845,7 @@ export default function InterestManagement() {
           </Card>
         </div>
 
-        <Tabs defaultValue="pending" className="space-y-6">
+        <Tabs key={targetInterestId ?? "default"} defaultValue={targetInterestTab} className="space-y-6">
           <TabsList className="grid w-full max-w-3xl grid-cols-6">
             <TabsTrigger value="pending" data-testid="tab-pending-interests">
               En attente ({pendingInterests.length})
@@ -1,4 +1,6 @@
 import { useEffect, useState } from "react";
+import { useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -21,7 +23,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
-import { AlertCircle } from "lucide-react";
+import { AlertCircle, Building2 } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { SENIORITY_LEVELS, type SeniorityLevel, type User } from "@shared/schema";
 import logoWhite from "@/assets/logo-white.png";
@@ -32,6 +34,10 @@ const loginSchema = z.object({
   password: z.string().min(1, "Mot de passe requis"),
 });
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Email invalide"),
+});
+
 const registerSchema = z
   .object({
     firstName: z.string().min(1, "Le prénom est requis"),
@@ -63,14 +69,31 @@ const registerSchema = z
 
 type LoginFormData = z.infer<typeof loginSchema>;
 type RegisterFormData = z.infer<typeof registerSchema>;
+type ForgotPasswordFormData = z.infer<typeof forgotPasswordSchema>;
 
 interface LoginProps {
   onLoginSuccess: (user: User) => void;
 }
 
 export default function Login({ onLoginSuccess }: LoginProps) {
-  const [error, setError] = useState<string | null>(null);
+  const search = useSearch();
+  const [error, setError] = useState<string | null>(
+    () => new URLSearchParams(search).get("sso_error")
+  );
   const [isLoading, setIsLoading] = useState(false);
+  const [showForgotPassword, setShowForgotPassword] = useState(false);
+  const [resetRequestMessage, setResetRequestMessage] = useState<string | null>(null);
+
+  const { data: ssoConfig } = useQuery<{ enabled: boolean; providerName: string | null }>({
+    queryKey: ["/api/auth/sso/config"],
+  });
+
+  // The SSO callback reports failures through the query string, drop it once displayed
+  useEffect(() => {
+    if (new URLSearchParams(search).has("sso_error")) {
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, [search]);
 
   const loginForm = useForm<LoginFormData>({
     resolver: zodResolver(loginSchema),
@@ -80,6 +103,13 @@ export default function Login({ onLoginSuccess }: LoginProps) {
     },
   });
 
+  const forgotPasswordForm = useForm<ForgotPasswordFormData>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: {
+      email: "",
+    },
+  });
+
   const registerForm = useForm<RegisterFormData>({
     resolver: zodResolver(registerSchema),
     defaultValues: {
@@ -122,6 +152,32 @@ export default function Login({ onLoginSuccess }: LoginProps) {
     }
   };
 
+  const onForgotPassword = async (data: ForgotPasswordFormData) => {
+    setError(null);
+    setResetRequestMessage(null);
+    setIsLoading(true);
+
+    try {
+      const response: { message: string } = await apiRequest(
+        "/api/auth/password-reset/request",
+        "POST",
+        { email: data.email.trim() }
+      );
+      setResetRequestMessage(response.message);
+    } catch (err: any) {
+      setError(err.message || "Impossible d'envoyer l'email de réinitialisation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleForgotPassword = () => {
+    setError(null);
+    setResetRequestMessage(null);
+    forgotPasswordForm.setValue("email", loginForm.getValues("email"));
+    setShowForgotPassword((current) => !current);
+  };
+
   const onRegister = async (data: RegisterFormData) => {
     setError(null);
     setIsLoading(true);
@@ -203,65 +259,158 @@ export default function Login({ onLoginSuccess }: LoginProps) {
           </TabsList>
 
           <TabsContent value="login" className="mt-8 space-y-5">
-            <Form {...loginForm}>
-              <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
-                <FormField
-                  control={loginForm.control}
-                  name="email"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Email</FormLabel>
-                      <FormControl>
-                        <Input
-                          {...field}
-                          type="email"
-                          placeholder="votre.nom@colombus-consulting.fr"
-                          data-testid="input-email"
-                          disabled={isLoading}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+            {showForgotPassword ? (
+              <Form {...forgotPasswordForm}>
+                <form
+                  onSubmit={forgotPasswordForm.handleSubmit(onForgotPassword)}
+                  className="space-y-4"
+                >
+                  <p className="text-sm text-muted-foreground">
+                    Indiquez l'adresse email de votre compte : vous recevrez un lien pour choisir un
+                    nouveau mot de passe.
+                  </p>
+                  <FormField
+                    control={forgotPasswordForm.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="email"
+                            placeholder="votre.nom@colombus-consulting.fr"
+                            data-testid="input-forgot-password-email"
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                <FormField
-                  control={loginForm.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Mot de passe</FormLabel>
-                      <FormControl>
-                        <Input
-                          {...field}
-                          type="password"
-                          placeholder="••••••••"
-                          data-testid="input-password"
-                          disabled={isLoading}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+                  {resetRequestMessage && (
+                    <div className="rounded-xl border border-accent/30 bg-accent/10 p-3">
+                      <p className="text-sm text-foreground">{resetRequestMessage}</p>
+                    </div>
                   )}
-                />
 
-                {error && (
-                  <div className="flex items-start gap-2 rounded-xl border border-destructive/20 bg-destructive/10 p-3">
-                    <AlertCircle className="mt-0.5 h-5 w-5 text-destructive" />
-                    <p className="text-sm text-destructive">{error}</p>
-                  </div>
-                )}
+                  {error && (
+                    <div className="flex items-start gap-2 rounded-xl border border-destructive/20 bg-destructive/10 p-3">
+                      <AlertCircle className="mt-0.5 h-5 w-5 text-destructive" />
+                      <p className="text-sm text-destructive">{error}</p>
+                    </div>
+                  )}
 
+                  <Button
+                    type="submit"
+                    className="w-full rounded-xl bg-primary py-4 text-sm font-semibold text-white shadow-[0_24px_40px_-28px_rgba(10,132,255,0.65)] hover:bg-primary/90"
+                    disabled={isLoading}
+                    data-testid="button-forgot-password-submit"
+                  >
+                    {isLoading ? "Envoi..." : "Recevoir le lien de réinitialisation"}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="w-full"
+                    onClick={toggleForgotPassword}
+                    disabled={isLoading}
+                  >
+                    Retour à la connexion
+                  </Button>
+                </form>
+              </Form>
+            ) : (
+              <Form {...loginForm}>
+                <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
+                  <FormField
+                    control={loginForm.control}
+                    name="email"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Email</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="email"
+                            placeholder="votre.nom@colombus-consulting.fr"
+                            data-testid="input-email"
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+  
+                  <FormField
+                    control={loginForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Mot de passe</FormLabel>
+                        <FormControl>
+                          <Input
+                            {...field}
+                            type="password"
+                            placeholder="••••••••"
+                            data-testid="input-password"
+                            disabled={isLoading}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+  
+                  {error && (
+                    <div className="flex items-start gap-2 rounded-xl border border-destructive/20 bg-destructive/10 p-3">
+                      <AlertCircle className="mt-0.5 h-5 w-5 text-destructive" />
+                      <p className="text-sm text-destructive">{error}</p>
+                    </div>
+                  )}
+  
+                  <Button
+                    type="submit"
+                    className="w-full rounded-xl bg-primary py-4 text-sm font-semibold text-white shadow-[0_24px_40px_-28px_rgba(10,132,255,0.65)] hover:bg-primary/90"
+                    disabled={isLoading}
+                    data-testid="button-login"
+                  >
+                    {isLoading ? "Connexion..." : "Se connecter"}
+                  </Button>
+                  <button
+                    type="button"
+                    onClick={toggleForgotPassword}
+                    className="block w-full text-center text-sm font-medium text-primary hover:underline"
+                    data-testid="button-forgot-password"
+                  >
+                    Mot de passe oublié ?
+                  </button>
+                </form>
+              </Form>
+            )}
+
+            {ssoConfig?.enabled && !showForgotPassword ? (
+              <div className="space-y-4">
+                <div className="flex items-center gap-3 text-xs uppercase tracking-wide text-muted-foreground">
+                  <span className="h-px flex-1 bg-border" />
+                  ou
+                  <span className="h-px flex-1 bg-border" />
+                </div>
                 <Button
-                  type="submit"
-                  className="w-full rounded-xl bg-primary py-4 text-sm font-semibold text-white shadow-[0_24px_40px_-28px_rgba(10,132,255,0.65)] hover:bg-primary/90"
-                  disabled={isLoading}
-                  data-testid="button-login"
+                  asChild
+                  variant="outline"
+                  className="w-full rounded-xl py-4 text-sm font-semibold"
+                  data-testid="button-login-sso"
                 >
-                  {isLoading ? "Connexion..." : "Se connecter"}
+                  <a href="/api/auth/sso/login">
+                    <Building2 className="mr-2 h-4 w-4" />
+                    Se connecter avec {ssoConfig.providerName ?? "le SSO"}
+                  </a>
                 </Button>
-              </form>
-            </Form>
+              </div>
+            ) : null}
 
             <div className="rounded-3xl border border-black/5 bg-secondary p-5">
               <p className="mb-3 text-sm text-muted-foreground text-center">Comptes de démonstration</p>
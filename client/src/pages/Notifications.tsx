@@ -0,0 +1,333 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Archive,
+  ArchiveRestore,
+  ChevronLeft,
+  ChevronRight,
+  ExternalLink,
+  Loader2,
+  Mail,
+  MailOpen,
+} from "lucide-react";
+import { format } from "date-fns";
+import { fr } from "date-fns/locale";
+import { useToast } from "@/hooks/use-toast";
+import {
+  useArchiveNotifications,
+  useMarkNotificationsRead,
+  useMarkNotificationsUnread,
+  useNotificationHistory,
+  useNotifications,
+  type NotificationHistoryStatus,
+  type UserNotification,
+} from "@/hooks/use-notifications";
+import {
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CATEGORY_DEFINITIONS,
+  type NotificationCategory,
+} from "@shared/notification-preferences";
+import { NOTIFICATION_KIND_DEFINITIONS, getNotificationLink, isNotificationKind } from "@shared/notifications";
+
+const PAGE_SIZE = 20;
+const ALL_VALUE = "all";
+
+const STATUS_LABELS: Record<NotificationHistoryStatus, string> = {
+  all: "Toutes",
+  unread: "Non lues",
+  read: "Lues",
+  archived: "Archivées",
+};
+
+const getKindLabel = (notification: UserNotification) =>
+  isNotificationKind(notification.kind) ? NOTIFICATION_KIND_DEFINITIONS[notification.kind].label : null;
+
+export default function Notifications() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<NotificationHistoryStatus>("all");
+  const [category, setCategory] = useState<string>(ALL_VALUE);
+  const [page, setPage] = useState(1);
+
+  const { data: summary } = useNotifications();
+  const { data, isLoading, isFetching } = useNotificationHistory({
+    status,
+    category: category === ALL_VALUE ? undefined : category,
+    page,
+    pageSize: PAGE_SIZE,
+  });
+  const markRead = useMarkNotificationsRead();
+  const markUnread = useMarkNotificationsUnread();
+  const archive = useArchiveNotifications();
+
+  const notifications = data?.notifications ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const totalUnread = summary?.totalUnread ?? 0;
+  const isUpdating = markRead.isPending || markUnread.isPending || archive.isPending;
+
+  const handleError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Erreur",
+      description: error?.message || "Impossible de mettre à jour les notifications.",
+    });
+  };
+
+  const handleOpen = (notification: UserNotification) => {
+    if (!notification.read) {
+      markRead.mutate({ notificationIds: [notification.id] });
+    }
+  };
+
+  const handleToggleRead = (notification: UserNotification) => {
+    if (notification.read) {
+      markUnread.mutate([notification.id], { onError: handleError });
+    } else {
+      markRead.mutate({ notificationIds: [notification.id] }, { onError: handleError });
+    }
+  };
+
+  const handleArchive = (notification: UserNotification) => {
+    const archived = !notification.archivedAt;
+    archive.mutate(
+      { notificationIds: [notification.id], archived },
+      {
+        onSuccess: () => {
+          toast({ title: archived ? "Notification archivée" : "Notification restaurée" });
+        },
+        onError: handleError,
+      },
+    );
+  };
+
+  const handleMarkAllRead = () => {
+    markRead.mutate(
+      { all: true },
+      {
+        onSuccess: () => {
+          toast({ title: "Toutes les notifications sont lues" });
+        },
+        onError: handleError,
+      },
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <div className="space-y-4 text-center">
+          <Loader2 className="mx-auto h-12 w-12 animate-spin text-primary" />
+          <p className="text-muted-foreground">Chargement des notifications...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-12">
+      <section className="surface-elevated relative overflow-hidden rounded-[2rem] px-12 py-14">
+        <div className="pointer-events-none absolute inset-y-10 right-0 hidden w-80 rounded-l-[40px] bg-[radial-gradient(circle_at_center,rgba(0,158,203,0.12),transparent_65%)] md:block" />
+        <div className="relative z-10 flex flex-col gap-10 md:flex-row md:items-center md:justify-between">
+          <div className="max-w-3xl space-y-4">
+            <p className="eyebrow text-muted-foreground">Mon suivi</p>
+            <h1 className="text-4xl font-semibold tracking-tight text-foreground md:text-5xl">Notifications</h1>
+            <p className="text-base leading-relaxed text-muted-foreground">
+              Retrouvez l'historique de vos notifications et ouvrez directement l'intention ou la session concernée.
+            </p>
+          </div>
+          <div className="rounded-3xl bg-white/70 p-6 shadow-lg ring-1 ring-black/5">
+            <p className="text-sm text-muted-foreground">Non lues</p>
+            <p className="mt-2 text-4xl font-semibold text-foreground">{totalUnread}</p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="mt-4"
+              onClick={handleMarkAllRead}
+              disabled={totalUnread === 0 || markRead.isPending}
+              data-testid="button-mark-all-notifications-read"
+            >
+              Tout marquer comme lu
+            </Button>
+          </div>
+        </div>
+      </section>
+
+      <Card className="rounded-[1.75rem] border border-border/60 p-6 shadow-sm">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="notifications-status">Statut</Label>
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value as NotificationHistoryStatus);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger id="notifications-status" data-testid="select-notifications-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="notifications-category">Catégorie</Label>
+            <Select
+              value={category}
+              onValueChange={(value) => {
+                setCategory(value);
+                setPage(1);
+              }}
+            >
+              <SelectTrigger id="notifications-category" data-testid="select-notifications-category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VALUE}>Toutes les catégories</SelectItem>
+                {NOTIFICATION_CATEGORIES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {NOTIFICATION_CATEGORY_DEFINITIONS[value].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </Card>
+
+      {notifications.length === 0 ? (
+        <Card className="rounded-[1.75rem] border border-dashed border-border/60 bg-muted/30 p-12 text-center shadow-none">
+          <p className="text-lg font-semibold text-foreground">Aucune notification</p>
+          <p className="mt-2 text-sm text-muted-foreground">Aucune notification ne correspond à ces filtres.</p>
+        </Card>
+      ) : (
+        <Card className="rounded-[1.75rem] border border-border/60 p-6 shadow-sm">
+          <ul className="divide-y divide-border/60">
+            {notifications.map((notification) => {
+              const kindLabel = getKindLabel(notification);
+              const categoryLabel = notification.category
+                ? NOTIFICATION_CATEGORY_DEFINITIONS[notification.category as NotificationCategory]?.label
+                : undefined;
+
+              return (
+                <li
+                  key={notification.id}
+                  className="flex flex-col gap-4 py-4 md:flex-row md:items-start md:justify-between"
+                  data-testid={`row-notification-${notification.id}`}
+                >
+                  <div className="flex flex-1 items-start gap-3">
+                    <span
+                      className={`mt-2 h-2 w-2 flex-shrink-0 rounded-full ${
+                        notification.read ? "bg-transparent" : "bg-primary"
+                      }`}
+                    />
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className={`text-foreground ${notification.read ? "font-medium" : "font-semibold"}`}>
+                          {notification.title}
+                        </p>
+                        {kindLabel && <Badge variant="outline">{kindLabel}</Badge>}
+                        {categoryLabel && <Badge variant="secondary">{categoryLabel}</Badge>}
+                      </div>
+                      {notification.message && (
+                        <p className="text-sm text-muted-foreground">{notification.message}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">
+                        {format(new Date(notification.createdAt), "dd MMM yyyy HH:mm", { locale: fr })}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 md:justify-end">
+                    <Button asChild variant="outline" size="sm" className="gap-2">
+                      <Link
+                        href={getNotificationLink(notification)}
+                        onClick={() => handleOpen(notification)}
+                        data-testid={`link-notification-${notification.id}`}
+                      >
+                        <ExternalLink className="h-4 w-4" />
+                        Ouvrir
+                      </Link>
+                    </Button>
+                    {!notification.archivedAt && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => handleToggleRead(notification)}
+                        disabled={isUpdating}
+                        data-testid={`button-toggle-read-notification-${notification.id}`}
+                      >
+                        {notification.read ? <Mail className="h-4 w-4" /> : <MailOpen className="h-4 w-4" />}
+                        {notification.read ? "Marquer non lue" : "Marquer lue"}
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="gap-2"
+                      onClick={() => handleArchive(notification)}
+                      disabled={isUpdating}
+                      data-testid={`button-archive-notification-${notification.id}`}
+                    >
+                      {notification.archivedAt ? (
+                        <ArchiveRestore className="h-4 w-4" />
+                      ) : (
+                        <Archive className="h-4 w-4" />
+                      )}
+                      {notification.archivedAt ? "Restaurer" : "Archiver"}
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className="mt-6 flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              Page {page} sur {pageCount}
+              {isFetching && <Loader2 className="ml-2 inline h-4 w-4 animate-spin" />}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page <= 1}
+                onClick={() => setPage((current) => Math.max(1, current - 1))}
+                data-testid="button-notifications-previous-page"
+              >
+                <ChevronLeft className="h-4 w-4" />
+                Précédent
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={page >= pageCount}
+                onClick={() => setPage((current) => Math.min(pageCount, current + 1))}
+                data-testid="button-notifications-next-page"
+              >
+                Suivant
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
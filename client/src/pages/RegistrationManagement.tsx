@@ -116,6 +116,13 @@ export default function RegistrationManagement() {
   const pendingRegistrations = registrations.filter(r => r.status === "pending");
   const validatedRegistrations = registrations.filter(r => r.status === "validated");
   const cancelledRegistrations = registrations.filter(r => r.status === "cancelled");
+  const waitlistedRegistrations = registrations
+    .filter(r => r.status === "waitlisted")
+    .sort((a, b) =>
+      a.sessionId === b.sessionId
+        ? (a.waitlistPosition ?? 0) - (b.waitlistPosition ?? 0)
+        : a.sessionId.localeCompare(b.sessionId)
+    );
 
   if (isLoadingRegistrations) {
     return (
@@ -176,7 +183,14 @@ export default function RegistrationManagement() {
                     {format(new Date(registration.registeredAt || new Date()), "dd/MM/yyyy")}
                   </TableCell>
                   <TableCell>
-                    <StatusBadge status={registration.status as "pending" | "validated" | "completed" | "cancelled"} />
+                    <div className="flex items-center gap-2">
+                      <StatusBadge status={registration.status} />
+                      {registration.status === "waitlisted" && registration.waitlistPosition && (
+                        <span className="text-xs text-muted-foreground" data-testid={`text-waitlist-position-${registration.id}`}>
+                          n°{registration.waitlistPosition}
+                        </span>
+                      )}
+                    </div>
                   </TableCell>
                   {showActions && (
                     <TableCell className="text-right space-x-2">
@@ -276,6 +290,9 @@ export default function RegistrationManagement() {
             <TabsTrigger value="validated" className="px-6 font-medium">
               Validées ({validatedRegistrations.length})
             </TabsTrigger>
+            <TabsTrigger value="waitlisted" className="px-6 font-medium">
+              Liste d'attente ({waitlistedRegistrations.length})
+            </TabsTrigger>
             <TabsTrigger value="cancelled" className="px-6 font-medium">
               Refusées ({cancelledRegistrations.length})
             </TabsTrigger>
@@ -293,6 +310,12 @@ export default function RegistrationManagement() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="waitlisted">
+            <Card className="rounded-[1.75rem] border border-border/50 p-6 shadow-sm">
+              <RegistrationTable data={waitlistedRegistrations} />
+            </Card>
+          </TabsContent>
+
           <TabsContent value="cancelled">
             <Card className="rounded-[1.75rem] border border-border/50 p-6 shadow-sm">
               <RegistrationTable data={cancelledRegistrations} />
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useSearch } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { AlertCircle, CheckCircle, KeyRound } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import logoWhite from "@/assets/logo-white.png";
+import logoBlue from "@/assets/logo-blue.png";
+
+const resetPasswordSchema = z
+  .object({
+    newPassword: z.string().min(6, "Le mot de passe doit contenir au moins 6 caractères"),
+    confirmPassword: z.string().min(1, "Merci de confirmer le nouveau mot de passe"),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Les mots de passe ne correspondent pas",
+    path: ["confirmPassword"],
+  });
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+interface ResetPasswordProps {
+  onDone: () => void;
+}
+
+export default function ResetPassword({ onDone }: ResetPasswordProps) {
+  const search = useSearch();
+  const token = new URLSearchParams(search).get("token") ?? "";
+  const [error, setError] = useState<string | null>(
+    token ? null : "Le lien de réinitialisation est incomplet."
+  );
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const form = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: {
+      newPassword: "",
+      confirmPassword: "",
+    },
+  });
+
+  const onSubmit = async (data: ResetPasswordFormData) => {
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const response: { message: string } = await apiRequest(
+        "/api/auth/password-reset/confirm",
+        "POST",
+        { token, newPassword: data.newPassword }
+      );
+      setSuccess(response.message);
+    } catch (err: any) {
+      setError(err.message || "Impossible de réinitialiser le mot de passe");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center px-6 py-12">
+      <Card className="surface-elevated relative w-full max-w-xl space-y-8 rounded-[2.5rem] px-12 py-14">
+        <div className="mx-auto flex items-center justify-center">
+          <img src={logoBlue} alt="Colombus Consulting" className="h-16 w-auto dark:hidden" />
+          <img src={logoWhite} alt="Colombus Consulting" className="hidden h-16 w-auto dark:block" />
+        </div>
+        <div className="space-y-3 text-center">
+          <p className="eyebrow text-muted-foreground">Mot de passe oublié</p>
+          <h1 className="flex items-center justify-center gap-2 text-2xl font-semibold tracking-tight text-foreground">
+            <KeyRound className="h-6 w-6 text-primary" />
+            Nouveau mot de passe
+          </h1>
+        </div>
+
+        {success ? (
+          <div className="space-y-6">
+            <div className="flex items-start gap-2 rounded-xl border border-accent/30 bg-accent/10 p-3">
+              <CheckCircle className="mt-0.5 h-5 w-5 text-accent" />
+              <p className="text-sm text-foreground">{success}</p>
+            </div>
+            <Button
+              className="w-full rounded-xl"
+              onClick={onDone}
+              data-testid="button-reset-password-back"
+            >
+              Retour à la connexion
+            </Button>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="newPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Nouveau mot de passe</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="password"
+                        autoComplete="new-password"
+                        data-testid="input-reset-new-password"
+                        disabled={isLoading || !token}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="confirmPassword"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Confirmation</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="password"
+                        autoComplete="new-password"
+                        data-testid="input-reset-confirm-password"
+                        disabled={isLoading || !token}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {error && (
+                <div className="flex items-start gap-2 rounded-xl border border-destructive/20 bg-destructive/10 p-3">
+                  <AlertCircle className="mt-0.5 h-5 w-5 text-destructive" />
+                  <p className="text-sm text-destructive">{error}</p>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full rounded-xl bg-primary py-4 text-sm font-semibold text-white shadow-[0_24px_40px_-28px_rgba(10,132,255,0.65)] hover:bg-primary/90"
+                disabled={isLoading || !token}
+                data-testid="button-reset-password"
+              >
+                {isLoading ? "Enregistrement..." : "Réinitialiser mon mot de passe"}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={onDone}>
+                Retour à la connexion
+              </Button>
+            </form>
+          </Form>
+        )}
+      </Card>
+    </div>
+  );
+}
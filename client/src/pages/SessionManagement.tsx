@@ -38,6 +38,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -48,12 +49,13 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Plus, Pencil, Trash2, Loader2, CalendarDays, MapPin, Users as UsersIcon, ChevronDown, ChevronRight, Clock, AlertCircle, CheckCircle } from "lucide-react";
+import { Plus, Pencil, Trash2, Ban, FileDown, Award, Loader2, CalendarDays, MapPin, Users as UsersIcon, ChevronDown, ChevronRight, Clock, AlertCircle, CheckCircle } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Session, Formation, User, Registration } from "@shared/schema";
+import type { Session, Formation, User, Registration, AvailabilitySlot } from "@shared/schema";
 import { insertSessionSchema } from "@shared/schema";
 import { isInstructor } from "@shared/roles";
+import { getFormationDuration, getSessionBoundsFromSlots } from "@shared/formation-duration";
 import { format } from "date-fns";
 import { fr } from "date-fns/locale";
 import { z } from "zod";
@@ -70,8 +72,10 @@ export default function SessionManagement() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSession, setEditingSession] = useState<Session | null>(null);
   const [deleteSession, setDeleteSession] = useState<Session | null>(null);
+  const [cancellingSession, setCancellingSession] = useState<Session | null>(null);
+  const [cancellationReason, setCancellationReason] = useState("");
   const [expandedSession, setExpandedSession] = useState<string | null>(null);
-  const [selectedSlots, setSelectedSlots] = useState<Array<{date: string, timeSlot: string, instructorId: string}>>([]);
+  const [selectedSlots, setSelectedSlots] = useState<Array<{date: string, timeSlot: AvailabilitySlot["timeSlot"], instructorId: string}>>([]);
   const [registrationDrafts, setRegistrationDrafts] = useState<Record<string, { userId: string; priority: "P1" | "P2" | "P3" }>>({});
   const { toast } = useToast();
 
@@ -148,6 +152,7 @@ export default function SessionManagement() {
       startDate: "",
       endDate: "",
       location: "",
+      meetingUrl: "",
       capacity: 10,
       instructorId: undefined,
       status: "open",
@@ -181,6 +186,24 @@ export default function SessionManagement() {
     },
   });
 
+  // Issuing writes the certificates, the download then only reads them
+  const certificatesMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await apiRequest(`/api/sessions/${sessionId}/certificates`, "POST");
+      return sessionId;
+    },
+    onSuccess: (sessionId) => {
+      window.location.assign(`/api/sessions/${sessionId}/certificates`);
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error.message || "Impossible de générer les attestations",
+      });
+    },
+  });
+
   const updateMutation = useMutation({
     mutationFn: async ({ id, data }: { id: string; data: SessionFormData }) => {
       const payload = {
@@ -230,6 +253,29 @@ export default function SessionManagement() {
     },
   });
 
+  const cancelMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      return apiRequest(`/api/sessions/${id}/cancel`, "POST", { reason });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
+      toast({
+        title: "Session annulée",
+        description: "Le formateur et les participants ont été prévenus",
+      });
+      setCancellingSession(null);
+      setCancellationReason("");
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Erreur",
+        description: error.message || "Impossible d'annuler la session",
+      });
+    },
+  });
+
   const enrollMutation = useMutation({
     mutationFn: async ({ sessionId, formationId, userId, priority }: { sessionId: string; formationId: string; userId: string; priority: "P1" | "P2" | "P3" }) => {
       return apiRequest("/api/registrations", "POST", {
@@ -269,6 +315,7 @@ export default function SessionManagement() {
       startDate: "",
       endDate: "",
       location: "",
+      meetingUrl: "",
       capacity: 10,
       instructorId: undefined,
       status: "open",
@@ -284,6 +331,7 @@ export default function SessionManagement() {
       startDate: format(new Date(session.startDate), "yyyy-MM-dd'T'HH:mm"),
       endDate: format(new Date(session.endDate), "yyyy-MM-dd'T'HH:mm"),
       location: session.location || "",
+      meetingUrl: session.meetingUrl || "",
       capacity: session.capacity,
       instructorId: session.instructorId || undefined,
       status: session.status,
@@ -375,30 +423,13 @@ export default function SessionManagement() {
       return;
     }
 
-    // Sort slots by date
-    const sortedSlots = [...selectedSlots].sort((a, b) => a.date.localeCompare(b.date));
-    const firstSlot = sortedSlots[0];
-    const lastSlot = sortedSlots[sortedSlots.length - 1];
-
-    // Calculate start date/time based on first slot's timeSlot
-    const startDate = new Date(firstSlot.date);
-    if (firstSlot.timeSlot === 'morning') {
-      startDate.setHours(9, 0, 0, 0);
-    } else if (firstSlot.timeSlot === 'afternoon') {
-      startDate.setHours(14, 0, 0, 0);
-    } else {
-      startDate.setHours(9, 0, 0, 0);
-    }
-
-    // Calculate end date/time based on last slot's timeSlot
-    const endDate = new Date(lastSlot.date);
-    if (lastSlot.timeSlot === 'morning') {
-      endDate.setHours(12, 0, 0, 0);
-    } else if (lastSlot.timeSlot === 'afternoon') {
-      endDate.setHours(18, 0, 0, 0);
-    } else {
-      endDate.setHours(18, 0, 0, 0);
+    // Times follow the formation's daily schedule; a formation in hours ends once they are taught
+    const formation = getFormation(form.getValues("formationId"));
+    const bounds = getSessionBoundsFromSlots(selectedSlots, formation ? getFormationDuration(formation) : null);
+    if (!bounds) {
+      return;
     }
+    const { startDate, endDate } = bounds;
 
     // Format for datetime-local input
     const formatForInput = (date: Date) => {
@@ -412,7 +443,7 @@ export default function SessionManagement() {
 
     form.setValue("startDate", formatForInput(startDate));
     form.setValue("endDate", formatForInput(endDate));
-  }, [selectedSlots, form]);
+  }, [selectedSlots, form, formations]);
 
   const openSessionsCount = sessions.filter((session) => session.status === "open").length;
   const fullSessionsCount = sessions.filter((session) => session.status === "full").length;
@@ -583,17 +614,60 @@ export default function SessionManagement() {
                                session.status === "full" ? "Complet" :
                                session.status === "completed" ? "Terminé" : "Annulé"}
                             </Badge>
+                            {session.status === "cancelled" && session.cancellationReason && (
+                              <p className="mt-1 max-w-[14rem] text-xs text-muted-foreground" data-testid={`text-cancellation-reason-${session.id}`}>
+                                {session.cancellationReason}
+                              </p>
+                            )}
                           </TableCell>
                           <TableCell className="text-right" onClick={(e) => e.stopPropagation()}>
                             <div className="flex items-center justify-end gap-2">
-                              <Button
-                                size="icon"
-                                variant="ghost"
-                                onClick={() => handleEdit(session)}
-                                data-testid={`button-edit-${session.id}`}
-                              >
-                                <Pencil className="w-4 h-4" />
-                              </Button>
+                              {session.status !== "cancelled" && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  onClick={() => handleEdit(session)}
+                                  data-testid={`button-edit-${session.id}`}
+                                >
+                                  <Pencil className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {session.status !== "cancelled" && (
+                                <Button asChild size="icon" variant="ghost">
+                                  <a
+                                    href={`/api/sessions/${session.id}/attendees/sheet`}
+                                    aria-label="Télécharger la feuille d'émargement"
+                                    title="Feuille d'émargement (PDF)"
+                                    data-testid={`link-attendance-sheet-${session.id}`}
+                                  >
+                                    <FileDown className="w-4 h-4" />
+                                  </a>
+                                </Button>
+                              )}
+                              {session.status === "completed" && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  aria-label="Générer les attestations"
+                                  title="Attestations des participants présents (PDF)"
+                                  disabled={certificatesMutation.isPending}
+                                  onClick={() => certificatesMutation.mutate(session.id)}
+                                  data-testid={`button-session-certificates-${session.id}`}
+                                >
+                                  <Award className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {session.status !== "cancelled" && session.status !== "completed" && (
+                                <Button
+                                  size="icon"
+                                  variant="ghost"
+                                  aria-label="Annuler la session"
+                                  onClick={() => setCancellingSession(session)}
+                                  data-testid={`button-cancel-session-${session.id}`}
+                                >
+                                  <Ban className="w-4 h-4 text-destructive" />
+                                </Button>
+                              )}
                               <Button
                                 size="icon"
                                 variant="ghost"
@@ -883,7 +957,7 @@ export default function SessionManagement() {
                 {/* Slot Selection */}
                 {form.watch("formationId") && (() => {
                   const instructorsWithAvail = getFormationInstructorsWithAvailabilities(form.watch("formationId"));
-                  const allSlots: Array<{date: string, timeSlot: string, instructorId: string, instructorName: string}> = [];
+                  const allSlots: Array<{date: string, timeSlot: AvailabilitySlot["timeSlot"], instructorId: string, instructorName: string}> = [];
                   
                   instructorsWithAvail.forEach(({ instructor, availability }: any) => {
                     if (availability && availability.slots && Array.isArray(availability.slots)) {
@@ -901,7 +975,7 @@ export default function SessionManagement() {
                   // Sort slots by date
                   allSlots.sort((a, b) => a.date.localeCompare(b.date));
 
-                  const toggleSlot = (slot: {date: string, timeSlot: string, instructorId: string}) => {
+                  const toggleSlot = (slot: {date: string, timeSlot: AvailabilitySlot["timeSlot"], instructorId: string}) => {
                     const isSelected = selectedSlots.some(
                       s => s.date === slot.date && s.timeSlot === slot.timeSlot && s.instructorId === slot.instructorId
                     );
@@ -997,6 +1071,26 @@ export default function SessionManagement() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="meetingUrl"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Lien de visio</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          value={field.value ?? ""}
+                          type="url"
+                          placeholder="https://teams.microsoft.com/…"
+                          data-testid="input-session-meeting-url"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
@@ -1033,7 +1127,7 @@ export default function SessionManagement() {
                             <SelectItem value="open">Ouvert</SelectItem>
                             <SelectItem value="full">Complet</SelectItem>
                             <SelectItem value="completed">Terminé</SelectItem>
-                            <SelectItem value="cancelled">Annulé</SelectItem>
+                            <SelectItem value="cancelled" disabled>Annulé</SelectItem>
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -1091,6 +1185,60 @@ export default function SessionManagement() {
           </DialogContent>
         </Dialog>
 
+        {/* Cancellation */}
+        <Dialog
+          open={!!cancellingSession}
+          onOpenChange={(open) => {
+            if (!open) {
+              setCancellingSession(null);
+              setCancellationReason("");
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Annuler la session</DialogTitle>
+              <DialogDescription>
+                Le formateur et les participants recevront une annulation d'agenda et une notification. Leurs intentions
+                redeviennent validées pour qu'ils puissent s'inscrire à une autre session.
+              </DialogDescription>
+            </DialogHeader>
+            {cancellingSession && (
+              <p className="font-semibold">
+                {getFormation(cancellingSession.formationId)?.title} - {format(new Date(cancellingSession.startDate), "dd MMM yyyy", { locale: fr })}
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="session-cancellation-reason">Motif</Label>
+              <Textarea
+                id="session-cancellation-reason"
+                value={cancellationReason}
+                onChange={(event) => setCancellationReason(event.target.value)}
+                placeholder="Formateur indisponible, nombre d'inscrits insuffisant..."
+                maxLength={500}
+                data-testid="input-cancellation-reason"
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setCancellingSession(null)}>
+                Retour
+              </Button>
+              <Button
+                variant="destructive"
+                disabled={cancellationReason.trim().length < 3 || cancelMutation.isPending}
+                onClick={() =>
+                  cancellingSession &&
+                  cancelMutation.mutate({ id: cancellingSession.id, reason: cancellationReason.trim() })
+                }
+                data-testid="button-confirm-cancel-session"
+              >
+                {cancelMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Annuler la session
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Delete Confirmation */}
         <AlertDialog open={!!deleteSession} onOpenChange={() => setDeleteSession(null)}>
           <AlertDialogContent>
@@ -1105,7 +1253,7 @@ export default function SessionManagement() {
                     </p>
                   )}
                   <p className="mt-2 text-destructive">
-                    Cette action est irréversible et annulera toutes les inscriptions associées.
+                    Cette action est irréversible. Seules les sessions sans inscription peuvent être supprimées : annulez les autres.
                   </p>
                 </div>
               </AlertDialogDescription>
@@ -29,6 +29,7 @@ import SeniorityBadge from "@/components/SeniorityBadge";
 import SessionCard from "@/components/SessionCard";
 import PrioritySelector from "@/components/PrioritySelector";
 import RatingStars from "@/components/RatingStars";
+import PrerequisiteStatusList from "@/components/PrerequisiteStatusList";
 import type { FormationWithRating } from "@/components/TrainingCard";
 import {
   ArrowLeft,
@@ -53,8 +54,10 @@ import {
   type Registration,
   type FormationInterest,
 } from "@shared/schema";
-import type { AuthMeResponse } from "@/types/api";
+import type { AuthMeResponse, PrerequisiteStatusResponse } from "@/types/api";
+import { describePrerequisiteGroup } from "@shared/formation-prerequisites";
 import { useToast } from "@/hooks/use-toast";
+import { useDeepLinkTarget } from "@/hooks/use-deep-link";
 import { Textarea } from "@/components/ui/textarea";
 
 interface TrainingDetailProps {
@@ -238,6 +241,13 @@ export default function TrainingDetail({ currentUser: _currentUser }: TrainingDe
     },
     enabled: !!params?.id,
   });
+  const targetSessionId = useDeepLinkTarget("session", !isLoadingFormation && !isLoadingSessions);
+
+  const { data: prerequisiteStatus } = useQuery<PrerequisiteStatusResponse>({
+    queryKey: ["/api/formations", params?.id, "prerequisites"],
+    enabled: !!params?.id,
+  });
+  const missingPrerequisites = prerequisiteStatus?.missing ?? [];
 
   // Fetch formation interests for this formation
   const { data: interests = [] } = useQuery<FormationInterest[]>({
@@ -402,8 +412,8 @@ export default function TrainingDetail({ currentUser: _currentUser }: TrainingDe
     );
   }, [allRegistrations, currentUser.id, formation?.id]);
 
-  const p1Available = (currentUser.p1Used || 0) < 1;
-  const p2Available = (currentUser.p2Used || 0) < 1;
+  const p1Available = (userData?.quota?.remaining.P1 ?? 0) > 0;
+  const p2Available = (userData?.quota?.remaining.P2 ?? 0) > 0;
 
   // Express interest mutation
   const expressInterestMutation = useMutation({
@@ -444,12 +454,19 @@ export default function TrainingDetail({ currentUser: _currentUser }: TrainingDe
     onSuccess: (registration) => {
       queryClient.invalidateQueries({ queryKey: ["/api/interests"] });
       queryClient.invalidateQueries({ queryKey: ["/api/registrations"] });
+      setShowEnrollmentDialog(false);
+      setSelectedSession(null);
+      if (registration?.status === "waitlisted") {
+        toast({
+          title: "Inscription en liste d'attente",
+          description: `La session est complète : vous êtes en position ${registration.waitlistPosition} et serez inscrit automatiquement si une place se libère.`,
+        });
+        return;
+      }
       toast({
         title: "Inscription confirmée !",
         description: "Vous êtes maintenant inscrit à cette session. Votre demande sera validée par les RH.",
       });
-      setShowEnrollmentDialog(false);
-      setSelectedSession(null);
       if (registration) {
         setCalendarRegistration(registration);
         const matchingSession = sessions.find((s) => s.id === registration.sessionId) || null;
@@ -713,7 +730,7 @@ export default function TrainingDetail({ currentUser: _currentUser }: TrainingDe
                 className="self-start shadow-md"
                 onClick={() => setShowInterestDialog(true)}
                 data-testid="button-express-interest"
-                disabled={isSeniorityMismatch}
+                disabled={isSeniorityMismatch || missingPrerequisites.length > 0}
               >
                 Je suis intéressé
               </Button>
@@ -725,6 +742,11 @@ export default function TrainingDetail({ currentUser: _currentUser }: TrainingDe
               Cette formation nécessite un niveau de séniorité {formation.seniorityRequired}
             </p>
           )}
+          {missingPrerequisites.length > 0 && (
+            <p className="text-sm text-muted-foreground" data-testid="text-missing-prerequisites">
+              Formations à suivre au préalable : {missingPrerequisites.map(describePrerequisiteGroup).join(" ; ")}
+            </p>
+          )}
         </div>
       </Card>
 
@@ -761,10 +783,22 @@ export default function TrainingDetail({ currentUser: _currentUser }: TrainingDe
             <p className="text-muted-foreground leading-relaxed text-base">{formation.objectives}</p>
           </Card>
 
-          {formation.prerequisites && (
-            <Card className="p-8 shadow-md rounded-3xl border border-border/60 bg-background/95">
-              <h2 className="text-xl font-semibold text-primary mb-4">Prérequis</h2>
-              <p className="text-muted-foreground leading-relaxed text-base">{formation.prerequisites}</p>
+          {(formation.prerequisites || (prerequisiteStatus?.groups.length ?? 0) > 0) && (
+            <Card className="p-8 shadow-md rounded-3xl border border-border/60 bg-background/95 space-y-4">
+              <h2 className="text-xl font-semibold text-primary">Prérequis</h2>
+              {formation.prerequisites && (
+                <p className="text-muted-foreground leading-relaxed text-base">{formation.prerequisites}</p>
+              )}
+              {prerequisiteStatus && prerequisiteStatus.groups.length > 0 && (
+                <>
+                  <PrerequisiteStatusList groups={prerequisiteStatus.groups} />
+                  {prerequisiteStatus.override && (
+                    <p className="text-sm text-muted-foreground" data-testid="text-prerequisite-override">
+                      Les RH vous ont accordé une dérogation : vous pouvez vous inscrire sans ces prérequis.
+                    </p>
+                  )}
+                </>
+              )}
             </Card>
           )}
 
@@ -890,7 +924,7 @@ export default function TrainingDetail({ currentUser: _currentUser }: TrainingDe
                     ? allRegistrations.filter(r => r.sessionId === session.id && r.status === "validated").length 
                     : 0;
                   const isFull = enrolledCount >= session.capacity;
-                  const isClickable = existingInterest?.status === "approved" && !isFull;
+                  const isClickable = existingInterest?.status === "approved";
                   
                   return (
                     <SessionCard
@@ -900,6 +934,8 @@ export default function TrainingDetail({ currentUser: _currentUser }: TrainingDe
                       enrolledCount={enrolledCount}
                       isSelected={selectedSession?.id === session.id}
                       isFull={isFull}
+                      waitlistOpen={isClickable}
+                      isHighlighted={targetSessionId === session.id}
                       onClick={isClickable ? () => handleSessionSelect(session) : undefined}
                     />
                   );
@@ -1072,6 +1108,7 @@ export default function TrainingDetail({ currentUser: _currentUser }: TrainingDe
               onChange={setSelectedPriority}
               p1Available={p1Available}
               p2Available={p2Available}
+              quota={userData?.quota}
             />
           </div>
 
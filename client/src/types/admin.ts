@@ -1,4 +1,4 @@
-import type { FormationInterest } from "@shared/schema";
+import type { AuditEvent, EmailOutboxStatus, FormationInterest, PrerequisiteOverride } from "@shared/schema";
 
 export interface AdminInterestsAggregatedStats {
   formationId: string;
@@ -18,3 +18,50 @@ export interface AdminInterestsResponse {
   interests: FormationInterest[];
   aggregated: AdminInterestsAggregatedStats[];
 }
+
+export interface AdminLockedAccount {
+  userId: string;
+  name: string;
+  email: string;
+  failureCount: number;
+  lastFailureAt: string | null;
+  lockedUntil: string;
+}
+
+export interface AdminAuditEventsResponse {
+  events: AuditEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface AdminOutboxEmail {
+  id: string;
+  kind: string;
+  recipients: string[];
+  subject: string;
+  status: EmailOutboxStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string;
+  sentAt: string | null;
+  createdAt: string;
+  session: { id: string; startDate: string } | null;
+}
+
+export interface AdminEmailOutboxResponse {
+  maxAttempts: number;
+  emails: AdminOutboxEmail[];
+}
+
+export interface AdminEmailTemplatePreview {
+  subject: string;
+  text: string;
+  html: string;
+  unknownVariables: string[];
+}
+
+export interface AdminPrerequisiteOverride extends PrerequisiteOverride {
+  userName: string | null;
+  grantedByName: string | null;
+}
@@ -1,4 +1,6 @@
-import type { User } from "@shared/schema";
+import type { PrerequisiteOverride, QuotaCycleUsage, User } from "@shared/schema";
+import type { QuotaSummary } from "@shared/quota";
+import type { PrerequisiteGroupStatus } from "@shared/formation-prerequisites";
 
 export type SanitizedUser = Omit<User, "password">;
 
@@ -6,4 +8,24 @@ export interface AuthMeResponse {
   user: User;
   coach: SanitizedUser | null;
   coaches: SanitizedUser[];
+  quota: QuotaSummary;
+  quotaHistory: QuotaCycleUsage[];
+}
+
+export interface CertificateVerificationResponse {
+  valid: boolean;
+  message?: string;
+  code?: string;
+  participantName?: string;
+  formationTitle?: string;
+  sessionStartDate?: string;
+  sessionEndDate?: string;
+  issuedAt?: string;
+}
+
+// `missing` is what POST /api/interests and /api/registrations return as `missingPrerequisites`
+export interface PrerequisiteStatusResponse {
+  groups: PrerequisiteGroupStatus[];
+  override: PrerequisiteOverride | null;
+  missing: PrerequisiteGroupStatus[];
 }
@@ -0,0 +1,179 @@
+import type { Formation, RegistrationAttendance, Session, User } from "@shared/schema";
+import { getAttendanceSlot, listAttendanceSegments, type AttendanceSlot } from "./attendance";
+import { A4_WIDTH, createPdfDocument, truncateText, type PdfPage } from "./pdf";
+
+const MARGIN = 40;
+const ROW_HEIGHT = 28;
+const ROWS_PER_PAGE = 18;
+const TABLE_TOP = 200;
+
+const PERIOD_LABELS = {
+  morning: "Matin",
+  afternoon: "Après-midi",
+} as const;
+
+const COLUMNS = [
+  { label: "Participant", width: 190 },
+  { label: "Email", width: 185 },
+  { label: "Émargement", width: A4_WIDTH - MARGIN * 2 - 190 - 185 },
+];
+
+export interface AttendanceSheetParticipant {
+  registrationId: string;
+  name: string;
+  email: string;
+  // Registration-level signature, for registrations marked attended before per-segment records
+  legacySignedAt?: Date | null;
+}
+
+export interface AttendanceSheetOptions {
+  session: Session;
+  formation: Pick<Formation, "title">;
+  instructor?: Pick<User, "name"> | null;
+  participants: AttendanceSheetParticipant[];
+  attendances: Pick<RegistrationAttendance, "registrationId" | "segmentIndex" | "period" | "signedAt">[];
+  // Pre-filled sheet to be signed by hand: participants listed, signature cells left empty
+  blank?: boolean;
+}
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString("fr-FR", { weekday: "long", day: "numeric", month: "long", year: "numeric" });
+
+const formatTime = (date: Date) => date.toLocaleTimeString("fr-FR", { hour: "2-digit", minute: "2-digit" });
+
+// One sheet per half-day, skipping halves that the session does not cover
+const listSheetSlots = (session: Session) =>
+  listAttendanceSegments(session).reduce<AttendanceSlot[]>((slots, segment) => {
+    for (const period of ["morning", "afternoon"] as const) {
+      const slot = getAttendanceSlot(session, segment.index, period);
+      if (slot && slot.end.getTime() > slot.start.getTime()) {
+        slots.push(slot);
+      }
+    }
+    return slots;
+  }, []);
+
+// A full-day signature covers both halves of its segment
+const findSignedAt = (
+  attendances: AttendanceSheetOptions["attendances"],
+  participant: AttendanceSheetParticipant,
+  slot: AttendanceSlot
+) => {
+  const records = attendances.filter((attendance) => attendance.registrationId === participant.registrationId);
+  if (records.length === 0) {
+    return participant.legacySignedAt ?? null;
+  }
+  const record = records.find(
+    (attendance) =>
+      attendance.segmentIndex === slot.segmentIndex &&
+      (attendance.period === "day" || attendance.period === slot.period)
+  );
+  return record?.signedAt ?? null;
+};
+
+const drawHeader = (
+  page: PdfPage,
+  options: AttendanceSheetOptions,
+  slot: AttendanceSlot,
+  dayCount: number,
+  pageLabel: string
+) => {
+  const { session, formation, instructor } = options;
+
+  page.text(MARGIN, 50, "Feuille d'émargement", { size: 18, font: "bold" });
+  if (pageLabel) {
+    page.text(A4_WIDTH - MARGIN, 50, pageLabel, { size: 9, align: "right" });
+  }
+  page.text(MARGIN, 78, truncateText(formation.title, A4_WIDTH - MARGIN * 2, 13), { size: 13, font: "bold" });
+
+  const sessionStart = new Date(session.startDate);
+  const sessionEnd = new Date(session.endDate);
+  const details = [
+    `Dates : du ${sessionStart.toLocaleDateString("fr-FR")} au ${sessionEnd.toLocaleDateString("fr-FR")}`,
+    `Lieu : ${session.location || "Non communiqué"}`,
+    `Formateur : ${instructor?.name || "Non assigné"}`,
+  ];
+  details.forEach((detail, index) => {
+    page.text(MARGIN, 100 + index * 15, truncateText(detail, A4_WIDTH - MARGIN * 2, 10), { size: 10 });
+  });
+
+  const dayLabel = dayCount > 1 ? `Jour ${slot.segmentIndex + 1} - ` : "";
+  page.rect(MARGIN, 154, A4_WIDTH - MARGIN * 2, 24, { fill: 0.92 });
+  page.text(
+    MARGIN + 8,
+    170,
+    `${dayLabel}${formatDate(slot.start)} - ${PERIOD_LABELS[slot.period as keyof typeof PERIOD_LABELS]} (${formatTime(
+      slot.start
+    )} - ${formatTime(slot.end)})`,
+    { size: 11, font: "bold" }
+  );
+};
+
+const drawTableHeader = (page: PdfPage) => {
+  let x = MARGIN;
+  for (const column of COLUMNS) {
+    page.rect(x, TABLE_TOP, column.width, ROW_HEIGHT - 8, { fill: 0.85, stroke: true });
+    page.text(x + 6, TABLE_TOP + 14, column.label, { size: 10, font: "bold" });
+    x += column.width;
+  }
+};
+
+const drawRow = (page: PdfPage, top: number, cells: string[], signed: boolean) => {
+  let x = MARGIN;
+  COLUMNS.forEach((column, index) => {
+    page.rect(x, top, column.width, ROW_HEIGHT);
+    const value = cells[index];
+    if (value) {
+      page.text(x + 6, top + 17, truncateText(value, column.width - 12, 9), {
+        size: 9,
+        font: index === 2 && signed ? "bold" : "regular",
+      });
+    }
+    x += column.width;
+  });
+};
+
+const drawInstructorSignature = (page: PdfPage, top: number) => {
+  const width = 220;
+  const left = A4_WIDTH - MARGIN - width;
+  page.text(left, top, "Signature du formateur", { size: 10, font: "bold" });
+  page.rect(left, top + 8, width, 60);
+};
+
+export const buildAttendanceSheetPdf = (options: AttendanceSheetOptions) => {
+  const pdf = createPdfDocument();
+  const slots = listSheetSlots(options.session);
+  const dayCount = listAttendanceSegments(options.session).length;
+  const participants = [...options.participants].sort((a, b) => a.name.localeCompare(b.name, "fr"));
+  const pageCount = Math.max(1, Math.ceil(participants.length / ROWS_PER_PAGE));
+
+  for (const slot of slots) {
+    for (let pageIndex = 0; pageIndex < pageCount; pageIndex += 1) {
+      const page = pdf.addPage();
+      const rows = participants.slice(pageIndex * ROWS_PER_PAGE, (pageIndex + 1) * ROWS_PER_PAGE);
+      drawHeader(page, options, slot, dayCount, pageCount > 1 ? `Page ${pageIndex + 1}/${pageCount}` : "");
+      drawTableHeader(page);
+
+      rows.forEach((participant, index) => {
+        const signedAt = options.blank ? null : findSignedAt(options.attendances, participant, slot);
+        const status = options.blank ? "" : signedAt ? `Signé à ${formatTime(new Date(signedAt))}` : "Absent";
+        drawRow(
+          page,
+          TABLE_TOP + ROW_HEIGHT - 8 + index * ROW_HEIGHT,
+          [participant.name, participant.email, status],
+          Boolean(signedAt)
+        );
+      });
+
+      if (rows.length === 0) {
+        page.text(MARGIN, TABLE_TOP + 40, "Aucun participant inscrit.", { size: 10 });
+      }
+
+      if (pageIndex === pageCount - 1) {
+        drawInstructorSignature(page, TABLE_TOP + ROW_HEIGHT - 8 + Math.max(rows.length, 1) * ROW_HEIGHT + 30);
+      }
+    }
+  }
+
+  return pdf.toBuffer();
+};
@@ -0,0 +1,55 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { SessionAttendanceToken } from "@shared/schema";
+import { buildLiveCode, LIVE_CODE_WINDOW_MS, parseLiveCode, verifyLiveCode } from "./attendance";
+
+const token = {
+  id: "token-1",
+  sessionId: "session-1",
+  token: "abc123",
+  segmentIndex: 0,
+  period: "day",
+} as SessionAttendanceToken;
+const otherToken = { ...token, id: "token-2", token: "def456" };
+
+// Middle of a window, so that a few milliseconds never cross into the next one
+const now = 60_000 * LIVE_CODE_WINDOW_MS + LIVE_CODE_WINDOW_MS / 2;
+
+const liveCodeAt = (at: number, from = token) => {
+  const parsed = parseLiveCode(buildLiveCode(from, at).code);
+  assert.ok(parsed, "a built live code parses");
+  return parsed;
+};
+
+describe("attendance live codes", () => {
+  test("a code is accepted during its window and the next one", () => {
+    assert.equal(verifyLiveCode(token, liveCodeAt(now), now), "valid");
+    assert.equal(verifyLiveCode(token, liveCodeAt(now - LIVE_CODE_WINDOW_MS), now), "valid");
+  });
+
+  test("a code older than one window has expired", () => {
+    assert.equal(verifyLiveCode(token, liveCodeAt(now - 2 * LIVE_CODE_WINDOW_MS), now), "expired");
+    assert.equal(verifyLiveCode(token, liveCodeAt(now - 60 * LIVE_CODE_WINDOW_MS), now), "expired");
+  });
+
+  test("a code signed for a future window is not accepted yet", () => {
+    assert.equal(verifyLiveCode(token, liveCodeAt(now + LIVE_CODE_WINDOW_MS), now), "expired");
+  });
+
+  test("a forged window, signature or token is invalid", () => {
+    const liveCode = liveCodeAt(now - 2 * LIVE_CODE_WINDOW_MS);
+
+    // Moving an old code to the current window breaks its signature
+    assert.equal(verifyLiveCode(token, { ...liveCode, window: liveCode.window + 2 }, now), "invalid");
+    assert.equal(verifyLiveCode(token, { ...liveCodeAt(now), signature: "A".repeat(16) }, now), "invalid");
+    assert.equal(verifyLiveCode(token, { ...liveCodeAt(now), signature: "short" }, now), "invalid");
+    assert.equal(verifyLiveCode(token, liveCodeAt(now, otherToken), now), "invalid");
+  });
+
+  test("static tokens and malformed values are not parsed as live codes", () => {
+    assert.equal(parseLiveCode("abc123"), null);
+    assert.equal(parseLiveCode("abc123.notanumber.signature"), null);
+    assert.equal(parseLiveCode("abc123.12.signature.extra"), null);
+    assert.deepEqual(parseLiveCode("abc123.12.signature"), { token: "abc123", window: 12, signature: "signature" });
+  });
+});
@@ -0,0 +1,201 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type {
+  AttendancePeriod,
+  Formation,
+  Registration,
+  RegistrationAttendance,
+  Session,
+  SessionAttendanceToken,
+} from "@shared/schema";
+import { getFormationDuration, getFormationDurationTotals } from "@shared/formation-duration";
+import { buildSessionSegments } from "./invitations";
+
+// Hour splitting a session day into the morning and afternoon halves
+const HALF_DAY_SPLIT_HOUR = Number(process.env.SESSION_HALF_DAY_SPLIT_HOUR ?? "13");
+
+// Live QR codes rotate every window; the previous window stays valid to absorb scan delays
+export const LIVE_CODE_WINDOW_MS = 30 * 1000;
+const LIVE_CODE_SECRET =
+  process.env.ATTENDANCE_QR_SECRET || process.env.SESSION_SECRET || "colombus-lms-secret-key";
+const LIVE_CODE_SIGNATURE_LENGTH = 16;
+
+const HOUR_MS = 1000 * 60 * 60;
+
+export interface AttendanceSlot {
+  segmentIndex: number;
+  period: AttendancePeriod;
+  start: Date;
+  end: Date;
+}
+
+export const listAttendanceSegments = (session: Session) =>
+  buildSessionSegments(session).map((segment) => ({
+    index: segment.index,
+    start: segment.start,
+    end: segment.end,
+  }));
+
+export const getAttendanceSlot = (
+  session: Session,
+  segmentIndex: number,
+  period: AttendancePeriod
+): AttendanceSlot | undefined => {
+  const segment = buildSessionSegments(session)[segmentIndex];
+  if (!segment) {
+    return undefined;
+  }
+  if (period === "day") {
+    return { segmentIndex, period, start: segment.start, end: segment.end };
+  }
+
+  const split = new Date(segment.start);
+  split.setHours(HALF_DAY_SPLIT_HOUR, 0, 0, 0);
+  const boundary = new Date(
+    Math.min(Math.max(split.getTime(), segment.start.getTime()), segment.end.getTime())
+  );
+
+  return period === "morning"
+    ? { segmentIndex, period, start: segment.start, end: boundary }
+    : { segmentIndex, period, start: boundary, end: segment.end };
+};
+
+// Segment running at `at`, or the closest one before/after the session
+export const findCurrentSegmentIndex = (session: Session, at: Date = new Date()) => {
+  const segments = buildSessionSegments(session);
+  const sameDay = segments.find((segment) => segment.start.toDateString() === at.toDateString());
+  if (sameDay) {
+    return sameDay.index;
+  }
+  return at.getTime() < new Date(session.startDate).getTime() ? 0 : Math.max(0, segments.length - 1);
+};
+
+// Planned duration of the session, summed over its day segments
+export const computeSessionDuration = (session: Session) => {
+  const segments = buildSessionSegments(session);
+  return {
+    hours: segments.reduce(
+      (total, segment) => total + (segment.end.getTime() - segment.start.getTime()) / HOUR_MS,
+      0
+    ),
+    days: segments.length,
+  };
+};
+
+/**
+ * Time actually attended, from the per-segment signatures. A full-day signature covers
+ * the whole segment; otherwise each signed half counts for its own span and half a day.
+ * Registrations flagged as attended before per-segment signatures existed count in full.
+ */
+export const computeAttendedTime = (
+  session: Session,
+  registration: Pick<Registration, "attended">,
+  records: Pick<RegistrationAttendance, "segmentIndex" | "period">[]
+) => {
+  if (records.length === 0) {
+    return registration.attended ? computeSessionDuration(session) : { hours: 0, days: 0 };
+  }
+
+  const segments = buildSessionSegments(session);
+
+  let hours = 0;
+  let days = 0;
+
+  for (const segment of segments) {
+    const periods = new Set(
+      records.filter((record) => record.segmentIndex === segment.index).map((record) => record.period)
+    );
+
+    if (periods.has("day")) {
+      hours += (segment.end.getTime() - segment.start.getTime()) / HOUR_MS;
+      days += 1;
+      continue;
+    }
+
+    for (const period of ["morning", "afternoon"] as const) {
+      if (!periods.has(period)) {
+        continue;
+      }
+      const slot = getAttendanceSlot(session, segment.index, period);
+      if (slot) {
+        hours += (slot.end.getTime() - slot.start.getTime()) / HOUR_MS;
+        days += 0.5;
+      }
+    }
+  }
+
+  return { hours, days };
+};
+
+type DurationFields = Pick<Formation, "durationUnit" | "durationValue" | "dailySchedule">;
+
+// Planned training time: the formation's structured duration, or the session's segments until RH fix it
+export const computePlannedTime = (session: Session, formation: DurationFields | undefined) => {
+  const duration = formation ? getFormationDuration(formation) : null;
+  return duration ? getFormationDurationTotals(duration) : computeSessionDuration(session);
+};
+
+/**
+ * Training time counted in analytics: the planned time scaled by the share of the session's
+ * hours the registration signed, so a fully attended 3h30 formation counts 3h30 whatever
+ * the session's calendar span.
+ */
+export const computeTrainedTime = (
+  session: Session,
+  formation: DurationFields | undefined,
+  registration: Pick<Registration, "attended">,
+  records: Pick<RegistrationAttendance, "segmentIndex" | "period">[]
+) => {
+  const attended = computeAttendedTime(session, registration, records);
+  const duration = formation ? getFormationDuration(formation) : null;
+  if (!duration) {
+    return attended;
+  }
+
+  const sessionHours = computeSessionDuration(session).hours;
+  const share = sessionHours > 0 ? Math.min(1, attended.hours / sessionHours) : 0;
+  const planned = getFormationDurationTotals(duration);
+  return { hours: planned.hours * share, days: planned.days * share };
+};
+
+export const getLiveCodeWindow = (at: number = Date.now()) => Math.floor(at / LIVE_CODE_WINDOW_MS);
+
+const signLiveCodeWindow = (token: SessionAttendanceToken, window: number) =>
+  createHmac("sha256", LIVE_CODE_SECRET)
+    .update(`${token.sessionId}:${token.token}:${window}`)
+    .digest("base64url")
+    .slice(0, LIVE_CODE_SIGNATURE_LENGTH);
+
+export const buildLiveCode = (token: SessionAttendanceToken, at: number = Date.now()) => {
+  const window = getLiveCodeWindow(at);
+  return {
+    code: `${token.token}.${window}.${signLiveCodeWindow(token, window)}`,
+    window,
+    rotatesAt: new Date((window + 1) * LIVE_CODE_WINDOW_MS),
+  };
+};
+
+// Live codes read `<token>.<window>.<signature>`; static tokens contain no dot
+export const parseLiveCode = (value: string) => {
+  const [token, window, signature, ...rest] = value.split(".");
+  if (!token || !window || !signature || rest.length > 0 || !/^\d+$/.test(window)) {
+    return null;
+  }
+  return { token, window: Number(window), signature };
+};
+
+export const verifyLiveCode = (
+  token: SessionAttendanceToken,
+  liveCode: { window: number; signature: string },
+  at: number = Date.now()
+): "valid" | "expired" | "invalid" => {
+  const expected = Buffer.from(signLiveCodeWindow(token, liveCode.window));
+  const received = Buffer.from(liveCode.signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return "invalid";
+  }
+
+  const currentWindow = getLiveCodeWindow(at);
+  return liveCode.window === currentWindow || liveCode.window === currentWindow - 1
+    ? "valid"
+    : "expired";
+};
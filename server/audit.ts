@@ -0,0 +1,54 @@
+import type { AuditEntityType, AuditEvent } from "@shared/schema";
+
+// Fields that must never end up in the audit trail
+const REDACTED_KEYS = new Set(["password", "tokenHash", "token"]);
+
+// JSON-safe copy of an entity with secrets stripped, so snapshots can go straight into jsonb
+export const toAuditSnapshot = (value: unknown): unknown => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  return JSON.parse(
+    JSON.stringify(value, (key, nested) => (REDACTED_KEYS.has(key) ? undefined : nested))
+  );
+};
+
+export interface AuditEventInput {
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  before?: unknown;
+  after?: unknown;
+}
+
+const escapeCsvValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  const raw = typeof value === "string" ? value : JSON.stringify(value);
+  // Spreadsheets run cells starting with these characters as formulas: a leading quote keeps them text
+  const text = /^[=+\-@\t\r]/.test(raw) ? `'${raw}` : raw;
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Semicolon separated with a BOM so that Excel in French locale opens it directly
+export const buildAuditEventsCsv = (events: AuditEvent[]) => {
+  const header = ["Date", "Acteur", "Acteur (id)", "Action", "Type", "Entité (id)", "Avant", "Après"];
+  const rows = events.map((event) =>
+    [
+      event.createdAt ? new Date(event.createdAt).toISOString() : "",
+      event.actorName,
+      event.actorId,
+      event.action,
+      event.entityType,
+      event.entityId,
+      event.before,
+      event.after,
+    ]
+      .map(escapeCsvValue)
+      .join(";")
+  );
+
+  return `\uFEFF${[header.join(";"), ...rows].join("\r\n")}`;
+};
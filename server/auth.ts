@@ -1,16 +1,33 @@
 import type { Request, Response, NextFunction } from "express";
+import type { User } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/roles";
+import type { SsoPendingAuthorization } from "./sso";
+import { storage } from "./storage";
 
 // Extend Express Session to include user
 declare module "express-session" {
   interface SessionData {
     userId?: string;
+    mustChangePassword?: boolean;
+    ssoPending?: SsoPendingAuthorization;
   }
 }
 
 export interface AuthRequest extends Request {
   userId?: string;
+  user?: User;
 }
 
+export const PASSWORD_CHANGE_REQUIRED_CODE = "PASSWORD_CHANGE_REQUIRED";
+
+// Routes still reachable while a temporary password has not been replaced
+const PASSWORD_ROTATION_ALLOWED_PATHS = new Set([
+  "/api/auth/login",
+  "/api/auth/logout",
+  "/api/auth/me",
+  "/api/auth/change-password",
+]);
+
 // Middleware to require authentication
 export function requireAuth(req: Request, res: Response, next: NextFunction) {
   if (!req.session.userId) {
@@ -27,3 +44,44 @@ export function optionalAuth(req: Request, res: Response, next: NextFunction) {
   }
   next();
 }
+
+// Middleware to require a permission from the shared matrix. Ownership-scoped checks
+// still happen in the handler once the target resource is loaded; the loaded user is
+// exposed as req.user so handlers do not fetch it again
+export function requirePermission(permission: Permission) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.session.userId) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    try {
+      const user = await storage.getUser(req.session.userId);
+      if (!user || !hasPermission(user.roles, permission)) {
+        return res.status(403).json({ message: "Unauthorized" });
+      }
+
+      (req as AuthRequest).userId = user.id;
+      (req as AuthRequest).user = user;
+      next();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  };
+}
+
+// Blocks every API route except the change-password flow for accounts created
+// with a temporary password
+export function enforcePasswordRotation(req: Request, res: Response, next: NextFunction) {
+  if (
+    req.session?.userId &&
+    req.session.mustChangePassword &&
+    req.path.startsWith("/api/") &&
+    !PASSWORD_ROTATION_ALLOWED_PATHS.has(req.path)
+  ) {
+    return res.status(403).json({
+      message: "Vous devez définir un nouveau mot de passe avant de continuer",
+      code: PASSWORD_CHANGE_REQUIRED_CODE,
+    });
+  }
+  next();
+}
@@ -0,0 +1,124 @@
+import { randomBytes } from "crypto";
+import type {
+  Certificate,
+  Formation,
+  Registration,
+  RegistrationAttendance,
+  Session,
+  User,
+} from "@shared/schema";
+import { computeAttendedTime } from "./attendance";
+import { A4_WIDTH, createPdfDocument, truncateText, wrapText } from "./pdf";
+
+// Unambiguous alphabet (no 0/O, 1/I) so codes can be typed back from a printed page
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 12;
+const CODE_GROUP_SIZE = 4;
+
+const MARGIN = 60;
+const CONTENT_WIDTH = A4_WIDTH - MARGIN * 2;
+
+export const generateCertificateCode = () =>
+  Array.from(randomBytes(CODE_LENGTH))
+    .map((byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length])
+    .join("")
+    .match(new RegExp(`.{${CODE_GROUP_SIZE}}`, "g"))!
+    .join("-");
+
+// Accepts codes typed in lowercase, with spaces or without dashes
+export const normalizeCertificateCode = (value: string) => {
+  const compact = value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+  if (compact.length !== CODE_LENGTH) {
+    return null;
+  }
+  return compact.match(new RegExp(`.{${CODE_GROUP_SIZE}}`, "g"))!.join("-");
+};
+
+export const isCertificateEligible = (registration: Pick<Registration, "status" | "attended">) =>
+  registration.status === "completed" && Boolean(registration.attended);
+
+export interface CertificateDocument {
+  certificate: Pick<Certificate, "code" | "issuedAt">;
+  participant: Pick<User, "name">;
+  registration: Pick<Registration, "attended">;
+  attendances: Pick<RegistrationAttendance, "segmentIndex" | "period">[];
+  session: Session;
+  formation: Pick<Formation, "title" | "objectives" | "duration">;
+  instructor?: Pick<User, "name"> | null;
+}
+
+const formatHours = (hours: number) => {
+  const rounded = Math.round(hours * 2) / 2;
+  return `${rounded.toLocaleString("fr-FR")} h`;
+};
+
+const formatDays = (days: number) =>
+  `${days.toLocaleString("fr-FR")} ${days > 1 ? "jours" : "jour"}`;
+
+// One A4 page per certificate, so RH can print a whole session at once
+// Without a configured origin the verification link is left out; the code alone can be checked
+export const buildCertificatesPdf = (documents: CertificateDocument[], verificationBaseUrl?: string) => {
+  const pdf = createPdfDocument();
+
+  for (const entry of documents) {
+    const { certificate, participant, session, formation, instructor } = entry;
+    const page = pdf.addPage();
+    const center = A4_WIDTH / 2;
+
+    page.rect(30, 30, A4_WIDTH - 60, 782);
+    page.rect(36, 36, A4_WIDTH - 72, 770);
+
+    page.text(center, 110, "Colombus Consulting", { size: 12, font: "bold", align: "center" });
+    page.text(center, 160, "Attestation de formation", { size: 26, font: "bold", align: "center" });
+    page.line(center - 90, 178, center + 90, 178, 1);
+
+    page.text(center, 230, "Nous attestons que", { size: 12, align: "center" });
+    page.text(center, 262, truncateText(participant.name, CONTENT_WIDTH, 20), {
+      size: 20,
+      font: "bold",
+      align: "center",
+    });
+    page.text(center, 294, "a suivi la formation", { size: 12, align: "center" });
+
+    let y = 326;
+    for (const line of wrapText(formation.title, CONTENT_WIDTH, 16, 2)) {
+      page.text(center, y, line, { size: 16, font: "bold", align: "center" });
+      y += 22;
+    }
+
+    const attended = computeAttendedTime(session, entry.registration, entry.attendances);
+    const details = [
+      `Dates : du ${new Date(session.startDate).toLocaleDateString("fr-FR")} au ${new Date(
+        session.endDate
+      ).toLocaleDateString("fr-FR")}`,
+      `Durée : ${formation.duration} (${formatHours(attended.hours)} suivies sur ${formatDays(attended.days)})`,
+      `Lieu : ${session.location || "Non communiqué"}`,
+      `Formateur : ${instructor?.name || "Non communiqué"}`,
+    ];
+    y += 20;
+    for (const detail of details) {
+      page.text(MARGIN, y, truncateText(detail, CONTENT_WIDTH, 11), { size: 11 });
+      y += 18;
+    }
+
+    y += 16;
+    page.text(MARGIN, y, "Objectifs de la formation", { size: 11, font: "bold" });
+    y += 18;
+    for (const line of wrapText(formation.objectives, CONTENT_WIDTH, 10, 12)) {
+      page.text(MARGIN, y, line, { size: 10 });
+      y += 14;
+    }
+
+    const issuedAt = new Date(certificate.issuedAt);
+    page.text(MARGIN, 700, `Délivrée le ${issuedAt.toLocaleDateString("fr-FR")}`, { size: 10 });
+    page.text(MARGIN, 730, `Code de vérification : ${certificate.code}`, { size: 10, font: "bold" });
+    if (verificationBaseUrl) {
+      const verificationUrl = `${verificationBaseUrl}/certificates/verify/${certificate.code}`;
+      page.text(MARGIN, 746, truncateText(`Authenticité vérifiable sur ${verificationUrl}`, CONTENT_WIDTH, 9), {
+        size: 9,
+      });
+    }
+  }
+
+  return pdf.toBuffer();
+};
@@ -0,0 +1,133 @@
+import type { InsertEmailOutboxEntry } from "@shared/schema";
+import { getEmailTransport, type EmailMessage } from "./email-transport";
+import { storage } from "./storage";
+
+const OUTBOX_POLL_INTERVAL_MS = 30 * 1000;
+const OUTBOX_BATCH_SIZE = 20;
+// Time a worker has to deliver a claimed email before another run may pick it up again
+const OUTBOX_LEASE_MS = 5 * 60 * 1000;
+
+export const OUTBOX_MAX_ATTEMPTS = Number(process.env.EMAIL_OUTBOX_MAX_ATTEMPTS ?? "6");
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+export type OutboxEmail = Pick<
+  InsertEmailOutboxEntry,
+  "kind" | "recipients" | "subject" | "text" | "html" | "icsContent" | "sessionId"
+>;
+
+// 1 min, 2 min, 4 min… capped at 6 hours
+export const getRetryDelay = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+
+// Calendar clients rely on the METHOD parameter to tell invitations from cancellations
+const getCalendarMethod = (icsContent: string) => /^METHOD:(\w+)/m.exec(icsContent)?.[1] ?? "REQUEST";
+
+export const toEmailMessage = (email: OutboxEmail): EmailMessage => ({
+  to: email.recipients,
+  subject: email.subject,
+  text: email.text,
+  html: email.html,
+  attachments: email.icsContent
+    ? [
+        {
+          filename: "invitation.ics",
+          content: email.icsContent,
+          contentType: `text/calendar; charset=utf-8; method=${getCalendarMethod(email.icsContent)}`,
+        },
+      ]
+    : undefined,
+});
+
+const describeError = (error: unknown) =>
+  (error instanceof Error ? error.message : String(error)).slice(0, 1000);
+
+let activeRun: Promise<number> | null = null;
+
+/**
+ * Delivers the due emails once. Concurrent calls in the same process share the run in
+ * progress; other instances are kept apart by the row locks taken when claiming.
+ */
+export const processEmailOutbox = (now: Date = new Date()) => {
+  if (!activeRun) {
+    activeRun = (async () => {
+      let sentCount = 0;
+      const claimed = await storage.claimDueOutboxEmails({
+        now,
+        limit: OUTBOX_BATCH_SIZE,
+        leaseMs: OUTBOX_LEASE_MS,
+      });
+
+      for (const email of claimed) {
+        const attempts = email.attempts + 1;
+        try {
+          await getEmailTransport().send(toEmailMessage(email));
+          await storage.updateOutboxEmail(email.id, {
+            status: "sent",
+            attempts,
+            lastError: null,
+            sentAt: new Date(),
+          });
+          sentCount += 1;
+        } catch (error) {
+          const failed = attempts >= OUTBOX_MAX_ATTEMPTS;
+          await storage.updateOutboxEmail(email.id, {
+            status: failed ? "failed" : "pending",
+            attempts,
+            lastError: describeError(error),
+            nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)),
+          });
+          console.error(
+            `[outbox] ${failed ? "Gave up on" : "Will retry"} ${email.kind} email ${email.id} to ${email.recipients.join(", ")}`,
+            error
+          );
+        }
+      }
+
+      if (claimed.length > 0) {
+        console.info(`[outbox] Delivered ${sentCount}/${claimed.length} emails`);
+      }
+      return sentCount;
+    })().finally(() => {
+      activeRun = null;
+    });
+  }
+
+  return activeRun;
+};
+
+const kickOutbox = () => {
+  processEmailOutbox().catch((error) => {
+    console.error("Failed to process email outbox", error);
+  });
+};
+
+// Persists the email before any delivery attempt, then tries to send it right away
+export const enqueueEmail = async (email: OutboxEmail) => {
+  if (email.recipients.length === 0) {
+    return undefined;
+  }
+  const entry = await storage.enqueueOutboxEmail({ ...email, status: "pending", nextAttemptAt: new Date() });
+  kickOutbox();
+  return entry;
+};
+
+// Manual resend from the RH screen: a fresh series of attempts starting now
+export const requeueOutboxEmail = async (id: string) => {
+  const entry = await storage.updateOutboxEmail(id, {
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: new Date(),
+  });
+  if (entry) {
+    kickOutbox();
+  }
+  return entry;
+};
+
+export const startEmailOutboxJob = () => {
+  kickOutbox();
+  const timer = setInterval(kickOutbox, OUTBOX_POLL_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
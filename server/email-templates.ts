@@ -0,0 +1,15 @@
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  emailTemplatesSettingsSchema,
+  type EmailTemplatesSettings,
+} from "@shared/email-templates";
+import { storage } from "./storage";
+
+export const EMAIL_TEMPLATES_SETTING_KEY = "email_templates";
+
+// Falls back to the built-in wording when nothing was saved or the stored value no longer parses
+export const getEmailTemplates = async (): Promise<EmailTemplatesSettings> => {
+  const stored = await storage.getSetting<EmailTemplatesSettings>(EMAIL_TEMPLATES_SETTING_KEY);
+  const parsed = emailTemplatesSettingsSchema.safeParse(stored ?? DEFAULT_EMAIL_TEMPLATES);
+  return parsed.success ? parsed.data : DEFAULT_EMAIL_TEMPLATES;
+};
@@ -0,0 +1,171 @@
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import nodemailer from "nodemailer";
+
+export interface EmailAttachment {
+  filename: string;
+  content: string | Buffer;
+  contentType?: string;
+}
+
+export interface EmailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  readonly name: string;
+  send(message: EmailMessage): Promise<void>;
+}
+
+export const EMAIL_TRANSPORT_DRIVERS = ["resend", "smtp", "file", "memory"] as const;
+export type EmailTransportDriver = (typeof EMAIL_TRANSPORT_DRIVERS)[number];
+
+const DEFAULT_FROM_EMAIL = "onboarding@resend.dev";
+const DEFAULT_FILE_SINK_DIR = ".emails";
+
+export const getConfiguredFromEmail = () =>
+  process.env.EMAIL_FROM || process.env.RESEND_FROM_EMAIL || DEFAULT_FROM_EMAIL;
+
+// Credentials are fetched on every send: Replit connector tokens expire
+export const createResendTransport = (): EmailTransport => ({
+  name: "resend",
+  async send(message) {
+    const { getUncachableResendClient } = await import("./resend");
+    const { client, fromEmail } = await getUncachableResendClient();
+
+    const response = await client.emails.send({
+      from: process.env.EMAIL_FROM || fromEmail,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        content: Buffer.from(attachment.content).toString("base64"),
+        contentType: attachment.contentType,
+      })),
+    });
+
+    // Resend reports API errors in the response instead of throwing
+    if (response.error) {
+      throw new Error(response.error.message);
+    }
+  },
+});
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export const createSmtpTransport = (options: SmtpTransportOptions): EmailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    // Port 465 speaks TLS from the start; other ports upgrade with STARTTLS when offered
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password ?? "" } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await transporter.sendMail({ from: options.from, ...message });
+    },
+  };
+};
+
+// Raw RFC 822 message, as the SMTP driver would put it on the wire
+export const renderEmailMessage = async (message: EmailMessage, from: string = getConfiguredFromEmail()) => {
+  const composer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "windows" });
+  const info = await composer.sendMail({ from, ...message });
+  return info.message as Buffer;
+};
+
+// Development sink: every email becomes an .eml file that any mail client can open
+export const createFileSinkTransport = (directory: string): EmailTransport => ({
+  name: "file",
+  async send(message) {
+    await mkdir(directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.eml`;
+    await writeFile(path.join(directory, fileName), await renderEmailMessage(message));
+  },
+});
+
+export interface MemoryTransport extends EmailTransport {
+  readonly messages: EmailMessage[];
+  clear(): void;
+}
+
+// Keeps messages in memory so tests can assert on what would have been sent
+export const createMemoryTransport = (): MemoryTransport => {
+  const messages: EmailMessage[] = [];
+  return {
+    name: "memory",
+    messages,
+    async send(message) {
+      messages.push(message);
+    },
+    clear() {
+      messages.length = 0;
+    },
+  };
+};
+
+const resolveDriver = (): EmailTransportDriver => {
+  const configured = (process.env.EMAIL_TRANSPORT ?? "resend").trim().toLowerCase();
+  if ((EMAIL_TRANSPORT_DRIVERS as readonly string[]).includes(configured)) {
+    return configured as EmailTransportDriver;
+  }
+  console.warn(`[email] Unknown EMAIL_TRANSPORT "${configured}", falling back to resend`);
+  return "resend";
+};
+
+export const createEmailTransportFromEnv = (): EmailTransport => {
+  switch (resolveDriver()) {
+    case "smtp": {
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_HOST is required when EMAIL_TRANSPORT=smtp");
+      }
+      const port = Number(process.env.SMTP_PORT ?? "587");
+      return createSmtpTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from: getConfiguredFromEmail(),
+      });
+    }
+    case "file":
+      return createFileSinkTransport(path.resolve(process.env.EMAIL_FILE_SINK_DIR || DEFAULT_FILE_SINK_DIR));
+    case "memory":
+      return createMemoryTransport();
+    default:
+      return createResendTransport();
+  }
+};
+
+let currentTransport: EmailTransport | null = null;
+
+export const getEmailTransport = () => {
+  if (!currentTransport) {
+    currentTransport = createEmailTransportFromEnv();
+    console.info(`[email] Using the ${currentTransport.name} transport`);
+  }
+  return currentTransport;
+};
+
+// Lets scripts and tests swap the configured driver, e.g. for a memory transport
+export const setEmailTransport = (transport: EmailTransport | null) => {
+  currentTransport = transport;
+};
@@ -1,9 +1,18 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startQuotaRolloverJob } from "./quota";
+import { startSessionLifecycleJob } from "./session-lifecycle";
+import { startEmailOutboxJob } from "./email-outbox";
+import { startSessionReminderJob } from "./session-reminders";
+import { startNotificationDigestJob } from "./notification-digests";
+import { getTrustProxySetting } from "./login-throttle";
 
 const app = express();
 
+// Client addresses (login throttling) come from X-Forwarded-For only through trusted proxies
+app.set("trust proxy", getTrustProxySetting());
+
 // Health check endpoint - must be before other middleware
 app.get("/health", (_req, res) => {
   res.status(200).json({ status: "ok", timestamp: new Date().toISOString() });
@@ -84,6 +93,11 @@ app.use((req, res, next) => {
       reusePort: true,
     }, () => {
       log(`serving on port ${port}`);
+      startQuotaRolloverJob();
+      startSessionLifecycleJob();
+      startEmailOutboxJob();
+      startSessionReminderJob();
+      startNotificationDigestJob();
     });
   } catch (error) {
     console.error("Failed to start server:", error);
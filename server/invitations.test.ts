@@ -0,0 +1,185 @@
+/**
+ * Runs invitations and confirmations through the outbox and the memory transport. The outbox
+ * rows live in an array instead of Postgres, so the suite needs no database nor network.
+ */
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { EmailOutboxEntry, Formation, InsertEmailOutboxEntry, Session } from "@shared/schema";
+import { createMemoryTransport, setEmailTransport, type EmailMessage } from "./email-transport";
+import { processEmailOutbox } from "./email-outbox";
+import { formatDateToICS, sendRegistrationConfirmationEmail, sendSessionInvitationEmail } from "./invitations";
+import { storage } from "./storage";
+
+process.env.TZ = "UTC";
+process.env.EMAIL_FROM = "Colombus Learning <formations@colombus.test>";
+
+const formation = {
+  id: "formation-1",
+  title: "Kubernetes, les fondamentaux",
+} as Formation;
+
+const session = {
+  id: "session-1",
+  formationId: formation.id,
+  startDate: new Date("2026-11-03T09:00:00Z"),
+  endDate: new Date("2026-11-03T17:30:00Z"),
+  location: "Paris; salle Seine",
+  capacity: 10,
+  status: "open",
+} as Session;
+
+const recipient = { email: "alice.martin@colombus.test", name: "Alice Martin" };
+
+const calendarLines = (message: EmailMessage) => {
+  const attachment = message.attachments?.[0];
+  assert.ok(attachment, "the email carries an ICS attachment");
+  return String(attachment.content).split("\r\n");
+};
+
+describe("session invitations", () => {
+  const transport = createMemoryTransport();
+  let outbox: EmailOutboxEntry[] = [];
+
+  // The outbox sends right after each enqueue: waiting on its run means the email went out
+  const deliver = async (send: () => Promise<void>) => {
+    await send();
+    await processEmailOutbox();
+    return transport.messages;
+  };
+
+  beforeEach(() => {
+    outbox = [];
+    transport.clear();
+    setEmailTransport(transport);
+    mock.method(storage, "getSetting", async () => undefined);
+    mock.method(storage, "enqueueOutboxEmail", async (email: InsertEmailOutboxEntry) => {
+      const entry = { ...email, id: `email-${outbox.length + 1}`, attempts: 0 } as EmailOutboxEntry;
+      outbox.push(entry);
+      return entry;
+    });
+    mock.method(storage, "claimDueOutboxEmails", async () => outbox.splice(0, outbox.length));
+    mock.method(storage, "updateOutboxEmail", async () => undefined);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    setEmailTransport(null);
+  });
+
+  test("an invitation carries a REQUEST calendar for the participant", async () => {
+    const [message] = await deliver(() =>
+      sendSessionInvitationEmail({ recipients: [recipient], session, formation, sequence: 42 })
+    );
+
+    assert.deepEqual(message.to, ["Alice Martin <alice.martin@colombus.test>"]);
+    assert.equal(message.attachments?.length, 1);
+    assert.equal(message.attachments?.[0].filename, "invitation.ics");
+    assert.equal(message.attachments?.[0].contentType, "text/calendar; charset=utf-8; method=REQUEST");
+
+    const lines = calendarLines(message);
+    assert.equal(lines[0], "BEGIN:VCALENDAR");
+    assert.ok(lines.includes("METHOD:REQUEST"));
+    assert.ok(lines.includes("UID:session-1-0"));
+    assert.ok(lines.includes(`DTSTART:${formatDateToICS(session.startDate)}`));
+    assert.ok(lines.includes(`DTEND:${formatDateToICS(session.endDate)}`));
+    assert.ok(lines.includes("DTSTART:20261103T090000Z"));
+    assert.ok(lines.includes("LOCATION:Paris\\; salle Seine"));
+    assert.ok(lines.includes('ORGANIZER;CN="Colombus Learning":mailto:formations@colombus.test'));
+    assert.ok(
+      lines.includes(
+        'ATTENDEE;CN="Alice Martin";ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=FALSE:mailto:alice.martin@colombus.test'
+      )
+    );
+    assert.ok(lines.includes("STATUS:CONFIRMED"));
+    assert.ok(lines.includes("SEQUENCE:42"));
+    assert.equal(lines[lines.length - 1], "END:VCALENDAR");
+  });
+
+  test("a multi-day session gets one event per day with stable UIDs", async () => {
+    const [message] = await deliver(() =>
+      sendSessionInvitationEmail({
+        recipients: [recipient],
+        session: { ...session, endDate: new Date("2026-11-05T12:00:00Z") },
+        formation,
+        sequence: 1,
+      })
+    );
+
+    const lines = calendarLines(message);
+    assert.equal(lines.filter((line) => line === "BEGIN:VEVENT").length, 3);
+    assert.deepEqual(
+      lines.filter((line) => line.startsWith("UID:")),
+      ["UID:session-1-0", "UID:session-1-1", "UID:session-1-2"]
+    );
+    assert.deepEqual(
+      lines.filter((line) => line.startsWith("DTSTART:")),
+      ["DTSTART:20261103T090000Z", "DTSTART:20261104T090000Z", "DTSTART:20261105T090000Z"]
+    );
+    assert.deepEqual(
+      lines.filter((line) => line.startsWith("DTEND:")),
+      ["DTEND:20261103T180000Z", "DTEND:20261104T180000Z", "DTEND:20261105T120000Z"]
+    );
+  });
+
+  test("a cancellation reuses the UIDs with METHOD:CANCEL and a higher sequence", async () => {
+    const [invitation, cancellation] = await deliver(async () => {
+      await sendSessionInvitationEmail({ recipients: [recipient], session, formation, sequence: 42 });
+      await processEmailOutbox();
+      await sendSessionInvitationEmail({
+        recipients: [recipient],
+        session,
+        formation,
+        method: "CANCEL",
+        sequence: 43,
+        reason: "La session est annulée.",
+      });
+    });
+
+    assert.equal(cancellation.attachments?.[0].contentType, "text/calendar; charset=utf-8; method=CANCEL");
+    const lines = calendarLines(cancellation);
+    assert.ok(lines.includes("METHOD:CANCEL"));
+    assert.ok(lines.includes("STATUS:CANCELLED"));
+    assert.ok(lines.includes("SEQUENCE:43"));
+    assert.deepEqual(
+      lines.filter((line) => line.startsWith("UID:")),
+      calendarLines(invitation).filter((line) => line.startsWith("UID:"))
+    );
+    assert.ok(lines.some((line) => line.startsWith("ATTENDEE;") && line.endsWith(":mailto:alice.martin@colombus.test")));
+  });
+
+  test("the visio link is printed in the email and the calendar", async () => {
+    const [message] = await deliver(() =>
+      sendSessionInvitationEmail({
+        recipients: [recipient],
+        session: { ...session, location: null, meetingUrl: "https://meet.colombus.test/k8s?pwd=a,b" },
+        formation,
+        sequence: 1,
+      })
+    );
+
+    assert.ok(message.text.includes("Lien de visio : https://meet.colombus.test/k8s?pwd=a,b"));
+    assert.ok(message.html.includes('<a href="https://meet.colombus.test/k8s?pwd=a,b">'));
+    const lines = calendarLines(message);
+    assert.ok(lines.includes("LOCATION:https://meet.colombus.test/k8s?pwd=a\\,b"));
+    assert.ok(lines.includes("URL:https://meet.colombus.test/k8s?pwd=a,b"));
+  });
+
+  test("a registration confirmation is sent without a calendar", async () => {
+    const [message] = await deliver(() =>
+      sendRegistrationConfirmationEmail({ recipients: [recipient], session, formation })
+    );
+
+    assert.deepEqual(message.to, ["Alice Martin <alice.martin@colombus.test>"]);
+    assert.ok(message.subject.includes(formation.title));
+    assert.equal(message.attachments, undefined);
+  });
+
+  test("nothing is queued without recipients", async () => {
+    const messages = await deliver(async () => {
+      await sendSessionInvitationEmail({ recipients: [], session, formation });
+      await sendRegistrationConfirmationEmail({ recipients: [], session, formation });
+    });
+
+    assert.equal(messages.length, 0);
+  });
+});
@@ -1,4 +1,13 @@
 import type { Formation, Session } from "@shared/schema";
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  renderEmailTemplate,
+  type EmailTemplate,
+  type EmailTemplateVariables,
+} from "@shared/email-templates";
+import { enqueueEmail, type OutboxEmail } from "./email-outbox";
+import { getConfiguredFromEmail } from "./email-transport";
+import { getEmailTemplates } from "./email-templates";
 
 interface Recipient {
   email: string;
@@ -50,6 +59,22 @@ export const escapeIcsText = (value: string) =>
     .replace(/,/g, "\\,")
     .replace(/;/g, "\\;");
 
+// Parameter values cannot contain double quotes, and are quoted because names may hold commas
+const formatCalendarAddress = (property: "ORGANIZER" | "ATTENDEE", recipient: Recipient, params: string[] = []) => {
+  const name = recipient.name ? [`CN="${recipient.name.replace(/"/g, "")}"`] : [];
+  return [property, ...name, ...params].join(";") + `:mailto:${recipient.email}`;
+};
+
+// EMAIL_FROM may be "Name <address>": calendar clients only want the address
+const getOrganizer = (): Recipient => {
+  const from = getConfiguredFromEmail();
+  const match = /^\s*(.*?)\s*<([^>]+)>\s*$/.exec(from);
+  return {
+    email: match ? match[2] : from.trim(),
+    name: match?.[1] || "Colombus Learning",
+  };
+};
+
 const isSameDay = (a: Date, b: Date) =>
   a.getFullYear() === b.getFullYear() &&
   a.getMonth() === b.getMonth() &&
@@ -120,8 +145,10 @@ export const buildSessionCalendar = (
   sequence: number,
   method: "REQUEST" | "CANCEL",
   segments: SessionSegment[],
+  attendees: Recipient[] = [],
 ) => {
   const now = new Date();
+  const organizer = getOrganizer();
   const lines: string[] = [
     "BEGIN:VCALENDAR",
     "PRODID:-//Colombus Consulting//Learning Management//FR",
@@ -134,9 +161,15 @@ export const buildSessionCalendar = (
     const summarySuffix = segments.length > 1 ? ` - Jour ${segment.index + 1}` : "";
     const summary = escapeIcsText(`${formation.title}${summarySuffix}`);
     const description = escapeIcsText(
-      `Session de formation \"${formation.title}\" organisée via Colombus Learning.`,
+      [
+        `Session de formation \"${formation.title}\" organisée via Colombus Learning.`,
+        session.meetingUrl ? `Lien de visio : ${session.meetingUrl}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n"),
     );
-    const location = session.location ? escapeIcsText(session.location) : undefined;
+    // Agendas show the location first: a remote session without a room points at its link
+    const location = session.location || session.meetingUrl;
 
     lines.push(
       "BEGIN:VEVENT",
@@ -146,10 +179,17 @@ export const buildSessionCalendar = (
       `DTEND:${formatDateToICS(segment.end)}`,
       `SUMMARY:${summary}`,
       `DESCRIPTION:${description}`,
+      formatCalendarAddress("ORGANIZER", organizer),
+      ...attendees.map((attendee) =>
+        formatCalendarAddress("ATTENDEE", attendee, ["ROLE=REQ-PARTICIPANT", "PARTSTAT=NEEDS-ACTION", "RSVP=FALSE"])
+      ),
     );
 
     if (location) {
-      lines.push(`LOCATION:${location}`);
+      lines.push(`LOCATION:${escapeIcsText(location)}`);
+    }
+    if (session.meetingUrl) {
+      lines.push(`URL:${session.meetingUrl}`);
     }
 
     lines.push(
@@ -179,11 +219,46 @@ const formatDateRange = (segment: SessionSegment) => {
   return `${dateFormatter.format(segment.start)} • ${timeFormatter.format(segment.start)} → ${timeFormatter.format(segment.end)}`;
 };
 
-export const sendSessionInvitationEmail = async (options: SessionInviteOptions) => {
-  if (!options.recipients || options.recipients.length === 0) {
-    return;
-  }
+export const formatRecipients = (recipients: Recipient[]) =>
+  recipients.map((recipient) =>
+    recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email
+  );
+
+const longDateFormatter = new Intl.DateTimeFormat("fr-FR", {
+  day: "numeric",
+  month: "long",
+  year: "numeric",
+});
 
+// Participant variables are only filled when the email targets a single person
+export const buildSessionEmailVariables = (options: {
+  recipients: Recipient[];
+  session: Session;
+  formation: Formation;
+  message?: string;
+}): EmailTemplateVariables => {
+  const segments = buildSessionSegments(options.session);
+  const participant = options.recipients.length === 1 ? options.recipients[0] : undefined;
+
+  return {
+    "participant.name": participant?.name ?? "",
+    "participant.firstName": participant?.name ? participant.name.split(" ")[0] : "",
+    "participant.email": participant?.email ?? "",
+    "formation.title": options.formation.title,
+    "session.segments": segments.map((segment) => `• ${formatDateRange(segment)}`).join("\n"),
+    "session.startDate": longDateFormatter.format(new Date(options.session.startDate)),
+    "session.endDate": longDateFormatter.format(new Date(options.session.endDate)),
+    "session.location": options.session.location ?? "",
+    "session.meetingUrl": options.session.meetingUrl ?? "",
+    message: options.message ?? "",
+  };
+};
+
+// Builds the invitation (text, HTML and ICS) without sending it
+export const buildSessionInvitationEmail = (
+  options: SessionInviteOptions,
+  template: EmailTemplate = DEFAULT_EMAIL_TEMPLATES.session_invitation,
+): OutboxEmail => {
   const segments = buildSessionSegments(options.session);
   const sequence = options.sequence ?? Math.floor(Date.now() / 1000);
   const method = options.method ?? "REQUEST";
@@ -194,188 +269,48 @@ export const sendSessionInvitationEmail = async (options: SessionInviteOptions)
     sequence,
     method,
     segments,
+    options.recipients,
   );
 
-  const subject = `[Invitation] ${options.formation.title}`;
-  const greeting =
-    options.recipients.length === 1 && options.recipients[0].name
-      ? `Bonjour ${options.recipients[0].name!.split(" ")[0]},`
-      : "Bonjour,";
-
-  const segmentsDescription = segments
-    .map((segment) => `• ${formatDateRange(segment)}`)
-    .join("\n");
-
-  const textLines = [
-    greeting,
-    "",
-    `Vous êtes invité(e) à la session \"${options.formation.title}\".`,
-    `Dates :\n${segmentsDescription}`,
-  ];
-
-  if (options.session.location) {
-    textLines.push(`Lieu : ${options.session.location}`);
-  }
-
-  if (options.reason) {
-    textLines.push("", options.reason);
-  }
-
-  textLines.push(
-    "",
-    "L'invitation est jointe à cet email pour ajouter l'événement à votre agenda.",
-    "",
-    "À très vite sur Colombus Learning !",
-  );
-
-  const htmlLines = [
-    `<p>${greeting}</p>`,
-    `<p>Vous êtes invité(e) à la session <strong>${options.formation.title}</strong>.</p>`,
-    `<p><strong>Dates :</strong><br/>${segments
-      .map((segment) => `<span style="display:block">${formatDateRange(segment)}</span>`)
-      .join("")}</p>`,
-  ];
-
-  if (options.session.location) {
-    htmlLines.push(`<p><strong>Lieu :</strong> ${options.session.location}</p>`);
-  }
-
-  if (options.reason) {
-    htmlLines.push(`<p>${options.reason}</p>`);
-  }
-
-  htmlLines.push(
-    "<p>L'invitation en pièce jointe vous permet d'ajouter l'événement à votre agenda.</p>",
-    "<p>À très vite sur Colombus Learning !</p>",
+  const content = renderEmailTemplate(
+    template,
+    buildSessionEmailVariables({ ...options, message: options.reason }),
   );
 
-  const payload = {
-    to: options.recipients.map((recipient) =>
-      recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email
-    ),
-    subject,
-    text: textLines.join("\n"),
-    html: htmlLines.join(""),
-    calendar: calendarContent,
-    method,
+  return {
+    kind: method === "CANCEL" ? "invitation_cancel" : "invitation",
+    recipients: formatRecipients(options.recipients),
+    ...content,
+    icsContent: calendarContent,
+    sessionId: options.session.id,
   };
-
-  // Send email via Resend
-  try {
-    const { getUncachableResendClient } = await import("./resend");
-    const { client, fromEmail } = await getUncachableResendClient();
-    
-    console.info("[invitation] Attempting to send email from:", fromEmail, "to:", payload.to);
-    
-    const response = await client.emails.send({
-      from: fromEmail,
-      to: payload.to,
-      subject: payload.subject,
-      text: payload.text,
-      html: payload.html,
-      attachments: [
-        {
-          filename: 'invitation.ics',
-          content: Buffer.from(payload.calendar).toString('base64'),
-        }
-      ],
-    });
-    
-    console.info("[invitation] Resend API response:", JSON.stringify(response, null, 2));
-    console.info("[invitation] Email sent successfully to:", payload.to);
-  } catch (error) {
-    console.error("[invitation] Failed to send email:", error);
-    // Log the payload for debugging
-    console.info("[invitation] Payload:", JSON.stringify(payload, null, 2));
-  }
 };
 
-export const sendRegistrationConfirmationEmail = async (options: RegistrationConfirmationOptions) => {
+// Emails are queued in the outbox, which delivers them and retries failures
+export const sendSessionInvitationEmail = async (options: SessionInviteOptions) => {
   if (!options.recipients || options.recipients.length === 0) {
     return;
   }
+  const templates = await getEmailTemplates();
+  await enqueueEmail(buildSessionInvitationEmail(options, templates.session_invitation));
+};
 
-  const segments = buildSessionSegments(options.session);
-  
-  const subject = `[Confirmation d'inscription] ${options.formation.title}`;
-  const greeting =
-    options.recipients.length === 1 && options.recipients[0].name
-      ? `Bonjour ${options.recipients[0].name!.split(" ")[0]},`
-      : "Bonjour,";
-
-  const segmentsDescription = segments
-    .map((segment) => `• ${formatDateRange(segment)}`)
-    .join("\n");
-
-  const textLines = [
-    greeting,
-    "",
-    `Votre demande d'inscription à la session "${options.formation.title}" a bien été enregistrée.`,
-    "",
-    `Dates de la session :\n${segmentsDescription}`,
-  ];
-
-  if (options.session.location) {
-    textLines.push(`Lieu : ${options.session.location}`);
-  }
-
-  textLines.push(
-    "",
-    "Statut : En attente de validation RH",
-    "",
-    "Vous recevrez un second email avec l'invitation calendrier dès que votre inscription sera validée par les RH.",
-    "",
-    "À très vite sur Colombus Learning !",
-  );
-
-  const htmlLines = [
-    `<p>${greeting}</p>`,
-    `<p>Votre demande d'inscription à la session <strong>${options.formation.title}</strong> a bien été enregistrée.</p>`,
-    `<p><strong>Dates de la session :</strong><br/>${segments
-      .map((segment) => `<span style="display:block">${formatDateRange(segment)}</span>`)
-      .join("")}</p>`,
-  ];
-
-  if (options.session.location) {
-    htmlLines.push(`<p><strong>Lieu :</strong> ${options.session.location}</p>`);
-  }
-
-  htmlLines.push(
-    `<p><strong>Statut :</strong> <em style="color: #f59e0b;">En attente de validation RH</em></p>`,
-    "<p>Vous recevrez un second email avec l'invitation calendrier dès que votre inscription sera validée par les RH.</p>",
-    "<p>À très vite sur Colombus Learning !</p>",
-  );
-
-  const payload = {
-    to: options.recipients.map((recipient) =>
-      recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email
-    ),
-    subject,
-    text: textLines.join("\n"),
-    html: htmlLines.join(""),
-  };
+export const buildRegistrationConfirmationEmail = (
+  options: RegistrationConfirmationOptions,
+  template: EmailTemplate = DEFAULT_EMAIL_TEMPLATES.registration_confirmation,
+): OutboxEmail => ({
+  kind: "registration_confirmation",
+  recipients: formatRecipients(options.recipients),
+  ...renderEmailTemplate(template, buildSessionEmailVariables(options)),
+  sessionId: options.session.id,
+});
 
-  // Send email via Resend (non-blocking)
-  try {
-    const { getUncachableResendClient } = await import("./resend");
-    const { client, fromEmail } = await getUncachableResendClient();
-    
-    console.info("[registration-confirmation] Attempting to send email from:", fromEmail, "to:", payload.to);
-    
-    const response = await client.emails.send({
-      from: fromEmail,
-      to: payload.to,
-      subject: payload.subject,
-      text: payload.text,
-      html: payload.html,
-    });
-    
-    console.info("[registration-confirmation] Resend API response:", JSON.stringify(response, null, 2));
-    console.info("[registration-confirmation] Email sent successfully to:", payload.to);
-  } catch (error) {
-    console.error("[registration-confirmation] Failed to send email:", error);
-    console.info("[registration-confirmation] Payload:", JSON.stringify(payload, null, 2));
+export const sendRegistrationConfirmationEmail = async (options: RegistrationConfirmationOptions) => {
+  if (!options.recipients || options.recipients.length === 0) {
+    return;
   }
+  const templates = await getEmailTemplates();
+  await enqueueEmail(buildRegistrationConfirmationEmail(options, templates.registration_confirmation));
 };
 
 export type { SessionSegment };
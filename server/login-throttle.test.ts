@@ -0,0 +1,106 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { LoginAttempt } from "@shared/schema";
+import {
+  evaluateLoginAttempts,
+  getLoginRetryDelayMs,
+  getTrustProxySetting,
+  LOGIN_THROTTLE_POLICIES,
+} from "./login-throttle";
+
+const now = new Date("2026-11-03T09:00:00Z");
+const secondsAgo = (seconds: number) => new Date(now.getTime() - seconds * 1000);
+const secondsFromNow = (seconds: number) => new Date(now.getTime() + seconds * 1000);
+
+const attempt = (scope: "email" | "ip", overrides: Partial<LoginAttempt> = {}) =>
+  ({
+    id: `${scope}-attempt`,
+    scope,
+    identifier: scope === "email" ? "alice.martin@colombus.test" : "203.0.113.7",
+    failureCount: 0,
+    lastFailureAt: null,
+    lockedUntil: null,
+    createdAt: secondsAgo(3600),
+    ...overrides,
+  }) as LoginAttempt;
+
+describe("evaluateLoginAttempts", () => {
+  test("a first try and the first two mistakes go through", () => {
+    assert.deepEqual(evaluateLoginAttempts([], now), { allowed: true });
+    assert.deepEqual(
+      evaluateLoginAttempts([attempt("email", { failureCount: 2, lastFailureAt: secondsAgo(0) })], now),
+      { allowed: true }
+    );
+  });
+
+  test("later mistakes wait a delay that doubles with each failure", () => {
+    assert.equal(getLoginRetryDelayMs(3), 1000);
+    assert.equal(getLoginRetryDelayMs(5), 4000);
+    assert.equal(getLoginRetryDelayMs(20), 30 * 1000);
+
+    const decision = evaluateLoginAttempts([attempt("email", { failureCount: 5, lastFailureAt: secondsAgo(1) })], now);
+    assert.ok(!decision.allowed);
+    assert.equal(decision.status, 429);
+    assert.equal(decision.retryAfterSeconds, 3);
+
+    assert.deepEqual(
+      evaluateLoginAttempts([attempt("email", { failureCount: 5, lastFailureAt: secondsAgo(5) })], now),
+      { allowed: true }
+    );
+  });
+
+  test("failures outside the window no longer delay anything", () => {
+    const windowSeconds = LOGIN_THROTTLE_POLICIES.email.failureWindowMs / 1000;
+    assert.deepEqual(
+      evaluateLoginAttempts([attempt("email", { failureCount: 30, lastFailureAt: secondsAgo(windowSeconds + 1) })], now),
+      { allowed: true }
+    );
+  });
+
+  test("a locked account answers 423 until the lock ends", () => {
+    const decision = evaluateLoginAttempts(
+      [attempt("email", { failureCount: 5, lastFailureAt: secondsAgo(60), lockedUntil: secondsFromNow(600) })],
+      now
+    );
+    assert.ok(!decision.allowed);
+    assert.equal(decision.status, 423);
+    assert.equal(decision.retryAfterSeconds, 600);
+    assert.match(decision.message, /verrouillé.*10 minutes/);
+
+    assert.deepEqual(
+      evaluateLoginAttempts([attempt("email", { failureCount: 5, lockedUntil: secondsAgo(1) })], now),
+      { allowed: true }
+    );
+  });
+
+  test("a locked network answers 429, and the longest lock wins", () => {
+    const decision = evaluateLoginAttempts(
+      [
+        attempt("email", { lockedUntil: secondsFromNow(30) }),
+        attempt("ip", { failureCount: 50, lockedUntil: secondsFromNow(900) }),
+      ],
+      now
+    );
+    assert.ok(!decision.allowed);
+    assert.equal(decision.status, 429);
+    assert.equal(decision.retryAfterSeconds, 900);
+    assert.match(decision.message, /votre réseau/);
+  });
+
+  test("IP failures alone never add a retry delay", () => {
+    assert.deepEqual(
+      evaluateLoginAttempts([attempt("ip", { failureCount: 40, lastFailureAt: secondsAgo(0) })], now),
+      { allowed: true }
+    );
+  });
+});
+
+describe("getTrustProxySetting", () => {
+  test("reads hop counts, booleans and proxy lists, defaulting to one proxy", () => {
+    assert.equal(getTrustProxySetting(undefined), 1);
+    assert.equal(getTrustProxySetting(" "), 1);
+    assert.equal(getTrustProxySetting("2"), 2);
+    assert.equal(getTrustProxySetting("false"), false);
+    assert.equal(getTrustProxySetting("loopback, 10.0.0.0/8"), "loopback, 10.0.0.0/8");
+  });
+});
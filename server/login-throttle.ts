@@ -0,0 +1,134 @@
+import type { Request } from "express";
+import type { LoginAttempt, LoginAttemptScope } from "@shared/schema";
+
+const readPositiveInt = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+const LOCK_DURATION_MINUTES = readPositiveInt(process.env.LOGIN_LOCK_DURATION_MINUTES, 15);
+
+// Failures older than the window no longer count towards a lockout
+const FAILURE_WINDOW_MINUTES = readPositiveInt(process.env.LOGIN_FAILURE_WINDOW_MINUTES, 15);
+
+// Shared office networks sit behind a single address, hence the higher IP threshold
+export const LOGIN_THROTTLE_POLICIES: Record<
+  LoginAttemptScope,
+  { maxFailures: number; lockDurationMs: number; failureWindowMs: number }
+> = {
+  email: {
+    maxFailures: readPositiveInt(process.env.LOGIN_MAX_FAILURES_PER_EMAIL, 5),
+    lockDurationMs: LOCK_DURATION_MINUTES * 60 * 1000,
+    failureWindowMs: FAILURE_WINDOW_MINUTES * 60 * 1000,
+  },
+  ip: {
+    maxFailures: readPositiveInt(process.env.LOGIN_MAX_FAILURES_PER_IP, 50),
+    lockDurationMs: LOCK_DURATION_MINUTES * 60 * 1000,
+    failureWindowMs: FAILURE_WINDOW_MINUTES * 60 * 1000,
+  },
+};
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+// The first two mistakes are free, then each failure doubles the wait before the next try
+export const getLoginRetryDelayMs = (failureCount: number) => {
+  if (failureCount < 3) {
+    return 0;
+  }
+  return Math.min(BASE_DELAY_MS * 2 ** (failureCount - 3), MAX_DELAY_MS);
+};
+
+export const normalizeLoginEmail = (email: string) => email.trim().toLowerCase();
+
+/**
+ * Express setting for `trust proxy`, from TRUST_PROXY: a hop count, "true"/"false", or a list of
+ * trusted proxy addresses. Defaults to the single reverse proxy in front of the deployment.
+ */
+export const getTrustProxySetting = (value: string | undefined = process.env.TRUST_PROXY) => {
+  const setting = value?.trim();
+  if (!setting) {
+    return 1;
+  }
+  if (/^\d+$/.test(setting)) {
+    return Number.parseInt(setting, 10);
+  }
+  if (setting === "true" || setting === "false") {
+    return setting === "true";
+  }
+  return setting;
+};
+
+// `req.ip` only honours X-Forwarded-For entries added by trusted proxies, so clients cannot spoof it
+export const getClientIp = (req: Request) => req.ip || req.socket.remoteAddress || "unknown";
+
+export type LoginThrottleDecision =
+  | { allowed: true }
+  | { allowed: false; status: 423 | 429; retryAfterSeconds: number; message: string };
+
+const formatWait = (seconds: number) => {
+  if (seconds < 60) {
+    return `${seconds} seconde${seconds > 1 ? "s" : ""}`;
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes > 1 ? "s" : ""}`;
+};
+
+export const evaluateLoginAttempts = (
+  attempts: LoginAttempt[],
+  now: Date = new Date()
+): LoginThrottleDecision => {
+  const nowMs = now.getTime();
+  let lockedUntilMs = 0;
+  let lockedScope: LoginAttemptScope | null = null;
+  let nextAllowedMs = 0;
+
+  for (const attempt of attempts) {
+    const scope = attempt.scope as LoginAttemptScope;
+    const lockedUntil = attempt.lockedUntil ? new Date(attempt.lockedUntil).getTime() : 0;
+
+    if (lockedUntil > nowMs) {
+      if (lockedUntil > lockedUntilMs) {
+        lockedUntilMs = lockedUntil;
+        lockedScope = scope;
+      }
+      continue;
+    }
+
+    if (scope !== "email" || !attempt.lastFailureAt) {
+      continue;
+    }
+
+    const lastFailure = new Date(attempt.lastFailureAt).getTime();
+    if (lastFailure < nowMs - LOGIN_THROTTLE_POLICIES.email.failureWindowMs) {
+      continue;
+    }
+
+    nextAllowedMs = Math.max(nextAllowedMs, lastFailure + getLoginRetryDelayMs(attempt.failureCount));
+  }
+
+  if (lockedScope) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((lockedUntilMs - nowMs) / 1000));
+    return {
+      allowed: false,
+      status: lockedScope === "email" ? 423 : 429,
+      retryAfterSeconds,
+      message:
+        lockedScope === "email"
+          ? `Compte temporairement verrouillé suite à plusieurs échecs de connexion. Réessayez dans ${formatWait(retryAfterSeconds)} ou contactez les RH.`
+          : `Trop de tentatives de connexion depuis votre réseau. Réessayez dans ${formatWait(retryAfterSeconds)}.`,
+    };
+  }
+
+  if (nextAllowedMs > nowMs) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((nextAllowedMs - nowMs) / 1000));
+    return {
+      allowed: false,
+      status: 429,
+      retryAfterSeconds,
+      message: `Trop de tentatives de connexion. Réessayez dans ${formatWait(retryAfterSeconds)}.`,
+    };
+  }
+
+  return { allowed: true };
+};
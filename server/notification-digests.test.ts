@@ -0,0 +1,94 @@
+/**
+ * Runs a digest round over mocked storage: the intentions awaiting validation are loaded once per
+ * run, then each RH or coach recipient only gets those that wait for them.
+ */
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  CoachAssignment,
+  Formation,
+  FormationInterest,
+  InsertNotificationDigest,
+  NotificationPreference,
+  User,
+} from "@shared/schema";
+import { runNotificationDigests } from "./notification-digests";
+import { storage } from "./storage";
+
+const user = (id: string, roles: string[]) =>
+  ({ id, name: `${id} Martin`, email: `${id}@colombus.test`, roles, archived: false }) as User;
+
+const users = [
+  user("rh-1", ["rh"]),
+  user("rh-2", ["rh"]),
+  user("coach", ["consultant", "coach"]),
+  user("alice", ["consultant"]),
+  user("bruno", ["consultant"]),
+];
+
+const interest = (id: string, userId: string, overrides: Partial<FormationInterest> = {}) =>
+  ({
+    id,
+    userId,
+    formationId: "formation-1",
+    priority: "P1",
+    status: "pending",
+    coachStatus: "pending",
+    ...overrides,
+  }) as FormationInterest;
+
+describe("notification digests", () => {
+  let interestLoads = 0;
+  let digests: InsertNotificationDigest[] = [];
+
+  beforeEach(() => {
+    interestLoads = 0;
+    digests = [];
+    mock.method(storage, "listNotificationPreferencesByChannel", async (channel: string) =>
+      channel === "daily_digest"
+        ? ["rh-1", "rh-2", "coach"].map(
+            (userId) => ({ userId, category: "validation_requests", channel }) as NotificationPreference
+          )
+        : []
+    );
+    mock.method(storage, "listUsersByIds", async (ids: string[]) => users.filter((candidate) => ids.includes(candidate.id)));
+    mock.method(storage, "getLatestNotificationDigest", async () => undefined);
+    mock.method(storage, "listNotificationsSince", async () => []);
+    mock.method(storage, "listFormationInterests", async () => {
+      interestLoads += 1;
+      return [
+        interest("interest-alice", "alice"),
+        interest("interest-bruno", "bruno", { coachStatus: "approved" }),
+        interest("interest-rejected", "alice", { coachStatus: "rejected" }),
+        interest("interest-approved", "bruno", { status: "approved" }),
+      ];
+    });
+    mock.method(storage, "listCoachAssignments", async () => [
+      { coachId: "coach", coacheeId: "alice" } as CoachAssignment,
+    ]);
+    mock.method(storage, "listFormations", async () => [{ id: "formation-1", title: "Kubernetes" } as Formation]);
+    // No email id back: nothing reaches the outbox
+    mock.method(storage, "recordNotificationDigest", async (digest: InsertNotificationDigest) => {
+      digests.push(digest);
+      return undefined;
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test("pending intentions are loaded once for every recipient of the run", async () => {
+    await runNotificationDigests(new Date("2026-11-03T12:00:00"));
+
+    assert.equal(interestLoads, 1);
+    assert.equal(digests.length, 3);
+  });
+
+  test("RH get every pending intention, coaches those of their coachees awaiting them", async () => {
+    await runNotificationDigests(new Date("2026-11-03T12:00:00"));
+
+    const itemCounts = Object.fromEntries(digests.map((digest) => [digest.userId, digest.itemCount]));
+    assert.deepEqual(itemCounts, { "rh-1": 2, "rh-2": 2, coach: 1 });
+  });
+});
@@ -0,0 +1,270 @@
+import type { FormationInterest, Notification, User } from "@shared/schema";
+import { hasPermission } from "@shared/roles";
+import { escapeHtml } from "@shared/email-templates";
+import {
+  DIGEST_CHANNEL_BY_FREQUENCY,
+  DIGEST_FREQUENCIES,
+  NOTIFICATION_CATEGORY_DEFINITIONS,
+  type DigestFrequency,
+  type NotificationCategory,
+} from "@shared/notification-preferences";
+import { processEmailOutbox, type OutboxEmail } from "./email-outbox";
+import { formatRecipients } from "./invitations";
+import { getAppUrl, getFirstName } from "./notifications";
+import { storage } from "./storage";
+
+const DIGEST_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+// Local hour at which digests go out; weekly digests are sent on Mondays
+const DIGEST_HOUR = Number(process.env.NOTIFICATION_DIGEST_HOUR ?? "8");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatDateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+
+/**
+ * Latest send time reached at `now`, e.g. today 8:00 once it is past 8:00, yesterday 8:00 before.
+ * Its date names the period, so a period missed while the server was down is sent once on restart.
+ */
+export const getDigestPeriod = (frequency: DigestFrequency, now: Date) => {
+  const sendAt = new Date(now);
+  sendAt.setHours(DIGEST_HOUR, 0, 0, 0);
+  if (sendAt > now) {
+    sendAt.setDate(sendAt.getDate() - 1);
+  }
+  if (frequency === "weekly") {
+    // getDay() is 0 on Sunday: step back to the latest Monday
+    sendAt.setDate(sendAt.getDate() - ((sendAt.getDay() + 6) % 7));
+  }
+
+  return {
+    key: `${frequency}:${formatDateKey(sendAt)}`,
+    sendAt,
+    previousSendAt: new Date(sendAt.getTime() - (frequency === "weekly" ? 7 : 1) * DAY_MS),
+  };
+};
+
+export interface PendingValidation {
+  interest: FormationInterest;
+  requesterName: string;
+  title: string;
+}
+
+// Where each reviewer handles the intentions waiting for them
+export const getValidationRoute = (user: Pick<User, "roles">) =>
+  hasPermission(user.roles, "interests.manage") ? "/interests" : "/coach";
+
+interface PendingValidationSet {
+  validations: PendingValidation[];
+  coacheeIdsByCoach: Map<string, Set<string>>;
+}
+
+// Every intention still waiting for a reviewer, loaded once per digest run and shared by recipients
+const loadPendingValidations = async (): Promise<PendingValidationSet> => {
+  const [interests, assignments] = await Promise.all([
+    storage.listFormationInterests(),
+    storage.listCoachAssignments(),
+  ]);
+  const pending = interests.filter((interest) => interest.status === "pending" && interest.coachStatus !== "rejected");
+
+  const coacheeIdsByCoach = new Map<string, Set<string>>();
+  assignments.forEach((assignment) => {
+    const coacheeIds = coacheeIdsByCoach.get(assignment.coachId) ?? new Set<string>();
+    coacheeIds.add(assignment.coacheeId);
+    coacheeIdsByCoach.set(assignment.coachId, coacheeIds);
+  });
+  if (pending.length === 0) {
+    return { validations: [], coacheeIdsByCoach };
+  }
+
+  const [requesters, formations] = await Promise.all([
+    storage.listUsersByIds(Array.from(new Set(pending.map((interest) => interest.userId)))),
+    storage.listFormations(),
+  ]);
+  const requestersById = new Map(requesters.map((requester) => [requester.id, requester]));
+  const formationsById = new Map(formations.map((formation) => [formation.id, formation]));
+
+  return {
+    validations: pending.map((interest) => ({
+      interest,
+      requesterName: requestersById.get(interest.userId)?.name ?? "Un collaborateur",
+      title:
+        (interest.formationId ? formationsById.get(interest.formationId)?.title : interest.customTitle) ??
+        "Formation hors catalogue",
+    })),
+    coacheeIdsByCoach,
+  };
+};
+
+// What still waits for the user, rather than the notifications received about it meanwhile
+const selectPendingValidations = (user: Pick<User, "id" | "roles">, pending: PendingValidationSet) => {
+  if (hasPermission(user.roles, "interests.manage")) {
+    return pending.validations;
+  }
+  if (!hasPermission(user.roles, "coaching.access")) {
+    return [];
+  }
+  const coacheeIds = pending.coacheeIdsByCoach.get(user.id);
+  return pending.validations.filter(
+    ({ interest }) => interest.coachStatus === "pending" && !!coacheeIds?.has(interest.userId)
+  );
+};
+
+export const buildDigestEmail = (
+  recipient: Pick<User, "email" | "name" | "roles">,
+  frequency: DigestFrequency,
+  pendingValidations: PendingValidation[],
+  notifications: Pick<Notification, "title" | "message" | "category">[]
+): OutboxEmail => {
+  const periodLabel = frequency === "daily" ? "quotidien" : "hebdomadaire";
+  const sections: { title: string; items: string[]; link?: string }[] = [];
+
+  if (pendingValidations.length > 0) {
+    sections.push({
+      title: `${NOTIFICATION_CATEGORY_DEFINITIONS.validation_requests.label} (${pendingValidations.length})`,
+      items: pendingValidations.map((pending) => `${pending.requesterName} : ${pending.title} (${pending.interest.priority})`),
+      link: getAppUrl(getValidationRoute(recipient)),
+    });
+  }
+
+  (Object.keys(NOTIFICATION_CATEGORY_DEFINITIONS) as NotificationCategory[]).forEach((category) => {
+    const items = notifications.filter((notification) => notification.category === category);
+    if (items.length > 0) {
+      sections.push({
+        title: NOTIFICATION_CATEGORY_DEFINITIONS[category].label,
+        items: items.map((item) => (item.message ? `${item.title} : ${item.message}` : item.title)),
+      });
+    }
+  });
+
+  const greeting = `Bonjour ${getFirstName(recipient)},`;
+  const intro = `Voici votre récapitulatif ${periodLabel} Colombus Learning.`;
+  const appLink = getAppUrl("/");
+
+  const text = [
+    greeting,
+    "",
+    intro,
+    ...sections.flatMap((section) => [
+      "",
+      `${section.title} :`,
+      ...section.items.map((item) => `• ${item}`),
+      ...(section.link ? [section.link] : []),
+    ]),
+    ...(appLink ? ["", `Retrouvez tout sur ${appLink}`] : []),
+    "",
+    "À très vite sur Colombus Learning !",
+  ].join("\n");
+
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${escapeHtml(intro)}</p>`,
+    ...sections.map(
+      (section) =>
+        `<p><strong>${escapeHtml(section.title)}</strong></p><ul>${section.items
+          .map((item) => `<li>${escapeHtml(item)}</li>`)
+          .join("")}</ul>${section.link ? `<p><a href="${escapeHtml(section.link)}">Voir le détail</a></p>` : ""}`
+    ),
+    appLink ? `<p><a href="${escapeHtml(appLink)}">Ouvrir Colombus Learning</a></p>` : "",
+    "<p>À très vite sur Colombus Learning !</p>",
+  ].join("");
+
+  return {
+    kind: "notification_digest",
+    recipients: formatRecipients([recipient]),
+    subject: `Votre récapitulatif ${periodLabel} Colombus Learning`,
+    text,
+    html,
+    sessionId: null,
+  };
+};
+
+/**
+ * Sends one digest per user and period for the categories they moved to that digest.
+ * A user whose digest would be empty still gets the period claimed, without an email.
+ */
+export const runNotificationDigests = async (now = new Date()) => {
+  let queued = 0;
+  // Loaded on first use: most runs have no recipient for validation requests
+  let pendingValidationSet: Promise<PendingValidationSet> | null = null;
+  const getPendingValidations = () => {
+    if (!pendingValidationSet) {
+      pendingValidationSet = loadPendingValidations();
+    }
+    return pendingValidationSet;
+  };
+
+  for (const frequency of DIGEST_FREQUENCIES) {
+    const period = getDigestPeriod(frequency, now);
+    const preferences = await storage.listNotificationPreferencesByChannel(DIGEST_CHANNEL_BY_FREQUENCY[frequency]);
+    const categoriesByUser = new Map<string, NotificationCategory[]>();
+    preferences.forEach((preference) => {
+      const categories = categoriesByUser.get(preference.userId) ?? [];
+      categories.push(preference.category as NotificationCategory);
+      categoriesByUser.set(preference.userId, categories);
+    });
+    if (categoriesByUser.size === 0) {
+      continue;
+    }
+
+    const users = await storage.listUsersByIds(Array.from(categoriesByUser.keys()));
+    for (const user of users) {
+      const latest = await storage.getLatestNotificationDigest(user.id, frequency);
+      if (latest?.periodKey === period.key) {
+        continue;
+      }
+
+      const categories = categoriesByUser.get(user.id) ?? [];
+      // Pending validations are listed from their current state, their notifications would repeat them
+      const notificationCategories = categories.filter((category) => category !== "validation_requests");
+      const since = latest && latest.createdAt > period.previousSendAt ? latest.createdAt : period.previousSendAt;
+      const [notifications, pendingValidations] = await Promise.all([
+        notificationCategories.length > 0
+          ? storage.listNotificationsSince(user.id, since, notificationCategories)
+          : Promise.resolve([]),
+        categories.includes("validation_requests")
+          ? getPendingValidations().then((pending) => selectPendingValidations(user, pending))
+          : Promise.resolve([]),
+      ]);
+      const unread = notifications.filter((notification) => !notification.read);
+
+      const email =
+        user.email && !user.archived && (unread.length > 0 || pendingValidations.length > 0)
+          ? buildDigestEmail(user, frequency, pendingValidations, unread)
+          : null;
+      const recorded = await storage.recordNotificationDigest(
+        {
+          userId: user.id,
+          frequency,
+          periodKey: period.key,
+          itemCount: unread.length + pendingValidations.length,
+        },
+        email ? { ...email, status: "pending", nextAttemptAt: now } : null
+      );
+      if (recorded?.emailId) {
+        queued += 1;
+      }
+    }
+  }
+
+  if (queued > 0) {
+    console.info(`[notifications] Queued ${queued} notification digests`);
+    processEmailOutbox().catch((error) => {
+      console.error("Failed to process email outbox", error);
+    });
+  }
+
+  return queued;
+};
+
+export const startNotificationDigestJob = () => {
+  const run = () => {
+    runNotificationDigests().catch((error) => {
+      console.error("Failed to send notification digests", error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, DIGEST_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
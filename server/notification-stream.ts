@@ -0,0 +1,159 @@
+import type { Response } from "express";
+import { sql } from "drizzle-orm";
+import { createDirectClient, db } from "./db";
+import { storage } from "./storage";
+
+// Postgres channel shared by every app instance
+const NOTIFICATION_CHANNEL = "user_notifications";
+// Proxies close idle connections, a comment line every 25 seconds keeps the stream open
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+interface NotificationEvent {
+  userId: string;
+  type: "created" | "read";
+  notificationId?: string;
+}
+
+export interface UnreadNotificationsSummary {
+  unreadCounts: Record<string, number>;
+  totalUnread: number;
+}
+
+export const getUnreadNotificationsSummary = async (userId: string): Promise<UnreadNotificationsSummary> => {
+  const counts = await storage.getUnreadNotificationCounts(userId);
+  const unreadCounts = counts.reduce<Record<string, number>>((acc, current) => {
+    const count = typeof current.count === "number" ? current.count : Number(current.count) || 0;
+    acc[current.route] = count;
+    return acc;
+  }, {});
+  const totalUnread = Object.values(unreadCounts).reduce((sum, count) => sum + count, 0);
+
+  return { unreadCounts, totalUnread };
+};
+
+const subscribers = new Map<string, Set<Response>>();
+
+const writeEvent = (res: Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const dispatchEvent = async (event: NotificationEvent) => {
+  const clients = subscribers.get(event.userId);
+  if (!clients || clients.size === 0) {
+    return;
+  }
+
+  const [notification, summary] = await Promise.all([
+    event.notificationId ? storage.getNotification(event.notificationId) : Promise.resolve(undefined),
+    getUnreadNotificationsSummary(event.userId),
+  ]);
+
+  Array.from(clients).forEach((res) => {
+    if (event.type === "created" && notification) {
+      writeEvent(res, "notification", { notification, ...summary });
+    } else {
+      writeEvent(res, "read", summary);
+    }
+  });
+};
+
+let listenerStart: Promise<void> | null = null;
+
+const scheduleReconnect = () => {
+  listenerStart = null;
+  setTimeout(() => {
+    if (subscribers.size > 0) {
+      void ensureListener();
+    }
+  }, RECONNECT_DELAY_MS).unref();
+};
+
+// A dedicated direct connection: LISTEN only lasts as long as the session that issued it
+const ensureListener = () => {
+  if (!listenerStart) {
+    const client = createDirectClient();
+    let lost = false;
+    const handleLoss = (error?: unknown) => {
+      if (lost) {
+        return;
+      }
+      lost = true;
+      console.error("[notifications] Notification listener disconnected", error ?? "");
+      client.end().catch(() => undefined);
+      scheduleReconnect();
+    };
+
+    client.on("notification", (message) => {
+      if (message.channel !== NOTIFICATION_CHANNEL || !message.payload) {
+        return;
+      }
+      try {
+        dispatchEvent(JSON.parse(message.payload) as NotificationEvent).catch((error) => {
+          console.error("[notifications] Failed to push notification event", error);
+        });
+      } catch (error) {
+        console.error("[notifications] Ignored malformed notification event", error);
+      }
+    });
+    client.on("error", handleLoss);
+    client.on("end", () => handleLoss());
+
+    listenerStart = (async () => {
+      await client.connect();
+      await client.query(`LISTEN ${NOTIFICATION_CHANNEL}`);
+    })().catch(handleLoss);
+  }
+  return listenerStart;
+};
+
+/**
+ * Broadcasts changes to every instance through NOTIFY, in a single statement; each instance
+ * forwards them to the streams its own clients opened. Failures are logged: clients still poll.
+ */
+export const publishNotificationEvents = async (events: NotificationEvent[]) => {
+  if (events.length === 0) {
+    return;
+  }
+  const payloads = events.map((event) => sql`${JSON.stringify(event)}`);
+  try {
+    await db.execute(
+      sql`SELECT pg_notify(${NOTIFICATION_CHANNEL}, payload) FROM unnest(ARRAY[${sql.join(payloads, sql`, `)}]::text[]) AS payload`
+    );
+  } catch (error) {
+    console.error("[notifications] Failed to publish notification events", error);
+  }
+};
+
+export const publishNotificationEvent = (event: NotificationEvent) => publishNotificationEvents([event]);
+
+export const openNotificationStream = async (userId: string, res: Response) => {
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Disables response buffering in nginx-style proxies
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  const clients = subscribers.get(userId) ?? new Set<Response>();
+  clients.add(res);
+  subscribers.set(userId, clients);
+  void ensureListener();
+
+  const heartbeat = setInterval(() => {
+    res.write(": heartbeat\n\n");
+  }, HEARTBEAT_INTERVAL_MS);
+
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    clients.delete(res);
+    if (clients.size === 0) {
+      subscribers.delete(userId);
+    }
+  });
+
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+  writeEvent(res, "unread", await getUnreadNotificationsSummary(userId));
+};
@@ -0,0 +1,139 @@
+import type { InsertNotification, Notification, NotificationPreference, User } from "@shared/schema";
+import { escapeHtml } from "@shared/email-templates";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_CATEGORIES,
+  NOTIFICATION_CHANNELS,
+  type NotificationCategory,
+  type NotificationChannel,
+  type NotificationPreferences,
+} from "@shared/notification-preferences";
+import { NOTIFICATION_KIND_DEFINITIONS, getNotificationLink, type NotificationKind } from "@shared/notifications";
+import { enqueueEmail, type OutboxEmail } from "./email-outbox";
+import { formatRecipients } from "./invitations";
+import { publishNotificationEvents } from "./notification-stream";
+import { storage } from "./storage";
+
+export type NotificationInput = Omit<InsertNotification, "kind" | "category" | "metadata"> & {
+  kind: NotificationKind;
+  metadata: NonNullable<InsertNotification["metadata"]>;
+};
+
+export const resolveNotificationPreferences = (
+  rows: Pick<NotificationPreference, "category" | "channel">[]
+): NotificationPreferences => {
+  const preferences = { ...DEFAULT_NOTIFICATION_PREFERENCES };
+  rows.forEach((row) => {
+    if (
+      NOTIFICATION_CATEGORIES.includes(row.category as NotificationCategory) &&
+      NOTIFICATION_CHANNELS.includes(row.channel as NotificationChannel)
+    ) {
+      preferences[row.category as NotificationCategory] = row.channel as NotificationChannel;
+    }
+  });
+  return preferences;
+};
+
+export const getNotificationPreferences = async (userId: string) =>
+  resolveNotificationPreferences(await storage.listNotificationPreferences([userId]));
+
+/**
+ * Absolute links need APP_BASE_URL: background jobs have no request to derive it from, and the
+ * Host header of a request is client-controlled, so it must never be used to build links either.
+ */
+export const getAppBaseUrl = () => process.env.APP_BASE_URL?.trim().replace(/\/+$/, "") || undefined;
+
+export const getAppUrl = (route: string) => {
+  const baseUrl = getAppBaseUrl();
+  return baseUrl ? `${baseUrl}${route}` : undefined;
+};
+
+export const getFirstName = (user: Pick<User, "name">) => user.name.split(" ")[0];
+
+export const buildNotificationEmail = (
+  notification: Pick<InsertNotification, "title" | "message" | "route" | "kind" | "metadata">,
+  recipient: Pick<User, "email" | "name">
+): OutboxEmail => {
+  const link = getAppUrl(getNotificationLink(notification));
+  const greeting = `Bonjour ${getFirstName(recipient)},`;
+
+  const textLines = [greeting, "", notification.title];
+  if (notification.message) {
+    textLines.push(notification.message);
+  }
+  if (link) {
+    textLines.push("", `Pour en savoir plus : ${link}`);
+  }
+  textLines.push("", "À très vite sur Colombus Learning !");
+
+  const htmlLines = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p><strong>${escapeHtml(notification.title)}</strong>${
+      notification.message ? `<br/>${escapeHtml(notification.message)}` : ""
+    }</p>`,
+  ];
+  if (link) {
+    htmlLines.push(`<p><a href="${escapeHtml(link)}">Ouvrir Colombus Learning</a></p>`);
+  }
+  htmlLines.push("<p>À très vite sur Colombus Learning !</p>");
+
+  return {
+    kind: "notification",
+    recipients: formatRecipients([recipient]),
+    subject: notification.title,
+    text: textLines.join("\n"),
+    html: htmlLines.join(""),
+    sessionId: null,
+  };
+};
+
+/**
+ * Creates the in-app notifications unless their recipient turned the category off, pushes them to
+ * open streams and emails them right away when asked to. Digests pick them up later on their own.
+ * Preferences, inserts and recipients take one query each however many users are notified.
+ */
+export const notifyUsers = async (notifications: NotificationInput[]) => {
+  if (notifications.length === 0) {
+    return [];
+  }
+
+  const preferenceRows = await storage.listNotificationPreferences(
+    Array.from(new Set(notifications.map((notification) => notification.userId)))
+  );
+  const getChannel = (userId: string, category: NotificationCategory) =>
+    resolveNotificationPreferences(preferenceRows.filter((row) => row.userId === userId))[category];
+
+  const created = await storage.createNotifications(
+    notifications
+      .map((notification) => ({
+        ...notification,
+        category: NOTIFICATION_KIND_DEFINITIONS[notification.kind].category,
+      }))
+      .filter((notification) => getChannel(notification.userId, notification.category) !== "off")
+  );
+  await publishNotificationEvents(
+    created.map((notification) => ({ userId: notification.userId, type: "created", notificationId: notification.id }))
+  );
+
+  const emailed = created.filter(
+    (notification) => getChannel(notification.userId, notification.category as NotificationCategory) === "email"
+  );
+  if (emailed.length > 0) {
+    const recipientsById = new Map(
+      (await storage.listUsersByIds(Array.from(new Set(emailed.map((notification) => notification.userId))))).map(
+        (recipient) => [recipient.id, recipient]
+      )
+    );
+    for (const notification of emailed) {
+      const recipient = recipientsById.get(notification.userId);
+      if (recipient?.email && !recipient.archived) {
+        await enqueueEmail(buildNotificationEmail(notification, recipient));
+      }
+    }
+  }
+
+  return created;
+};
+
+export const notifyUser = async (notification: NotificationInput): Promise<Notification | undefined> =>
+  (await notifyUsers([notification]))[0];
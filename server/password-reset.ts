@@ -0,0 +1,65 @@
+import { createHash, randomBytes } from "crypto";
+import { getEmailTransport } from "./email-transport";
+
+export const PASSWORD_RESET_TOKEN_TTL_MINUTES = 60;
+
+interface PasswordResetEmailOptions {
+  recipient: { email: string; name?: string | null };
+  resetUrl: string;
+  expiresAt: Date;
+}
+
+export const generatePasswordResetToken = () => randomBytes(32).toString("base64url");
+
+// Only the digest is persisted so that a database leak does not expose usable links
+export const hashPasswordResetToken = (token: string) =>
+  createHash("sha256").update(token).digest("hex");
+
+export const buildPasswordResetUrl = (baseUrl: string, token: string) =>
+  `${baseUrl.replace(/\/+$/, "")}/reset-password?token=${encodeURIComponent(token)}`;
+
+export const sendPasswordResetEmail = async (options: PasswordResetEmailOptions) => {
+  const greeting = options.recipient.name
+    ? `Bonjour ${options.recipient.name.split(" ")[0]},`
+    : "Bonjour,";
+  const expiresAtLabel = new Intl.DateTimeFormat("fr-FR", {
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  }).format(options.expiresAt);
+
+  const payload = {
+    to: [
+      options.recipient.name
+        ? `${options.recipient.name} <${options.recipient.email}>`
+        : options.recipient.email,
+    ],
+    subject: "[Colombus Learning] Réinitialisation de votre mot de passe",
+    text: [
+      greeting,
+      "",
+      "Une demande de réinitialisation de mot de passe a été effectuée pour votre compte Colombus Learning.",
+      `Pour choisir un nouveau mot de passe, ouvrez le lien suivant avant ${expiresAtLabel} :`,
+      options.resetUrl,
+      "",
+      "Ce lien ne peut être utilisé qu'une seule fois. Si vous n'êtes pas à l'origine de cette demande, ignorez simplement cet email.",
+      "",
+      "À très vite sur Colombus Learning !",
+    ].join("\n"),
+    html: [
+      `<p>${greeting}</p>`,
+      "<p>Une demande de réinitialisation de mot de passe a été effectuée pour votre compte Colombus Learning.</p>",
+      `<p><a href="${options.resetUrl}">Choisir un nouveau mot de passe</a> (lien valable jusqu'à ${expiresAtLabel}).</p>`,
+      "<p>Ce lien ne peut être utilisé qu'une seule fois. Si vous n'êtes pas à l'origine de cette demande, ignorez simplement cet email.</p>",
+      "<p>À très vite sur Colombus Learning !</p>",
+    ].join(""),
+  };
+
+  try {
+    await getEmailTransport().send(payload);
+
+    console.info("[password-reset] Email sent successfully to:", payload.to);
+  } catch (error) {
+    console.error("[password-reset] Failed to send email:", error);
+  }
+};
@@ -0,0 +1,73 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+
+const HASH_PREFIX = "scrypt";
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 } as const;
+
+export interface PasswordVerification {
+  valid: boolean;
+  needsRehash: boolean;
+}
+
+const deriveKey = (password: string, salt: Buffer, options: ScryptOptions) =>
+  new Promise<Buffer>((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(derivedKey);
+      }
+    });
+  });
+
+export const isPasswordHashed = (stored: string) => stored.startsWith(`${HASH_PREFIX}$`);
+
+// Stored format: scrypt$N$r$p$salt$hash (salt and hash base64 encoded)
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const derivedKey = await deriveKey(password, salt, SCRYPT_PARAMS);
+  return [
+    HASH_PREFIX,
+    SCRYPT_PARAMS.N,
+    SCRYPT_PARAMS.r,
+    SCRYPT_PARAMS.p,
+    salt.toString("base64"),
+    derivedKey.toString("base64"),
+  ].join("$");
+}
+
+const safeEqual = (a: Buffer, b: Buffer) => a.length === b.length && timingSafeEqual(a, b);
+
+/**
+ * Checks a candidate password against the stored value. Rows created before
+ * hashing was introduced still hold the plain text password: they are accepted
+ * once and flagged with `needsRehash` so the caller can upgrade them.
+ */
+export async function verifyPassword(
+  stored: string,
+  candidate: string
+): Promise<PasswordVerification> {
+  if (!isPasswordHashed(stored)) {
+    const valid = safeEqual(Buffer.from(stored), Buffer.from(candidate));
+    return { valid, needsRehash: valid };
+  }
+
+  const [, rawN, rawR, rawP, rawSalt, rawHash] = stored.split("$");
+  const options = { N: Number(rawN), r: Number(rawR), p: Number(rawP) };
+  if (!rawSalt || !rawHash || Object.values(options).some((value) => !Number.isFinite(value))) {
+    return { valid: false, needsRehash: false };
+  }
+
+  const expected = Buffer.from(rawHash, "base64");
+  const derivedKey = await deriveKey(candidate, Buffer.from(rawSalt, "base64"), options);
+  const valid = safeEqual(derivedKey, expected);
+
+  const needsRehash =
+    valid &&
+    (options.N !== SCRYPT_PARAMS.N ||
+      options.r !== SCRYPT_PARAMS.r ||
+      options.p !== SCRYPT_PARAMS.p);
+
+  return { valid, needsRehash };
+}
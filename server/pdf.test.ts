@@ -0,0 +1,81 @@
+/**
+ * Parses what the PDF writer emits as bytes: the cross-reference table must point at each object
+ * so viewers open the file without repairing it, and strings must be escaped and WinAnsi-encoded.
+ */
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createPdfDocument } from "./pdf";
+
+const buildDocument = (texts: string[][]) => {
+  const document = createPdfDocument();
+  texts.forEach((pageTexts) => {
+    const page = document.addPage();
+    pageTexts.forEach((value, index) => page.text(40, 60 + index * 20, value));
+    page.line(40, 40, 555, 40);
+    page.rect(40, 700, 200, 50, { fill: 0.9 });
+  });
+  // latin1 maps each byte to one character, so string offsets are byte offsets
+  return document.toBuffer().toString("latin1");
+};
+
+const readXref = (pdf: string) => {
+  const startxref = pdf.match(/startxref\n(\d+)\n%%EOF\n$/);
+  assert.ok(startxref, "the file ends with startxref and %%EOF");
+  const xrefOffset = Number(startxref[1]);
+  const [header, ...rest] = pdf.slice(xrefOffset).split("\n");
+  const [firstId, count] = rest[0].split(" ").map(Number);
+  return { xrefOffset, header, firstId, count, entries: rest.slice(1, 1 + count) };
+};
+
+describe("PDF writer", () => {
+  test("the file starts with the PDF header", () => {
+    const pdf = buildDocument([["Bonjour"]]);
+
+    assert.ok(pdf.startsWith("%PDF-1.4\n"));
+  });
+
+  test("startxref points at the cross-reference table and each entry at its object", () => {
+    const pdf = buildDocument([["Première page"], ["Deuxième page", "Encore une ligne"]]);
+    const { header, firstId, count, entries } = readXref(pdf);
+
+    assert.equal(header, "xref");
+    assert.equal(firstId, 0);
+    // Catalog, page tree, two fonts, then a page and its content stream per page
+    assert.equal(count, 1 + 4 + 2 * 2);
+    assert.equal(entries[0], "0000000000 65535 f ");
+    entries.slice(1).forEach((entry, index) => {
+      assert.match(entry, /^\d{10} 00000 n $/);
+      const offset = Number(entry.slice(0, 10));
+      assert.ok(pdf.startsWith(`${index + 1} 0 obj\n`, offset), `object ${index + 1} is at offset ${offset}`);
+    });
+    assert.match(pdf, new RegExp(`trailer\\n<< /Size ${count} /Root 1 0 R >>`));
+    assert.match(pdf, /\/Count 2 >>/);
+  });
+
+  test("stream lengths match the bytes between stream and endstream", () => {
+    const pdf = buildDocument([["Élodie Lefèvre — 3,5 jours"]]);
+    const streams = Array.from(pdf.matchAll(/<< \/Length (\d+) >>\nstream\n/g));
+
+    assert.equal(streams.length, 1);
+    streams.forEach((match) => {
+      const start = (match.index ?? 0) + match[0].length;
+      assert.equal(pdf.slice(start + Number(match[1]), start + Number(match[1]) + 11), "\nendstream\n");
+    });
+  });
+
+  test("string delimiters and backslashes are escaped", () => {
+    const pdf = buildDocument([["Atelier (niveau 2) C:\\formations"]]);
+
+    assert.ok(pdf.includes("(Atelier \\(niveau 2\\) C:\\\\formations) Tj"));
+  });
+
+  test("accented and typographic characters are written in WinAnsi, others as ?", () => {
+    const pdf = buildDocument([["Café à Noël", "Cœur – 15 € …", "Étape → 漢"]]);
+
+    assert.ok(pdf.includes("(Caf\xe9 \xe0 No\xebl) Tj"));
+    assert.ok(pdf.includes("(C\x9cur \x96 15 \x80 \x85) Tj"));
+    assert.ok(pdf.includes("(\xc9tape ? ?) Tj"));
+    // Decomposed accents are composed before encoding
+    assert.ok(buildDocument([["Cafe\u0301"]]).includes("(Caf\xe9) Tj"));
+  });
+});
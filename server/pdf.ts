@@ -0,0 +1,176 @@
+// Minimal PDF writer for the printable exports: A4 pages, the standard Helvetica
+// fonts, text, lines and rectangles. Coordinates are in points from the top-left corner.
+
+export const A4_WIDTH = 595;
+export const A4_HEIGHT = 842;
+
+export type PdfFont = "regular" | "bold";
+
+interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: "left" | "center" | "right";
+}
+
+const FONT_RESOURCES: Record<PdfFont, string> = {
+  regular: "F1",
+  bold: "F2",
+};
+
+// Characters outside Latin-1 that WinAnsiEncoding still provides
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "Œ": 0x8c,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "œ": 0x9c,
+};
+
+const encodeText = (value: string) =>
+  Array.from(value.normalize("NFC"))
+    .map((char) => {
+      const code = WIN_ANSI_EXTRAS[char] ?? char.charCodeAt(0);
+      if (code > 0xff || (code < 0x20 && char !== "\t")) {
+        return "?";
+      }
+      const encoded = String.fromCharCode(code);
+      return encoded === "(" || encoded === ")" || encoded === "\\" ? `\\${encoded}` : encoded;
+    })
+    .join("");
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+// Helvetica averages about half an em per character, close enough for layout and truncation
+export const estimateTextWidth = (value: string, size: number) => value.length * size * 0.52;
+
+export const truncateText = (value: string, maxWidth: number, size: number) => {
+  if (estimateTextWidth(value, size) <= maxWidth) {
+    return value;
+  }
+  const maxLength = Math.max(1, Math.floor(maxWidth / (size * 0.52)) - 1);
+  return `${value.slice(0, maxLength).trimEnd()}…`;
+};
+
+// Greedy word wrap; the last kept line is truncated when `maxLines` is reached
+export const wrapText = (value: string, maxWidth: number, size: number, maxLines = Infinity) => {
+  const lines: string[] = [];
+  for (const paragraph of value.split(/\r?\n/)) {
+    let current = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (current && estimateTextWidth(candidate, size) > maxWidth) {
+        lines.push(current);
+        current = word;
+      } else {
+        current = candidate;
+      }
+    }
+    if (current) {
+      lines.push(current);
+    }
+  }
+
+  if (lines.length <= maxLines) {
+    return lines.map((line) => truncateText(line, maxWidth, size));
+  }
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = truncateText(`${kept[maxLines - 1]} …`, maxWidth, size);
+  return kept;
+};
+
+export interface PdfPage {
+  text(x: number, y: number, value: string, options?: PdfTextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, width?: number): void;
+  rect(x: number, y: number, width: number, height: number, options?: { fill?: number; stroke?: boolean }): void;
+}
+
+export const createPdfDocument = () => {
+  const pageContents: string[][] = [];
+
+  const addPage = (): PdfPage => {
+    const operations: string[] = [];
+    pageContents.push(operations);
+    const toPdfY = (y: number) => A4_HEIGHT - y;
+
+    return {
+      text(x, y, value, options = {}) {
+        const size = options.size ?? 10;
+        const width = estimateTextWidth(value, size);
+        const left =
+          options.align === "center" ? x - width / 2 : options.align === "right" ? x - width : x;
+        operations.push(
+          `BT /${FONT_RESOURCES[options.font ?? "regular"]} ${size} Tf ${formatNumber(left)} ${formatNumber(
+            toPdfY(y)
+          )} Td (${encodeText(value)}) Tj ET`
+        );
+      },
+      line(x1, y1, x2, y2, width = 0.5) {
+        operations.push(
+          `${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(toPdfY(y1))} m ${formatNumber(
+            x2
+          )} ${formatNumber(toPdfY(y2))} l S`
+        );
+      },
+      rect(x, y, width, height, options = {}) {
+        const box = `${formatNumber(x)} ${formatNumber(toPdfY(y + height))} ${formatNumber(width)} ${formatNumber(
+          height
+        )} re`;
+        if (options.fill !== undefined) {
+          operations.push(`${formatNumber(options.fill)} g ${box} f 0 g`);
+        }
+        if (options.stroke ?? options.fill === undefined) {
+          operations.push(`0.5 w ${box} S`);
+        }
+      },
+    };
+  };
+
+  const toBuffer = () => {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // 1: catalog, 2: page tree, 3-4: fonts, then one page and one content stream per page
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+    pageContents.forEach((operations, index) => {
+      const pageId = 5 + index * 2;
+      const contentId = pageId + 1;
+      const stream = operations.join("\n");
+      pageIds.push(pageId);
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+    });
+
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id += 1) {
+      offsets[id] = Buffer.byteLength(output, "latin1");
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, "latin1");
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id += 1) {
+      output += `${offsets[id].toString().padStart(10, "0")} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, "latin1");
+  };
+
+  return { addPage, toBuffer };
+};
@@ -0,0 +1,85 @@
+import type { Formation, PrerequisiteOverride } from "@shared/schema";
+import {
+  describePrerequisiteGroup,
+  evaluatePrerequisites,
+  findPrerequisiteDependents,
+  prerequisiteGroupsSchema,
+  type PrerequisiteGroup,
+  type PrerequisiteGroupStatus,
+} from "@shared/formation-prerequisites";
+import { storage } from "./storage";
+
+export interface PrerequisiteStatus {
+  groups: PrerequisiteGroupStatus[];
+  override: PrerequisiteOverride | null;
+  // Groups still blocking registration: empty once they are all met or RH granted an override
+  missing: PrerequisiteGroupStatus[];
+}
+
+export const getPrerequisiteStatus = async (
+  userId: string,
+  formation: Formation,
+  now: Date = new Date()
+): Promise<PrerequisiteStatus> => {
+  const prerequisiteGroups = formation.prerequisiteGroups ?? [];
+  if (prerequisiteGroups.length === 0) {
+    return { groups: [], override: null, missing: [] };
+  }
+
+  const [completions, override, catalog] = await Promise.all([
+    storage.listFormationCompletions(userId),
+    storage.getPrerequisiteOverrideForUser(userId, formation.id),
+    storage.listFormations(false),
+  ]);
+  const titles = new Map(catalog.map((item) => [item.id, item.title]));
+  const groups = evaluatePrerequisites(prerequisiteGroups, completions, titles, now);
+
+  return {
+    groups,
+    override: override ?? null,
+    missing: override ? [] : groups.filter((group) => !group.met),
+  };
+};
+
+export const formatMissingPrerequisites = (missing: PrerequisiteGroupStatus[]) =>
+  `Prérequis non remplis : ${missing.map(describePrerequisiteGroup).join(" ; ")}`;
+
+/**
+ * Validates the prerequisite groups submitted for a formation. Every formation must exist,
+ * and none may already depend on `formationId`, which would make both impossible to follow.
+ */
+export const resolvePrerequisiteGroups = async (
+  formationId: string | null,
+  input: unknown
+): Promise<{ prerequisiteGroups: PrerequisiteGroup[] | null; error?: string }> => {
+  const groups = prerequisiteGroupsSchema.parse(input ?? []);
+  if (groups.length === 0) {
+    return { prerequisiteGroups: null };
+  }
+
+  const catalog = await storage.listFormations(false);
+  const catalogIds = new Set(catalog.map((formation) => formation.id));
+  const requiredIds = groups.reduce<string[]>((ids, group) => ids.concat(group.formationIds), []);
+
+  if (requiredIds.some((id) => !catalogIds.has(id))) {
+    return { prerequisiteGroups: null, error: "Une formation prérequise n'existe pas" };
+  }
+
+  if (formationId) {
+    if (requiredIds.indexOf(formationId) !== -1) {
+      return { prerequisiteGroups: null, error: "Une formation ne peut pas être son propre prérequis" };
+    }
+    const dependents = findPrerequisiteDependents(formationId, catalog);
+    const conflicting = catalog.filter(
+      (formation) => requiredIds.indexOf(formation.id) !== -1 && dependents.has(formation.id)
+    );
+    if (conflicting.length > 0) {
+      return {
+        prerequisiteGroups: null,
+        error: `${conflicting.map((formation) => formation.title).join(", ")} requiert déjà cette formation`,
+      };
+    }
+  }
+
+  return { prerequisiteGroups: groups };
+};
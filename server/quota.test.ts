@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import assert from "node:assert/strict";
+import type { FormationInterest, InsertQuotaCycleUsage, Registration, User } from "@shared/schema";
+import { QUOTA_CYCLE_SETTING_KEY, rolloverQuotaCycles } from "./quota";
+import { storage } from "./storage";
+
+const alice = { id: "alice", roles: ["consultant"], seniority: null, businessUnit: null } as User;
+
+describe("quota rollover", () => {
+  const settings = new Map<string, unknown>();
+  let saved: InsertQuotaCycleUsage[] = [];
+
+  beforeEach(() => {
+    settings.clear();
+    settings.set(QUOTA_CYCLE_SETTING_KEY, { startMonth: 9, startDay: 1 });
+    saved = [];
+    mock.method(storage, "getSetting", async (key: string) => settings.get(key));
+    mock.method(storage, "setSetting", async (key: string, value: unknown) => {
+      settings.set(key, value);
+    });
+    mock.method(storage, "listUsers", async (archived: boolean) => (archived ? [] : [alice]));
+    mock.method(storage, "listFormationInterests", async () => [
+      {
+        id: "i1",
+        userId: "alice",
+        formationId: "docker",
+        priority: "P1",
+        status: "approved",
+        expressedAt: new Date("2026-03-10T09:00:00Z"),
+      } as FormationInterest,
+      {
+        id: "i2",
+        userId: "alice",
+        formationId: "k8s",
+        priority: "P1",
+        status: "pending",
+        expressedAt: new Date("2026-09-02T09:00:00Z"),
+      } as FormationInterest,
+    ]);
+    mock.method(storage, "listAllRegistrations", async () => [] as Registration[]);
+    mock.method(storage, "saveQuotaCycleUsages", async (usages: InsertQuotaCycleUsage[]) => {
+      saved.push(...usages);
+      return usages.length;
+    });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  test("archives the cycle that just ended with its own usage", async () => {
+    assert.equal(await rolloverQuotaCycles(new Date("2026-09-01T00:00:00Z")), 1);
+
+    assert.equal(saved.length, 1);
+    assert.equal(saved[0].cycleLabel, "2025-2026");
+    assert.deepEqual(saved[0].cycleStart, new Date("2025-09-01T00:00:00Z"));
+    assert.deepEqual(saved[0].cycleEnd, new Date("2026-09-01T00:00:00Z"));
+    assert.equal(saved[0].p1Used, 1);
+  });
+
+  test("runs once per cycle", async () => {
+    await rolloverQuotaCycles(new Date("2026-09-01T00:00:00Z"));
+    assert.equal(await rolloverQuotaCycles(new Date("2026-12-01T00:00:00Z")), 0);
+    assert.equal(saved.length, 1);
+
+    assert.equal(await rolloverQuotaCycles(new Date("2027-09-01T06:00:00Z")), 1);
+    assert.equal(saved[1].cycleLabel, "2026-2027");
+  });
+});
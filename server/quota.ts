@@ -0,0 +1,133 @@
+import type { Registration, FormationInterest, User } from "@shared/schema";
+import {
+  DEFAULT_QUOTA_CYCLE_SETTINGS,
+  buildQuotaSummary,
+  getQuotaConsumptions,
+  getQuotaCycle,
+  quotaCycleSettingsSchema,
+  resolveQuotaAllowance,
+  type QuotaCycleSettings,
+  type QuotaPriority,
+  type QuotaSummary,
+} from "@shared/quota";
+import { storage, type QuotaCheck } from "./storage";
+
+export const QUOTA_CYCLE_SETTING_KEY = "quota_cycle";
+const QUOTA_ROLLOVER_SETTING_KEY = "quota_rollover_last_cycle";
+
+const ROLLOVER_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+export const getQuotaCycleSettings = async (): Promise<QuotaCycleSettings> => {
+  const stored = await storage.getSetting<QuotaCycleSettings>(QUOTA_CYCLE_SETTING_KEY);
+  const parsed = quotaCycleSettingsSchema.safeParse(stored ?? DEFAULT_QUOTA_CYCLE_SETTINGS);
+  return parsed.success ? parsed.data : DEFAULT_QUOTA_CYCLE_SETTINGS;
+};
+
+export interface UserQuota {
+  summary: QuotaSummary;
+  consumptions: Record<QuotaPriority, Set<string>>;
+}
+
+export const getUserQuota = async (
+  user: User,
+  options: {
+    at?: Date;
+    settings?: QuotaCycleSettings;
+    interests?: FormationInterest[];
+    registrations?: Registration[];
+  } = {}
+): Promise<UserQuota> => {
+  const settings = options.settings ?? (await getQuotaCycleSettings());
+  const cycle = getQuotaCycle(options.at ?? new Date(), settings);
+  const [interests, registrations] = await Promise.all([
+    options.interests ?? storage.listFormationInterests({ userId: user.id }),
+    options.registrations ?? storage.listRegistrations(user.id),
+  ]);
+
+  const consumptions = getQuotaConsumptions(interests, registrations, cycle);
+  return {
+    summary: buildQuotaSummary(cycle, resolveQuotaAllowance(user, settings), consumptions),
+    consumptions,
+  };
+};
+
+// Cycle and allowance against which storage re-checks consumption inside its transactions
+export const getQuotaCheck = async (
+  user: User,
+  settings?: QuotaCycleSettings
+): Promise<QuotaCheck> => {
+  const resolved = settings ?? (await getQuotaCycleSettings());
+  return {
+    cycle: getQuotaCycle(new Date(), resolved),
+    allowance: resolveQuotaAllowance(user, resolved),
+  };
+};
+
+// Freezes the usage of the cycle that precedes `now`, once per cycle
+export const rolloverQuotaCycles = async (now: Date = new Date()) => {
+  const settings = await getQuotaCycleSettings();
+  const currentCycle = getQuotaCycle(now, settings);
+  const previousCycle = getQuotaCycle(new Date(currentCycle.startsAt.getTime() - 1), settings);
+
+  const lastArchivedYear = await storage.getSetting<number>(QUOTA_ROLLOVER_SETTING_KEY);
+  if (typeof lastArchivedYear === "number" && lastArchivedYear >= previousCycle.year) {
+    return 0;
+  }
+
+  const [activeUsers, archivedUsers, interests, registrations] = await Promise.all([
+    storage.listUsers(false),
+    storage.listUsers(true),
+    storage.listFormationInterests(),
+    storage.listAllRegistrations(),
+  ]);
+
+  const interestsByUser = new Map<string, FormationInterest[]>();
+  for (const interest of interests) {
+    interestsByUser.set(interest.userId, [...(interestsByUser.get(interest.userId) ?? []), interest]);
+  }
+  const registrationsByUser = new Map<string, Registration[]>();
+  for (const registration of registrations) {
+    registrationsByUser.set(registration.userId, [
+      ...(registrationsByUser.get(registration.userId) ?? []),
+      registration,
+    ]);
+  }
+
+  const usages = [...activeUsers, ...archivedUsers].map((user) => {
+    const consumptions = getQuotaConsumptions(
+      interestsByUser.get(user.id) ?? [],
+      registrationsByUser.get(user.id) ?? [],
+      previousCycle
+    );
+    const allowance = resolveQuotaAllowance(user, settings);
+    return {
+      userId: user.id,
+      cycleYear: previousCycle.year,
+      cycleLabel: previousCycle.label,
+      cycleStart: previousCycle.startsAt,
+      cycleEnd: previousCycle.endsAt,
+      p1Allowance: allowance.P1,
+      p2Allowance: allowance.P2,
+      p1Used: consumptions.P1.size,
+      p2Used: consumptions.P2.size,
+    };
+  });
+
+  const archivedCount = await storage.saveQuotaCycleUsages(usages);
+  await storage.setSetting(QUOTA_ROLLOVER_SETTING_KEY, previousCycle.year);
+  console.info(`[quota] Archived quota cycle ${previousCycle.label} for ${archivedCount} users`);
+  return archivedCount;
+};
+
+export const startQuotaRolloverJob = () => {
+  const run = () => {
+    rolloverQuotaCycles().catch((error) => {
+      console.error("Failed to roll over quota cycle", error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, ROLLOVER_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
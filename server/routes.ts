@@ -1,20 +1,112 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import session from "express-session";
 import connectPgSimple from "connect-pg-simple";
 import { inflateRawSync } from "zlib";
 import { pool } from "./db";
-import { storage, ensureFormationContentInfrastructure } from "./storage";
-import { sendSessionInvitationEmail, sendRegistrationConfirmationEmail } from "./invitations";
-import { requireAuth, optionalAuth, type AuthRequest } from "./auth";
+import {
+  storage,
+  ensureFormationContentInfrastructure,
+  ensureFormationDurationInfrastructure,
+  ensureFormationPrerequisiteInfrastructure,
+  ensureAuthInfrastructure,
+} from "./storage";
+import {
+  buildRegistrationConfirmationEmail,
+  buildSessionInvitationEmail,
+  sendSessionInvitationEmail,
+  sendRegistrationConfirmationEmail,
+} from "./invitations";
+import {
+  buildLiveCode,
+  computePlannedTime,
+  computeTrainedTime,
+  findCurrentSegmentIndex,
+  getAttendanceSlot,
+  listAttendanceSegments,
+  parseLiveCode,
+  verifyLiveCode,
+} from "./attendance";
+import {
+  requireAuth,
+  optionalAuth,
+  enforcePasswordRotation,
+  requirePermission,
+  type AuthRequest,
+} from "./auth";
+import { hashPassword, isPasswordHashed, verifyPassword } from "./passwords";
+import {
+  PASSWORD_RESET_TOKEN_TTL_MINUTES,
+  buildPasswordResetUrl,
+  generatePasswordResetToken,
+  hashPasswordResetToken,
+  sendPasswordResetEmail,
+} from "./password-reset";
+import {
+  LOGIN_THROTTLE_POLICIES,
+  evaluateLoginAttempts,
+  getClientIp,
+  normalizeLoginEmail,
+} from "./login-throttle";
+import {
+  getSsoProvider,
+  isSsoJitProvisioningEnabled,
+  mapSsoGroupsToRoles,
+  type SsoIdentity,
+} from "./sso";
+import { buildAuditEventsCsv, toAuditSnapshot, type AuditEventInput } from "./audit";
+import { buildAttendanceSheetPdf } from "./attendance-sheet";
+import {
+  getUnreadNotificationsSummary,
+  openNotificationStream,
+  publishNotificationEvent,
+} from "./notification-stream";
+import {
+  getAppBaseUrl,
+  getAppUrl,
+  getNotificationPreferences,
+  notifyUser,
+  notifyUsers,
+  type NotificationInput,
+} from "./notifications";
+import {
+  OUTBOX_MAX_ATTEMPTS,
+  enqueueEmail,
+  requeueOutboxEmail,
+  type OutboxEmail,
+} from "./email-outbox";
+import { EMAIL_TEMPLATES_SETTING_KEY, getEmailTemplates } from "./email-templates";
+import {
+  SESSION_REMINDER_SETTING_KEY,
+  buildInstructorReminderEmail,
+  buildSessionReminderEmail,
+  getFormationUrl,
+  getSessionReminderSettings,
+} from "./session-reminders";
+import { getSessionUpdateError } from "./session-lifecycle";
+import {
+  buildCertificatesPdf,
+  generateCertificateCode,
+  isCertificateEligible,
+  normalizeCertificateCode,
+  type CertificateDocument,
+} from "./certificates";
+import {
+  QUOTA_CYCLE_SETTING_KEY,
+  getQuotaCheck,
+  getQuotaCycleSettings,
+  getUserQuota,
+} from "./quota";
+import { formatMissingPrerequisites, getPrerequisiteStatus, resolvePrerequisiteGroups } from "./prerequisites";
 import {
   insertUserSchema,
   insertFormationSchema,
   insertSessionSchema,
+  ATTENDANCE_PERIODS,
   insertFormationInterestSchema,
   insertRegistrationSchema,
   type InsertUser,
-  type InsertNotification,
+  type InsertFormationInterest,
   type FormationInterest,
   type User,
   type Formation,
@@ -27,8 +119,29 @@ import {
   SENIORITY_LEVELS,
   resolveSeniorityLevel,
   type SeniorityLevel,
+  AUDIT_ENTITY_TYPES,
+  EMAIL_OUTBOX_STATUSES,
 } from "@shared/schema";
-import { INSTRUCTOR_ROLES, InstructorRole, USER_ROLES, isInstructor } from "@shared/roles";
+import {
+  INSTRUCTOR_ROLES,
+  InstructorRole,
+  USER_ROLES,
+  getPermissionScope,
+  hasPermission,
+  isInstructor,
+} from "@shared/roles";
+import { quotaCycleSettingsSchema } from "@shared/quota";
+import { sessionReminderSettingsSchema } from "@shared/session-reminders";
+import { NOTIFICATION_CATEGORIES, notificationPreferencesSchema } from "@shared/notification-preferences";
+import { NOTIFICATION_KINDS, type NotificationKind } from "@shared/notifications";
+import { FORMATION_SEARCH_PARAMS, FORMATION_SORTS } from "@shared/catalog";
+import { formatFormationDuration, formationDurationSchema } from "@shared/formation-duration";
+import {
+  EMAIL_TEMPLATE_DEFINITIONS,
+  emailTemplatePreviewSchema,
+  emailTemplatesSettingsSchema,
+  listTemplateVariables,
+} from "@shared/email-templates";
 import { z } from "zod";
 import { randomBytes, randomUUID } from "crypto";
 
@@ -65,6 +178,25 @@ const formationMaterialUploadSchema = z.object({
 
 const attendanceTokenRequestSchema = z.object({
   expiresInMinutes: z.number().min(5).max(480).optional(),
+  segmentIndex: z.number().int().min(0).optional(),
+  period: z.enum(ATTENDANCE_PERIODS).optional(),
+  live: z.boolean().optional(),
+});
+
+// `?blank=1` exports the pre-filled sheet to be signed by hand
+const attendanceSheetQuerySchema = z.object({
+  blank: z
+    .enum(["0", "1", "true", "false"])
+    .optional()
+    .transform((value) => value === "1" || value === "true"),
+});
+
+const sessionCancellationSchema = z.object({
+  reason: z
+    .string()
+    .trim()
+    .min(3, "Le motif d'annulation est obligatoire")
+    .max(500, "Le motif d'annulation est trop long"),
 });
 
 const attendanceSignSchema = z.object({
@@ -122,10 +254,114 @@ const offCatalogInterestSchema = z
     customDescription: data.customDescription,
   }));
 
+const changePasswordSchema = z
+  .object({
+    currentPassword: z.string().min(1, "Le mot de passe actuel est requis"),
+    newPassword: z.string().min(6, "Le mot de passe doit contenir au moins 6 caractères"),
+  })
+  .refine((data) => data.currentPassword !== data.newPassword, {
+    message: "Le nouveau mot de passe doit être différent de l'actuel",
+    path: ["newPassword"],
+  });
+
+const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email("Email invalide"),
+});
+
+const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, "Le lien de réinitialisation est invalide"),
+  newPassword: z.string().min(6, "Le mot de passe doit contenir au moins 6 caractères"),
+});
+
 const reviewVisibilitySchema = z.object({
   visible: z.boolean(),
 });
 
+const auditEventsQuerySchema = z.object({
+  actorId: z.string().trim().min(1).optional(),
+  action: z.string().trim().min(1).optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// Keeps a single export bounded; RH can narrow the filters for older history
+const AUDIT_EXPORT_MAX_ROWS = 10000;
+
+const emailOutboxQuerySchema = z.object({
+  status: z.enum(EMAIL_OUTBOX_STATUSES).optional(),
+});
+
+const notificationsQuerySchema = z.object({
+  status: z.enum(["all", "unread", "read", "archived"]).default("all"),
+  category: z.enum(NOTIFICATION_CATEGORIES).optional(),
+  kind: z.enum(NOTIFICATION_KINDS).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const prerequisiteOverridesQuerySchema = z.object({
+  userId: z.string().trim().min(1).optional(),
+  formationId: z.string().trim().min(1).optional(),
+});
+
+const prerequisiteOverrideSchema = z.object({
+  userId: z.string().min(1),
+  formationId: z.string().min(1),
+  reason: z.string().trim().min(1, "Indiquez le motif de la dérogation").max(500),
+});
+
+// `duration` is only the displayed label, always rebuilt from the structured duration
+const resolveFormationDuration = (input: { unit: unknown; value: unknown; schedule: unknown }) => {
+  const duration = formationDurationSchema.parse(input);
+  return {
+    durationUnit: duration.unit,
+    durationValue: duration.value,
+    dailySchedule: duration.schedule ?? null,
+    duration: formatFormationDuration(duration),
+  };
+};
+
+// Repeated parameters (?theme=A&theme=B) arrive as an array, a single one as a string
+const queryList = z.preprocess(
+  (value) => (value === undefined || Array.isArray(value) ? value : [value]),
+  z.array(z.string().trim().min(1)).optional()
+);
+
+const formationSearchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  theme: queryList,
+  modality: queryList,
+  seniority: queryList,
+  sort: z.enum(FORMATION_SORTS).default("relevance"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+const notificationIdsSchema = z.object({
+  notificationIds: z.array(z.string()).min(1),
+});
+
+// Entities behind a notification, from which the client builds its deep link
+const interestMetadata = (interest: FormationInterest) => ({
+  interestId: interest.id,
+  formationId: interest.formationId ?? undefined,
+});
+
+const sessionMetadata = (session: Session) => ({
+  sessionId: session.id,
+  formationId: session.formationId,
+});
+
+const registrationMetadata = (registration: Registration) => ({
+  registrationId: registration.id,
+  sessionId: registration.sessionId,
+  formationId: registration.formationId,
+});
+
 const sanitizeMaterial = (material: FormationMaterial) => ({
   id: material.id,
   formationId: material.formationId,
@@ -141,32 +377,149 @@ const sanitizeMaterial = (material: FormationMaterial) => ({
 
 const canManageFormation = async (user: User | undefined, formationId: string) => {
   if (!user) return false;
-  if (user.roles.includes("rh")) return true;
-  if (!isInstructor(user.roles)) return false;
+  const scope = getPermissionScope(user.roles, "formations.manage");
+  if (scope === "all") return true;
+  if (!scope) return false;
 
   const instructorFormations = await storage.getInstructorFormations(user.id);
-  if (instructorFormations.includes(formationId)) {
-    return true;
+  let isAssigned = instructorFormations.includes(formationId);
+  if (!isAssigned) {
+    const instructorSessions = await storage.getSessionsByInstructor(user.id);
+    isAssigned = instructorSessions.some((session) => session.formationId === formationId);
   }
 
-  const instructorSessions = await storage.getSessionsByInstructor(user.id);
-  return instructorSessions.some((session) => session.formationId === formationId);
+  return hasPermission(user.roles, "formations.manage", { isAssigned });
 };
 
 const canManageSession = async (user: User | undefined, session: Session | undefined) => {
   if (!user || !session) return false;
-  if (user.roles.includes("rh")) return true;
-  if (!isInstructor(user.roles)) return false;
-  if (session.instructorId === user.id) return true;
+  const scope = getPermissionScope(user.roles, "sessions.manage");
+  if (scope === "all") return true;
+  if (!scope) return false;
+  if (hasPermission(user.roles, "sessions.manage", { isAssigned: session.instructorId === user.id })) {
+    return true;
+  }
   return canManageFormation(user, session.formationId);
 };
 
+// Issues the missing certificates of eligible registrations; returns how many were new and the total
+const issueCertificates = async (session: Session, registrations: Registration[]) => {
+  const eligible = registrations.filter(isCertificateEligible);
+  let issuedCount = 0;
+  for (const registration of eligible) {
+    const code = generateCertificateCode();
+    const certificate = await storage.issueCertificate({
+      registrationId: registration.id,
+      userId: registration.userId,
+      sessionId: session.id,
+      formationId: session.formationId,
+      code,
+    });
+    if (certificate.code === code) {
+      issuedCount += 1;
+    }
+  }
+  return { issuedCount, total: eligible.length };
+};
+
+// Gathers what the PDF of already issued certificates needs, without issuing any
+const loadCertificateDocuments = async (session: Session, registrations: Registration[]) => {
+  const eligible = registrations.filter(isCertificateEligible);
+  const certificatesByRegistration = new Map(
+    (await storage.listCertificatesForRegistrations(eligible.map((registration) => registration.id))).map(
+      (certificate) => [certificate.registrationId, certificate]
+    )
+  );
+  const issued = eligible.filter((registration) => certificatesByRegistration.has(registration.id));
+  const [formation, instructor, participants, attendances] = await Promise.all([
+    storage.getFormation(session.formationId),
+    session.instructorId ? storage.getUser(session.instructorId) : Promise.resolve(undefined),
+    storage.listUsersByIds(Array.from(new Set(issued.map((registration) => registration.userId)))),
+    storage.listRegistrationAttendances(issued.map((registration) => registration.id)),
+  ]);
+  const participantsById = new Map(participants.map((participant) => [participant.id, participant]));
+
+  const documents: CertificateDocument[] = [];
+  for (const registration of issued) {
+    const certificate = certificatesByRegistration.get(registration.id);
+    const participant = participantsById.get(registration.userId);
+    if (!formation || !participant || !certificate) {
+      continue;
+    }
+    documents.push({
+      certificate,
+      participant,
+      registration,
+      attendances: attendances.filter((attendance) => attendance.registrationId === registration.id),
+      session,
+      formation,
+      instructor,
+    });
+  }
+  return documents;
+};
+
+const TEMPLATE_PREVIEW_MESSAGE =
+  "La session a été mise à jour. Merci de vérifier les nouvelles informations.";
+
+// Renders a template, saved or not, against a real session as if it were sent to the given user
+const renderEmailTemplatePreview = async (user: User, data: z.infer<typeof emailTemplatePreviewSchema>) => {
+  const session = await storage.getSession(data.sessionId);
+  const formation = session ? await storage.getFormation(session.formationId) : undefined;
+  if (!session || !formation) {
+    return undefined;
+  }
+
+  const recipients = [{ email: user.email, name: user.name }];
+  let email: OutboxEmail;
+  if (data.key === "session_invitation") {
+    email = buildSessionInvitationEmail(
+      { recipients, session, formation, reason: TEMPLATE_PREVIEW_MESSAGE },
+      data.template
+    );
+  } else if (data.key === "registration_confirmation") {
+    email = buildRegistrationConfirmationEmail({ recipients, session, formation }, data.template);
+  } else {
+    const [settings, materials] = await Promise.all([
+      getSessionReminderSettings(),
+      storage.listFormationMaterials(formation.id),
+    ]);
+    const reminder = {
+      recipient: user,
+      session,
+      formation,
+      offsetDays: settings.offsetsInDays[0] ?? 7,
+      materials,
+      formationUrl: getFormationUrl(formation.id),
+    };
+    if (data.key === "session_reminder") {
+      email = buildSessionReminderEmail(reminder, data.template);
+    } else {
+      const registrations = await storage.listRegistrations(undefined, session.id);
+      const attendees = await storage.listUsersByIds(
+        registrations
+          .filter((registration) => registration.status === "validated")
+          .map((registration) => registration.userId)
+      );
+      email = buildInstructorReminderEmail({ ...reminder, attendees }, data.template);
+    }
+  }
+
+  const allowed = new Set<string>(EMAIL_TEMPLATE_DEFINITIONS[data.key].variables);
+  const unknownVariables = listTemplateVariables(
+    [data.template.subject, data.template.text, data.template.html].join("\n")
+  ).filter((name) => !allowed.has(name));
+
+  return { email, unknownVariables };
+};
+
 const userHasActiveRegistration = async (userId: string, formationId: string) => {
   const registrations = await storage.listRegistrations(userId);
   return registrations.some(
     (registration) =>
       registration.formationId === formationId &&
-      registration.status !== "cancelled"
+      registration.status !== "cancelled" &&
+      registration.status !== "waitlisted"
   );
 };
 
@@ -468,6 +821,9 @@ type BulkUploadSummary = {
 
 export async function registerRoutes(app: Express): Promise<Server> {
   await ensureFormationContentInfrastructure();
+  await ensureFormationDurationInfrastructure();
+  await ensureFormationPrerequisiteInfrastructure();
+  await ensureAuthInfrastructure();
 
   // Session configuration
   app.use(
@@ -488,17 +844,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     })
   );
 
-  const createNotification = async (notification: InsertNotification) => {
+  app.use(enforcePasswordRotation);
+
+  // Honours the recipient's preferences for the category: in-app only, email, digest or nothing
+  const createNotification = async (notification: NotificationInput) => {
     try {
-      await storage.createNotification(notification);
+      await notifyUser(notification);
     } catch (error) {
       console.error("Failed to create notification", error);
     }
   };
 
-  const enrichFormationsWithRatings = async (
-    formationsList: Formation[]
-  ): Promise<Array<Formation & { averageRating: number | null; reviewCount: number }>> => {
+  // Same for a fan-out, with a fixed number of queries whatever the number of recipients
+  const createNotifications = async (notifications: NotificationInput[]) => {
+    try {
+      await notifyUsers(notifications);
+    } catch (error) {
+      console.error("Failed to create notifications", error);
+    }
+  };
+
+  // Audit failures are logged but never block the mutation they describe
+  const recordAuditEvent = async (req: Request, event: AuditEventInput) => {
+    try {
+      const actorId = (req as AuthRequest).userId ?? req.session.userId ?? null;
+      const actor =
+        (req as AuthRequest).user ?? (actorId ? await storage.getUser(actorId) : undefined);
+
+      await storage.createAuditEvent({
+        actorId,
+        actorName: actor?.name ?? null,
+        action: event.action,
+        entityType: event.entityType,
+        entityId: event.entityId ?? null,
+        before: toAuditSnapshot(event.before),
+        after: toAuditSnapshot(event.after),
+      });
+    } catch (error) {
+      console.error("Failed to record audit event", error);
+    }
+  };
+
+  const setSettingWithAudit = async <T>(req: Request, key: string, value: T) => {
+    const previous = await storage.getSetting<T>(key);
+    const setting = await storage.setSetting(key, value);
+    await recordAuditEvent(req, {
+      action: "app_setting.update",
+      entityType: "app_setting",
+      entityId: key,
+      before: previous,
+      after: value,
+    });
+    return setting;
+  };
+
+  // Fills seats freed on a session with the head of its waitlist
+  const promoteWaitlist = async (req: Request, sessionId: string) => {
+    try {
+      const promoted = await storage.promoteFromWaitlist(sessionId);
+      if (promoted.length === 0) {
+        return;
+      }
+
+      const session = await storage.getSession(sessionId);
+      const formation = session ? await storage.getFormation(session.formationId) : undefined;
+      if (!session || !formation) {
+        return;
+      }
+
+      const attendees = await storage.listUsersByIds(promoted.map((registration) => registration.userId));
+      const attendeeMap = new Map(attendees.map((attendee) => [attendee.id, attendee]));
+      const sequence = Math.floor(Date.now() / 1000);
+
+      for (const registration of promoted) {
+        await recordAuditEvent(req, {
+          action: "registration.promote",
+          entityType: "registration",
+          entityId: registration.id,
+          after: registration,
+        });
+
+        const sessionLabel = `la session du ${session.startDate.toLocaleDateString("fr-FR")} pour ${formation.title}`;
+        const attendee = attendeeMap.get(registration.userId);
+
+        // Without an approved intention the seat still awaits RH: the invite follows the validation
+        if (registration.status === "pending") {
+          await createNotification({
+            userId: registration.userId,
+            route: "/",
+            kind: "registration_promoted",
+            metadata: registrationMetadata(registration),
+            title: "Place disponible",
+            message: `Une place s'est libérée à ${sessionLabel} : votre inscription est en attente de validation.`,
+          });
+
+          if (attendee?.email) {
+            void sendRegistrationConfirmationEmail({
+              recipients: [{ email: attendee.email, name: attendee.name }],
+              session,
+              formation,
+            }).catch((confirmError) => {
+              console.error("Failed to send waitlist promotion confirmation", confirmError);
+            });
+          }
+          continue;
+        }
+
+        await createNotification({
+          userId: registration.userId,
+          route: "/",
+          kind: "registration_promoted",
+          metadata: registrationMetadata(registration),
+          title: "Place disponible",
+          message: `Une place s'est libérée : vous êtes inscrit à ${sessionLabel}.`,
+        });
+
+        if (attendee?.email) {
+          void sendSessionInvitationEmail({
+            recipients: [{ email: attendee.email, name: attendee.name }],
+            session,
+            formation,
+            sequence,
+            reason: "Une place s'est libérée dans cette session. L'invitation ci-jointe vous permet de la bloquer dans votre agenda.",
+          }).catch((inviteError) => {
+            console.error("Failed to send waitlist promotion invitation", inviteError);
+          });
+        }
+      }
+    } catch (error) {
+      console.error("Failed to promote waitlisted registrations", error);
+    }
+  };
+
+  const enrichFormationsWithRatings = async <T extends Formation>(
+    formationsList: T[]
+  ): Promise<Array<T & { averageRating: number | null; reviewCount: number }>> => {
     if (formationsList.length === 0) {
       return formationsList.map((formation) => ({
         ...formation,
@@ -595,11 +1075,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Un compte existe déjà avec cet email" });
       }
 
-      // Create user (in production, password would be hashed with bcrypt)
       const user = await storage.createUser({
         ...data,
-        p1Used: 0,
-        p2Used: 0,
+        password: await hashPassword(data.password),
+        mustChangePassword: false,
+        ssoRoles: [],
       });
 
       // Set session
@@ -624,37 +1104,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Email et mot de passe requis" });
       }
 
+      const throttleKeys = [
+        { scope: "email" as const, identifier: normalizeLoginEmail(String(email)) },
+        { scope: "ip" as const, identifier: getClientIp(req) },
+      ];
+
+      const throttle = evaluateLoginAttempts(await storage.getLoginAttempts(throttleKeys));
+      if (!throttle.allowed) {
+        res.set("Retry-After", String(throttle.retryAfterSeconds));
+        return res.status(throttle.status).json({ message: throttle.message });
+      }
+
+      // Unknown emails are counted too so that responses do not reveal which accounts exist
+      const rejectLogin = async () => {
+        const results = await Promise.all(
+          throttleKeys.map((key) =>
+            storage.recordLoginFailure(key, LOGIN_THROTTLE_POLICIES[key.scope])
+          )
+        );
+        const lockout = evaluateLoginAttempts(
+          results.filter((attempt) => attempt.lockedUntil !== null)
+        );
+        if (!lockout.allowed) {
+          res.set("Retry-After", String(lockout.retryAfterSeconds));
+          return res.status(lockout.status).json({ message: lockout.message });
+        }
+        return res.status(401).json({ message: "Email ou mot de passe incorrect" });
+      };
+
       const user = await storage.getUserByEmail(email);
       if (!user) {
-        return res.status(401).json({ message: "Email ou mot de passe incorrect" });
+        return rejectLogin();
       }
 
-      // In production, this would use proper password hashing (bcrypt)
-      if (user.password !== password) {
-        return res.status(401).json({ message: "Email ou mot de passe incorrect" });
+      const verification = await verifyPassword(user.password, String(password));
+      if (!verification.valid) {
+        return rejectLogin();
+      }
+
+      await storage.clearLoginAttempts("email", throttleKeys[0].identifier);
+
+      let loggedInUser = user;
+      if (verification.needsRehash) {
+        // Legacy plain text passwords were shared defaults ("Colombus 138"): once hashed, they
+        // must still be replaced. Outdated scrypt parameters are upgraded transparently
+        const wasPlainText = !isPasswordHashed(user.password);
+        const updatedUser = await storage.updateUser(user.id, {
+          password: await hashPassword(String(password)),
+          ...(wasPlainText ? { mustChangePassword: true } : {}),
+        });
+        loggedInUser = updatedUser ?? user;
       }
 
       // Set session
-      req.session.userId = user.id;
+      req.session.userId = loggedInUser.id;
+      req.session.mustChangePassword = Boolean(loggedInUser.mustChangePassword);
       
       // Don't send password to client
-      const { password: _, ...userWithoutPassword } = user;
+      const { password: _, ...userWithoutPassword } = loggedInUser;
       res.json({ user: userWithoutPassword });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/auth/logout", (req, res) => {
-    req.session.destroy((err) => {
-      if (err) {
-        return res.status(500).json({ message: "Failed to logout" });
-      }
-      res.json({ message: "Logged out successfully" });
-    });
-  });
-
-  app.get("/api/auth/me", requireAuth, async (req, res) => {
+  app.post("/api/auth/change-password", requireAuth, async (req, res) => {
     try {
       const userId = (req as AuthRequest).userId!;
       const user = await storage.getUser(userId);
@@ -663,114 +1177,503 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
-      const assignments = await storage.listCoachAssignmentsForCoachee(userId);
-      const coachIds = Array.from(new Set(assignments.map((assignment) => assignment.coachId)));
-      const coaches = coachIds.length ? await storage.listUsersByIds(coachIds) : [];
-      const sanitizedCoaches = coaches.map(({ password: _password, ...coach }) => coach);
-      const primaryCoach = sanitizedCoaches.length > 0 ? sanitizedCoaches[0] : null;
+      const data = changePasswordSchema.parse(req.body ?? {});
 
-      const { password: _, ...userWithoutPassword } = user;
-      res.json({ user: userWithoutPassword, coach: primaryCoach, coaches: sanitizedCoaches });
-    } catch (error: any) {
-      res.status(500).json({ message: error.message });
-    }
-  });
+      const verification = await verifyPassword(user.password, data.currentPassword);
+      if (!verification.valid) {
+        return res.status(400).json({ message: "Le mot de passe actuel est incorrect" });
+      }
 
-  app.get("/api/notifications", requireAuth, async (req, res) => {
-    try {
-      const userId = (req as AuthRequest).userId!;
-      const notifications = await storage.listNotifications(userId);
-      const counts = await storage.getUnreadNotificationCounts(userId);
-      const unreadCounts = counts.reduce<Record<string, number>>((acc, current) => {
-        const count = typeof current.count === "number" ? current.count : Number(current.count) || 0;
-        acc[current.route] = count;
-        return acc;
-      }, {});
-      const totalUnread = counts.reduce((sum, current) => {
-        const count = typeof current.count === "number" ? current.count : Number(current.count) || 0;
-        return sum + count;
-      }, 0);
+      const updatedUser = await storage.updateUser(userId, {
+        password: await hashPassword(data.newPassword),
+        mustChangePassword: false,
+      });
 
-      res.json({ notifications, unreadCounts, totalUnread });
+      if (!updatedUser) {
+        return res.status(500).json({ message: "Failed to update password" });
+      }
+
+      req.session.mustChangePassword = false;
+
+      const { password: _, ...userWithoutPassword } = updatedUser;
+      res.json({ user: userWithoutPassword });
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/notifications/read", requireAuth, async (req, res) => {
+  app.post("/api/auth/password-reset/request", async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const schema = z
-        .object({
-          notificationIds: z.array(z.string()).optional(),
-          route: z.string().optional(),
-        })
-        .refine(
-          (data) => (data.notificationIds && data.notificationIds.length > 0) || !!data.route,
-          "route or notificationIds must be provided"
-        );
+      const data = passwordResetRequestSchema.parse(req.body ?? {});
+
+      // Reset links are only ever built from the configured origin, never from the Host header
+      const baseUrl = getAppBaseUrl();
+      if (!baseUrl) {
+        console.error("[password-reset] APP_BASE_URL is not set, password reset links cannot be sent");
+        return res.status(503).json({
+          message: "La réinitialisation du mot de passe n'est pas disponible, contactez les RH",
+        });
+      }
 
-      const data = schema.parse(req.body);
+      // Same answer whether or not the account exists, to avoid email enumeration
+      const genericResponse = {
+        message:
+          "Si un compte correspond à cette adresse, un email de réinitialisation vient d'être envoyé.",
+      };
 
-      const updated = await storage.markNotificationsRead(userId, {
-        notificationIds: data.notificationIds,
-        route: data.route,
+      const user = await storage.getUserByEmail(data.email);
+      if (!user || user.archived) {
+        return res.status(202).json(genericResponse);
+      }
+
+      await storage.cleanupExpiredPasswordResetTokens(new Date());
+      await storage.invalidatePasswordResetTokensForUser(user.id);
+
+      const token = generatePasswordResetToken();
+      const expiresAt = new Date(Date.now() + PASSWORD_RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+      await storage.createPasswordResetToken({
+        userId: user.id,
+        tokenHash: hashPasswordResetToken(token),
+        expiresAt,
       });
 
-      res.json({ updated });
+      res.status(202).json(genericResponse);
+
+      void (async () => {
+        try {
+          await sendPasswordResetEmail({
+            recipient: { email: user.email, name: user.name },
+            resetUrl: buildPasswordResetUrl(baseUrl, token),
+            expiresAt,
+          });
+        } catch (emailError) {
+          console.error("Failed to send password reset email", emailError);
+        }
+      })();
     } catch (error: any) {
       if (error instanceof z.ZodError) {
-        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
       }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/users/become-instructor", requireAuth, async (req, res) => {
+  app.post("/api/auth/password-reset/confirm", async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const data = passwordResetConfirmSchema.parse(req.body ?? {});
+      const token = await storage.getPasswordResetTokenByHash(hashPasswordResetToken(data.token));
+
+      if (!token || token.usedAt) {
+        return res
+          .status(400)
+          .json({ message: "Ce lien de réinitialisation est invalide ou a déjà été utilisé" });
       }
 
-      // Check if user is already an instructor
-      if (isInstructor(user.roles)) {
-        return res.status(400).json({ message: "User is already an instructor" });
+      if (token.expiresAt.getTime() < Date.now()) {
+        return res.status(410).json({ message: "Ce lien de réinitialisation a expiré" });
       }
 
-      // Add formateur role
-      const updatedRoles = [...user.roles, "formateur"];
-      const updatedUser = await storage.updateUser(userId, { roles: updatedRoles });
+      const consumed = await storage.consumePasswordResetToken(token.id);
+      if (!consumed) {
+        return res
+          .status(400)
+          .json({ message: "Ce lien de réinitialisation est invalide ou a déjà été utilisé" });
+      }
+
+      const updatedUser = await storage.updateUser(token.userId, {
+        password: await hashPassword(data.newPassword),
+        mustChangePassword: false,
+      });
 
       if (!updatedUser) {
-        return res.status(500).json({ message: "Failed to update user" });
+        return res.status(404).json({ message: "User not found" });
       }
 
-      const { password: _, ...userWithoutPassword } = updatedUser;
-      res.json({ user: userWithoutPassword });
+      // Proving ownership of the mailbox is enough to lift a pending lockout
+      await storage.clearLoginAttempts("email", normalizeLoginEmail(updatedUser.email));
+
+      res.json({ message: "Votre mot de passe a été réinitialisé. Vous pouvez vous connecter." });
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/users/resign-instructor", requireAuth, async (req, res) => {
-    try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+  const resolveSsoUser = async (identity: SsoIdentity) => {
+    const existingUser =
+      (await storage.getUserByEmail(identity.email)) ??
+      (await storage.getUserByEmail(normalizeLoginEmail(identity.email)));
+    const mappedRoles = mapSsoGroupsToRoles(identity.groups);
+
+    if (existingUser) {
+      if (existingUser.archived) {
+        return { error: "Ce compte a été archivé. Contactez l'équipe RH." };
       }
 
-      // Check if user is an instructor
-      if (!isInstructor(user.roles)) {
-        return res.status(400).json({ message: "User is not an instructor" });
+      // Roles from group claims follow the IdP at each login; those granted in the app are kept
+      const localRoles = existingUser.roles.filter((role) => !existingUser.ssoRoles.includes(role));
+      const ssoRoles = mappedRoles.filter((role) => !localRoles.includes(role));
+      const roles = localRoles.length + ssoRoles.length > 0 ? [...localRoles, ...ssoRoles] : ["consultant"];
+      const unchanged =
+        roles.length === existingUser.roles.length &&
+        roles.every((role) => existingUser.roles.includes(role)) &&
+        ssoRoles.length === existingUser.ssoRoles.length &&
+        ssoRoles.every((role) => existingUser.ssoRoles.includes(role));
+      if (unchanged) {
+        return { user: existingUser };
       }
 
-      // Check if instructor has assigned sessions
-      const assignedSessions = await storage.getSessionsByInstructor(userId);
+      const updatedUser = await storage.updateUser(existingUser.id, { roles, ssoRoles });
+      return { user: updatedUser ?? existingUser };
+    }
+
+    if (!isSsoJitProvisioningEnabled()) {
+      return { error: "Aucun compte Colombus Learning n'est associé à cette identité." };
+    }
+
+    // The random password is never shared: the account can only sign in through SSO
+    // until a password reset is requested
+    const createdUser = await storage.createUser({
+      email: normalizeLoginEmail(identity.email),
+      name: identity.name || identity.email.split("@")[0],
+      password: await hashPassword(randomBytes(32).toString("base64url")),
+      roles: Array.from(new Set(["consultant", ...mappedRoles])),
+      ssoRoles: mappedRoles.filter((role) => role !== "consultant"),
+      archived: false,
+      mustChangePassword: false,
+    });
+    return { user: createdUser };
+  };
+
+  app.get("/api/auth/sso/config", (_req, res) => {
+    const provider = getSsoProvider();
+    res.json({ enabled: Boolean(provider), providerName: provider?.displayName ?? null });
+  });
+
+  app.get("/api/auth/sso/login", async (req, res) => {
+    const provider = getSsoProvider();
+    if (!provider) {
+      return res.status(404).json({ message: "SSO non configuré" });
+    }
+
+    try {
+      // The IdP sends the authorization code there, so it never comes from the Host header
+      const redirectUri = process.env.OIDC_REDIRECT_URI || getAppUrl("/api/auth/sso/callback");
+      if (!redirectUri) {
+        console.error("[sso] Neither OIDC_REDIRECT_URI nor APP_BASE_URL is set, SSO login is unavailable");
+        return res.redirect(`/?sso_error=${encodeURIComponent("Connexion SSO mal configurée")}`);
+      }
+      const { url, pending } = await provider.createAuthorizationRequest(redirectUri);
+
+      req.session.ssoPending = pending;
+      req.session.save((error) => {
+        if (error) {
+          console.error("[sso] Failed to persist SSO state", error);
+          return res.redirect(`/?sso_error=${encodeURIComponent("Connexion SSO impossible")}`);
+        }
+        res.redirect(url);
+      });
+    } catch (error) {
+      console.error("[sso] Failed to start SSO login", error);
+      res.redirect(`/?sso_error=${encodeURIComponent("Le fournisseur d'identité est injoignable")}`);
+    }
+  });
+
+  app.get("/api/auth/sso/callback", async (req, res) => {
+    const provider = getSsoProvider();
+    const pending = req.session.ssoPending;
+    delete req.session.ssoPending;
+
+    const fail = (message: string) =>
+      res.redirect(`/?sso_error=${encodeURIComponent(message)}`);
+
+    if (!provider) {
+      return res.status(404).json({ message: "SSO non configuré" });
+    }
+    if (!pending) {
+      return fail("La demande de connexion SSO a expiré, merci de réessayer.");
+    }
+
+    let identity: SsoIdentity;
+    try {
+      const params = Object.fromEntries(
+        Object.entries(req.query).map(([key, value]) => [
+          key,
+          typeof value === "string" ? value : undefined,
+        ])
+      );
+      identity = await provider.completeAuthorization(params, pending);
+    } catch (error) {
+      console.error("[sso] SSO callback rejected", error);
+      return fail("La connexion SSO a échoué, merci de réessayer.");
+    }
+
+    try {
+      const result = await resolveSsoUser(identity);
+      if (!result.user) {
+        return fail(result.error);
+      }
+
+      req.session.userId = result.user.id;
+      req.session.mustChangePassword = false;
+      req.session.save((error) => {
+        if (error) {
+          console.error("[sso] Failed to persist session", error);
+          return fail("Connexion SSO impossible");
+        }
+        res.redirect("/");
+      });
+    } catch (error) {
+      console.error("[sso] Failed to resolve SSO user", error);
+      fail("Connexion SSO impossible");
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res) => {
+    req.session.destroy((err) => {
+      if (err) {
+        return res.status(500).json({ message: "Failed to logout" });
+      }
+      res.json({ message: "Logged out successfully" });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, async (req, res) => {
+    try {
+      const userId = (req as AuthRequest).userId!;
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const assignments = await storage.listCoachAssignmentsForCoachee(userId);
+      const coachIds = Array.from(new Set(assignments.map((assignment) => assignment.coachId)));
+      const coaches = coachIds.length ? await storage.listUsersByIds(coachIds) : [];
+      const sanitizedCoaches = coaches.map(({ password: _password, ...coach }) => coach);
+      const primaryCoach = sanitizedCoaches.length > 0 ? sanitizedCoaches[0] : null;
+
+      const [quota, quotaHistory] = await Promise.all([
+        getUserQuota(user),
+        storage.listQuotaCycleUsages(user.id),
+      ]);
+
+      const { password: _, ...userWithoutPassword } = user;
+      res.json({
+        user: userWithoutPassword,
+        coach: primaryCoach,
+        coaches: sanitizedCoaches,
+        quota: quota.summary,
+        quotaHistory,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const userId = (req as AuthRequest).userId!;
+      const [notifications, summary] = await Promise.all([
+        storage.listNotifications(userId),
+        getUnreadNotificationsSummary(userId),
+      ]);
+
+      res.json({ notifications, ...summary });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Notification center: every notification, archived ones included, page by page
+  app.get("/api/notifications/history", requireAuth, async (req, res) => {
+    try {
+      const userId = (req as AuthRequest).userId!;
+      const { status, page, pageSize, ...filters } = notificationsQuerySchema.parse(req.query);
+      const { notifications, total } = await storage.listNotificationsPage(userId, {
+        ...filters,
+        read: status === "unread" ? false : status === "read" ? true : undefined,
+        archived: status === "archived",
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+
+      res.json({ notifications, total, page, pageSize });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Pushes new notifications and unread counts; clients fall back to polling when it drops
+  app.get("/api/notifications/stream", requireAuth, async (req, res) => {
+    try {
+      await openNotificationStream((req as AuthRequest).userId!, res);
+    } catch (error: any) {
+      if (!res.headersSent) {
+        return res.status(500).json({ message: error.message });
+      }
+      res.end();
+    }
+  });
+
+  app.post("/api/notifications/read", requireAuth, async (req, res) => {
+    try {
+      const userId = (req as AuthRequest).userId!;
+      const schema = z
+        .object({
+          notificationIds: z.array(z.string()).optional(),
+          route: z.string().optional(),
+          all: z.literal(true).optional(),
+        })
+        .refine(
+          (data) => (data.notificationIds && data.notificationIds.length > 0) || !!data.route || data.all,
+          "route, notificationIds or all must be provided"
+        );
+
+      const data = schema.parse(req.body);
+
+      // Without ids nor route, every unread notification is marked
+      const updated = await storage.markNotificationsRead(userId, {
+        notificationIds: data.notificationIds,
+        route: data.route,
+      });
+      if (updated > 0) {
+        await publishNotificationEvent({ userId, type: "read" });
+      }
+
+      res.json({ updated });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid request data", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/notifications/unread", requireAuth, async (req, res) => {
+    try {
+      const userId = (req as AuthRequest).userId!;
+      const { notificationIds } = notificationIdsSchema.parse(req.body);
+
+      const updated = await storage.markNotificationsUnread(userId, notificationIds);
+      if (updated > 0) {
+        await publishNotificationEvent({ userId, type: "read" });
+      }
+
+      res.json({ updated });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/notifications/archive", requireAuth, async (req, res) => {
+    try {
+      const userId = (req as AuthRequest).userId!;
+      const { notificationIds, archived } = notificationIdsSchema
+        .extend({ archived: z.boolean().default(true) })
+        .parse(req.body);
+
+      const updated = await storage.setNotificationsArchived(userId, notificationIds, archived);
+      if (updated > 0) {
+        await publishNotificationEvent({ userId, type: "read" });
+      }
+
+      res.json({ updated });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/notification-preferences", requireAuth, async (req, res) => {
+    try {
+      res.json(await getNotificationPreferences((req as AuthRequest).userId!));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.put("/api/notification-preferences", requireAuth, async (req, res) => {
+    try {
+      const userId = (req as AuthRequest).userId!;
+      const data = notificationPreferencesSchema.parse(req.body);
+      await storage.setNotificationPreferences(userId, data);
+
+      res.json(await getNotificationPreferences(userId));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/users/become-instructor", requireAuth, async (req, res) => {
+    try {
+      const userId = (req as AuthRequest).userId!;
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Check if user is already an instructor
+      if (isInstructor(user.roles)) {
+        return res.status(400).json({ message: "User is already an instructor" });
+      }
+
+      // Add formateur role
+      const updatedRoles = [...user.roles, "formateur"];
+      const updatedUser = await storage.updateUser(userId, { roles: updatedRoles });
+
+      if (!updatedUser) {
+        return res.status(500).json({ message: "Failed to update user" });
+      }
+
+      await recordAuditEvent(req, {
+        action: "user.become_instructor",
+        entityType: "user",
+        entityId: userId,
+        before: { roles: user.roles },
+        after: { roles: updatedUser.roles },
+      });
+
+      const { password: _, ...userWithoutPassword } = updatedUser;
+      res.json({ user: userWithoutPassword });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/users/resign-instructor", requireAuth, async (req, res) => {
+    try {
+      const userId = (req as AuthRequest).userId!;
+      const user = await storage.getUser(userId);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // Check if user is an instructor
+      if (!isInstructor(user.roles)) {
+        return res.status(400).json({ message: "User is not an instructor" });
+      }
+
+      // Check if instructor has assigned sessions
+      const assignedSessions = await storage.getSessionsByInstructor(userId);
       if (assignedSessions.length > 0) {
         return res.status(400).json({ 
           message: "Cannot remove instructor role while sessions are assigned",
@@ -788,6 +1691,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Failed to update user" });
       }
 
+      await recordAuditEvent(req, {
+        action: "user.resign_instructor",
+        entityType: "user",
+        entityId: userId,
+        before: { roles: user.roles },
+        after: { roles: updatedUser.roles },
+      });
+
       const { password: _, ...userWithoutPassword } = updatedUser;
       res.json({ user: userWithoutPassword });
     } catch (error: any) {
@@ -796,14 +1707,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get instructor's formations
-  app.get("/api/instructor/formations", requireAuth, async (req, res) => {
+  app.get("/api/instructor/formations", requirePermission("instructor.workspace"), async (req, res) => {
     try {
       const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !isInstructor(user.roles)) {
-        return res.status(403).json({ message: "Unauthorized - instructor role required" });
-      }
 
       const formationIds = await storage.getInstructorFormations(userId);
       res.json(formationIds);
@@ -813,16 +1719,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Add formation to instructor
-  app.post("/api/instructor/formations/:formationId", requireAuth, async (req, res) => {
+  app.post("/api/instructor/formations/:formationId", requirePermission("instructor.workspace"), async (req, res) => {
     try {
       const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !isInstructor(user.roles)) {
-        return res.status(403).json({ message: "Unauthorized - instructor role required" });
-      }
+      const user = (req as AuthRequest).user!;
 
-      if (user.roles.includes("formateur_externe")) {
+      if (!hasPermission(user.roles, "instructor.formations.selfAssign")) {
         return res.status(403).json({
           message: "Les formateurs externes ne peuvent pas modifier leurs formations assignées",
         });
@@ -848,16 +1750,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Remove formation from instructor
-  app.delete("/api/instructor/formations/:formationId", requireAuth, async (req, res) => {
+  app.delete("/api/instructor/formations/:formationId", requirePermission("instructor.workspace"), async (req, res) => {
     try {
       const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !isInstructor(user.roles)) {
-        return res.status(403).json({ message: "Unauthorized - instructor role required" });
-      }
+      const user = (req as AuthRequest).user!;
 
-      if (user.roles.includes("formateur_externe")) {
+      if (!hasPermission(user.roles, "instructor.formations.selfAssign")) {
         return res.status(403).json({
           message: "Les formateurs externes ne peuvent pas modifier leurs formations assignées",
         });
@@ -877,14 +1775,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get instructor's availabilities
-  app.get("/api/instructor/availabilities", requireAuth, async (req, res) => {
+  app.get("/api/instructor/availabilities", requirePermission("instructor.workspace"), async (req, res) => {
     try {
       const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !isInstructor(user.roles)) {
-        return res.status(403).json({ message: "Unauthorized - instructor role required" });
-      }
 
       const availabilities = await storage.listInstructorAvailabilities(userId);
       res.json(availabilities);
@@ -894,14 +1787,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get availability for specific formation
-  app.get("/api/instructor/availabilities/:formationId", requireAuth, async (req, res) => {
+  app.get("/api/instructor/availabilities/:formationId", requirePermission("instructor.workspace"), async (req, res) => {
     try {
       const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !isInstructor(user.roles)) {
-        return res.status(403).json({ message: "Unauthorized - instructor role required" });
-      }
 
       const { formationId } = req.params;
       const availability = await storage.getInstructorAvailability(userId, formationId);
@@ -917,14 +1805,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create or update availability
-  app.post("/api/instructor/availabilities", requireAuth, async (req, res) => {
+  app.post("/api/instructor/availabilities", requirePermission("instructor.workspace"), async (req, res) => {
     try {
       const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !isInstructor(user.roles)) {
-        return res.status(403).json({ message: "Unauthorized - instructor role required" });
-      }
 
       const { formationId, slots } = req.body;
 
@@ -997,14 +1880,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete availability
-  app.delete("/api/instructor/availabilities/:formationId", requireAuth, async (req, res) => {
+  app.delete("/api/instructor/availabilities/:formationId", requirePermission("instructor.workspace"), async (req, res) => {
     try {
       const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !isInstructor(user.roles)) {
-        return res.status(403).json({ message: "Unauthorized - instructor role required" });
-      }
 
       const { formationId } = req.params;
       const success = await storage.deleteInstructorAvailability(userId, formationId);
@@ -1020,15 +1898,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all instructor-formation assignments (RH only)
-  app.get("/api/admin/instructor-formations", requireAuth, async (req, res) => {
+  app.get("/api/admin/instructor-formations", requirePermission("users.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const assignments = await storage.getAllInstructorFormations();
       res.json(assignments);
     } catch (error: any) {
@@ -1037,15 +1908,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all instructor availabilities (RH only)
-  app.get("/api/admin/availabilities", requireAuth, async (req, res) => {
+  app.get("/api/admin/availabilities", requirePermission("sessions.plan"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const availabilities = await storage.getAllInstructorAvailabilities();
       res.json(availabilities);
     } catch (error: any) {
@@ -1135,15 +1999,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     );
 
   // Get all users (RH only)
-  app.get("/api/users", requireAuth, async (req, res) => {
+  app.get("/api/users", requirePermission("users.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const archived = req.query.archived === "true";
       const users = await storage.listUsers(archived);
       
@@ -1156,15 +2013,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create a managed user (RH only)
-  app.post("/api/admin/users", requireAuth, async (req, res) => {
+  app.post("/api/admin/users", requirePermission("users.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const parsed = createManagedUserSchema.parse(req.body);
 
       const existingUser = await storage.getUserByEmail(parsed.email);
@@ -1200,7 +2050,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const createdUser = await storage.createUser({
         name: parsed.name,
         email: parsed.email,
-        password: parsed.password,
+        password: await hashPassword(parsed.password),
+        mustChangePassword: true,
         roles: normalizedRoles,
         businessUnit,
         seniority,
@@ -1209,8 +2060,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         grade,
         jobRole,
         archived: false,
-        p1Used: 0,
-        p2Used: 0,
+      });
+
+      await recordAuditEvent(req, {
+        action: "user.create",
+        entityType: "user",
+        entityId: createdUser.id,
+        after: createdUser,
       });
 
       const { password: _, ...userWithoutPassword } = createdUser;
@@ -1266,10 +2122,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const newPassword = parsed.newPassword?.trim();
       if (newPassword) {
-        if (user.password !== parsed.currentPassword?.trim()) {
+        const verification = await verifyPassword(
+          user.password,
+          parsed.currentPassword?.trim() ?? ""
+        );
+        if (!verification.valid) {
           return res.status(400).json({ message: "Le mot de passe actuel est incorrect" });
         }
-        updates.password = newPassword;
+        updates.password = await hashPassword(newPassword);
+        updates.mustChangePassword = false;
       }
 
       const updatedUser = await storage.updateUser(userId, updates);
@@ -1288,15 +2149,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/users/bulk-upload", requireAuth, async (req, res) => {
+  app.post("/api/admin/users/bulk-upload", requirePermission("users.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const { fileContent } = req.body ?? {};
       if (!fileContent || typeof fileContent !== "string") {
         return res.status(400).json({ message: "Fichier manquant ou invalide" });
@@ -1398,7 +2252,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const createdUser = await storage.createUser({
             name: `${firstName} ${lastName}`.trim(),
             email: emailRaw,
-            password: temporaryPassword,
+            password: await hashPassword(temporaryPassword),
+            mustChangePassword: true,
             roles,
             employeeId: employeeId || undefined,
             hireDate,
@@ -1407,8 +2262,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
             businessUnit: businessUnit || undefined,
             seniority: grade || undefined,
             archived: false,
-            p1Used: 0,
-            p2Used: 0,
+          });
+
+          await recordAuditEvent(req, {
+            action: "user.create",
+            entityType: "user",
+            entityId: createdUser.id,
+            after: createdUser,
           });
 
           knownEmails.add(normalizedEmail);
@@ -1438,15 +2298,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Archive a consultant (RH only)
-  app.patch("/api/users/:id/archive", requireAuth, async (req, res) => {
+  app.patch("/api/users/:id/archive", requirePermission("users.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const targetUser = await storage.getUser(req.params.id);
       if (!targetUser) {
         return res.status(404).json({ message: "User not found" });
@@ -1458,12 +2311,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const registrations = await storage.listRegistrations(req.params.id);
       await Promise.all(registrations.map((registration) => storage.deleteRegistration(registration.id)));
 
-      await storage.updateUser(req.params.id, {
+      const archivedUser = await storage.updateUser(req.params.id, {
         archived: true,
-        p1Used: 0,
-        p2Used: 0,
       });
 
+      await recordAuditEvent(req, {
+        action: "user.archive",
+        entityType: "user",
+        entityId: targetUser.id,
+        before: { ...targetUser, interests, registrations },
+        after: archivedUser,
+      });
+
+      for (const sessionId of Array.from(new Set(registrations.map((registration) => registration.sessionId)))) {
+        await promoteWaitlist(req, sessionId);
+      }
+
       res.json({ message: "User archived successfully" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -1471,15 +2334,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete a consultant permanently (RH only)
-  app.delete("/api/users/:id", requireAuth, async (req, res) => {
+  app.delete("/api/users/:id", requirePermission("users.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const targetUser = await storage.getUser(req.params.id);
       if (!targetUser) {
         return res.status(404).json({ message: "User not found" });
@@ -1500,22 +2356,278 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Delete the user
       await storage.deleteUser(req.params.id);
 
+      await recordAuditEvent(req, {
+        action: "user.delete",
+        entityType: "user",
+        entityId: targetUser.id,
+        before: { ...targetUser, interests, registrations },
+      });
+
+      for (const sessionId of Array.from(new Set(registrations.map((registration) => registration.sessionId)))) {
+        await promoteWaitlist(req, sessionId);
+      }
+
       res.json({ message: "User deleted successfully" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  // Get a managed user details with assigned formations (RH only)
-  app.get("/api/admin/users/:id", requireAuth, async (req, res) => {
+  // List accounts temporarily locked after repeated failed logins (RH only)
+  app.get("/api/admin/locked-accounts", requirePermission("users.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
+      const lockedAttempts = await storage.listLockedLoginAttempts("email");
+      if (lockedAttempts.length === 0) {
+        return res.json([]);
+      }
 
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
+      const allUsers = [...(await storage.listUsers(false)), ...(await storage.listUsers(true))];
+      const usersByEmail = new Map(
+        allUsers.map((candidate) => [normalizeLoginEmail(candidate.email), candidate] as const)
+      );
+
+      // Locks on addresses without an account only matter for the throttle itself
+      const lockedAccounts = lockedAttempts.flatMap((attempt) => {
+        const lockedUser = usersByEmail.get(attempt.identifier);
+        if (!lockedUser) {
+          return [];
+        }
+        return [
+          {
+            userId: lockedUser.id,
+            name: lockedUser.name,
+            email: lockedUser.email,
+            failureCount: attempt.failureCount,
+            lastFailureAt: attempt.lastFailureAt,
+            lockedUntil: attempt.lockedUntil,
+          },
+        ];
+      });
+
+      res.json(lockedAccounts);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Lift a login lockout before it expires (RH only)
+  app.post("/api/admin/users/:id/unlock", requirePermission("users.manage"), async (req, res) => {
+    try {
+      const targetUser = await storage.getUser(req.params.id);
+      if (!targetUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const unlocked = await storage.clearLoginAttempts("email", normalizeLoginEmail(targetUser.email));
+
+      if (unlocked) {
+        await recordAuditEvent(req, {
+          action: "user.unlock",
+          entityType: "user",
+          entityId: targetUser.id,
+        });
+      }
+
+      res.json({ message: "Account unlocked successfully" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/audit-events", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const { page, pageSize, ...filters } = auditEventsQuerySchema.parse(req.query);
+      const { events, total } = await storage.listAuditEvents({
+        ...filters,
+        limit: pageSize,
+        offset: (page - 1) * pageSize,
+      });
+
+      res.json({ events, total, page, pageSize });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/email-outbox", requirePermission("communication.manage"), async (req, res) => {
+    try {
+      const { status } = emailOutboxQuerySchema.parse(req.query);
+      const emails = await storage.listOutboxEmails({ status });
+
+      const sessionIds = Array.from(
+        new Set(emails.map((email) => email.sessionId).filter((id): id is string => Boolean(id)))
+      );
+      const sessions = (await Promise.all(sessionIds.map((id) => storage.getSession(id)))).filter(
+        (session): session is Session => Boolean(session)
+      );
+      const sessionsById = new Map(sessions.map((session) => [session.id, session]));
+
+      res.json({
+        maxAttempts: OUTBOX_MAX_ATTEMPTS,
+        emails: emails.map((email) => {
+          const session = email.sessionId ? sessionsById.get(email.sessionId) : undefined;
+          return {
+            id: email.id,
+            kind: email.kind,
+            recipients: email.recipients,
+            subject: email.subject,
+            status: email.status,
+            attempts: email.attempts,
+            lastError: email.lastError,
+            nextAttemptAt: email.nextAttemptAt,
+            sentAt: email.sentAt,
+            createdAt: email.createdAt,
+            session: session ? { id: session.id, startDate: session.startDate } : null,
+          };
+        }),
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post(
+    "/api/admin/email-outbox/:id/resend",
+    requirePermission("communication.manage"),
+    async (req, res) => {
+      try {
+        const email = await storage.getOutboxEmail(req.params.id);
+        if (!email) {
+          return res.status(404).json({ message: "Email introuvable" });
+        }
+        if (email.status === "pending" || email.status === "sending") {
+          return res.status(409).json({ message: "Cet email est déjà en cours d'envoi" });
+        }
+
+        const requeued = await requeueOutboxEmail(email.id);
+        res.json({ id: email.id, status: requeued?.status ?? "pending" });
+      } catch (error: any) {
+        res.status(500).json({ message: error.message });
       }
+    }
+  );
 
+  app.get(
+    "/api/admin/email-templates",
+    requirePermission("communication.manage"),
+    async (_req, res) => {
+      try {
+        res.json(await getEmailTemplates());
+      } catch (error: any) {
+        res.status(500).json({ message: error.message });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/admin/email-templates",
+    requirePermission("communication.manage"),
+    async (req, res) => {
+      try {
+        const templates = emailTemplatesSettingsSchema.parse(req.body ?? {});
+        await setSettingWithAudit(req, EMAIL_TEMPLATES_SETTING_KEY, templates);
+        res.json(templates);
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Données invalides", errors: error.errors });
+        }
+        res.status(500).json({ message: error.message });
+      }
+    }
+  );
+
+  app.post(
+    "/api/admin/email-templates/preview",
+    requirePermission("communication.manage"),
+    async (req, res) => {
+      try {
+        const data = emailTemplatePreviewSchema.parse(req.body);
+        const preview = await renderEmailTemplatePreview((req as AuthRequest).user!, data);
+        if (!preview) {
+          return res.status(404).json({ message: "Session introuvable" });
+        }
+
+        res.json({
+          subject: preview.email.subject,
+          text: preview.email.text,
+          html: preview.email.html,
+          unknownVariables: preview.unknownVariables,
+        });
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Données invalides", errors: error.errors });
+        }
+        res.status(500).json({ message: error.message });
+      }
+    }
+  );
+
+  // Sends the edited template to the RH user only, without the calendar invitation
+  app.post(
+    "/api/admin/email-templates/test",
+    requirePermission("communication.manage"),
+    async (req, res) => {
+      try {
+        const user = (req as AuthRequest).user!;
+        const data = emailTemplatePreviewSchema.parse(req.body);
+        const preview = await renderEmailTemplatePreview(user, data);
+        if (!preview) {
+          return res.status(404).json({ message: "Session introuvable" });
+        }
+        if (preview.unknownVariables.length > 0) {
+          return res.status(400).json({
+            message: `Variables inconnues : ${preview.unknownVariables.map((name) => `{{${name}}}`).join(", ")}`,
+          });
+        }
+
+        const entry = await enqueueEmail({
+          kind: "template_test",
+          recipients: [user.email],
+          subject: `[Test] ${preview.email.subject}`,
+          text: preview.email.text,
+          html: preview.email.html,
+          sessionId: preview.email.sessionId,
+        });
+
+        res.status(202).json({ id: entry?.id, recipient: user.email });
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Données invalides", errors: error.errors });
+        }
+        res.status(500).json({ message: error.message });
+      }
+    }
+  );
+
+  app.get("/api/admin/audit-events/export", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const { page: _page, pageSize: _pageSize, ...filters } = auditEventsQuerySchema.parse(req.query);
+      const { events } = await storage.listAuditEvents({
+        ...filters,
+        limit: AUDIT_EXPORT_MAX_ROWS,
+      });
+
+      const fileDate = new Date().toISOString().slice(0, 10);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="journal-audit-${fileDate}.csv"`);
+      res.send(buildAuditEventsCsv(events));
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Get a managed user details with assigned formations (RH only)
+  app.get("/api/admin/users/:id", requirePermission("users.manage"), async (req, res) => {
+    try {
       const targetUser = await storage.getUser(req.params.id);
       if (!targetUser) {
         return res.status(404).json({ message: "User not found" });
@@ -1532,15 +2644,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update a managed user (RH only)
-  app.patch("/api/admin/users/:id", requireAuth, async (req, res) => {
+  app.patch("/api/admin/users/:id", requirePermission("users.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const targetUser = await storage.getUser(req.params.id);
       if (!targetUser) {
         return res.status(404).json({ message: "User not found" });
@@ -1548,6 +2653,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Extract formationIds if present (for external instructors)
       const { formationIds, ...updateData } = req.body;
+      // Only SSO logins maintain the roles that come from the identity provider
+      delete updateData.ssoRoles;
 
       if (Array.isArray(updateData.roles)) {
         const hadCoachRole = targetUser.roles.includes("coach");
@@ -1585,6 +2692,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         updateData.hireDate = null as any;
       }
 
+      // A password set by RH is temporary: the collaborator must replace it
+      if (typeof updateData.password === "string" && updateData.password.length > 0) {
+        updateData.password = await hashPassword(updateData.password);
+        updateData.mustChangePassword = true;
+      } else {
+        delete updateData.password;
+        delete updateData.mustChangePassword;
+      }
+
       // Update user basic info
       const updatedUser = await storage.updateUser(req.params.id, updateData);
 
@@ -1593,10 +2709,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // If formationIds is provided, update instructor formations
+      let previousFormationIds: string[] | undefined;
+      let assignedFormationIds: string[] | undefined;
       if (formationIds !== undefined && Array.isArray(formationIds)) {
-        await storage.replaceInstructorFormations(req.params.id, formationIds);
+        previousFormationIds = await storage.getInstructorFormations(req.params.id);
+        assignedFormationIds = await storage.replaceInstructorFormations(req.params.id, formationIds);
       }
 
+      await recordAuditEvent(req, {
+        action: "user.update",
+        entityType: "user",
+        entityId: updatedUser.id,
+        before: { ...targetUser, formationIds: previousFormationIds },
+        after: { ...updatedUser, formationIds: assignedFormationIds },
+      });
+
       const { password, ...userWithoutPassword } = updatedUser;
       res.json({ user: userWithoutPassword });
     } catch (error: any) {
@@ -1607,15 +2734,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/coach-assignments", requireAuth, async (req, res) => {
+  app.get("/api/admin/coach-assignments", requirePermission("coachAssignments.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const assignments = await storage.listCoachAssignments();
       res.json(assignments);
     } catch (error: any) {
@@ -1623,15 +2743,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/admin/coach-assignments", requireAuth, async (req, res) => {
+  app.post("/api/admin/coach-assignments", requirePermission("coachAssignments.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const data = coachAssignmentSchema.parse(req.body);
 
       const coach = await storage.getUser(data.coachId);
@@ -1662,6 +2775,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         coacheeId: data.coacheeId,
       });
 
+      await recordAuditEvent(req, {
+        action: "coach_assignment.create",
+        entityType: "coach_assignment",
+        entityId: assignment.id,
+        before: existingAssignments[0] ?? null,
+        after: assignment,
+      });
+
       res.json(assignment);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
@@ -1671,27 +2792,130 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/coach-assignments/:id", requireAuth, async (req, res) => {
+  app.delete("/api/admin/coach-assignments/:id", requirePermission("coachAssignments.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const assignment = await storage.getCoachAssignment(req.params.id);
       if (!assignment) {
         return res.status(404).json({ message: "Assignment not found" });
       }
 
       await storage.deleteCoachAssignment(req.params.id);
+
+      await recordAuditEvent(req, {
+        action: "coach_assignment.delete",
+        entityType: "coach_assignment",
+        entityId: assignment.id,
+        before: assignment,
+      });
+
       res.json({ message: "Assignment deleted successfully" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
+  app.get(
+    "/api/admin/prerequisite-overrides",
+    requirePermission("registrations.manage"),
+    async (req, res) => {
+      try {
+        const filters = prerequisiteOverridesQuerySchema.parse(req.query);
+        const overrides = await storage.listPrerequisiteOverrides(filters);
+        const users = await storage.listUsersByIds(
+          overrides.reduce<string[]>(
+            (ids, override) => ids.concat(override.grantedBy ? [override.userId, override.grantedBy] : [override.userId]),
+            []
+          )
+        );
+        const userNames = new Map(users.map((item) => [item.id, item.name]));
+
+        res.json(
+          overrides.map((override) => ({
+            ...override,
+            userName: userNames.get(override.userId) ?? null,
+            grantedByName: override.grantedBy ? userNames.get(override.grantedBy) ?? null : null,
+          }))
+        );
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Données invalides", errors: error.errors });
+        }
+        res.status(500).json({ message: error.message });
+      }
+    }
+  );
+
+  app.post(
+    "/api/admin/prerequisite-overrides",
+    requirePermission("registrations.manage"),
+    async (req, res) => {
+      try {
+        const data = prerequisiteOverrideSchema.parse(req.body);
+
+        const [targetUser, formation] = await Promise.all([
+          storage.getUser(data.userId),
+          storage.getFormation(data.formationId),
+        ]);
+        if (!targetUser) {
+          return res.status(404).json({ message: "User not found" });
+        }
+        if (!formation) {
+          return res.status(404).json({ message: "Formation not found" });
+        }
+        if (targetUser.archived) {
+          return res.status(400).json({ message: "Impossible d'accorder une dérogation à un collaborateur archivé" });
+        }
+
+        const previous = await storage.getPrerequisiteOverrideForUser(data.userId, data.formationId);
+        const override = await storage.grantPrerequisiteOverride({
+          ...data,
+          grantedBy: (req as AuthRequest).userId!,
+        });
+
+        await recordAuditEvent(req, {
+          action: "prerequisite_override.grant",
+          entityType: "prerequisite_override",
+          entityId: override.id,
+          before: previous ?? null,
+          after: override,
+        });
+
+        res.status(previous ? 200 : 201).json(override);
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Données invalides", errors: error.errors });
+        }
+        res.status(500).json({ message: error.message });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/admin/prerequisite-overrides/:id",
+    requirePermission("registrations.manage"),
+    async (req, res) => {
+      try {
+        const override = await storage.getPrerequisiteOverride(req.params.id);
+        if (!override) {
+          return res.status(404).json({ message: "Override not found" });
+        }
+
+        await storage.deletePrerequisiteOverride(override.id);
+
+        await recordAuditEvent(req, {
+          action: "prerequisite_override.revoke",
+          entityType: "prerequisite_override",
+          entityId: override.id,
+          before: override,
+        });
+
+        res.json({ message: "Override revoked successfully" });
+      } catch (error: any) {
+        res.status(500).json({ message: error.message });
+      }
+    }
+  );
+
   app.get("/api/settings/reviews-visibility", async (_req, res) => {
     try {
       const visibleSetting = await storage.getSetting<boolean>(
@@ -1719,16 +2943,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get(
     "/api/admin/settings/coach-validation",
-    requireAuth,
+    requirePermission("settings.manage"),
     async (req, res) => {
       try {
-        const userId = (req as AuthRequest).userId!;
-        const user = await storage.getUser(userId);
-
-        if (!user || !user.roles.includes("rh")) {
-          return res.status(403).json({ message: "Unauthorized" });
-        }
-
         const [coachSetting, rhSetting] = await Promise.all([
           storage.getSetting<boolean>(COACH_VALIDATION_SETTING_KEY),
           storage.getSetting<boolean>(RH_VALIDATION_SETTING_KEY),
@@ -1746,16 +2963,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch(
     "/api/admin/settings/coach-validation",
-    requireAuth,
+    requirePermission("settings.manage"),
     async (req, res) => {
       try {
-        const userId = (req as AuthRequest).userId!;
-        const user = await storage.getUser(userId);
-
-        if (!user || !user.roles.includes("rh")) {
-          return res.status(403).json({ message: "Unauthorized" });
-        }
-
         const data = validationSettingsSchema.parse(req.body);
 
         const [existingCoachSetting, existingRhSetting] = await Promise.all([
@@ -1771,13 +2981,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         if (typeof data.coachValidationOnly === "boolean") {
           operations.push(
-            storage.setSetting(COACH_VALIDATION_SETTING_KEY, data.coachValidationOnly)
+            setSettingWithAudit(req, COACH_VALIDATION_SETTING_KEY, data.coachValidationOnly)
           );
         }
 
         if (typeof data.rhValidationOnly === "boolean") {
           operations.push(
-            storage.setSetting(RH_VALIDATION_SETTING_KEY, data.rhValidationOnly)
+            setSettingWithAudit(req, RH_VALIDATION_SETTING_KEY, data.rhValidationOnly)
           );
         }
 
@@ -1785,38 +2995,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
           await Promise.all(operations);
         }
 
-        res.json({
-          coachValidationOnly: nextCoachValue,
-          rhValidationOnly: nextRhValue,
-        });
+        res.json({
+          coachValidationOnly: nextCoachValue,
+          rhValidationOnly: nextRhValue,
+        });
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Données invalides", errors: error.errors });
+        }
+        res.status(500).json({ message: error.message });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/admin/settings/reviews-visibility",
+    requirePermission("settings.manage"),
+    async (req, res) => {
+      try {
+        const data = reviewVisibilitySchema.parse(req.body);
+        await setSettingWithAudit(
+          req,
+          FORMATION_REVIEWS_VISIBILITY_SETTING_KEY,
+          data.visible
+        );
+
+        res.json({ reviewsVisible: data.visible });
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: "Données invalides",
+            errors: error.errors,
+          });
+        }
+        res.status(500).json({ message: error.message });
+      }
+    }
+  );
+
+  app.get(
+    "/api/admin/settings/quota-cycle",
+    requirePermission("settings.manage"),
+    async (_req, res) => {
+      try {
+        res.json(await getQuotaCycleSettings());
+      } catch (error: any) {
+        res.status(500).json({ message: error.message });
+      }
+    }
+  );
+
+  app.patch(
+    "/api/admin/settings/quota-cycle",
+    requirePermission("settings.manage"),
+    async (req, res) => {
+      try {
+        const settings = quotaCycleSettingsSchema.parse(req.body ?? {});
+        await setSettingWithAudit(req, QUOTA_CYCLE_SETTING_KEY, settings);
+        res.json(settings);
+      } catch (error: any) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({
+            message: "Données invalides",
+            errors: error.errors,
+          });
+        }
+        res.status(500).json({ message: error.message });
+      }
+    }
+  );
+
+  app.get(
+    "/api/admin/settings/session-reminders",
+    requirePermission("communication.manage"),
+    async (_req, res) => {
+      try {
+        res.json(await getSessionReminderSettings());
       } catch (error: any) {
-        if (error instanceof z.ZodError) {
-          return res.status(400).json({ message: "Données invalides", errors: error.errors });
-        }
         res.status(500).json({ message: error.message });
       }
     }
   );
 
   app.patch(
-    "/api/admin/settings/reviews-visibility",
-    requireAuth,
+    "/api/admin/settings/session-reminders",
+    requirePermission("communication.manage"),
     async (req, res) => {
       try {
-        const userId = (req as AuthRequest).userId!;
-        const user = await storage.getUser(userId);
-
-        if (!user || !user.roles.includes("rh")) {
-          return res.status(403).json({ message: "Unauthorized" });
-        }
-
-        const data = reviewVisibilitySchema.parse(req.body);
-        await storage.setSetting(
-          FORMATION_REVIEWS_VISIBILITY_SETTING_KEY,
-          data.visible
-        );
-
-        res.json({ reviewsVisible: data.visible });
+        const settings = sessionReminderSettingsSchema.parse(req.body ?? {});
+        await setSettingWithAudit(req, SESSION_REMINDER_SETTING_KEY, settings);
+        res.json(settings);
       } catch (error: any) {
         if (error instanceof z.ZodError) {
           return res.status(400).json({
@@ -1831,16 +3099,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.patch(
     "/api/admin/settings/dashboard-information",
-    requireAuth,
+    requirePermission("communication.manage"),
     async (req, res) => {
       try {
-        const userId = (req as AuthRequest).userId!;
-        const user = await storage.getUser(userId);
-
-        if (!user || !user.roles.includes("rh")) {
-          return res.status(403).json({ message: "Unauthorized" });
-        }
-
         const parsed = dashboardInformationSettingsSchema.parse(req.body ?? {});
         const payload: DashboardInformationSettings = {
           ...DEFAULT_DASHBOARD_INFORMATION_SETTINGS,
@@ -1848,7 +3109,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           imageUrl: parsed.imageUrl?.trim?.() ?? "",
         };
 
-        await storage.setSetting(DASHBOARD_INFORMATION_SETTING_KEY, payload);
+        await setSettingWithAudit(req, DASHBOARD_INFORMATION_SETTING_KEY, payload);
 
         res.json(payload);
       } catch (error: any) {
@@ -1867,10 +3128,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/formations", optionalAuth, async (req, res) => {
     try {
       const activeOnly = req.query.active !== "false";
-      const formations = await storage.listFormations(activeOnly);
-      const formationsWithRatings = await enrichFormationsWithRatings(formations);
-      res.json(formationsWithRatings);
+
+      // Without search parameters the whole catalog is returned, as the admin screens expect
+      if (!FORMATION_SEARCH_PARAMS.some((param) => param in req.query)) {
+        const formations = await storage.listFormations(activeOnly);
+        const formationsWithRatings = await enrichFormationsWithRatings(formations);
+        return res.json(formationsWithRatings);
+      }
+
+      const filters = formationSearchQuerySchema.parse(req.query);
+      const [{ formations, total }, catalogTotal] = await Promise.all([
+        storage.searchFormations({
+          query: filters.q,
+          themes: filters.theme,
+          modalities: filters.modality,
+          seniorities: filters.seniority,
+          sort: filters.sort,
+          activeOnly,
+          limit: filters.pageSize,
+          offset: (filters.page - 1) * filters.pageSize,
+        }),
+        storage.countFormations(activeOnly),
+      ]);
+
+      res.json({
+        formations: await enrichFormationsWithRatings(formations),
+        total,
+        catalogTotal,
+        page: filters.page,
+        pageSize: filters.pageSize,
+      });
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
       res.status(500).json({ message: error.message });
     }
   });
@@ -1888,6 +3179,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // RH may check another collaborator before enrolling them
+  app.get("/api/formations/:id/prerequisites", requireAuth, async (req, res) => {
+    try {
+      const currentUser = (req as AuthRequest).user!;
+      const targetUserId =
+        typeof req.query.userId === "string" && hasPermission(currentUser.roles, "registrations.manage")
+          ? req.query.userId
+          : currentUser.id;
+
+      const formation = await storage.getFormation(req.params.id);
+      if (!formation) {
+        return res.status(404).json({ message: "Formation not found" });
+      }
+
+      res.json(await getPrerequisiteStatus(targetUserId, formation));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.get("/api/formations/:id/reviews", optionalAuth, async (req, res) => {
     try {
       const formation = await storage.getFormation(req.params.id);
@@ -1903,7 +3214,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!reviewsVisible) {
         const viewerId = (req as AuthRequest).userId;
         const viewer = viewerId ? await storage.getUser(viewerId) : undefined;
-        if (viewer && viewer.roles.includes("rh")) {
+        if (viewer && hasPermission(viewer.roles, "reviews.moderate")) {
           const reviews = await storage.listFormationReviewsWithUsers(req.params.id);
           return res.json({ reviewsVisible, reviews });
         }
@@ -1988,42 +3299,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/formations", requireAuth, async (req, res) => {
+  app.post("/api/formations", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
+      const data = insertFormationSchema.parse(req.body);
+      const { prerequisiteGroups, error: prerequisiteError } = await resolvePrerequisiteGroups(
+        null,
+        data.prerequisiteGroups
+      );
+      if (prerequisiteError) {
+        return res.status(400).json({ message: prerequisiteError });
       }
 
-      const validationSchema = insertFormationSchema;
-      const data = validationSchema.parse(req.body);
-      
-      const formation = await storage.createFormation(data);
+      const formation = await storage.createFormation({
+        ...data,
+        ...resolveFormationDuration({
+          unit: data.durationUnit,
+          value: data.durationValue,
+          schedule: data.dailySchedule,
+        }),
+        prerequisiteGroups,
+      });
+      await recordAuditEvent(req, {
+        action: "formation.create",
+        entityType: "formation",
+        entityId: formation.id,
+        after: formation,
+      });
       res.status(201).json(formation);
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.patch("/api/formations/:id", requireAuth, async (req, res) => {
+  app.patch("/api/formations/:id", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const formation = await storage.getFormation(req.params.id);
       if (!formation) {
         return res.status(404).json({ message: "Formation not found" });
       }
 
-      const updated = await storage.updateFormation(req.params.id, req.body);
+      const { duration: _label, ...updates } = req.body;
+      if ("durationUnit" in updates || "durationValue" in updates || "dailySchedule" in updates) {
+        Object.assign(
+          updates,
+          resolveFormationDuration({
+            unit: updates.durationUnit ?? formation.durationUnit,
+            value: updates.durationValue ?? formation.durationValue,
+            schedule: "dailySchedule" in updates ? updates.dailySchedule : formation.dailySchedule,
+          })
+        );
+      }
+      if ("prerequisiteGroups" in updates) {
+        const { prerequisiteGroups, error: prerequisiteError } = await resolvePrerequisiteGroups(
+          formation.id,
+          updates.prerequisiteGroups
+        );
+        if (prerequisiteError) {
+          return res.status(400).json({ message: prerequisiteError });
+        }
+        updates.prerequisiteGroups = prerequisiteGroups;
+      }
+
+      const updated = await storage.updateFormation(req.params.id, updates);
+      await recordAuditEvent(req, {
+        action: "formation.update",
+        entityType: "formation",
+        entityId: formation.id,
+        before: formation,
+        after: updated,
+      });
       res.json(updated);
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
       res.status(500).json({ message: error.message });
     }
   });
@@ -2053,6 +3405,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         content: data.content ?? null,
       });
 
+      await recordAuditEvent(req, {
+        action: "formation.update_content",
+        entityType: "formation",
+        entityId: formation.id,
+        before: { content: formation.content },
+        after: { content: updated?.content ?? null },
+      });
+
       res.json(updated);
     } catch (error: any) {
       if (error instanceof z.ZodError) {
@@ -2230,36 +3590,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   );
 
-  app.delete("/api/formations/:id", requireAuth, async (req, res) => {
+  app.delete("/api/formations/:id", requirePermission("catalog.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const formation = await storage.getFormation(req.params.id);
       if (!formation) {
         return res.status(404).json({ message: "Formation not found" });
       }
 
       await storage.deleteFormation(req.params.id);
+      await recordAuditEvent(req, {
+        action: "formation.delete",
+        entityType: "formation",
+        entityId: formation.id,
+        before: formation,
+      });
       res.json({ message: "Formation deleted successfully" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/admin/formation-reviews", requireAuth, async (req, res) => {
+  app.get("/api/admin/formation-reviews", requirePermission("reviews.moderate"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const reviews = await storage.listAllFormationReviewsWithDetails();
       res.json(reviews);
     } catch (error: any) {
@@ -2269,16 +3621,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete(
     "/api/admin/formation-reviews/:id",
-    requireAuth,
+    requirePermission("reviews.moderate"),
     async (req, res) => {
       try {
-        const userId = (req as AuthRequest).userId!;
-        const user = await storage.getUser(userId);
-
-        if (!user || !user.roles.includes("rh")) {
-          return res.status(403).json({ message: "Unauthorized" });
-        }
-
         const deleted = await storage.deleteFormationReview(req.params.id);
         if (!deleted) {
           return res.status(404).json({ message: "Avis introuvable" });
@@ -2340,7 +3685,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const registrations = await storage.listRegistrations(undefined, session.id);
       const userIds = Array.from(new Set(registrations.map((registration) => registration.userId)));
-      const attendees = await storage.listUsersByIds(userIds);
+      const [attendees, attendances] = await Promise.all([
+        storage.listUsersByIds(userIds),
+        storage.listRegistrationAttendances(registrations.map((registration) => registration.id)),
+      ]);
       const attendeesById = new Map(attendees.map((attendee) => [attendee.id, attendee]));
 
       const payload = registrations.map((registration) => {
@@ -2351,6 +3699,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           status: registration.status,
           attended: registration.attended,
           attendanceSignedAt: registration.attendanceSignedAt,
+          attendance: attendances
+            .filter((attendance) => attendance.registrationId === registration.id)
+            .map((attendance) => ({
+              segmentIndex: attendance.segmentIndex,
+              period: attendance.period,
+              signedAt: attendance.signedAt,
+            })),
           registeredAt: registration.registeredAt,
           priority: registration.priority,
           formationId: registration.formationId,
@@ -2372,21 +3727,136 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/sessions", requireAuth, async (req, res) => {
+  app.get("/api/sessions/:id/attendees/sheet", requireAuth, async (req, res) => {
     try {
       const userId = (req as AuthRequest).userId!;
       const user = await storage.getUser(userId);
 
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
+      if (!user) {
+        return res.status(401).json({ message: "Utilisateur introuvable" });
+      }
+
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session non trouvée" });
+      }
+
+      const canManage = await canManageSession(user, session);
+      if (!canManage) {
+        return res.status(403).json({ message: "Accès réservé au formateur ou aux RH" });
+      }
+
+      const { blank } = attendanceSheetQuerySchema.parse(req.query);
+      const registrations = (await storage.listRegistrations(undefined, session.id)).filter(
+        (registration) => registration.status !== "cancelled" && registration.status !== "waitlisted"
+      );
+      const [formation, instructor, attendees, attendances] = await Promise.all([
+        storage.getFormation(session.formationId),
+        session.instructorId ? storage.getUser(session.instructorId) : Promise.resolve(undefined),
+        storage.listUsersByIds(Array.from(new Set(registrations.map((registration) => registration.userId)))),
+        storage.listRegistrationAttendances(registrations.map((registration) => registration.id)),
+      ]);
+      const attendeesById = new Map(attendees.map((attendee) => [attendee.id, attendee]));
+
+      const pdf = buildAttendanceSheetPdf({
+        session,
+        formation: { title: formation?.title ?? "Formation" },
+        instructor,
+        participants: registrations.map((registration) => {
+          const attendee = attendeesById.get(registration.userId);
+          return {
+            registrationId: registration.id,
+            name: attendee?.name ?? "Participant inconnu",
+            email: attendee?.email ?? "",
+            legacySignedAt: registration.attended ? registration.attendanceSignedAt : null,
+          };
+        }),
+        attendances,
+        blank,
+      });
+
+      const fileDate = new Date(session.startDate).toISOString().slice(0, 10);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="emargement-${fileDate}${blank ? "-vierge" : ""}.pdf"`
+      );
+      res.send(pdf);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/sessions/:id/certificates", requirePermission("sessions.plan"), async (req, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session non trouvée" });
+      }
+
+      const registrations = await storage.listRegistrations(undefined, session.id);
+      const { issuedCount, total } = await issueCertificates(session, registrations);
+      if (total === 0) {
+        return res.status(409).json({
+          message: "Aucun participant n'a terminé cette session avec une présence enregistrée",
+        });
+      }
+
+      if (issuedCount > 0) {
+        await recordAuditEvent(req, {
+          action: "session.certificates",
+          entityType: "session",
+          entityId: session.id,
+          after: { issued: issuedCount, total },
+        });
+      }
+
+      res.json({ issued: issuedCount, total });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/sessions/:id/certificates", requirePermission("sessions.plan"), async (req, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session non trouvée" });
+      }
+
+      const registrations = await storage.listRegistrations(undefined, session.id);
+      const documents = await loadCertificateDocuments(session, registrations);
+      if (documents.length === 0) {
+        return res.status(404).json({ message: "Aucune attestation n'a encore été générée pour cette session" });
       }
 
+      const fileDate = new Date(session.startDate).toISOString().slice(0, 10);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="attestations-${fileDate}.pdf"`);
+      res.send(buildCertificatesPdf(documents, getAppBaseUrl()));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/sessions", requirePermission("sessions.plan"), async (req, res) => {
+    try {
       const validationSchema = insertSessionSchema;
       const data = validationSchema.parse(req.body);
 
       const session = await storage.createSession(data);
       const formation = await storage.getFormation(data.formationId);
 
+      await recordAuditEvent(req, {
+        action: "session.create",
+        entityType: "session",
+        entityId: session.id,
+        after: session,
+      });
+
       res.status(201).json(session);
 
       void (async () => {
@@ -2398,15 +3868,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           if (interestedUsers.length > 0) {
             const message = `Une nouvelle session pour ${formation?.title ?? "votre formation"} est disponible.`;
-            await Promise.all(
-              interestedUsers.map((interest) =>
-                createNotification({
-                  userId: interest.userId,
-                  route: "/",
-                  title: "Nouvelle session disponible",
-                  message,
-                })
-              )
+            await createNotifications(
+              interestedUsers.map((interest) => ({
+                userId: interest.userId,
+                route: "/",
+                kind: "session_created",
+                metadata: sessionMetadata(session),
+                title: "Nouvelle session disponible",
+                message,
+              }))
             );
           }
         } catch (notificationError) {
@@ -2458,14 +3928,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       await storage.cleanupExpiredAttendanceTokens(new Date());
 
-      const { expiresInMinutes } = attendanceTokenRequestSchema.parse(req.body ?? {});
-      const durationMinutes = expiresInMinutes ?? 60;
+      const data = attendanceTokenRequestSchema.parse(req.body ?? {});
+      const segmentIndex = data.segmentIndex ?? findCurrentSegmentIndex(session);
+      const period = data.period ?? "day";
+
+      if (!getAttendanceSlot(session, segmentIndex, period)) {
+        return res.status(400).json({ message: "Cette journée ne fait pas partie de la session" });
+      }
+
+      const durationMinutes = data.expiresInMinutes ?? 60;
       const expiresAt = new Date(Date.now() + durationMinutes * 60 * 1000);
       const tokenValue = randomBytes(9).toString("base64url");
 
       const token = await storage.createSessionAttendanceToken({
         sessionId: session.id,
         token: tokenValue,
+        segmentIndex,
+        period,
+        live: data.live ?? false,
         expiresAt,
         createdBy: user.id,
       });
@@ -2474,6 +3954,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         token: token.token,
         expiresAt: token.expiresAt,
         sessionId: token.sessionId,
+        segmentIndex: token.segmentIndex,
+        period: token.period,
+        live: token.live,
+        segments: listAttendanceSegments(session),
       });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
@@ -2483,6 +3967,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Current rotating code of a live token, polled by the instructor screen
+  app.get("/api/sessions/:id/attendance-token/:token/live-code", requireAuth, async (req, res) => {
+    try {
+      const userId = (req as AuthRequest).userId!;
+      const user = await storage.getUser(userId);
+
+      if (!user) {
+        return res.status(401).json({ message: "Utilisateur introuvable" });
+      }
+
+      const session = await storage.getSession(req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session non trouvée" });
+      }
+
+      const canManage = await canManageSession(user, session);
+      if (!canManage) {
+        return res.status(403).json({ message: "Action réservée au formateur ou aux RH" });
+      }
+
+      const token = await storage.getSessionAttendanceToken(req.params.token);
+      if (!token || token.sessionId !== session.id || !token.live) {
+        return res.status(404).json({ message: "Jeton de présence invalide" });
+      }
+
+      if (token.expiresAt.getTime() < Date.now()) {
+        return res.status(410).json({ message: "Le QR Code a expiré" });
+      }
+
+      res.json(buildLiveCode(token));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.post("/api/attendance/sign", requireAuth, async (req, res) => {
     try {
       const userId = (req as AuthRequest).userId!;
@@ -2493,9 +4012,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const data = attendanceSignSchema.parse(req.body ?? {});
-      const token = await storage.getSessionAttendanceToken(data.token);
+      const liveCode = parseLiveCode(data.token);
+      const token = await storage.getSessionAttendanceToken(liveCode?.token ?? data.token);
 
-      if (!token) {
+      if (!token || (liveCode && !token.live)) {
         return res.status(404).json({ message: "Jeton de présence invalide" });
       }
 
@@ -2504,6 +4024,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(410).json({ message: "Le QR Code a expiré" });
       }
 
+      // Live tokens only accept the code of the current or previous rotation window
+      if (token.live) {
+        if (!liveCode) {
+          return res.status(400).json({ message: "Scannez le QR Code affiché à l'écran du formateur" });
+        }
+        const verification = verifyLiveCode(token, liveCode);
+        if (verification === "invalid") {
+          return res.status(404).json({ message: "Jeton de présence invalide" });
+        }
+        if (verification === "expired") {
+          return res.status(410).json({ message: "Ce QR Code a changé, scannez celui affiché à l'écran" });
+        }
+      }
+
       const session = await storage.getSession(token.sessionId);
       if (!session) {
         return res.status(404).json({ message: "Session non trouvée" });
@@ -2511,20 +4045,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const registration = await storage.getRegistrationByUserAndSession(user.id, session.id);
 
-      if (!registration || registration.status === "cancelled") {
+      if (!registration || registration.status === "cancelled" || registration.status === "waitlisted") {
         return res.status(403).json({ message: "Vous n'êtes pas inscrit à cette session" });
       }
 
       const now = new Date();
-      await storage.markRegistrationAttendance(registration.id, {
-        attended: true,
-        attendanceSignedAt: now,
+      const period = ATTENDANCE_PERIODS.find((candidate) => candidate === token.period) ?? "day";
+      const attendance = await storage.recordSegmentAttendance({
+        registrationId: registration.id,
+        sessionId: session.id,
+        segmentIndex: token.segmentIndex,
+        period,
+        codeWindow: token.live && liveCode ? liveCode.window : null,
+        signedAt: now,
       });
 
+      // The registration-level flag keeps the first signature of the session
+      if (!registration.attended || !registration.attendanceSignedAt) {
+        await storage.markRegistrationAttendance(registration.id, {
+          attended: true,
+          attendanceSignedAt: now,
+        });
+      }
+
       res.json({
-        message: "Présence enregistrée",
+        message: attendance ? "Présence enregistrée" : "Présence déjà enregistrée",
         sessionId: session.id,
-        attendanceSignedAt: now,
+        segmentIndex: token.segmentIndex,
+        period,
+        attendanceSignedAt: attendance?.signedAt ?? now,
       });
     } catch (error: any) {
       if (error instanceof z.ZodError) {
@@ -2534,15 +4083,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/sessions/:id", requireAuth, async (req, res) => {
+  app.patch("/api/sessions/:id", requirePermission("sessions.plan"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const session = await storage.getSession(req.params.id);
       if (!session) {
         return res.status(404).json({ message: "Session not found" });
@@ -2554,7 +4096,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         Object.entries(parsed).filter(([, value]) => value !== undefined)
       );
 
+      const updateError = getSessionUpdateError(session, updates);
+      if (updateError) {
+        return res.status(updateError.status).json({ message: updateError.message });
+      }
+
       const updated = await storage.updateSession(req.params.id, updates);
+
+      await recordAuditEvent(req, {
+        action: "session.update",
+        entityType: "session",
+        entityId: session.id,
+        before: session,
+        after: updated,
+      });
+
+      if (updated && updated.capacity > session.capacity) {
+        await promoteWaitlist(req, updated.id);
+      }
+
       res.json(updated);
 
       if (!updated) {
@@ -2599,13 +4159,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           const registrations = await storage.listRegistrations(undefined, updated.id);
           const activeRegistrations = registrations.filter(
-            (registration) => registration.status !== "cancelled"
+            (registration) => registration.status !== "cancelled" && registration.status !== "waitlisted"
           );
 
           if (activeRegistrations.length > 0) {
             const userIds = Array.from(new Set(activeRegistrations.map((registration) => registration.userId)));
             const users = await storage.listUsersByIds(userIds);
 
+            const scheduleChanged =
+              session.startDate.getTime() !== updated.startDate.getTime() ||
+              session.endDate.getTime() !== updated.endDate.getTime() ||
+              session.location !== updated.location ||
+              session.meetingUrl !== updated.meetingUrl;
+            if (scheduleChanged) {
+              const message = `La session pour ${formation.title} aura lieu le ${updated.startDate.toLocaleDateString("fr-FR")}${
+                updated.location ? ` (${updated.location})` : ""
+              }.`;
+              await createNotifications(
+                users.map((participant) => ({
+                  userId: participant.id,
+                  route: "/",
+                  kind: "session_updated",
+                  metadata: sessionMetadata(updated),
+                  title: "Session modifiée",
+                  message,
+                }))
+              );
+            }
+
             await Promise.all(
               users
                 .filter((participant) => participant.email)
@@ -2621,29 +4202,120 @@ export async function registerRoutes(app: Express): Promise<Server> {
             );
           }
         } catch (inviteError) {
-          console.error("Failed to send updated session invitations", inviteError);
+          console.error("Failed to send updated session invitations", inviteError);
+        }
+      })();
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/sessions/:id/cancel", requirePermission("sessions.plan"), async (req, res) => {
+    try {
+      const { reason } = sessionCancellationSchema.parse(req.body ?? {});
+      const previous = await storage.getSession(req.params.id);
+      const result = await storage.cancelSession(req.params.id, reason);
+
+      if (result.outcome === "not_found") {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (result.outcome === "already_cancelled") {
+        return res.status(400).json({ message: "Cette session est déjà annulée" });
+      }
+
+      const { session, cancelledRegistrations, restoredInterests } = result;
+
+      await recordAuditEvent(req, {
+        action: "session.cancel",
+        entityType: "session",
+        entityId: session.id,
+        before: previous,
+        after: { ...session, registrations: cancelledRegistrations, restoredInterests },
+      });
+
+      const formation = await storage.getFormation(session.formationId);
+      const formationTitle = formation?.title ?? "votre formation";
+      const participantIds = Array.from(
+        new Set(cancelledRegistrations.map((registration) => registration.userId))
+      );
+
+      await createNotifications(
+        participantIds.map((participantId) => ({
+          userId: participantId,
+          route: "/",
+          kind: "session_cancelled",
+          metadata: sessionMetadata(session),
+          title: "Session annulée",
+          message: `La session du ${session.startDate.toLocaleDateString("fr-FR")} pour ${formationTitle} est annulée : ${reason}. Vous pouvez vous inscrire à une autre session.`,
+        }))
+      );
+
+      res.json({
+        session,
+        cancelledRegistrations: cancelledRegistrations.length,
+        restoredInterests: restoredInterests.length,
+      });
+
+      if (!formation) {
+        return;
+      }
+
+      void (async () => {
+        try {
+          const recipientIds = session.instructorId
+            ? [session.instructorId, ...participantIds]
+            : participantIds;
+          const recipients = await storage.listUsersByIds(recipientIds);
+          const sequence = Math.floor(Date.now() / 1000);
+
+          await Promise.all(
+            recipients
+              .filter((recipient) => recipient.email)
+              .map((recipient) =>
+                sendSessionInvitationEmail({
+                  recipients: [{ email: recipient.email, name: recipient.name }],
+                  session,
+                  formation,
+                  method: "CANCEL",
+                  sequence,
+                  reason: `Cette session est annulée : ${reason}`,
+                })
+              )
+          );
+        } catch (inviteError) {
+          console.error("Failed to send session cancellation invitations", inviteError);
         }
       })();
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Données invalides", errors: error.errors });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.delete("/api/sessions/:id", requireAuth, async (req, res) => {
+  app.delete("/api/sessions/:id", requirePermission("sessions.plan"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const session = await storage.getSession(req.params.id);
       if (!session) {
         return res.status(404).json({ message: "Session not found" });
       }
 
+      // Sessions with registrations keep their history and must be cancelled instead
+      const registrations = await storage.listRegistrations(undefined, session.id);
+      if (registrations.length > 0) {
+        return res.status(409).json({
+          message: "Cette session a des inscriptions : annulez-la plutôt que de la supprimer",
+        });
+      }
+
       await storage.deleteSession(req.params.id);
+      await recordAuditEvent(req, {
+        action: "session.delete",
+        entityType: "session",
+        entityId: session.id,
+        before: session,
+      });
       res.json({ message: "Session deleted successfully" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -2673,7 +4345,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const hasFormationId =
         typeof req.body.formationId === "string" && req.body.formationId.trim().length > 0;
 
-      let createdInterest: FormationInterest;
+      let interestToCreate: InsertFormationInterest & { status: string };
       let interestTitle: string;
 
       if (hasFormationId) {
@@ -2687,50 +4359,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
           return res.status(404).json({ message: "Formation not found" });
         }
 
-        // Check if already expressed interest for this formation
-        const existing = await storage.listFormationInterests({ userId, formationId: data.formationId! });
-        const activeInterest = existing.find((i) => i.status === "pending" || i.status === "approved");
-        if (activeInterest) {
-          return res.status(400).json({ message: "Vous avez déjà manifesté votre intérêt pour cette formation" });
-        }
-
-        // Check P1/P2 quotas - consumed immediately at expression of interest
-        if (data.priority === "P1") {
-          if ((user.p1Used || 0) >= 1) {
-            return res.status(400).json({ message: "Vous avez déjà utilisé votre priorité P1 cette année" });
-          }
-          await storage.updateUser(userId, { p1Used: (user.p1Used || 0) + 1 });
-        } else if (data.priority === "P2") {
-          if ((user.p2Used || 0) >= 1) {
-            return res.status(400).json({ message: "Vous avez déjà utilisé votre priorité P2 cette année" });
-          }
-          await storage.updateUser(userId, { p2Used: (user.p2Used || 0) + 1 });
+        const { missing } = await getPrerequisiteStatus(userId, formation);
+        if (missing.length > 0) {
+          return res.status(400).json({
+            message: formatMissingPrerequisites(missing),
+            missingPrerequisites: missing,
+          });
         }
 
-        createdInterest = await storage.createFormationInterest({
+        interestToCreate = {
           ...data,
           formationId: data.formationId!,
           userId,
           status: "pending",
-        });
-
+        };
         interestTitle = formation.title;
       } else {
         const data = offCatalogInterestSchema.parse(req.body);
 
-        if (data.priority === "P1") {
-          if ((user.p1Used || 0) >= 1) {
-            return res.status(400).json({ message: "Vous avez déjà utilisé votre priorité P1 cette année" });
-          }
-          await storage.updateUser(userId, { p1Used: (user.p1Used || 0) + 1 });
-        } else if (data.priority === "P2") {
-          if ((user.p2Used || 0) >= 1) {
-            return res.status(400).json({ message: "Vous avez déjà utilisé votre priorité P2 cette année" });
-          }
-          await storage.updateUser(userId, { p2Used: (user.p2Used || 0) + 1 });
-        }
-
-        createdInterest = await storage.createFormationInterest({
+        interestToCreate = {
           userId,
           priority: data.priority,
           status: "pending",
@@ -2741,26 +4388,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
           customPrice: data.customPrice,
           customFitnetNumber: data.customFitnetNumber,
           customMissionManager: data.customMissionManager,
-        });
-
+        };
         interestTitle = data.customTitle;
       }
 
+      // P1/P2 quotas are consumed immediately at expression of interest
+      const quota = await getQuotaCheck(user);
+      const result = await storage.createFormationInterestWithQuotaCheck(interestToCreate, quota);
+
+      if (result.outcome === "already_active") {
+        return res.status(400).json({ message: "Vous avez déjà manifesté votre intérêt pour cette formation" });
+      }
+      if (result.outcome === "quota_exceeded") {
+        return res.status(400).json({
+          message: `Vous avez déjà utilisé vos priorités ${interestToCreate.priority} du cycle ${quota.cycle.label}`,
+        });
+      }
+
+      const createdInterest = result.interest;
+
+      await recordAuditEvent(req, {
+        action: "interest.create",
+        entityType: "interest",
+        entityId: createdInterest.id,
+        after: createdInterest,
+      });
+
       try {
         const rhUsers = (await storage.listUsers(false)).filter((candidate) =>
           candidate.roles.includes("rh")
         );
         if (rhUsers.length > 0) {
           const message = `${user.name} a exprimé une intention pour ${interestTitle}.`;
-          await Promise.all(
-            rhUsers.map((rhUser) =>
-              createNotification({
-                userId: rhUser.id,
-                route: "/interests",
-                title: "Nouvelle intention à valider",
-                message,
-              })
-            )
+          await createNotifications(
+            rhUsers.map((rhUser) => ({
+              userId: rhUser.id,
+              route: "/interests",
+              kind: "interest_submitted",
+              metadata: interestMetadata(createdInterest),
+              title: "Nouvelle intention à valider",
+              message,
+            }))
           );
         }
       } catch (notificationError) {
@@ -2773,17 +4441,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const coachIds = coachAssignments.map((assignment) => assignment.coachId);
           const coaches = await storage.listUsersByIds(coachIds);
           const message = `${user.name} a exprimé une intention pour ${interestTitle}.`;
-          await Promise.all(
+          await createNotifications(
             coaches
               .filter((coachUser) => coachUser.roles.includes("coach"))
-              .map((coachUser) =>
-                createNotification({
-                  userId: coachUser.id,
-                  route: "/coach",
-                  title: "Nouvelle intention à valider",
-                  message,
-                })
-              )
+              .map((coachUser) => ({
+                userId: coachUser.id,
+                route: "/coach",
+                kind: "interest_submitted",
+                metadata: interestMetadata(createdInterest),
+                title: "Nouvelle intention à valider",
+                message,
+              }))
           );
         }
       } catch (coachNotificationError) {
@@ -2820,11 +4488,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Only RH can approve/reject/withdraw, except consultants can self-convert their off-catalog interests
       if (requestedStatus === "approved" || requestedStatus === "rejected" || requestedStatus === "withdrawn") {
-        if (!user.roles.includes("rh")) {
+        if (!hasPermission(user.roles, "interests.manage")) {
           return res.status(403).json({ message: "Unauthorized" });
         }
       } else if (requestedStatus === "converted") {
-        if (!user.roles.includes("rh") && !canSelfConvert) {
+        if (!hasPermission(user.roles, "interests.manage") && !canSelfConvert) {
           return res.status(403).json({ message: "Unauthorized" });
         }
       } else if (interest.userId !== userId) {
@@ -2855,7 +4523,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       if (updates.status === "withdrawn") {
-        if (!user.roles.includes("rh")) {
+        if (!hasPermission(user.roles, "interests.manage")) {
           return res.status(403).json({ message: "Unauthorized" });
         }
 
@@ -2865,9 +4533,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
 
+        // Past registrations are kept and keep consuming the quota of their cycle,
+        // otherwise the withdrawn intention no longer counts
         const registrations = await storage.listRegistrations(interest.userId);
         const now = new Date();
-        let hasPastRegistrations = false;
 
         for (const registration of registrations) {
           if (registration.formationId !== interest.formationId) continue;
@@ -2876,41 +4545,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
           if (session.endDate.getTime() > now.getTime() && registration.status !== "completed") {
             await storage.deleteRegistration(registration.id);
-          } else {
-            hasPastRegistrations = true;
-          }
-        }
-
-        if (!hasPastRegistrations) {
-          const interestOwner = await storage.getUser(interest.userId);
-          if (interestOwner) {
-            if (interest.priority === "P1" && (interestOwner.p1Used || 0) > 0) {
-              await storage.updateUser(interest.userId, { p1Used: (interestOwner.p1Used || 0) - 1 });
-            } else if (interest.priority === "P2" && (interestOwner.p2Used || 0) > 0) {
-              await storage.updateUser(interest.userId, { p2Used: (interestOwner.p2Used || 0) - 1 });
-            }
+            await promoteWaitlist(req, registration.sessionId);
           }
         }
       }
 
-      // Refund quota if interest is being rejected
+      // A rejected intention stops counting towards the quota
       if (
         updates.status === "rejected" &&
         (interest.status === "pending" || interest.status === "approved")
       ) {
-        const interestOwner = await storage.getUser(interest.userId);
-        if (interestOwner) {
-          if (interest.priority === "P1" && (interestOwner.p1Used || 0) > 0) {
-            await storage.updateUser(interest.userId, { p1Used: (interestOwner.p1Used || 0) - 1 });
-          } else if (interest.priority === "P2" && (interestOwner.p2Used || 0) > 0) {
-            await storage.updateUser(interest.userId, { p2Used: (interestOwner.p2Used || 0) - 1 });
-          }
-        }
         updates.coachStatus = "rejected";
       }
 
       const updated = await storage.updateFormationInterest(req.params.id, updates);
 
+      await recordAuditEvent(req, {
+        action: "interest.update",
+        entityType: "interest",
+        entityId: interest.id,
+        before: interest,
+        after: updated,
+      });
+
       if (updated && requestedStatus && requestedStatus !== interest.status) {
         const formation = updated.formationId ? await storage.getFormation(updated.formationId) : undefined;
         const formationTitle = updated.formationId
@@ -2918,11 +4575,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           : updated.customTitle ?? "votre formation";
         let title: string | null = null;
         let message: string | undefined;
+        let kind: NotificationKind = "interest_approved";
 
         if (requestedStatus === "approved") {
           title = "Intention validée";
           message = `Votre intention pour ${formationTitle} a été validée par les RH.`;
         } else if (requestedStatus === "converted") {
+          kind = "interest_converted";
           if (updated.formationId) {
             title = "Session planifiée";
             message = `Une nouvelle session est disponible pour ${formationTitle}.`;
@@ -2931,9 +4590,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
             message = `Votre formation hors catalogue "${formationTitle}" est marquée comme réalisée.`;
           }
         } else if (requestedStatus === "rejected") {
+          kind = "interest_rejected";
           title = "Intention refusée";
           message = `Votre intention pour ${formationTitle} a été refusée.`;
         } else if (requestedStatus === "withdrawn") {
+          kind = "interest_withdrawn";
           title = "Intention annulée";
           message = `Votre intention pour ${formationTitle} a été annulée par les RH.`;
         }
@@ -2942,6 +4603,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           await createNotification({
             userId: updated.userId,
             route: "/",
+            kind,
+            metadata: interestMetadata(updated),
             title,
             message,
           });
@@ -2967,33 +4630,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
-      // Refund P1/P2 quotas if interest was pending or approved
-      if (interest.status === "pending" || interest.status === "approved") {
-        const user = await storage.getUser(userId);
-        if (user) {
-          if (interest.priority === "P1" && (user.p1Used || 0) > 0) {
-            await storage.updateUser(userId, { p1Used: (user.p1Used || 0) - 1 });
-          } else if (interest.priority === "P2" && (user.p2Used || 0) > 0) {
-            await storage.updateUser(userId, { p2Used: (user.p2Used || 0) - 1 });
-          }
-        }
-      }
-
       await storage.deleteFormationInterest(req.params.id);
+      await recordAuditEvent(req, {
+        action: "interest.delete",
+        entityType: "interest",
+        entityId: interest.id,
+        before: interest,
+      });
       res.json({ message: "Interest deleted successfully" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/coach/overview", requireAuth, async (req, res) => {
+  app.get("/api/coach/overview", requirePermission("coaching.access"), async (req, res) => {
     try {
       const coachId = (req as AuthRequest).userId!;
-      const coach = await storage.getUser(coachId);
-
-      if (!coach || !coach.roles.includes("coach")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
+      const coach = (req as AuthRequest).user!;
 
       const assignments = await storage.listCoachAssignmentsForCoach(coachId);
       const coacheeIds = assignments.map((assignment) => assignment.coacheeId);
@@ -3073,14 +4726,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/coach/interests/:id/approve", requireAuth, async (req, res) => {
+  app.post("/api/coach/interests/:id/approve", requirePermission("coaching.access"), async (req, res) => {
     try {
       const coachId = (req as AuthRequest).userId!;
-      const coach = await storage.getUser(coachId);
-
-      if (!coach || !coach.roles.includes("coach")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
+      const coach = (req as AuthRequest).user!;
 
       const interest = await storage.getFormationInterest(req.params.id);
       if (!interest) {
@@ -3117,6 +4766,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Failed to update interest" });
       }
 
+      await recordAuditEvent(req, {
+        action: "interest.coach_approve",
+        entityType: "interest",
+        entityId: interest.id,
+        before: interest,
+        after: updated,
+      });
+
       const formation = updated.formationId ? await storage.getFormation(updated.formationId) : undefined;
       const coachee = await storage.getUser(updated.userId);
       const formationTitle = updated.formationId
@@ -3127,6 +4784,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await createNotification({
           userId: updated.userId,
           route: "/",
+          kind: "interest_approved",
+          metadata: interestMetadata(updated),
           title: "Intention validée",
           message: `Votre coach ${coach.name} a validé votre intention pour ${formationTitle}.`,
         });
@@ -3134,6 +4793,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         await createNotification({
           userId: updated.userId,
           route: "/interests",
+          kind: "interest_coach_approved",
+          metadata: interestMetadata(updated),
           title: "Validation coach en attente RH",
           message: `Votre coach ${coach.name} a validé votre intention pour ${formationTitle}. Elle reste en attente de validation RH.`,
         });
@@ -3144,15 +4805,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
           );
           const coacheeName = coachee?.name ?? "Un consultant";
           const rhMessage = `${coacheeName} a une intention validée par ${coach.name} pour ${formationTitle}.`;
-          await Promise.all(
-            rhUsers.map((rhUser) =>
-              createNotification({
-                userId: rhUser.id,
-                route: "/interests",
-                title: "Validation coach reçue",
-                message: rhMessage,
-              })
-            )
+          await createNotifications(
+            rhUsers.map((rhUser) => ({
+              userId: rhUser.id,
+              route: "/interests",
+              kind: "interest_awaiting_validation",
+              metadata: interestMetadata(updated),
+              title: "Validation coach reçue",
+              message: rhMessage,
+            }))
           );
         } catch (notificationError) {
           console.error("Failed to notify RH about coach approval", notificationError);
@@ -3168,14 +4829,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/coach/interests/:id/reject", requireAuth, async (req, res) => {
+  app.post("/api/coach/interests/:id/reject", requirePermission("coaching.access"), async (req, res) => {
     try {
       const coachId = (req as AuthRequest).userId!;
-      const coach = await storage.getUser(coachId);
-
-      if (!coach || !coach.roles.includes("coach")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
+      const coach = (req as AuthRequest).user!;
 
       const interest = await storage.getFormationInterest(req.params.id);
       if (!interest) {
@@ -3196,15 +4853,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Cette intention est déjà refusée" });
       }
 
-      const coachee = await storage.getUser(interest.userId);
-      if (coachee) {
-        if (interest.priority === "P1" && (coachee.p1Used || 0) > 0) {
-          await storage.updateUser(coachee.id, { p1Used: (coachee.p1Used || 0) - 1 });
-        } else if (interest.priority === "P2" && (coachee.p2Used || 0) > 0) {
-          await storage.updateUser(coachee.id, { p2Used: (coachee.p2Used || 0) - 1 });
-        }
-      }
-
       const updated = await storage.updateFormationInterest(interest.id, {
         status: "rejected",
         coachStatus: "rejected",
@@ -3216,6 +4864,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Failed to update interest" });
       }
 
+      await recordAuditEvent(req, {
+        action: "interest.coach_reject",
+        entityType: "interest",
+        entityId: interest.id,
+        before: interest,
+        after: updated,
+      });
+
       const formation = updated.formationId ? await storage.getFormation(updated.formationId) : undefined;
       const formationTitle = updated.formationId
         ? formation?.title ?? "votre formation"
@@ -3224,6 +4880,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await createNotification({
         userId: updated.userId,
         route: "/interests",
+        kind: "interest_rejected",
+        metadata: interestMetadata(updated),
         title: "Intention refusée",
         message: `Votre coach ${coach.name} a refusé votre intention pour ${formationTitle}.`,
       });
@@ -3251,15 +4909,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all registrations (RH only)
-  app.get("/api/admin/registrations", requireAuth, async (req, res) => {
+  app.get("/api/admin/registrations", requirePermission("registrations.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const registrations = await storage.listAllRegistrations();
       res.json(registrations);
     } catch (error: any) {
@@ -3267,15 +4918,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/analytics", requireAuth, async (req, res) => {
+  app.get("/api/admin/analytics", requirePermission("analytics.view"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const [usersList, registrations, sessionsList, formationsList, interestsList] = await Promise.all([
         storage.listUsers(false),
         storage.listAllRegistrations(),
@@ -3283,11 +4927,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
         storage.listFormations(false),
         storage.listFormationInterests(),
       ]);
+      const attendances = await storage.listRegistrationAttendances(
+        registrations
+          .filter((registration) => registration.status === "completed" || registration.attended)
+          .map((registration) => registration.id)
+      );
 
       const activeConsultants = usersList.filter((u) => !u.archived && u.roles.includes("consultant"));
       const sessionMap = new Map(sessionsList.map((session) => [session.id, session]));
       const formationMap = new Map(formationsList.map((formation) => [formation.id, formation]));
       const userMap = new Map(usersList.map((item) => [item.id, item]));
+      const attendancesByRegistration = new Map<string, typeof attendances>();
+      for (const attendance of attendances) {
+        attendancesByRegistration.set(attendance.registrationId, [
+          ...(attendancesByRegistration.get(attendance.registrationId) ?? []),
+          attendance,
+        ]);
+      }
+
+      // Training time is the formation's duration, prorated by the day and half-day segments signed
+      const getAttendedTime = (registration: Registration) => {
+        const session = sessionMap.get(registration.sessionId);
+        if (!session) {
+          return { hours: 0, days: 0 };
+        }
+        return computeTrainedTime(
+          session,
+          formationMap.get(registration.formationId),
+          registration,
+          attendancesByRegistration.get(registration.id) ?? []
+        );
+      };
 
       const createEmptyStatusCounts = () => ({
         pending: 0,
@@ -3319,12 +4989,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
         let trainingHours = 0;
         let trainingDays = 0;
-        attendedCompleted.forEach((registration) => {
-          const session = sessionMap.get(registration.sessionId);
-          if (!session) return;
-          const durationMs = Math.max(0, session.endDate.getTime() - session.startDate.getTime());
-          const hours = durationMs / (1000 * 60 * 60);
-          const days = durationMs / (1000 * 60 * 60 * 24);
+        completedRegistrations.forEach((registration) => {
+          const { hours, days } = getAttendedTime(registration);
           trainingHours += hours;
           trainingDays += days;
         });
@@ -3422,7 +5088,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const session = sessionMap.get(registration.sessionId);
         const formation = formationMap.get(registration.formationId);
         const consultant = userMap.get(registration.userId);
-        const durationMs = session ? Math.max(0, session.endDate.getTime() - session.startDate.getTime()) : 0;
+        const duration = session ? computePlannedTime(session, formation) : { hours: 0, days: 0 };
+        const attendedTime = getAttendedTime(registration);
 
         return {
           recordType: "registration" as const,
@@ -3437,8 +5104,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           status: registration.status,
           attended: registration.attended,
           priority: registration.priority,
-          durationHours: Number((durationMs / (1000 * 60 * 60)).toFixed(2)),
-          durationDays: Number((durationMs / (1000 * 60 * 60 * 24)).toFixed(2)),
+          durationHours: Number(duration.hours.toFixed(2)),
+          durationDays: Number(duration.days.toFixed(2)),
+          attendedHours: Number(attendedTime.hours.toFixed(2)),
+          attendedDays: Number(attendedTime.days.toFixed(2)),
           seniority: consultant?.seniority || null,
           businessUnit: consultant?.businessUnit || null,
         };
@@ -3466,6 +5135,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
             priority: interest.priority,
             durationHours: 0,
             durationDays: 0,
+            attendedHours: 0,
+            attendedDays: 0,
             seniority: consultant?.seniority || null,
             businessUnit: consultant?.businessUnit || null,
           };
@@ -3552,7 +5223,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
 
-      const isRh = user.roles.includes("rh");
+      const isRh = hasPermission(user.roles, "registrations.manage");
 
       // Validate request body
       const validationSchema = isRh
@@ -3593,20 +5264,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!formation) {
         return res.status(404).json({ message: "Formation not found" });
       }
-
-      // Check capacity - count only validated and pending registrations
-      const enrolledCount = await storage.getRegistrationCount(data.sessionId);
-      if (enrolledCount >= session.capacity) {
-        return res.status(400).json({ message: "La session est complète" });
+      if (session.formationId !== formation.id) {
+        return res.status(400).json({ message: "La session ne correspond pas à cette formation" });
       }
 
-      // Check if already registered for this session
-      const existingForSession = await storage.listRegistrations(targetUserId);
-      const alreadyRegistered = existingForSession.find(
-        (r) => r.sessionId === data.sessionId && r.status !== "cancelled"
-      );
-      if (alreadyRegistered) {
-        return res.status(400).json({ message: "Vous êtes déjà inscrit à cette session" });
+      // Also applies to RH enrolments, which go through an override instead
+      const { missing } = await getPrerequisiteStatus(targetUserId, formation);
+      if (missing.length > 0) {
+        return res.status(400).json({
+          message: formatMissingPrerequisites(missing),
+          missingPrerequisites: missing,
+        });
       }
 
       // Check if user has an approved or converted intention for this formation
@@ -3614,71 +5282,97 @@ export async function registerRoutes(app: Express): Promise<Server> {
         userId: targetUserId,
         formationId: data.formationId,
       });
-      let approvedIntention = intentions.find((i) => i.status === "approved");
+      const approvedIntention = intentions.find((i) => i.status === "approved");
       const convertedIntention = intentions.find((i) => i.status === "converted");
 
-      // If no intention exists and an RH is enrolling, create a validated intention
-      if (!approvedIntention && !convertedIntention && isRh) {
-        if (data.priority === "P1") {
-          if ((targetUser.p1Used || 0) >= 1) {
-            return res.status(400).json({ message: "Le collaborateur a déjà utilisé sa priorité P1 cette année" });
-          }
-          await storage.updateUser(targetUserId, { p1Used: (targetUser.p1Used || 0) + 1 });
-        } else if (data.priority === "P2") {
-          if ((targetUser.p2Used || 0) >= 1) {
-            return res.status(400).json({ message: "Le collaborateur a déjà utilisé sa priorité P2 cette année" });
-          }
-          await storage.updateUser(targetUserId, { p2Used: (targetUser.p2Used || 0) + 1 });
-        }
+      // If no intention exists and an RH is enrolling, a validated intention is created with the registration
+      const createsIntention = !approvedIntention && !convertedIntention && isRh;
+      const quota = createsIntention ? await getQuotaCheck(targetUser) : undefined;
 
-        const createdInterest = await storage.createFormationInterest({
-          userId: targetUserId,
-          formationId: data.formationId,
-          priority: data.priority,
-          status: "approved",
-        });
+      // Approved or converted intentions and RH enrolments are validated right away.
+      // Quota was already consumed when the intention was expressed, don't consume again
+      const registrationStatus =
+        approvedIntention || convertedIntention || isRh ? "validated" : "pending";
+
+      // Capacity, duplicate and quota checks run in a single transaction with the insert
+      const result = await storage.registerWithCapacityCheck({
+        ...data,
+        userId: targetUserId,
+        status: registrationStatus,
+        convertInterestId: approvedIntention?.id,
+        createInterestWithQuota: quota,
+        allowWaitlist: true,
+      });
 
-        const updatedInterest = await storage.updateFormationInterest(createdInterest.id, {
-          coachStatus: "approved",
-          coachValidatedAt: new Date(),
+      if (result.outcome === "session_not_found") {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (result.outcome === "session_full") {
+        return res.status(400).json({ message: "La session est complète" });
+      }
+      if (result.outcome === "session_closed") {
+        return res.status(400).json({
+          message:
+            result.status === "cancelled"
+              ? "Cette session a été annulée, les inscriptions sont fermées"
+              : "Cette session est terminée, les inscriptions sont fermées",
+        });
+      }
+      if (result.outcome === "already_registered") {
+        return res.status(400).json({ message: "Vous êtes déjà inscrit à cette session" });
+      }
+      if (result.outcome === "quota_exceeded") {
+        return res.status(400).json({
+          message: `Le collaborateur a déjà utilisé ses priorités ${data.priority} du cycle ${quota?.cycle.label}`,
         });
+      }
 
-        approvedIntention = updatedInterest ?? createdInterest;
+      const { registration, createdInterest } = result;
+
+      if (createdInterest) {
+        await recordAuditEvent(req, {
+          action: "interest.create",
+          entityType: "interest",
+          entityId: createdInterest.id,
+          after: createdInterest,
+        });
 
         await createNotification({
           userId: targetUserId,
           route: "/",
+          kind: "interest_approved",
+          metadata: interestMetadata(createdInterest),
           title: "Intention validée",
           message: `Votre intention pour ${formation.title} a été validée par les RH.`,
         });
       }
 
-      let registrationStatus = "pending";
+      await recordAuditEvent(req, {
+        action: "registration.create",
+        entityType: "registration",
+        entityId: registration.id,
+        after: registration,
+      });
 
-      // If intention was approved, auto-validate the registration
-      // Note: quota was already consumed when intention was expressed, don't consume again
-      if (approvedIntention) {
-        registrationStatus = "validated";
+      if (registration.status === "waitlisted") {
+        await createNotification({
+          userId: targetUserId,
+          route: "/",
+          kind: "registration_waitlisted",
+          metadata: registrationMetadata(registration),
+          title: "Liste d'attente",
+          message: `La session du ${session.startDate.toLocaleDateString("fr-FR")} pour ${formation.title} est complète : vous êtes en position ${registration.waitlistPosition} sur la liste d'attente.`,
+        });
 
-        // Mark intention as converted
-        await storage.updateFormationInterest(approvedIntention.id, { status: "converted" });
-      } else if (convertedIntention) {
-        registrationStatus = "validated";
-      } else if (isRh) {
-        // RH enrolment without prior intention defaults to validated status
-        registrationStatus = "validated";
+        return res.status(201).json(registration);
       }
 
-      const registration = await storage.createRegistration({
-        ...data,
-        userId: targetUserId,
-        status: registrationStatus,
-      });
-
       if (targetUserId !== userId) {
         await createNotification({
           userId: targetUserId,
           route: "/",
+          kind: "registration_created",
+          metadata: registrationMetadata(registration),
           title: "Nouvelle inscription",
           message: `Vous avez été inscrit à la session du ${session.startDate.toLocaleDateString("fr-FR")} pour ${formation.title}.`,
         });
@@ -3744,35 +5438,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Only RH can validate registrations, users can only cancel their own
       if (req.body.status === "validated" || req.body.status === "completed") {
-        if (!user.roles.includes("rh")) {
+        if (!hasPermission(user.roles, "registrations.manage")) {
           return res.status(403).json({ message: "Unauthorized" });
         }
       } else if (registration.userId !== userId) {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
-      // When RH validates, check P1/P2 quotas and update usage
+      // Seats are only handed out by the waitlist promotion, in priority order
+      if (registration.status === "waitlisted" && req.body.status && req.body.status !== "cancelled") {
+        return res.status(400).json({
+          message: "Cette inscription est en liste d'attente : elle sera validée dès qu'une place se libère",
+        });
+      }
+
+      let updated: Registration | undefined;
+
+      // When RH validates, the registration starts consuming a P1/P2 quota
+      // unless an intention for the same formation already does
       if (req.body.status === "validated" && registration.status === "pending") {
         const registrationUser = await storage.getUser(registration.userId);
         if (!registrationUser) {
           return res.status(404).json({ message: "User not found" });
         }
 
-        // Check and consume P1/P2 quotas
-        if (registration.priority === "P1") {
-          if ((registrationUser.p1Used || 0) >= 1) {
-            return res.status(400).json({ message: "L'utilisateur a déjà utilisé sa priorité P1 cette année" });
-          }
-          await storage.updateUser(registration.userId, { p1Used: (registrationUser.p1Used || 0) + 1 });
-        } else if (registration.priority === "P2") {
-          if ((registrationUser.p2Used || 0) >= 1) {
-            return res.status(400).json({ message: "L'utilisateur a déjà utilisé sa priorité P2 cette année" });
-          }
-          await storage.updateUser(registration.userId, { p2Used: (registrationUser.p2Used || 0) + 1 });
+        const quota = await getQuotaCheck(registrationUser);
+        const result = await storage.updateRegistrationWithQuotaCheck(req.params.id, req.body, quota);
+        if (result.outcome === "not_found") {
+          return res.status(404).json({ message: "Registration not found" });
+        }
+        if (result.outcome === "quota_exceeded") {
+          return res.status(400).json({
+            message: `L'utilisateur a déjà utilisé ses priorités ${registration.priority} du cycle ${quota.cycle.label}`,
+          });
         }
+        updated = result.registration;
+      } else {
+        updated = await storage.updateRegistration(req.params.id, req.body);
+      }
+
+      await recordAuditEvent(req, {
+        action: "registration.update",
+        entityType: "registration",
+        entityId: registration.id,
+        before: registration,
+        after: updated,
+      });
+
+      if (updated?.status === "cancelled" && registration.status !== "cancelled") {
+        await promoteWaitlist(req, registration.sessionId);
       }
 
-      const updated = await storage.updateRegistration(req.params.id, req.body);
       res.json(updated);
 
       if (
@@ -3784,6 +5500,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const session = await storage.getSession(registration.sessionId);
         const formation = await storage.getFormation(registration.formationId);
 
+        if (session && formation) {
+          await createNotification({
+            userId: registration.userId,
+            route: "/",
+            kind: "registration_validated",
+            metadata: registrationMetadata(updated),
+            title: "Inscription validée",
+            message: `Votre inscription à la session du ${session.startDate.toLocaleDateString("fr-FR")} pour ${formation.title} est validée.`,
+          });
+        }
+
         if (attendee && attendee.email && session && formation) {
           void (async () => {
             try {
@@ -3819,7 +5546,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Registration not found" });
       }
 
-      if (registration.userId !== userId && !user.roles.includes("rh")) {
+      if (registration.userId !== userId && !hasPermission(user.roles, "registrations.manage")) {
         return res.status(403).json({ message: "Unauthorized" });
       }
 
@@ -3855,6 +5582,124 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Loads a registration its owner or a session manager may get a certificate for
+  const getCertificateRegistration = async (req: Request, res: Response) => {
+    const userId = (req as AuthRequest).userId!;
+    const user = await storage.getUser(userId);
+
+    if (!user) {
+      res.status(401).json({ message: "Utilisateur introuvable" });
+      return undefined;
+    }
+
+    const registration = await storage.getRegistration(req.params.id);
+    if (!registration) {
+      res.status(404).json({ message: "Inscription non trouvée" });
+      return undefined;
+    }
+
+    const session = await storage.getSession(registration.sessionId);
+    if (!session) {
+      res.status(404).json({ message: "Session non trouvée" });
+      return undefined;
+    }
+
+    if (registration.userId !== userId && !(await canManageSession(user, session))) {
+      res.status(403).json({ message: "Accès non autorisé" });
+      return undefined;
+    }
+
+    if (!isCertificateEligible(registration)) {
+      res.status(409).json({
+        message: "L'attestation est disponible une fois la formation terminée et la présence enregistrée",
+      });
+      return undefined;
+    }
+
+    return { registration, session };
+  };
+
+  app.post("/api/registrations/:id/certificate", requireAuth, async (req, res) => {
+    try {
+      const target = await getCertificateRegistration(req, res);
+      if (!target) {
+        return;
+      }
+
+      const { issuedCount } = await issueCertificates(target.session, [target.registration]);
+      res.json({ issued: issuedCount, total: 1 });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/registrations/:id/certificate", requireAuth, async (req, res) => {
+    try {
+      const target = await getCertificateRegistration(req, res);
+      if (!target) {
+        return;
+      }
+
+      const documents = await loadCertificateDocuments(target.session, [target.registration]);
+      if (documents.length === 0) {
+        return res.status(404).json({ message: "Aucune attestation n'a encore été générée pour cette inscription" });
+      }
+
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="attestation-${documents[0].certificate.code}.pdf"`
+      );
+      res.send(buildCertificatesPdf(documents, getAppBaseUrl()));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Public: confirms a printed certificate without exposing anything beyond what it shows
+  app.get("/api/certificates/verify/:code", async (req, res) => {
+    try {
+      const code = normalizeCertificateCode(req.params.code);
+      if (!code) {
+        return res.status(400).json({ valid: false, message: "Code de vérification invalide" });
+      }
+
+      const certificate = await storage.getCertificateByCode(code);
+      const [registration, participant, session, formation] = certificate
+        ? await Promise.all([
+            storage.getRegistration(certificate.registrationId),
+            storage.getUser(certificate.userId),
+            storage.getSession(certificate.sessionId),
+            storage.getFormation(certificate.formationId),
+          ])
+        : [];
+
+      // A registration whose attendance was revoked no longer backs its certificate
+      if (
+        !certificate ||
+        !registration ||
+        !isCertificateEligible(registration) ||
+        !participant ||
+        !session ||
+        !formation
+      ) {
+        return res.status(404).json({ valid: false, message: "Aucune attestation ne correspond à ce code" });
+      }
+
+      res.json({
+        valid: true,
+        code: certificate.code,
+        participantName: participant.name,
+        formationTitle: formation.title,
+        sessionStartDate: session.startDate,
+        sessionEndDate: session.endDate,
+        issuedAt: certificate.issuedAt,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.delete("/api/registrations/:id", requireAuth, async (req, res) => {
     try {
       const userId = (req as AuthRequest).userId!;
@@ -3876,6 +5721,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       await storage.deleteRegistration(req.params.id);
 
+      await recordAuditEvent(req, {
+        action: "registration.delete",
+        entityType: "registration",
+        entityId: registration.id,
+        before: registration,
+      });
+
+      await promoteWaitlist(req, registration.sessionId);
+
       // Check if user has any remaining registrations for this formation
       const remainingRegistrations = await storage.listRegistrations(userId);
       const hasOtherRegistrations = remainingRegistrations.some(
@@ -3899,15 +5753,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // RH-specific routes
-  app.get("/api/admin/interests", requireAuth, async (req, res) => {
+  app.get("/api/admin/interests", requirePermission("interests.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       // Get all formation interests
       const interests = await storage.listFormationInterests();
       
@@ -3977,36 +5824,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/admin/interests/:id", requireAuth, async (req, res) => {
+  app.delete("/api/admin/interests/:id", requirePermission("interests.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const interest = await storage.getFormationInterest(req.params.id);
       if (!interest) {
         return res.status(404).json({ message: "Interest not found" });
       }
 
       await storage.deleteFormationInterest(req.params.id);
+      await recordAuditEvent(req, {
+        action: "interest.delete",
+        entityType: "interest",
+        entityId: interest.id,
+        before: interest,
+      });
       res.json({ message: "Interest deleted successfully" });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.get("/api/admin/registrations", requireAuth, async (req, res) => {
+  app.get("/api/admin/registrations", requirePermission("registrations.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const registrations = await storage.listRegistrations();
       res.json(registrations);
     } catch (error: any) {
@@ -4014,16 +5853,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/users", requireAuth, async (req, res) => {
+  app.get("/api/users", requirePermission("users.manage"), async (req, res) => {
     try {
-      const userId = (req as AuthRequest).userId!;
-      const user = await storage.getUser(userId);
-      
-      // Only RH can see all users
-      if (!user || !user.roles.includes("rh")) {
-        return res.status(403).json({ message: "Unauthorized" });
-      }
-
       const users = await storage.listUsers();
       // Don't send passwords
       const usersWithoutPasswords = users.map(({ password: _, ...user }) => user);
@@ -11,12 +11,19 @@ import {
   appSettings,
 } from "@shared/schema";
 import { isInstructor } from "@shared/roles";
-import { ensureNotificationsTable } from "./storage";
+import { getFormationDuration, getFormationDurationTotals } from "@shared/formation-duration";
+import {
+  ensureFormationDurationInfrastructure,
+  ensureFormationPrerequisiteInfrastructure,
+  ensureNotificationsTable,
+} from "./storage";
 
 async function seed() {
   console.log("🌱 Seeding database...");
 
   await ensureNotificationsTable();
+  await ensureFormationDurationInfrastructure();
+  await ensureFormationPrerequisiteInfrastructure();
 
   // Clear existing data
   await db.delete(notifications);
@@ -40,8 +47,6 @@ async function seed() {
         roles: ["consultant"],
         seniority: "Senior",
         businessUnit: "Digital",
-        p1Used: 0,
-        p2Used: 0,
       },
       {
         email: "sophie.martin@colombus.fr",
@@ -50,8 +55,6 @@ async function seed() {
         roles: ["consultant", "rh"], // Un RH est forcément consultant
         seniority: "Supervising Senior",
         businessUnit: "RH",
-        p1Used: 0,
-        p2Used: 0,
       },
       {
         email: "thomas.petit@colombus.fr",
@@ -60,8 +63,6 @@ async function seed() {
         roles: ["consultant"],
         seniority: "Junior",
         businessUnit: "Finance",
-        p1Used: 0,
-        p2Used: 0,
       },
       {
         email: "pierre.bernard@colombus.fr",
@@ -70,8 +71,6 @@ async function seed() {
         roles: ["formateur"],
         seniority: "Directeur",
         businessUnit: "Formation",
-        p1Used: 0,
-        p2Used: 0,
       },
       {
         email: "claire.leroux@colombus.fr",
@@ -80,8 +79,6 @@ async function seed() {
         roles: ["formateur_externe"],
         seniority: "Supervising Senior",
         businessUnit: "Partenaire externe",
-        p1Used: 0,
-        p2Used: 0,
       },
       {
         email: "laure.rousseau@colombus.fr",
@@ -90,8 +87,6 @@ async function seed() {
         roles: ["consultant"],
         seniority: "Directeur",
         businessUnit: "Conseil",
-        p1Used: 0,
-        p2Used: 0,
       },
       {
         email: "jean.dubois@colombus.fr",
@@ -100,8 +95,6 @@ async function seed() {
         roles: ["consultant", "manager", "coach"],
         seniority: "Senior Manager",
         businessUnit: "Digital",
-        p1Used: 0,
-        p2Used: 0,
       },
     ])
     .returning();
@@ -124,6 +117,9 @@ async function seed() {
           "Maîtriser les techniques de communication, savoir motiver et fédérer une équipe, gérer les conflits.",
         prerequisites: "Expérience managériale souhaitée",
         duration: "3 jours",
+        durationUnit: "days",
+        durationValue: 3,
+        dailySchedule: null,
         modality: "presentiel",
         seniorityRequired: "Senior",
         theme: "Management",
@@ -138,6 +134,9 @@ async function seed() {
           "Maîtriser pandas, numpy, matplotlib et scikit-learn pour l'analyse de données.",
         prerequisites: "Connaissances de base en programmation",
         duration: "5 jours",
+        durationUnit: "days",
+        durationValue: 5,
+        dailySchedule: null,
         modality: "hybride",
         seniorityRequired: "Junior",
         theme: "Technique",
@@ -152,6 +151,9 @@ async function seed() {
           "Comprendre les principes Agile, implémenter Scrum, gérer un backlog et animer des cérémonies.",
         prerequisites: null,
         duration: "2 jours",
+        durationUnit: "days",
+        durationValue: 2,
+        dailySchedule: null,
         modality: "distanciel",
         seniorityRequired: "Junior",
         theme: "Méthodologie",
@@ -166,6 +168,9 @@ async function seed() {
           "Maîtriser les services AWS (EC2, S3, RDS, Lambda), concevoir des architectures hautement disponibles.",
         prerequisites: "Expérience en administration système",
         duration: "4 jours",
+        durationUnit: "days",
+        durationValue: 4,
+        dailySchedule: null,
         modality: "presentiel",
         seniorityRequired: "Supervising Senior",
         theme: "Technique",
@@ -180,6 +185,9 @@ async function seed() {
           "Structurer un discours, gérer son stress, utiliser le langage corporel, répondre aux questions.",
         prerequisites: null,
         duration: "2 jours",
+        durationUnit: "days",
+        durationValue: 2,
+        dailySchedule: null,
         modality: "presentiel",
         seniorityRequired: "Junior",
         theme: "Soft Skills",
@@ -194,6 +202,9 @@ async function seed() {
           "Mettre en place des pipelines CI/CD, containeriser avec Docker, orchestrer avec Kubernetes.",
         prerequisites: "Connaissances en développement et Git",
         duration: "3 jours",
+        durationUnit: "days",
+        durationValue: 3,
+        dailySchedule: null,
         modality: "hybride",
         seniorityRequired: "Senior",
         theme: "Technique",
@@ -260,7 +271,8 @@ async function seed() {
       const startDate = new Date(
         now.getTime() + (14 + i * 30) * 24 * 60 * 60 * 1000
       );
-      const durationDays = parseInt(formation.duration.match(/\d+/)?.[0] || "2");
+      const duration = getFormationDuration(formation);
+      const durationDays = duration ? Math.ceil(getFormationDurationTotals(duration).days) : 2;
       const endDate = new Date(startDate.getTime() + durationDays * 24 * 60 * 60 * 1000);
 
       sessionsData.push({
@@ -0,0 +1,22 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getSessionUpdateError } from "./session-lifecycle";
+
+describe("session updates", () => {
+  test("any edit of a cancelled session is refused, not only reopening it", () => {
+    for (const updates of [{}, { status: "open" }, { status: "cancelled" }]) {
+      assert.equal(getSessionUpdateError({ status: "cancelled" }, updates)?.status, 409);
+    }
+  });
+
+  test("cancelling through an edit is refused so participants are notified", () => {
+    assert.equal(getSessionUpdateError({ status: "open" }, { status: "cancelled" })?.status, 400);
+  });
+
+  test("open, full and completed sessions can be edited", () => {
+    for (const status of ["open", "full", "completed"]) {
+      assert.equal(getSessionUpdateError({ status }, { status: "open" }), null);
+      assert.equal(getSessionUpdateError({ status }, {}), null);
+    }
+  });
+});
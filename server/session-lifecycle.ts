@@ -0,0 +1,56 @@
+import type { Session } from "@shared/schema";
+import { storage } from "./storage";
+
+const LIFECYCLE_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+/**
+ * Refuses session edits that would contradict what participants were told. A cancelled session
+ * is final: participants were released and sent a CANCEL, and any edit would send a new REQUEST
+ * that puts the event back in their calendars.
+ */
+export const getSessionUpdateError = (
+  session: Pick<Session, "status">,
+  updates: { status?: string }
+): { status: 400 | 409; message: string } | null => {
+  if (session.status === "cancelled") {
+    return {
+      status: 409,
+      message: "Une session annulée ne peut plus être modifiée, planifiez une nouvelle session",
+    };
+  }
+  // Cancelling goes through POST /api/sessions/:id/cancel, which notifies participants
+  if (updates.status === "cancelled") {
+    return {
+      status: 400,
+      message: "Utilisez l'annulation de session pour prévenir le formateur et les participants",
+    };
+  }
+  return null;
+};
+
+export const runSessionLifecycle = async (now: Date = new Date()) => {
+  const summary = await storage.syncSessionLifecycle(now);
+  const changes = Object.values(summary).reduce((total, count) => total + count, 0);
+
+  if (changes > 0) {
+    console.info(
+      `[sessions] ${summary.completedSessions} completed, ${summary.fullSessions} full, ` +
+        `${summary.reopenedSessions} reopened, ${summary.completedRegistrations} registrations completed, ` +
+        `${summary.expiredRegistrations} expired`
+    );
+  }
+  return summary;
+};
+
+export const startSessionLifecycleJob = () => {
+  const run = () => {
+    runSessionLifecycle().catch((error) => {
+      console.error("Failed to update session lifecycle", error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, LIFECYCLE_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,248 @@
+import type { Formation, FormationMaterial, Session, User } from "@shared/schema";
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  renderEmailTemplate,
+  type EmailTemplate,
+  type EmailTemplateVariables,
+} from "@shared/email-templates";
+import {
+  DEFAULT_SESSION_REMINDER_SETTINGS,
+  sessionReminderSettingsSchema,
+  type SessionReminderSettings,
+} from "@shared/session-reminders";
+import { processEmailOutbox, type OutboxEmail } from "./email-outbox";
+import { getEmailTemplates } from "./email-templates";
+import {
+  buildSessionCalendar,
+  buildSessionEmailVariables,
+  buildSessionSegments,
+  formatRecipients,
+} from "./invitations";
+import { getAppUrl } from "./notifications";
+import { storage } from "./storage";
+
+export const SESSION_REMINDER_SETTING_KEY = "session_reminders";
+
+const REMINDER_CHECK_INTERVAL_MS = 15 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const getSessionReminderSettings = async (): Promise<SessionReminderSettings> => {
+  const stored = await storage.getSetting<SessionReminderSettings>(SESSION_REMINDER_SETTING_KEY);
+  const parsed = sessionReminderSettingsSchema.safeParse(stored ?? DEFAULT_SESSION_REMINDER_SETTINGS);
+  return parsed.success ? parsed.data : DEFAULT_SESSION_REMINDER_SETTINGS;
+};
+
+export const formatReminderDelay = (offsetDays: number) =>
+  offsetDays === 1 ? "demain" : `dans ${offsetDays} jours`;
+
+/**
+ * Smallest offset already reached, e.g. J-1 once the session is less than a day away.
+ * Larger offsets are then stale: a scheduler that was down for a week sends a single reminder.
+ */
+export const getDueReminderOffset = (session: Pick<Session, "startDate">, offsets: number[], now: Date) => {
+  const untilStart = new Date(session.startDate).getTime() - now.getTime();
+  if (untilStart <= 0) {
+    return undefined;
+  }
+  const due = offsets.filter((offset) => untilStart <= offset * DAY_MS);
+  return due.length > 0 ? Math.min(...due) : undefined;
+};
+
+// The catalog page of a formation (client route /training/:id)
+export const getFormationUrl = (formationId: string) => getAppUrl(`/training/${formationId}`);
+
+interface SessionReminderOptions {
+  recipient: Pick<User, "email" | "name">;
+  session: Session;
+  formation: Formation;
+  offsetDays: number;
+  materials: Pick<FormationMaterial, "title">[];
+  formationUrl?: string;
+}
+
+interface InstructorReminderOptions extends SessionReminderOptions {
+  attendees: Pick<User, "email" | "name">[];
+}
+
+const buildReminderVariables = (options: SessionReminderOptions): EmailTemplateVariables => ({
+  ...buildSessionEmailVariables({
+    recipients: [options.recipient],
+    session: options.session,
+    formation: options.formation,
+  }),
+  "formation.url": options.formationUrl ?? "",
+  "session.materials": options.materials.map((material) => `• ${material.title}`).join("\n"),
+  "reminder.delay": formatReminderDelay(options.offsetDays),
+});
+
+// The calendar invitation is sent again so that agendas reflect the latest schedule
+const buildReminderEmail = (
+  kind: "session_reminder" | "instructor_reminder",
+  options: SessionReminderOptions,
+  content: EmailTemplate,
+): OutboxEmail => ({
+  kind,
+  recipients: formatRecipients([options.recipient]),
+  ...content,
+  icsContent: buildSessionCalendar(
+    options.session,
+    options.formation,
+    Math.floor(Date.now() / 1000),
+    "REQUEST",
+    buildSessionSegments(options.session),
+    [options.recipient],
+  ),
+  sessionId: options.session.id,
+});
+
+export const buildSessionReminderEmail = (
+  options: SessionReminderOptions,
+  template: EmailTemplate = DEFAULT_EMAIL_TEMPLATES.session_reminder,
+) => buildReminderEmail("session_reminder", options, renderEmailTemplate(template, buildReminderVariables(options)));
+
+export const buildInstructorReminderEmail = (
+  options: InstructorReminderOptions,
+  template: EmailTemplate = DEFAULT_EMAIL_TEMPLATES.instructor_reminder,
+) => {
+  const attendees = [...options.attendees].sort((a, b) => a.name.localeCompare(b.name, "fr"));
+  const variables: EmailTemplateVariables = {
+    ...buildReminderVariables(options),
+    "session.attendees":
+      attendees.length > 0
+        ? attendees.map((attendee) => `• ${attendee.name} (${attendee.email})`).join("\n")
+        : "Aucun participant inscrit pour le moment.",
+    "session.attendeeCount": String(attendees.length),
+  };
+  return buildReminderEmail("instructor_reminder", options, renderEmailTemplate(template, variables));
+};
+
+/**
+ * Queues the reminders due at `now`. Each one is recorded with its email in a single
+ * transaction, unique per session, recipient and offset, so restarts and concurrent
+ * instances never send the same reminder twice.
+ */
+export const runSessionReminders = async (now: Date = new Date()) => {
+  const settings = await getSessionReminderSettings();
+  if (!settings.enabled || settings.offsetsInDays.length === 0) {
+    return 0;
+  }
+
+  const horizon = new Date(now.getTime() + Math.max(...settings.offsetsInDays) * DAY_MS);
+  const sessions = await storage.listSessionsStartingBetween(now, horizon);
+  if (sessions.length === 0) {
+    return 0;
+  }
+
+  const templates = await getEmailTemplates();
+  let queued = 0;
+
+  for (const session of sessions) {
+    const offsetDays = getDueReminderOffset(session, settings.offsetsInDays, now);
+    if (!offsetDays) {
+      continue;
+    }
+    const remindAt = new Date(new Date(session.startDate).getTime() - offsetDays * DAY_MS);
+
+    const [sent, registrations] = await Promise.all([
+      storage.listSessionReminders(session.id),
+      storage.listRegistrations(undefined, session.id),
+    ]);
+    const sentKeys = new Set(
+      sent
+        .filter((reminder) => reminder.offsetDays === offsetDays)
+        .map((reminder) => `${reminder.recipientRole}:${reminder.userId}`)
+    );
+    const validated = registrations.filter((registration) => registration.status === "validated");
+    // Registrations made after the reminder time just received their invitation
+    const participantsToRemind = validated.filter(
+      (registration) =>
+        !sentKeys.has(`participant:${registration.userId}`) &&
+        (!registration.registeredAt || new Date(registration.registeredAt) <= remindAt)
+    );
+    const remindInstructor = Boolean(session.instructorId) && !sentKeys.has(`instructor:${session.instructorId}`);
+    if (participantsToRemind.length === 0 && !remindInstructor) {
+      continue;
+    }
+
+    const userIds = validated.map((registration) => registration.userId);
+    if (session.instructorId) {
+      userIds.push(session.instructorId);
+    }
+    const [formation, materials, users] = await Promise.all([
+      storage.getFormation(session.formationId),
+      storage.listFormationMaterials(session.formationId),
+      storage.listUsersByIds(Array.from(new Set(userIds))),
+    ]);
+    if (!formation) {
+      continue;
+    }
+    const usersById = new Map(users.map((user) => [user.id, user]));
+    const common = { session, formation, offsetDays, materials, formationUrl: getFormationUrl(formation.id) };
+
+    for (const registration of participantsToRemind) {
+      const participant = usersById.get(registration.userId);
+      if (!participant) {
+        continue;
+      }
+      const email = buildSessionReminderEmail({ ...common, recipient: participant }, templates.session_reminder);
+      const reminder = await storage.recordSessionReminder(
+        {
+          sessionId: session.id,
+          registrationId: registration.id,
+          userId: participant.id,
+          recipientRole: "participant",
+          offsetDays,
+        },
+        { ...email, status: "pending", nextAttemptAt: now }
+      );
+      if (reminder) {
+        queued += 1;
+      }
+    }
+
+    const instructor = session.instructorId ? usersById.get(session.instructorId) : undefined;
+    if (remindInstructor && instructor) {
+      const attendees = validated
+        .map((registration) => usersById.get(registration.userId))
+        .filter((user): user is User => Boolean(user));
+      const email = buildInstructorReminderEmail(
+        { ...common, recipient: instructor, attendees },
+        templates.instructor_reminder
+      );
+      const reminder = await storage.recordSessionReminder(
+        {
+          sessionId: session.id,
+          registrationId: null,
+          userId: instructor.id,
+          recipientRole: "instructor",
+          offsetDays,
+        },
+        { ...email, status: "pending", nextAttemptAt: now }
+      );
+      if (reminder) {
+        queued += 1;
+      }
+    }
+  }
+
+  if (queued > 0) {
+    console.info(`[reminders] Queued ${queued} session reminders`);
+    processEmailOutbox().catch((error) => {
+      console.error("Failed to process email outbox", error);
+    });
+  }
+  return queued;
+};
+
+export const startSessionReminderJob = () => {
+  const run = () => {
+    runSessionReminders().catch((error) => {
+      console.error("Failed to send session reminders", error);
+    });
+  };
+
+  run();
+  const timer = setInterval(run, REMINDER_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+};
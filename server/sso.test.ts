@@ -0,0 +1,292 @@
+/**
+ * Runs the OIDC provider against a stub issuer on the loopback interface: discovery, JWKS and a
+ * token endpoint that enforces PKCE and signs ID tokens with claims chosen by each test.
+ */
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import { createHash, generateKeyPairSync, randomBytes, sign, type KeyObject } from "crypto";
+import type { AddressInfo } from "net";
+import { createOidcProvider, SSO_PENDING_TTL_MS, type SsoProvider } from "./sso";
+
+const CLIENT_ID = "colombus-learning";
+const CLIENT_SECRET = "client-secret";
+const KEY_ID = "stub-key";
+
+interface IssuedCode {
+  redirectUri: string;
+  nonce: string;
+  codeChallenge: string;
+}
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString("base64url");
+
+const signIdToken = (claims: Record<string, unknown>, key: KeyObject) => {
+  const signingInput = `${encode({ alg: "RS256", kid: KEY_ID, typ: "JWT" })}.${encode(claims)}`;
+  return `${signingInput}.${sign("sha256", Buffer.from(signingInput), key).toString("base64url")}`;
+};
+
+const readBody = (req: NodeJS.ReadableStream) =>
+  new Promise<string>((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+
+describe("OIDC provider", () => {
+  const issuerKeys = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const foreignKeys = generateKeyPairSync("rsa", { modulusLength: 2048 });
+  const codes = new Map<string, IssuedCode>();
+  let server: Server;
+  let issuerUrl: string;
+  let provider: SsoProvider;
+  // Per-test tweaks of the ID token the stub returns
+  let claimOverrides: Record<string, unknown> = {};
+  let signingKey: KeyObject = issuerKeys.privateKey;
+  let tokenRequests = 0;
+  let tokenResponseOverrides: Record<string, unknown> = {};
+
+  before(async () => {
+    server = createServer(async (req, res) => {
+      const url = new URL(req.url ?? "/", issuerUrl);
+      const json = (status: number, body: unknown) => {
+        res.writeHead(status, { "Content-Type": "application/json" });
+        res.end(JSON.stringify(body));
+      };
+
+      if (url.pathname === "/.well-known/openid-configuration") {
+        return json(200, {
+          issuer: issuerUrl,
+          authorization_endpoint: `${issuerUrl}/authorize`,
+          token_endpoint: `${issuerUrl}/token`,
+          jwks_uri: `${issuerUrl}/jwks`,
+        });
+      }
+      // Issuers publishing a broken document, each behind its own path
+      if (url.pathname === "/no-jwks/.well-known/openid-configuration") {
+        return json(200, {
+          issuer: `${issuerUrl}/no-jwks`,
+          authorization_endpoint: `${issuerUrl}/authorize`,
+          token_endpoint: `${issuerUrl}/token`,
+        });
+      }
+      if (url.pathname === "/bad-jwks/.well-known/openid-configuration") {
+        return json(200, {
+          issuer: `${issuerUrl}/bad-jwks`,
+          authorization_endpoint: `${issuerUrl}/authorize`,
+          token_endpoint: `${issuerUrl}/token`,
+          jwks_uri: `${issuerUrl}/bad-jwks/jwks`,
+        });
+      }
+      if (url.pathname === "/bad-jwks/jwks") {
+        return json(200, { keys: [{ kid: KEY_ID, use: "sig" }] });
+      }
+      if (url.pathname === "/jwks") {
+        const jwk = issuerKeys.publicKey.export({ format: "jwk" });
+        return json(200, { keys: [{ ...jwk, kid: KEY_ID, use: "sig", alg: "RS256" }] });
+      }
+      if (url.pathname === "/token" && req.method === "POST") {
+        tokenRequests += 1;
+        const form = new URLSearchParams(await readBody(req));
+        const issued = codes.get(form.get("code") ?? "");
+        codes.delete(form.get("code") ?? "");
+        const [clientId, clientSecret] = Buffer.from(
+          (req.headers.authorization ?? "").replace(/^Basic /, ""),
+          "base64"
+        )
+          .toString()
+          .split(":");
+        const verifier = form.get("code_verifier") ?? "";
+
+        if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+          return json(401, { error: "invalid_client" });
+        }
+        if (
+          !issued ||
+          issued.redirectUri !== form.get("redirect_uri") ||
+          createHash("sha256").update(verifier).digest("base64url") !== issued.codeChallenge
+        ) {
+          return json(400, { error: "invalid_grant" });
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        const claims = {
+          iss: issuerUrl,
+          aud: CLIENT_ID,
+          sub: "user-42",
+          iat: now,
+          exp: now + 300,
+          nonce: issued.nonce,
+          email: "alice.martin@colombus.test",
+          email_verified: true,
+          name: "Alice Martin",
+          groups: ["GRP-RH"],
+          ...claimOverrides,
+        };
+        return json(200, {
+          access_token: "access",
+          token_type: "Bearer",
+          id_token: signIdToken(claims, signingKey),
+          ...tokenResponseOverrides,
+        });
+      }
+
+      json(404, { error: "not_found" });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    issuerUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    provider = createProvider(issuerUrl);
+  });
+
+  const createProvider = (issuer: string) =>
+    createOidcProvider({
+      issuerUrl: issuer,
+      clientId: CLIENT_ID,
+      clientSecret: CLIENT_SECRET,
+      scopes: "openid email profile",
+      displayName: "Stub",
+      groupsClaim: "groups",
+      tokenAuthMethod: "client_secret_basic",
+      allowInsecureHttp: false,
+    });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    claimOverrides = {};
+    signingKey = issuerKeys.privateKey;
+    tokenRequests = 0;
+    tokenResponseOverrides = {};
+  });
+
+  // What the IdP does once the user has signed in: remember the request and redirect with a code
+  const authorize = async (target: SsoProvider = provider) => {
+    const { url, pending } = await target.createAuthorizationRequest(
+      "https://learning.colombus.test/api/auth/sso/callback"
+    );
+    const params = new URL(url).searchParams;
+    const code = randomBytes(16).toString("hex");
+    codes.set(code, {
+      redirectUri: params.get("redirect_uri") ?? "",
+      nonce: params.get("nonce") ?? "",
+      codeChallenge: params.get("code_challenge") ?? "",
+    });
+    return { url: new URL(url), pending, callback: { code, state: params.get("state") ?? undefined } };
+  };
+
+  test("the authorization request carries state, nonce and an S256 PKCE challenge", async () => {
+    const { url, pending } = await authorize();
+
+    assert.equal(url.origin + url.pathname, `${issuerUrl}/authorize`);
+    assert.equal(url.searchParams.get("response_type"), "code");
+    assert.equal(url.searchParams.get("client_id"), CLIENT_ID);
+    assert.equal(url.searchParams.get("state"), pending.state);
+    assert.equal(url.searchParams.get("nonce"), pending.nonce);
+    assert.equal(url.searchParams.get("code_challenge_method"), "S256");
+    assert.equal(
+      url.searchParams.get("code_challenge"),
+      createHash("sha256").update(pending.codeVerifier).digest("base64url")
+    );
+    assert.notEqual(pending.state, pending.nonce);
+  });
+
+  test("a valid callback returns the identity from the ID token", async () => {
+    const { pending, callback } = await authorize();
+
+    const identity = await provider.completeAuthorization(callback, pending);
+
+    assert.deepEqual(identity, {
+      subject: "user-42",
+      email: "alice.martin@colombus.test",
+      name: "Alice Martin",
+      groups: ["GRP-RH"],
+    });
+  });
+
+  test("a callback with another state is refused before the code is redeemed", async () => {
+    const { pending, callback } = await authorize();
+
+    await assert.rejects(
+      provider.completeAuthorization({ ...callback, state: "forged" }, pending),
+      /State mismatch/
+    );
+    await assert.rejects(provider.completeAuthorization({ code: callback.code }, pending), /State mismatch/);
+    assert.equal(tokenRequests, 0);
+  });
+
+  test("a stale login request is refused", async () => {
+    const { pending, callback } = await authorize();
+
+    await assert.rejects(
+      provider.completeAuthorization(callback, { ...pending, createdAt: Date.now() - SSO_PENDING_TTL_MS - 1 }),
+      /expired/
+    );
+  });
+
+  test("the code is only redeemed with the matching PKCE verifier", async () => {
+    const { pending, callback } = await authorize();
+
+    await assert.rejects(
+      provider.completeAuthorization(callback, { ...pending, codeVerifier: "another-verifier" }),
+      /\(400\): invalid_grant/
+    );
+  });
+
+  test("ID tokens with a wrong nonce, issuer, audience or expiry are refused", async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const cases: Array<[Record<string, unknown>, RegExp]> = [
+      [{ nonce: "replayed" }, /nonce mismatch/],
+      [{ iss: "https://evil.example.test" }, /issuer mismatch/],
+      [{ aud: "another-client" }, /audience mismatch/],
+      [{ aud: [CLIENT_ID, "another-client"], azp: "another-client" }, /authorized party mismatch/],
+      [{ exp: now - 3600 }, /expired/],
+      [{ exp: undefined }, /expired/],
+      [{ iat: now + 3600 }, /issued in the future/],
+    ];
+
+    for (const [overrides, expected] of cases) {
+      claimOverrides = overrides;
+      const { pending, callback } = await authorize();
+      await assert.rejects(provider.completeAuthorization(callback, pending), expected);
+    }
+  });
+
+  test("an ID token signed with another key is refused", async () => {
+    signingKey = foreignKeys.privateKey;
+    const { pending, callback } = await authorize();
+
+    await assert.rejects(provider.completeAuthorization(callback, pending), /Invalid ID token signature/);
+  });
+
+  test("unverified email addresses are refused", async () => {
+    claimOverrides = { email_verified: false };
+    const { pending, callback } = await authorize();
+
+    await assert.rejects(provider.completeAuthorization(callback, pending), /not verified/);
+  });
+
+  test("a discovery document without a JWKS URI is refused", async () => {
+    await assert.rejects(authorize(createProvider(`${issuerUrl}/no-jwks`)), /invalid response.*jwks_uri: Required/);
+  });
+
+  test("a JWKS whose keys have no type is refused", async () => {
+    const brokenProvider = createProvider(`${issuerUrl}/bad-jwks`);
+    const { pending, callback } = await authorize(brokenProvider);
+
+    await assert.rejects(brokenProvider.completeAuthorization(callback, pending), /keys\.0\.kty: Required/);
+  });
+
+  test("a token response without an ID token is refused", async () => {
+    tokenResponseOverrides = { id_token: undefined };
+    const { pending, callback } = await authorize();
+
+    await assert.rejects(provider.completeAuthorization(callback, pending), /did not return an ID token/);
+  });
+});
@@ -0,0 +1,541 @@
+import {
+  createHash,
+  createHmac,
+  createPublicKey,
+  randomBytes,
+  timingSafeEqual,
+  verify as verifySignature,
+  constants as cryptoConstants,
+  type KeyObject,
+} from "crypto";
+import { z } from "zod";
+import { USER_ROLES, type UserRole } from "@shared/roles";
+
+// Identity returned by any SSO provider once the user has authenticated
+export interface SsoIdentity {
+  subject: string;
+  email: string;
+  name: string | null;
+  groups: string[];
+}
+
+// Values kept in the session between the redirect to the IdP and the callback
+export interface SsoPendingAuthorization {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  createdAt: number;
+}
+
+export interface SsoProvider {
+  id: string;
+  displayName: string;
+  createAuthorizationRequest(
+    redirectUri: string
+  ): Promise<{ url: string; pending: SsoPendingAuthorization }>;
+  completeAuthorization(
+    callbackParams: Record<string, string | undefined>,
+    pending: SsoPendingAuthorization
+  ): Promise<SsoIdentity>;
+}
+
+export const SSO_PENDING_TTL_MS = 10 * 60 * 1000;
+
+interface OidcProviderConfig {
+  issuerUrl: string;
+  clientId: string;
+  clientSecret: string | null;
+  scopes: string;
+  displayName: string;
+  groupsClaim: string;
+  tokenAuthMethod: "client_secret_basic" | "client_secret_post";
+  allowInsecureHttp: boolean;
+}
+
+// Only the fields the login flow reads; IdPs publish many more and those are kept as is
+const oidcDiscoverySchema = z
+  .object({
+    issuer: z.string().min(1),
+    authorization_endpoint: z.string().url(),
+    token_endpoint: z.string().url(),
+    jwks_uri: z.string().url(),
+    userinfo_endpoint: z.string().url().optional(),
+  })
+  .passthrough();
+
+const jwksSchema = z.object({
+  keys: z.array(
+    z
+      .object({
+        kty: z.string(),
+        kid: z.string().optional(),
+        use: z.string().optional(),
+      })
+      .passthrough()
+  ),
+});
+
+const tokenResponseSchema = z
+  .object({
+    id_token: z.string({ required_error: "Identity provider did not return an ID token" }).min(1),
+    access_token: z.string().optional(),
+  })
+  .passthrough();
+
+const userInfoSchema = z.object({ sub: z.string().optional() }).passthrough();
+
+const errorResponseSchema = z.object({
+  error: z.string().optional(),
+  error_description: z.string().optional(),
+});
+
+const HTTP_TIMEOUT_MS = 10000;
+const CLOCK_SKEW_SECONDS = 60;
+const LOCAL_HOSTNAMES = new Set(["localhost", "127.0.0.1", "::1", "[::1]"]);
+
+const base64UrlDecode = (value: string) => Buffer.from(value, "base64url");
+
+const randomToken = () => randomBytes(32).toString("base64url");
+
+const readList = (value: string | undefined) =>
+  (value ?? "")
+    .split(/[,;]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+const assertSecureUrl = (url: string, allowInsecureHttp: boolean) => {
+  const parsed = new URL(url);
+  if (parsed.protocol === "https:") {
+    return;
+  }
+  if (parsed.protocol === "http:" && (allowInsecureHttp || LOCAL_HOSTNAMES.has(parsed.hostname))) {
+    return;
+  }
+  throw new Error(`Refusing to contact the identity provider over an insecure URL: ${url}`);
+};
+
+const fetchJson = async <T>(url: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>, init?: RequestInit) => {
+  const response = await fetch(url, {
+    ...init,
+    signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    headers: { Accept: "application/json", ...(init?.headers ?? {}) },
+  });
+  const text = await response.text();
+  let body: unknown = null;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    body = null;
+  }
+  if (!response.ok) {
+    const error = errorResponseSchema.safeParse(body);
+    const description =
+      (error.success && (error.data.error_description || error.data.error)) || response.statusText;
+    throw new Error(`Identity provider request failed (${response.status}): ${description}`);
+  }
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => (issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message))
+      .join("; ");
+    throw new Error(`Identity provider returned an invalid response for ${url}: ${issues}`);
+  }
+  return parsed.data;
+};
+
+// Signature parameters for the JWS algorithms accepted on ID tokens
+const ASYMMETRIC_ALGORITHMS: Record<
+  string,
+  { hash: string | null; padding?: number; dsaEncoding?: "ieee-p1363" }
+> = {
+  RS256: { hash: "sha256", padding: cryptoConstants.RSA_PKCS1_PADDING },
+  RS384: { hash: "sha384", padding: cryptoConstants.RSA_PKCS1_PADDING },
+  RS512: { hash: "sha512", padding: cryptoConstants.RSA_PKCS1_PADDING },
+  PS256: { hash: "sha256", padding: cryptoConstants.RSA_PKCS1_PSS_PADDING },
+  PS384: { hash: "sha384", padding: cryptoConstants.RSA_PKCS1_PSS_PADDING },
+  PS512: { hash: "sha512", padding: cryptoConstants.RSA_PKCS1_PSS_PADDING },
+  ES256: { hash: "sha256", dsaEncoding: "ieee-p1363" },
+  ES384: { hash: "sha384", dsaEncoding: "ieee-p1363" },
+  ES512: { hash: "sha512", dsaEncoding: "ieee-p1363" },
+  EdDSA: { hash: null },
+};
+
+const HMAC_ALGORITHMS: Record<string, string> = {
+  HS256: "sha256",
+  HS384: "sha384",
+  HS512: "sha512",
+};
+
+export const createOidcProvider = (config: OidcProviderConfig): SsoProvider => {
+  const issuerUrl = config.issuerUrl.replace(/\/+$/, "");
+  assertSecureUrl(issuerUrl, config.allowInsecureHttp);
+
+  let discoveryPromise: Promise<z.infer<typeof oidcDiscoverySchema>> | null = null;
+  let jwksCache: z.infer<typeof jwksSchema> | null = null;
+
+  const getDiscovery = () => {
+    if (!discoveryPromise) {
+      discoveryPromise = (async () => {
+        const document = await fetchJson(`${issuerUrl}/.well-known/openid-configuration`, oidcDiscoverySchema);
+
+        if (document.issuer.replace(/\/+$/, "") !== issuerUrl) {
+          throw new Error(
+            `Discovery document issuer ${document.issuer} does not match ${issuerUrl}`
+          );
+        }
+
+        for (const endpoint of [
+          document.authorization_endpoint,
+          document.token_endpoint,
+          document.jwks_uri,
+          document.userinfo_endpoint,
+        ]) {
+          if (endpoint) {
+            assertSecureUrl(endpoint, config.allowInsecureHttp);
+          }
+        }
+
+        return document;
+      })();
+
+      // A failed discovery must not be cached forever, the IdP may simply be starting up
+      discoveryPromise.catch(() => {
+        discoveryPromise = null;
+      });
+    }
+    return discoveryPromise;
+  };
+
+  const getSigningKey = async (kid: string | undefined): Promise<KeyObject> => {
+    const discovery = await getDiscovery();
+
+    const findKey = () => {
+      const keys = (jwksCache?.keys ?? []).filter((key) => key.use !== "enc");
+      if (kid) {
+        return keys.find((key) => key.kid === kid);
+      }
+      return keys.length === 1 ? keys[0] : undefined;
+    };
+
+    let jwk = findKey();
+    // Unknown kid usually means the IdP rotated its keys since the last fetch
+    if (!jwk) {
+      jwksCache = await fetchJson(discovery.jwks_uri, jwksSchema);
+      jwk = findKey();
+    }
+
+    if (!jwk) {
+      throw new Error("No matching signing key published by the identity provider");
+    }
+
+    return createPublicKey({ key: jwk, format: "jwk" });
+  };
+
+  const verifyIdToken = async (idToken: string, nonce: string) => {
+    const segments = idToken.split(".");
+    if (segments.length !== 3) {
+      throw new Error("Malformed ID token");
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = segments;
+    let header: { alg?: string; kid?: string };
+    let claims: Record<string, unknown>;
+    try {
+      header = JSON.parse(base64UrlDecode(encodedHeader).toString("utf8"));
+      claims = JSON.parse(base64UrlDecode(encodedPayload).toString("utf8"));
+    } catch {
+      throw new Error("Malformed ID token");
+    }
+
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    const signature = base64UrlDecode(encodedSignature);
+    const algorithm = header.alg ?? "";
+
+    if (HMAC_ALGORITHMS[algorithm]) {
+      if (!config.clientSecret) {
+        throw new Error("HMAC signed ID tokens require a client secret");
+      }
+      const expected = createHmac(HMAC_ALGORITHMS[algorithm], config.clientSecret)
+        .update(signingInput)
+        .digest();
+      if (expected.length !== signature.length || !timingSafeEqual(expected, signature)) {
+        throw new Error("Invalid ID token signature");
+      }
+    } else if (ASYMMETRIC_ALGORITHMS[algorithm]) {
+      const { hash, padding, dsaEncoding } = ASYMMETRIC_ALGORITHMS[algorithm];
+      const key = await getSigningKey(header.kid);
+      const valid = verifySignature(
+        hash,
+        signingInput,
+        {
+          key,
+          padding,
+          dsaEncoding,
+          saltLength: padding === cryptoConstants.RSA_PKCS1_PSS_PADDING
+            ? cryptoConstants.RSA_PSS_SALTLEN_DIGEST
+            : undefined,
+        },
+        signature
+      );
+      if (!valid) {
+        throw new Error("Invalid ID token signature");
+      }
+    } else {
+      throw new Error(`Unsupported ID token algorithm: ${algorithm || "none"}`);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+
+    if (typeof claims.iss !== "string" || claims.iss.replace(/\/+$/, "") !== issuerUrl) {
+      throw new Error("ID token issuer mismatch");
+    }
+    if (!audiences.includes(config.clientId)) {
+      throw new Error("ID token audience mismatch");
+    }
+    if (audiences.length > 1 && claims.azp !== undefined && claims.azp !== config.clientId) {
+      throw new Error("ID token authorized party mismatch");
+    }
+    if (typeof claims.exp !== "number" || claims.exp + CLOCK_SKEW_SECONDS < now) {
+      throw new Error("ID token expired");
+    }
+    if (typeof claims.iat === "number" && claims.iat - CLOCK_SKEW_SECONDS > now) {
+      throw new Error("ID token issued in the future");
+    }
+    if (claims.nonce !== nonce) {
+      throw new Error("ID token nonce mismatch");
+    }
+    if (typeof claims.sub !== "string" || !claims.sub) {
+      throw new Error("ID token has no subject");
+    }
+
+    return claims;
+  };
+
+  const readGroups = (claims: Record<string, unknown>) => {
+    const value = claims[config.groupsClaim];
+    if (Array.isArray(value)) {
+      return value.filter((group): group is string => typeof group === "string");
+    }
+    if (typeof value === "string") {
+      return readList(value);
+    }
+    return [];
+  };
+
+  return {
+    id: "oidc",
+    displayName: config.displayName,
+
+    async createAuthorizationRequest(redirectUri) {
+      const discovery = await getDiscovery();
+      const pending: SsoPendingAuthorization = {
+        state: randomToken(),
+        nonce: randomToken(),
+        codeVerifier: randomToken(),
+        redirectUri,
+        createdAt: Date.now(),
+      };
+
+      const url = new URL(discovery.authorization_endpoint);
+      url.searchParams.set("response_type", "code");
+      url.searchParams.set("client_id", config.clientId);
+      url.searchParams.set("redirect_uri", redirectUri);
+      url.searchParams.set("scope", config.scopes);
+      url.searchParams.set("state", pending.state);
+      url.searchParams.set("nonce", pending.nonce);
+      url.searchParams.set(
+        "code_challenge",
+        createHash("sha256").update(pending.codeVerifier).digest("base64url")
+      );
+      url.searchParams.set("code_challenge_method", "S256");
+
+      return { url: url.toString(), pending };
+    },
+
+    async completeAuthorization(callbackParams, pending) {
+      if (callbackParams.error) {
+        throw new Error(
+          `Identity provider returned an error: ${callbackParams.error_description || callbackParams.error}`
+        );
+      }
+      if (!callbackParams.state || callbackParams.state !== pending.state) {
+        throw new Error("State mismatch in SSO callback");
+      }
+      if (Date.now() - pending.createdAt > SSO_PENDING_TTL_MS) {
+        throw new Error("SSO login request expired");
+      }
+      if (!callbackParams.code) {
+        throw new Error("Missing authorization code in SSO callback");
+      }
+
+      const discovery = await getDiscovery();
+      const form = new URLSearchParams({
+        grant_type: "authorization_code",
+        code: callbackParams.code,
+        redirect_uri: pending.redirectUri,
+        code_verifier: pending.codeVerifier,
+      });
+      const headers: Record<string, string> = {
+        "Content-Type": "application/x-www-form-urlencoded",
+      };
+
+      if (config.clientSecret && config.tokenAuthMethod === "client_secret_basic") {
+        const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+        headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+      } else {
+        form.set("client_id", config.clientId);
+        if (config.clientSecret) {
+          form.set("client_secret", config.clientSecret);
+        }
+      }
+
+      const tokens = await fetchJson(discovery.token_endpoint, tokenResponseSchema, {
+        method: "POST",
+        headers,
+        body: form.toString(),
+      });
+
+      const claims = await verifyIdToken(tokens.id_token, pending.nonce);
+
+      // Many IdPs only expose email and groups through the userinfo endpoint
+      if (
+        (typeof claims.email !== "string" || claims[config.groupsClaim] === undefined) &&
+        discovery.userinfo_endpoint &&
+        typeof tokens.access_token === "string"
+      ) {
+        const userInfo = await fetchJson(discovery.userinfo_endpoint, userInfoSchema, {
+          headers: { Authorization: `Bearer ${tokens.access_token}` },
+        });
+        if (userInfo.sub === claims.sub) {
+          for (const [key, value] of Object.entries(userInfo)) {
+            if (claims[key] === undefined) {
+              claims[key] = value;
+            }
+          }
+        }
+      }
+
+      if (typeof claims.email !== "string" || !claims.email.includes("@")) {
+        throw new Error("Identity provider did not share an email address");
+      }
+      if (claims.email_verified === false) {
+        throw new Error("Email address is not verified by the identity provider");
+      }
+
+      const name =
+        typeof claims.name === "string" && claims.name.trim()
+          ? claims.name.trim()
+          : [claims.given_name, claims.family_name]
+              .filter((part): part is string => typeof part === "string" && !!part.trim())
+              .join(" ") || null;
+
+      return {
+        subject: claims.sub as string,
+        email: claims.email.trim(),
+        name,
+        groups: readGroups(claims),
+      };
+    },
+  };
+};
+
+// OIDC_ROLE_MAPPING is a JSON object such as {"rh": ["GRP-RH"], "coach": ["GRP-Coachs"]}
+const parseRoleMapping = (raw: string | undefined) => {
+  const mapping = new Map<string, UserRole[]>();
+  if (!raw) {
+    return mapping;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.error("[sso] OIDC_ROLE_MAPPING is not valid JSON, ignoring it", error);
+    return mapping;
+  }
+
+  for (const [role, groups] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!USER_ROLES.includes(role as UserRole)) {
+      console.warn(`[sso] Unknown role "${role}" in OIDC_ROLE_MAPPING, ignoring it`);
+      continue;
+    }
+    const groupList = Array.isArray(groups) ? groups : [groups];
+    for (const group of groupList) {
+      if (typeof group !== "string" || !group.trim()) {
+        continue;
+      }
+      const key = group.trim().toLowerCase();
+      mapping.set(key, [...(mapping.get(key) ?? []), role as UserRole]);
+    }
+  }
+
+  return mapping;
+};
+
+let cachedSettings: {
+  provider: SsoProvider | null;
+  roleMapping: Map<string, UserRole[]>;
+  jitProvisioning: boolean;
+} | null = null;
+
+const loadSsoSettings = () => {
+  if (cachedSettings) {
+    return cachedSettings;
+  }
+
+  const driver = (process.env.SSO_PROVIDER ?? (process.env.OIDC_ISSUER_URL ? "oidc" : "")).trim();
+  let provider: SsoProvider | null = null;
+
+  if (driver === "oidc") {
+    const issuerUrl = process.env.OIDC_ISSUER_URL;
+    const clientId = process.env.OIDC_CLIENT_ID;
+
+    if (!issuerUrl || !clientId) {
+      console.error("[sso] OIDC_ISSUER_URL and OIDC_CLIENT_ID are required, SSO disabled");
+    } else {
+      try {
+        provider = createOidcProvider({
+          issuerUrl,
+          clientId,
+          clientSecret: process.env.OIDC_CLIENT_SECRET || null,
+          scopes: process.env.OIDC_SCOPES || "openid email profile",
+          displayName: process.env.OIDC_PROVIDER_NAME || "SSO",
+          groupsClaim: process.env.OIDC_GROUPS_CLAIM || "groups",
+          tokenAuthMethod:
+            process.env.OIDC_TOKEN_AUTH_METHOD === "client_secret_post"
+              ? "client_secret_post"
+              : "client_secret_basic",
+          allowInsecureHttp: process.env.OIDC_ALLOW_INSECURE_HTTP === "true",
+        });
+      } catch (error) {
+        console.error("[sso] Invalid OIDC configuration, SSO disabled", error);
+      }
+    }
+  } else if (driver) {
+    console.error(`[sso] Unknown SSO_PROVIDER "${driver}", SSO disabled`);
+  }
+
+  cachedSettings = {
+    provider,
+    roleMapping: parseRoleMapping(process.env.OIDC_ROLE_MAPPING),
+    jitProvisioning: process.env.SSO_JIT_PROVISIONING !== "false",
+  };
+  return cachedSettings;
+};
+
+export const getSsoProvider = () => loadSsoSettings().provider;
+
+export const isSsoJitProvisioningEnabled = () => loadSsoSettings().jitProvisioning;
+
+export const mapSsoGroupsToRoles = (groups: string[]): UserRole[] => {
+  const { roleMapping } = loadSsoSettings();
+  const roles = new Set<UserRole>();
+  for (const group of groups) {
+    for (const role of roleMapping.get(group.trim().toLowerCase()) ?? []) {
+      roles.add(role);
+    }
+  }
+  return USER_ROLES.filter((role) => roles.has(role));
+};
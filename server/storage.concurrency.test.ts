@@ -0,0 +1,197 @@
+/**
+ * Races enrolments and expressions of interest against a real Postgres, which is the only
+ * way to exercise the row locks taken by `registerWithCapacityCheck` and
+ * `createFormationInterestWithQuotaCheck`. Point TEST_DATABASE_URL at a disposable database
+ * whose schema was pushed with `npm run db:push`; the suite is skipped without it, and no CI job
+ * sets it, so run it by hand. It connects over TCP with node-postgres unless DATABASE_DRIVER says otherwise.
+ */
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_QUOTA_CYCLE_SETTINGS, getQuotaCycle } from "@shared/quota";
+
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+const PARALLEL_ATTEMPTS = 10;
+
+describe("storage concurrency", { skip: !TEST_DATABASE_URL && "TEST_DATABASE_URL is not set" }, () => {
+  let storageModule: typeof import("./storage");
+  let dbModule: typeof import("./db");
+  let schema: typeof import("@shared/schema");
+  const runId = `concurrency-${Date.now()}`;
+  const userIds: string[] = [];
+  const formationIds: string[] = [];
+
+  before(async () => {
+    process.env.DATABASE_URL = TEST_DATABASE_URL;
+    process.env.DATABASE_DRIVER ??= "node-postgres";
+    dbModule = await import("./db");
+    storageModule = await import("./storage");
+    schema = await import("@shared/schema");
+    await storageModule.ensureFormationDurationInfrastructure();
+    await storageModule.ensureFormationPrerequisiteInfrastructure();
+  });
+
+  after(async () => {
+    if (!dbModule) {
+      return;
+    }
+    const { db, pool } = dbModule;
+    const { inArray } = await import("drizzle-orm");
+    const { formationInterests, formations, registrations, sessions, users } = schema;
+    if (userIds.length > 0) {
+      await db.delete(registrations).where(inArray(registrations.userId, userIds));
+      await db.delete(formationInterests).where(inArray(formationInterests.userId, userIds));
+    }
+    if (formationIds.length > 0) {
+      await db.delete(sessions).where(inArray(sessions.formationId, formationIds));
+      await db.delete(formations).where(inArray(formations.id, formationIds));
+    }
+    if (userIds.length > 0) {
+      await db.delete(users).where(inArray(users.id, userIds));
+    }
+    await pool.end();
+  });
+
+  const createUsers = async (count: number) => {
+    const created = await Promise.all(
+      Array.from({ length: count }, (_, index) =>
+        storageModule.storage.createUser({
+          email: `${runId}-${userIds.length + index}@example.test`,
+          password: "not-used",
+          name: `Concurrency ${index}`,
+          roles: ["consultant"],
+        })
+      )
+    );
+    userIds.push(...created.map((user) => user.id));
+    return created;
+  };
+
+  const createFormation = async (title: string) => {
+    const formation = await storageModule.storage.createFormation({
+      title: `${runId} ${title}`,
+      description: "Test",
+      objectives: "Test",
+      duration: "1 jour",
+      durationUnit: "days",
+      durationValue: 1,
+      modality: "presentiel",
+      theme: "Test",
+    });
+    formationIds.push(formation.id);
+    return formation;
+  };
+
+  const createSessionWithOneSeat = async (formationId: string) => {
+    const startDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    return await storageModule.storage.createSession({
+      formationId,
+      startDate,
+      endDate: new Date(startDate.getTime() + 8 * 60 * 60 * 1000),
+      capacity: 1,
+      status: "open",
+    });
+  };
+
+  test("a session with one seat left accepts exactly one of many parallel registrations", async () => {
+    const formation = await createFormation("capacité");
+    const session = await createSessionWithOneSeat(formation.id);
+    const attendees = await createUsers(PARALLEL_ATTEMPTS);
+
+    const results = await Promise.all(
+      attendees.map((attendee) =>
+        storageModule.storage.registerWithCapacityCheck({
+          userId: attendee.id,
+          sessionId: session.id,
+          formationId: formation.id,
+          priority: "P3",
+          status: "validated",
+        })
+      )
+    );
+
+    assert.equal(results.filter((result) => result.outcome === "created").length, 1);
+    assert.equal(results.filter((result) => result.outcome === "session_full").length, PARALLEL_ATTEMPTS - 1);
+    assert.equal(await storageModule.storage.getRegistrationCount(session.id), 1);
+    const stored = await storageModule.storage.listRegistrations(undefined, session.id);
+    assert.equal(stored.length, 1);
+  });
+
+  test("parallel registrations beyond capacity are queued with distinct waitlist positions", async () => {
+    const formation = await createFormation("liste d'attente");
+    const session = await createSessionWithOneSeat(formation.id);
+    const attendees = await createUsers(PARALLEL_ATTEMPTS);
+
+    const results = await Promise.all(
+      attendees.map((attendee) =>
+        storageModule.storage.registerWithCapacityCheck({
+          userId: attendee.id,
+          sessionId: session.id,
+          formationId: formation.id,
+          priority: "P3",
+          status: "validated",
+          allowWaitlist: true,
+        })
+      )
+    );
+
+    assert.ok(results.every((result) => result.outcome === "created"));
+    const stored = await storageModule.storage.listRegistrations(undefined, session.id);
+    assert.equal(stored.filter((registration) => registration.status === "validated").length, 1);
+    const positions = stored
+      .filter((registration) => registration.status === "waitlisted")
+      .map((registration) => registration.waitlistPosition)
+      .sort((a, b) => (a ?? 0) - (b ?? 0));
+    assert.deepEqual(
+      positions,
+      Array.from({ length: PARALLEL_ATTEMPTS - 1 }, (_, index) => index + 1)
+    );
+  });
+
+  test("cancelled and completed sessions refuse registrations", async () => {
+    const formation = await createFormation("session fermée");
+    const [attendee] = await createUsers(1);
+
+    for (const status of ["cancelled", "completed"]) {
+      const session = await createSessionWithOneSeat(formation.id);
+      await storageModule.storage.updateSession(session.id, { status });
+
+      const result = await storageModule.storage.registerWithCapacityCheck({
+        userId: attendee.id,
+        sessionId: session.id,
+        formationId: formation.id,
+        priority: "P3",
+        status: "validated",
+        allowWaitlist: true,
+      });
+
+      assert.deepEqual(result, { outcome: "session_closed", status });
+      const upcoming = await storageModule.storage.getUpcomingSessions(formation.id);
+      assert.ok(upcoming.every((candidate) => candidate.id !== session.id));
+    }
+  });
+
+  test("a user with one P1 left gets exactly one of many parallel P1 interests", async () => {
+    const [consultant] = await createUsers(1);
+    const targets = await Promise.all(
+      Array.from({ length: PARALLEL_ATTEMPTS }, (_, index) => createFormation(`quota ${index}`))
+    );
+    const quota = {
+      cycle: getQuotaCycle(new Date(), DEFAULT_QUOTA_CYCLE_SETTINGS),
+      allowance: { P1: 1, P2: 0 },
+    };
+
+    const results = await Promise.all(
+      targets.map((formation) =>
+        storageModule.storage.createFormationInterestWithQuotaCheck(
+          { userId: consultant.id, formationId: formation.id, priority: "P1", status: "pending" },
+          quota
+        )
+      )
+    );
+
+    assert.equal(results.filter((result) => result.outcome === "created").length, 1);
+    assert.equal(results.filter((result) => result.outcome === "quota_exceeded").length, PARALLEL_ATTEMPTS - 1);
+    const interests = await storageModule.storage.listFormationInterests({ userId: consultant.id });
+    assert.equal(interests.filter((interest) => interest.priority === "P1").length, 1);
+  });
+});
@@ -12,7 +12,18 @@ import {
   appSettings,
   formationMaterials,
   sessionAttendanceTokens,
+  registrationAttendances,
+  certificates,
+  emailOutbox,
+  sessionReminders,
+  notificationPreferences,
+  notificationDigests,
   formationReviews,
+  passwordResetTokens,
+  loginAttempts,
+  auditEvents,
+  quotaCycleUsages,
+  prerequisiteOverrides,
   type User,
   type InsertUser,
   type Formation,
@@ -35,11 +46,42 @@ import {
   type FormationMaterial,
   type InsertFormationMaterial,
   type SessionAttendanceToken,
+  type RegistrationAttendance,
+  type AttendancePeriod,
+  type Certificate,
+  type InsertCertificate,
+  type EmailOutboxEntry,
+  type EmailOutboxStatus,
+  type InsertEmailOutboxEntry,
+  type SessionReminder,
+  type NotificationPreference,
+  type NotificationDigest,
+  type InsertNotificationDigest,
+  type InsertSessionReminder,
+  type PasswordResetToken,
+  type LoginAttempt,
+  type LoginAttemptScope,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type QuotaCycleUsage,
+  type InsertQuotaCycleUsage,
   type FormationReview,
   type InsertFormationReview,
+  type PrerequisiteOverride,
+  type InsertPrerequisiteOverride,
+  resolveSeniorityLevel,
 } from "@shared/schema";
+import type { FormationSort } from "@shared/catalog";
+import { formatFormationDuration, parseFormationDuration } from "@shared/formation-duration";
+import { removePrerequisiteFormation, type PrerequisiteCompletion } from "@shared/formation-prerequisites";
 import { db } from "./db";
-import { eq, and, sql, desc, asc, ne, inArray } from "drizzle-orm";
+import {
+  getQuotaConsumptions,
+  isQuotaPriority,
+  type QuotaAllowance,
+  type QuotaCycle,
+} from "@shared/quota";
+import { eq, and, or, sql, desc, asc, ne, gt, lte, ilike, inArray, notInArray, isNull, isNotNull } from "drizzle-orm";
 
 export const ensureNotificationsTable = (() => {
   let ensurePromise: Promise<void> | null = null;
@@ -76,6 +118,199 @@ export const ensureNotificationsTable = (() => {
           CREATE INDEX IF NOT EXISTS notifications_route_idx
           ON notifications (route)
         `);
+
+        await db.execute(sql`ALTER TABLE notifications ADD COLUMN IF NOT EXISTS category text`);
+        await db.execute(sql`ALTER TABLE notifications ADD COLUMN IF NOT EXISTS kind text`);
+        await db.execute(sql`ALTER TABLE notifications ADD COLUMN IF NOT EXISTS archived_at timestamp`);
+
+        await db.execute(sql`
+          CREATE INDEX IF NOT EXISTS notifications_user_created_idx
+          ON notifications (user_id, created_at DESC)
+        `);
+      })();
+    }
+
+    return ensurePromise;
+  };
+})();
+
+export const ensureNotificationPreferencesTables = (() => {
+  let ensurePromise: Promise<void> | null = null;
+
+  return async () => {
+    if (!ensurePromise) {
+      ensurePromise = (async () => {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS notification_preferences (
+            id varchar(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+            user_id varchar(255) NOT NULL,
+            category text NOT NULL,
+            channel text NOT NULL,
+            updated_at timestamp NOT NULL DEFAULT now()
+          )
+        `);
+
+        await db.execute(sql`
+          CREATE UNIQUE INDEX IF NOT EXISTS notification_preferences_user_category_idx
+          ON notification_preferences (user_id, category)
+        `);
+
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS notification_digests (
+            id varchar(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+            user_id varchar(255) NOT NULL,
+            frequency text NOT NULL,
+            period_key text NOT NULL,
+            item_count integer NOT NULL DEFAULT 0,
+            email_id varchar(255),
+            created_at timestamp NOT NULL DEFAULT now()
+          )
+        `);
+
+        await db.execute(sql`
+          CREATE UNIQUE INDEX IF NOT EXISTS notification_digests_period_idx
+          ON notification_digests (user_id, period_key)
+        `);
+      })();
+    }
+
+    return ensurePromise;
+  };
+})();
+
+export const ensureAuditEventsTable = (() => {
+  let ensurePromise: Promise<void> | null = null;
+
+  return async () => {
+    if (!ensurePromise) {
+      ensurePromise = (async () => {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS audit_events (
+            id varchar(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+            actor_id varchar(255),
+            actor_name text,
+            action varchar(255) NOT NULL,
+            entity_type varchar(64) NOT NULL,
+            entity_id varchar(255),
+            before jsonb,
+            after jsonb,
+            created_at timestamp NOT NULL DEFAULT now()
+          )
+        `);
+
+        await db.execute(sql`
+          CREATE INDEX IF NOT EXISTS audit_events_created_at_idx
+          ON audit_events (created_at DESC)
+        `);
+
+        await db.execute(sql`
+          CREATE INDEX IF NOT EXISTS audit_events_entity_idx
+          ON audit_events (entity_type, entity_id)
+        `);
+
+        await db.execute(sql`
+          CREATE INDEX IF NOT EXISTS audit_events_actor_idx
+          ON audit_events (actor_id)
+        `);
+      })();
+    }
+
+    return ensurePromise;
+  };
+})();
+
+export const ensureEmailOutboxTable = (() => {
+  let ensurePromise: Promise<void> | null = null;
+
+  return async () => {
+    if (!ensurePromise) {
+      ensurePromise = (async () => {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS email_outbox (
+            id varchar(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+            kind text NOT NULL,
+            recipients text[] NOT NULL,
+            subject text NOT NULL,
+            text text NOT NULL,
+            html text NOT NULL,
+            ics_content text,
+            session_id varchar(255),
+            status text NOT NULL DEFAULT 'pending',
+            attempts integer NOT NULL DEFAULT 0,
+            last_error text,
+            next_attempt_at timestamp NOT NULL DEFAULT now(),
+            sent_at timestamp,
+            created_at timestamp NOT NULL DEFAULT now()
+          )
+        `);
+
+        await db.execute(sql`
+          CREATE INDEX IF NOT EXISTS email_outbox_due_idx
+          ON email_outbox (status, next_attempt_at)
+        `);
+      })();
+    }
+
+    return ensurePromise;
+  };
+})();
+
+export const ensureSessionRemindersTable = (() => {
+  let ensurePromise: Promise<void> | null = null;
+
+  return async () => {
+    if (!ensurePromise) {
+      ensurePromise = (async () => {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS session_reminders (
+            id varchar(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+            session_id varchar(255) NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+            registration_id varchar(255) REFERENCES registrations(id) ON DELETE CASCADE,
+            user_id varchar(255) NOT NULL,
+            recipient_role text NOT NULL,
+            offset_days integer NOT NULL,
+            email_id varchar(255),
+            created_at timestamp NOT NULL DEFAULT now()
+          )
+        `);
+
+        await db.execute(sql`
+          CREATE UNIQUE INDEX IF NOT EXISTS session_reminders_unique_idx
+          ON session_reminders (session_id, user_id, recipient_role, offset_days)
+        `);
+      })();
+    }
+
+    return ensurePromise;
+  };
+})();
+
+export const ensureQuotaCycleUsagesTable = (() => {
+  let ensurePromise: Promise<void> | null = null;
+
+  return async () => {
+    if (!ensurePromise) {
+      ensurePromise = (async () => {
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS quota_cycle_usages (
+            id varchar(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+            user_id varchar(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            cycle_year integer NOT NULL,
+            cycle_label text NOT NULL,
+            cycle_start timestamp NOT NULL,
+            cycle_end timestamp NOT NULL,
+            p1_allowance integer NOT NULL,
+            p2_allowance integer NOT NULL,
+            p1_used integer NOT NULL,
+            p2_used integer NOT NULL,
+            archived_at timestamp NOT NULL DEFAULT now()
+          )
+        `);
+
+        await db.execute(sql`
+          CREATE UNIQUE INDEX IF NOT EXISTS quota_cycle_usages_user_cycle_idx
+          ON quota_cycle_usages (user_id, cycle_year)
+        `);
       })();
     }
 
@@ -93,6 +328,12 @@ export const ensureFormationContentInfrastructure = (() => {
         await db.execute(
           sql`ALTER TABLE registrations ADD COLUMN IF NOT EXISTS attendance_signed_at timestamp`
         );
+        await db.execute(
+          sql`ALTER TABLE registrations ADD COLUMN IF NOT EXISTS waitlist_position integer`
+        );
+        await db.execute(sql`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS cancellation_reason text`);
+        await db.execute(sql`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS cancelled_at timestamp`);
+        await db.execute(sql`ALTER TABLE sessions ADD COLUMN IF NOT EXISTS meeting_url text`);
 
         await db.execute(sql`
           CREATE TABLE IF NOT EXISTS formation_materials (
@@ -152,6 +393,290 @@ export const ensureFormationContentInfrastructure = (() => {
           CREATE INDEX IF NOT EXISTS session_attendance_tokens_session_idx
             ON session_attendance_tokens (session_id)
         `);
+
+        await db.execute(sql`
+          ALTER TABLE session_attendance_tokens
+            ADD COLUMN IF NOT EXISTS segment_index integer NOT NULL DEFAULT 0,
+            ADD COLUMN IF NOT EXISTS period text NOT NULL DEFAULT 'day',
+            ADD COLUMN IF NOT EXISTS live boolean NOT NULL DEFAULT false
+        `);
+
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS registration_attendances (
+            id varchar(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+            registration_id varchar(255) NOT NULL REFERENCES registrations(id) ON DELETE CASCADE,
+            session_id varchar(255) NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+            segment_index integer NOT NULL,
+            period text NOT NULL,
+            code_window integer,
+            signed_at timestamp NOT NULL DEFAULT now()
+          )
+        `);
+
+        await db.execute(
+          sql`ALTER TABLE registration_attendances ADD COLUMN IF NOT EXISTS code_window integer`
+        );
+
+        await db.execute(sql`
+          CREATE UNIQUE INDEX IF NOT EXISTS registration_attendances_slot_idx
+            ON registration_attendances (registration_id, segment_index, period)
+        `);
+
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS certificates (
+            id varchar(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+            registration_id varchar(255) NOT NULL REFERENCES registrations(id) ON DELETE CASCADE,
+            user_id varchar(255) NOT NULL,
+            session_id varchar(255) NOT NULL,
+            formation_id varchar(255) NOT NULL,
+            code varchar(255) NOT NULL,
+            issued_at timestamp NOT NULL DEFAULT now()
+          )
+        `);
+
+        await db.execute(sql`
+          CREATE UNIQUE INDEX IF NOT EXISTS certificates_registration_idx
+            ON certificates (registration_id)
+        `);
+
+        await db.execute(sql`
+          CREATE UNIQUE INDEX IF NOT EXISTS certificates_code_idx ON certificates (code)
+        `);
+      })();
+    }
+
+    return ensurePromise;
+  };
+})();
+
+/**
+ * Adds the structured duration columns and converts the free-text durations once. Values
+ * the parser does not understand keep a null unit and are listed to RH for manual fixing.
+ */
+export const ensureFormationDurationInfrastructure = (() => {
+  let ensurePromise: Promise<void> | null = null;
+
+  return async () => {
+    if (!ensurePromise) {
+      ensurePromise = (async () => {
+        await db.execute(sql`
+          ALTER TABLE formations
+            ADD COLUMN IF NOT EXISTS duration_unit text,
+            ADD COLUMN IF NOT EXISTS duration_value real,
+            ADD COLUMN IF NOT EXISTS daily_schedule jsonb
+        `);
+
+        const legacyFormations = await db
+          .select({ id: formations.id, duration: formations.duration })
+          .from(formations)
+          .where(isNull(formations.durationUnit));
+
+        let unparsed = 0;
+        for (const formation of legacyFormations) {
+          const parsed = parseFormationDuration(formation.duration);
+          if (!parsed) {
+            unparsed += 1;
+            continue;
+          }
+          await db
+            .update(formations)
+            .set({
+              durationUnit: parsed.unit,
+              durationValue: parsed.value,
+              duration: formatFormationDuration(parsed),
+            })
+            .where(eq(formations.id, formation.id));
+        }
+
+        if (unparsed > 0) {
+          console.warn(`[formations] ${unparsed} formation durations could not be parsed and need fixing by RH`);
+        }
+      })();
+    }
+
+    return ensurePromise;
+  };
+})();
+
+export const ensureFormationPrerequisiteInfrastructure = (() => {
+  let ensurePromise: Promise<void> | null = null;
+
+  return async () => {
+    if (!ensurePromise) {
+      ensurePromise = (async () => {
+        await db.execute(sql`
+          ALTER TABLE formations
+            ADD COLUMN IF NOT EXISTS prerequisite_groups jsonb
+        `);
+
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS prerequisite_overrides (
+            id varchar(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+            user_id varchar(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            formation_id varchar(255) NOT NULL REFERENCES formations(id) ON DELETE CASCADE,
+            reason text NOT NULL,
+            granted_by varchar(255),
+            created_at timestamp NOT NULL DEFAULT now()
+          )
+        `);
+
+        await db.execute(sql`
+          CREATE UNIQUE INDEX IF NOT EXISTS prerequisite_overrides_user_formation_idx
+          ON prerequisite_overrides (user_id, formation_id)
+        `);
+      })();
+    }
+
+    return ensurePromise;
+  };
+})();
+
+/**
+ * Full-text search over the catalog: French stemming on unaccented words, so "gestion
+ * d'equipe" matches "Gérer une équipe". The indexed expression must stay identical to
+ * `formationSearchVector` below for Postgres to use the index.
+ */
+export const ensureFormationSearchInfrastructure = (() => {
+  let ensurePromise: Promise<void> | null = null;
+
+  return async () => {
+    if (!ensurePromise) {
+      ensurePromise = (async () => {
+        await db.execute(sql`CREATE EXTENSION IF NOT EXISTS "unaccent"`);
+
+        await db.execute(sql`
+          DO $$
+          BEGIN
+            IF NOT EXISTS (
+              SELECT 1 FROM pg_ts_config
+              WHERE cfgname = 'french_unaccent' AND cfgnamespace = 'public'::regnamespace
+            ) THEN
+              CREATE TEXT SEARCH CONFIGURATION public.french_unaccent (COPY = french);
+              ALTER TEXT SEARCH CONFIGURATION public.french_unaccent
+                ALTER MAPPING FOR hword, hword_part, word WITH unaccent, french_stem;
+            END IF;
+          END
+          $$
+        `);
+
+        // Title weighs most, then tags, then the descriptive fields, then the long-form content.
+        // The configuration is schema-qualified: Postgres 17+ builds indexes with an empty search_path
+        await db.execute(sql`
+          CREATE OR REPLACE FUNCTION formation_search_vector(
+            title text,
+            description text,
+            objectives text,
+            tags text[],
+            content text
+          ) RETURNS tsvector
+          LANGUAGE sql IMMUTABLE
+          AS $$
+            SELECT
+              setweight(to_tsvector('public.french_unaccent'::regconfig, coalesce(title, '')), 'A') ||
+              setweight(to_tsvector('public.french_unaccent'::regconfig, coalesce(array_to_string(tags, ' '), '')), 'B') ||
+              setweight(
+                to_tsvector('public.french_unaccent'::regconfig, coalesce(description, '') || ' ' || coalesce(objectives, '')),
+                'C'
+              ) ||
+              setweight(to_tsvector('public.french_unaccent'::regconfig, coalesce(content, '')), 'D')
+          $$
+        `);
+
+        await db.execute(sql`
+          CREATE INDEX IF NOT EXISTS formations_search_idx
+            ON formations
+            USING GIN (formation_search_vector(title, description, objectives, tags, content))
+        `);
+      })();
+
+      // A failure (e.g. unaccent not installable) must not be cached: the next search tries again
+      ensurePromise.catch(() => {
+        ensurePromise = null;
+      });
+    }
+
+    return ensurePromise;
+  };
+})();
+
+const formationSearchVector = sql`formation_search_vector(${formations.title}, ${formations.description}, ${formations.objectives}, ${formations.tags}, ${formations.content})`;
+
+// Every word of the query must match, each as a prefix so results follow the typing.
+// Single letters are dropped: elisions ("d'équipe") would otherwise match every word.
+const toFormationSearchTerms = (query: string) =>
+  query.split(/[^0-9a-zA-ZÀ-ɏ]+/).filter((term) => term.length > 1);
+
+const toFormationSearchQuery = (query: string) => {
+  const terms = toFormationSearchTerms(query).map((term) => `${term}:*`);
+  return terms.length > 0 ? terms.join(" & ") : null;
+};
+
+// Substring match used while full-text search cannot be set up: no stemming, accents or ranking
+const toFormationSubstringCondition = (query: string) => {
+  const terms = toFormationSearchTerms(query);
+  if (terms.length === 0) {
+    return null;
+  }
+  return and(
+    ...terms.map((term) => {
+      const pattern = `%${term}%`;
+      return or(
+        ilike(formations.title, pattern),
+        ilike(formations.description, pattern),
+        ilike(formations.objectives, pattern),
+        sql`array_to_string(${formations.tags}, ' ') ILIKE ${pattern}`,
+        ilike(formations.content, pattern)
+      );
+    })
+  );
+};
+
+export const ensureAuthInfrastructure = (() => {
+  let ensurePromise: Promise<void> | null = null;
+
+  return async () => {
+    if (!ensurePromise) {
+      ensurePromise = (async () => {
+        await db.execute(
+          sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS must_change_password boolean DEFAULT false`
+        );
+
+        await db.execute(
+          sql`ALTER TABLE users ADD COLUMN IF NOT EXISTS sso_roles text[] NOT NULL DEFAULT '{}'::text[]`
+        );
+
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS password_reset_tokens (
+            id varchar(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+            user_id varchar(255) NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+            token_hash varchar(255) NOT NULL UNIQUE,
+            expires_at timestamp NOT NULL,
+            used_at timestamp,
+            created_at timestamp DEFAULT now()
+          )
+        `);
+
+        await db.execute(sql`
+          CREATE INDEX IF NOT EXISTS password_reset_tokens_user_idx
+            ON password_reset_tokens (user_id)
+        `);
+
+        await db.execute(sql`
+          CREATE TABLE IF NOT EXISTS login_attempts (
+            id varchar(255) PRIMARY KEY DEFAULT gen_random_uuid(),
+            scope varchar(16) NOT NULL,
+            identifier varchar(255) NOT NULL,
+            failure_count integer NOT NULL DEFAULT 0,
+            last_failure_at timestamp,
+            locked_until timestamp,
+            created_at timestamp DEFAULT now()
+          )
+        `);
+
+        await db.execute(sql`
+          CREATE UNIQUE INDEX IF NOT EXISTS login_attempts_scope_identifier_idx
+            ON login_attempts (scope, identifier)
+        `);
       })();
     }
 
@@ -159,6 +684,248 @@ export const ensureFormationContentInfrastructure = (() => {
   };
 })();
 
+export interface NotificationFilters {
+  read?: boolean;
+  archived?: boolean;
+  category?: string;
+  kind?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FormationSearchFilters {
+  query?: string;
+  themes?: string[];
+  modalities?: string[];
+  seniorities?: string[];
+  sort?: FormationSort;
+  activeOnly?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export type FormationSearchResult = Formation & { nextSessionDate: Date | null };
+
+export interface AuditEventFilters {
+  actorId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Cycle and allowance the caller resolved for the user whose quota is being spent
+export interface QuotaCheck {
+  cycle: QuotaCycle;
+  allowance: QuotaAllowance;
+}
+
+export type InterestAttemptResult =
+  | { outcome: "created"; interest: FormationInterest }
+  | { outcome: "already_active" }
+  | { outcome: "quota_exceeded" };
+
+export interface RegistrationAttempt {
+  userId: string;
+  sessionId: string;
+  formationId: string;
+  priority: string;
+  status: string;
+  // Approved intention to mark as converted along with the registration
+  convertInterestId?: string;
+  // RH enrolment without intention: a validated intention is created in the same transaction
+  createInterestWithQuota?: QuotaCheck;
+  // Queue the registration instead of failing when the session is full
+  allowWaitlist?: boolean;
+}
+
+export type RegistrationAttemptResult =
+  | { outcome: "created"; registration: Registration; createdInterest?: FormationInterest }
+  | { outcome: "session_not_found" }
+  | { outcome: "session_full" }
+  // Completed or cancelled sessions no longer take registrations
+  | { outcome: "session_closed"; status: string }
+  | { outcome: "already_registered" }
+  | { outcome: "quota_exceeded" };
+
+export interface SessionLifecycleSummary {
+  completedSessions: number;
+  completedRegistrations: number;
+  // Waitlisted or pending registrations of completed sessions, moved to `cancelled`
+  expiredRegistrations: number;
+  fullSessions: number;
+  reopenedSessions: number;
+}
+
+export type SessionCancellationResult =
+  | {
+      outcome: "cancelled";
+      session: Session;
+      // Registrations that were still active, with the status they had before the cancellation
+      cancelledRegistrations: Registration[];
+      restoredInterests: FormationInterest[];
+    }
+  | { outcome: "not_found" }
+  | { outcome: "already_cancelled" };
+
+export type RegistrationUpdateResult =
+  | { outcome: "updated"; registration: Registration }
+  | { outcome: "not_found" }
+  | { outcome: "quota_exceeded" };
+
+// Registrations that hold a seat; waitlisted ones only queue for a seat
+const SEAT_EXCLUDED_STATUSES = ["cancelled", "waitlisted"];
+
+// Sessions that are over or called off: neither listed as upcoming nor open to registration
+const CLOSED_SESSION_STATUSES = ["completed", "cancelled"];
+
+// P1 first, then P2, then everything else, earliest registration first within a priority
+const waitlistOrder = [
+  sql`CASE ${registrations.priority} WHEN 'P1' THEN 1 WHEN 'P2' THEN 2 ELSE 3 END`,
+  asc(registrations.registeredAt),
+];
+
+const countOccupiedSeats = async (tx: Transaction, sessionId: string) => {
+  const [result] = await tx
+    .select({ count: sql<number>`count(*)::int` })
+    .from(registrations)
+    .where(
+      and(
+        eq(registrations.sessionId, sessionId),
+        notInArray(registrations.status, SEAT_EXCLUDED_STATUSES)
+      )
+    );
+  return Number(result?.count ?? 0);
+};
+
+// Rewrites the 1-based positions of the session's waitlist and clears stale ones
+const renumberWaitlist = async (tx: Transaction, sessionId: string) => {
+  await tx
+    .update(registrations)
+    .set({ waitlistPosition: null })
+    .where(
+      and(
+        eq(registrations.sessionId, sessionId),
+        ne(registrations.status, "waitlisted"),
+        sql`${registrations.waitlistPosition} IS NOT NULL`
+      )
+    );
+
+  const waitlisted = await tx
+    .select({ id: registrations.id, waitlistPosition: registrations.waitlistPosition })
+    .from(registrations)
+    .where(and(eq(registrations.sessionId, sessionId), eq(registrations.status, "waitlisted")))
+    .orderBy(...waitlistOrder);
+
+  for (let index = 0; index < waitlisted.length; index += 1) {
+    if (waitlisted[index].waitlistPosition !== index + 1) {
+      await tx
+        .update(registrations)
+        .set({ waitlistPosition: index + 1 })
+        .where(eq(registrations.id, waitlisted[index].id));
+    }
+  }
+};
+
+const normalizeInterestInsert = (insertInterest: InsertFormationInterest & { status: string }) => {
+  const { customPlannedDate, completedAt, ...rest } = insertInterest;
+  return {
+    ...rest,
+    customPlannedDate:
+      typeof customPlannedDate === "string"
+        ? new Date(customPlannedDate)
+        : customPlannedDate ?? undefined,
+    completedAt:
+      typeof completedAt === "string" ? new Date(completedAt) : completedAt ?? undefined,
+  } satisfies InsertFormationInterest & { status: string };
+};
+
+/**
+ * Locks the user row for the rest of the transaction, then recomputes the quota usage
+ * from the user's intentions and registrations. Concurrent requests spending the same
+ * user's quota are serialised on that lock, so usage cannot be read twice before a write.
+ */
+const lockQuotaAndCheck = async (
+  tx: Transaction,
+  userId: string,
+  priority: string,
+  consumptionKey: string | null,
+  quota: QuotaCheck
+) => {
+  if (!isQuotaPriority(priority)) {
+    return true;
+  }
+
+  await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+
+  const [userInterests, userRegistrations] = await Promise.all([
+    tx.select().from(formationInterests).where(eq(formationInterests.userId, userId)),
+    tx.select().from(registrations).where(eq(registrations.userId, userId)),
+  ]);
+
+  const consumptions = getQuotaConsumptions(userInterests, userRegistrations, quota.cycle);
+  if (consumptionKey && consumptions[priority].has(consumptionKey)) {
+    return true;
+  }
+  return consumptions[priority].size < quota.allowance[priority];
+};
+
+/**
+ * Puts converted intentions back to `approved` for participants whose registrations were
+ * just cancelled, so they keep their P1/P2 and can enrol in another session. Intentions
+ * still backed by a seat in another session of the formation stay converted.
+ */
+const restoreUnusedInterests = async (
+  tx: Transaction,
+  cancelledRegistrations: Array<Pick<Registration, "userId" | "formationId">>
+) => {
+  const restoredInterests: FormationInterest[] = [];
+  const participants = cancelledRegistrations.filter(
+    (registration, index) =>
+      cancelledRegistrations.findIndex(
+        (other) => other.userId === registration.userId && other.formationId === registration.formationId
+      ) === index
+  );
+
+  for (const { userId, formationId } of participants) {
+    const [otherRegistration] = await tx
+      .select({ id: registrations.id })
+      .from(registrations)
+      .where(
+        and(
+          eq(registrations.userId, userId),
+          eq(registrations.formationId, formationId),
+          notInArray(registrations.status, SEAT_EXCLUDED_STATUSES)
+        )
+      )
+      .limit(1);
+
+    if (otherRegistration) {
+      continue;
+    }
+
+    const restored = await tx
+      .update(formationInterests)
+      .set({ status: "approved" })
+      .where(
+        and(
+          eq(formationInterests.userId, userId),
+          eq(formationInterests.formationId, formationId),
+          eq(formationInterests.status, "converted")
+        )
+      )
+      .returning();
+    restoredInterests.push(...restored);
+  }
+
+  return restoredInterests;
+};
+
 export interface IStorage {
   // User methods
   getUser(id: string): Promise<User | undefined>;
@@ -172,6 +939,10 @@ export interface IStorage {
   // Formation methods
   getFormation(id: string): Promise<Formation | undefined>;
   listFormations(activeOnly?: boolean): Promise<Formation[]>;
+  countFormations(activeOnly?: boolean): Promise<number>;
+  searchFormations(
+    filters?: FormationSearchFilters
+  ): Promise<{ formations: FormationSearchResult[]; total: number }>;
   createFormation(formation: InsertFormation): Promise<Formation>;
   updateFormation(id: string, updates: Partial<InsertFormation>): Promise<Formation | undefined>;
   deleteFormation(id: string): Promise<boolean>;
@@ -190,11 +961,17 @@ export interface IStorage {
   createSession(session: InsertSession): Promise<Session>;
   updateSession(id: string, updates: Partial<InsertSession>): Promise<Session | undefined>;
   deleteSession(id: string): Promise<boolean>;
+  cancelSession(id: string, reason: string): Promise<SessionCancellationResult>;
+  syncSessionLifecycle(now?: Date): Promise<SessionLifecycleSummary>;
 
   // Formation Interest methods
   getFormationInterest(id: string): Promise<FormationInterest | undefined>;
   listFormationInterests(filters?: { userId?: string; formationId?: string }): Promise<FormationInterest[]>;
   createFormationInterest(interest: InsertFormationInterest & { status: string }): Promise<FormationInterest>;
+  createFormationInterestWithQuotaCheck(
+    interest: InsertFormationInterest & { status: string },
+    quota: QuotaCheck
+  ): Promise<InterestAttemptResult>;
   updateFormationInterest(id: string, updates: Partial<FormationInterest>): Promise<FormationInterest | undefined>;
   deleteFormationInterest(id: string): Promise<boolean>;
 
@@ -203,8 +980,16 @@ export interface IStorage {
   listRegistrations(userId?: string, sessionId?: string): Promise<Registration[]>;
   listAllRegistrations(): Promise<Registration[]>;
   listRegistrationsForUsers(userIds: string[]): Promise<Registration[]>;
+  listFormationCompletions(userId: string): Promise<PrerequisiteCompletion[]>;
   createRegistration(registration: InsertRegistration & { status: string }): Promise<Registration>;
   updateRegistration(id: string, updates: Partial<InsertRegistration>): Promise<Registration | undefined>;
+  registerWithCapacityCheck(attempt: RegistrationAttempt): Promise<RegistrationAttemptResult>;
+  updateRegistrationWithQuotaCheck(
+    id: string,
+    updates: Partial<InsertRegistration>,
+    quota: QuotaCheck
+  ): Promise<RegistrationUpdateResult>;
+  promoteFromWaitlist(sessionId: string): Promise<Registration[]>;
   deleteRegistration(id: string): Promise<boolean>;
   getRegistrationCount(sessionId: string): Promise<number>;
   getRegistrationByUserAndSession(userId: string, sessionId: string): Promise<Registration | undefined>;
@@ -212,6 +997,35 @@ export interface IStorage {
     registrationId: string,
     attendance: { attended: boolean; attendanceSignedAt: Date }
   ): Promise<Registration | undefined>;
+  recordSegmentAttendance(attendance: {
+    registrationId: string;
+    sessionId: string;
+    segmentIndex: number;
+    period: AttendancePeriod;
+    codeWindow: number | null;
+    signedAt: Date;
+  }): Promise<RegistrationAttendance | undefined>;
+  listRegistrationAttendances(registrationIds: string[]): Promise<RegistrationAttendance[]>;
+
+  // Email outbox methods
+  enqueueOutboxEmail(email: InsertEmailOutboxEntry): Promise<EmailOutboxEntry>;
+  getOutboxEmail(id: string): Promise<EmailOutboxEntry | undefined>;
+  listOutboxEmails(filters?: { status?: EmailOutboxStatus; limit?: number }): Promise<EmailOutboxEntry[]>;
+  claimDueOutboxEmails(options: { now: Date; limit: number; leaseMs: number }): Promise<EmailOutboxEntry[]>;
+  updateOutboxEmail(id: string, updates: Partial<InsertEmailOutboxEntry>): Promise<EmailOutboxEntry | undefined>;
+
+  // Session reminder methods
+  listSessionsStartingBetween(from: Date, to: Date): Promise<Session[]>;
+  listSessionReminders(sessionId: string): Promise<SessionReminder[]>;
+  recordSessionReminder(
+    reminder: InsertSessionReminder,
+    email: InsertEmailOutboxEntry
+  ): Promise<SessionReminder | undefined>;
+
+  // Certificate methods
+  issueCertificate(certificate: InsertCertificate): Promise<Certificate>;
+  getCertificateByCode(code: string): Promise<Certificate | undefined>;
+  listCertificatesForRegistrations(registrationIds: string[]): Promise<Certificate[]>;
 
   // Formation review methods
   listFormationReviews(formationId: string): Promise<FormationReview[]>;
@@ -235,6 +1049,9 @@ export interface IStorage {
   createSessionAttendanceToken(data: {
     sessionId: string;
     token: string;
+    segmentIndex: number;
+    period: AttendancePeriod;
+    live: boolean;
     expiresAt: Date;
     createdBy: string;
   }): Promise<SessionAttendanceToken>;
@@ -242,6 +1059,32 @@ export interface IStorage {
   deleteSessionAttendanceToken(id: string): Promise<boolean>;
   cleanupExpiredAttendanceTokens(referenceDate?: Date): Promise<number>;
 
+  // Password reset tokens
+  createPasswordResetToken(data: {
+    userId: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  consumePasswordResetToken(id: string): Promise<boolean>;
+  invalidatePasswordResetTokensForUser(userId: string): Promise<number>;
+  cleanupExpiredPasswordResetTokens(referenceDate?: Date): Promise<number>;
+
+  // Login throttling
+  getLoginAttempts(
+    keys: Array<{ scope: LoginAttemptScope; identifier: string }>
+  ): Promise<LoginAttempt[]>;
+  recordLoginFailure(
+    key: { scope: LoginAttemptScope; identifier: string },
+    policy: { maxFailures: number; lockDurationMs: number; failureWindowMs: number }
+  ): Promise<LoginAttempt>;
+  clearLoginAttempts(scope: LoginAttemptScope, identifier: string): Promise<boolean>;
+  listLockedLoginAttempts(scope: LoginAttemptScope, referenceDate?: Date): Promise<LoginAttempt[]>;
+
+  // Audit trail
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  listAuditEvents(filters?: AuditEventFilters): Promise<{ events: AuditEvent[]; total: number }>;
+
   // Instructor Formation methods
   getInstructorFormations(instructorId: string): Promise<string[]>;
   addInstructorFormation(instructorId: string, formationId: string): Promise<InstructorFormation>;
@@ -258,13 +1101,32 @@ export interface IStorage {
   deleteInstructorAvailability(instructorId: string, formationId: string): Promise<boolean>;
 
   // Notification methods
-  listNotifications(userId: string): Promise<Notification[]>;
+  listNotifications(userId: string, limit?: number): Promise<Notification[]>;
+  listNotificationsPage(
+    userId: string,
+    filters?: NotificationFilters
+  ): Promise<{ notifications: Notification[]; total: number }>;
+  getNotification(id: string): Promise<Notification | undefined>;
   createNotification(notification: InsertNotification): Promise<Notification>;
+  createNotifications(notifications: InsertNotification[]): Promise<Notification[]>;
   markNotificationsRead(
     userId: string,
     filter?: { notificationIds?: string[]; route?: string }
   ): Promise<number>;
+  markNotificationsUnread(userId: string, notificationIds: string[]): Promise<number>;
+  setNotificationsArchived(userId: string, notificationIds: string[], archived: boolean): Promise<number>;
   getUnreadNotificationCounts(userId: string): Promise<Array<{ route: string; count: number }>>;
+  listNotificationsSince(userId: string, since: Date, categories: string[]): Promise<Notification[]>;
+
+  // Notification preference and digest methods
+  listNotificationPreferences(userIds: string[]): Promise<NotificationPreference[]>;
+  listNotificationPreferencesByChannel(channel: string): Promise<NotificationPreference[]>;
+  setNotificationPreferences(userId: string, preferences: Record<string, string>): Promise<void>;
+  getLatestNotificationDigest(userId: string, frequency: string): Promise<NotificationDigest | undefined>;
+  recordNotificationDigest(
+    digest: InsertNotificationDigest,
+    email: InsertEmailOutboxEntry | null
+  ): Promise<NotificationDigest | undefined>;
 
   // Coach assignments
   listCoachAssignments(): Promise<CoachAssignment[]>;
@@ -277,9 +1139,20 @@ export interface IStorage {
   deleteCoachAssignmentsForCoach(coachId: string): Promise<number>;
   deleteCoachAssignmentsForCoachee(coacheeId: string): Promise<number>;
 
+  // Prerequisite overrides
+  listPrerequisiteOverrides(filters?: { userId?: string; formationId?: string }): Promise<PrerequisiteOverride[]>;
+  getPrerequisiteOverride(id: string): Promise<PrerequisiteOverride | undefined>;
+  getPrerequisiteOverrideForUser(userId: string, formationId: string): Promise<PrerequisiteOverride | undefined>;
+  grantPrerequisiteOverride(override: InsertPrerequisiteOverride): Promise<PrerequisiteOverride>;
+  deletePrerequisiteOverride(id: string): Promise<boolean>;
+
   // Settings
   getSetting<T>(key: string): Promise<T | null>;
   setSetting<T>(key: string, value: T): Promise<AppSetting>;
+
+  // Quota cycles
+  listQuotaCycleUsages(userId: string): Promise<QuotaCycleUsage[]>;
+  saveQuotaCycleUsages(usages: InsertQuotaCycleUsage[]): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -335,6 +1208,107 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(formations);
   }
 
+  async countFormations(activeOnly: boolean = true): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(formations)
+      .where(activeOnly ? eq(formations.active, true) : undefined);
+    return count;
+  }
+
+  async searchFormations(
+    filters: FormationSearchFilters = {}
+  ): Promise<{ formations: FormationSearchResult[]; total: number }> {
+    const fullTextAvailable = await ensureFormationSearchInfrastructure().then(
+      () => true,
+      (error) => {
+        console.error("[catalog] Full-text search is unavailable, falling back to substring search", error);
+        return false;
+      }
+    );
+    const conditions = [];
+
+    if (filters.activeOnly ?? true) {
+      conditions.push(eq(formations.active, true));
+    }
+    if (filters.themes && filters.themes.length > 0) {
+      conditions.push(inArray(formations.theme, filters.themes));
+    }
+    if (filters.modalities && filters.modalities.length > 0) {
+      conditions.push(inArray(formations.modality, filters.modalities));
+    }
+    if (filters.seniorities && filters.seniorities.length > 0) {
+      // Older formations store legacy levels ("confirme"), matched through their current name
+      const selected = filters.seniorities;
+      const storedLevels = await db
+        .selectDistinct({ seniority: formations.seniorityRequired })
+        .from(formations)
+        .where(isNotNull(formations.seniorityRequired));
+      const matchingLevels = storedLevels
+        .map((row) => row.seniority as string)
+        .filter((level) => selected.includes(resolveSeniorityLevel(level) ?? level));
+      if (matchingLevels.length === 0) {
+        return { formations: [], total: 0 };
+      }
+      conditions.push(inArray(formations.seniorityRequired, matchingLevels));
+    }
+
+    const searchQuery = filters.query && fullTextAvailable ? toFormationSearchQuery(filters.query) : null;
+    const tsQuery = searchQuery ? sql`to_tsquery('public.french_unaccent', ${searchQuery})` : null;
+    if (tsQuery) {
+      conditions.push(sql`${formationSearchVector} @@ ${tsQuery}`);
+    }
+    const substringCondition =
+      filters.query && !fullTextAvailable ? toFormationSubstringCondition(filters.query) : null;
+    if (substringCondition) {
+      conditions.push(substringCondition);
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(formations)
+      .where(whereClause);
+
+    const nextSessionDate = sql`(
+      SELECT min(${sessions.startDate}) FROM ${sessions}
+      WHERE ${sessions.formationId} = ${formations.id}
+        AND ${sessions.status} = 'open'
+        AND ${sessions.startDate} > now()
+    )`;
+    const averageRating = sql`(
+      SELECT avg(${formationReviews.rating}) FROM ${formationReviews}
+      WHERE ${formationReviews.formationId} = ${formations.id}
+    )`;
+
+    const sort = filters.sort ?? "relevance";
+    const orderBy =
+      sort === "rating"
+        ? [sql`${averageRating} DESC NULLS LAST`]
+        : sort === "next_session"
+          ? [sql`${nextSessionDate} ASC NULLS LAST`]
+          : tsQuery
+            ? [sql`ts_rank_cd(${formationSearchVector}, ${tsQuery}) DESC`]
+            : [];
+
+    const rows = await db
+      .select({
+        formation: formations,
+        nextSessionDate: nextSessionDate.mapWith(sessions.startDate),
+      })
+      .from(formations)
+      .where(whereClause)
+      .orderBy(...orderBy, asc(formations.title), asc(formations.id))
+      .limit(filters.limit ?? 20)
+      .offset(filters.offset ?? 0);
+
+    return {
+      formations: rows.map((row) => ({ ...row.formation, nextSessionDate: row.nextSessionDate ?? null })),
+      total: count,
+    };
+  }
+
   async createFormation(insertFormation: InsertFormation): Promise<Formation> {
     const [formation] = await db.insert(formations).values(insertFormation).returning();
     return formation;
@@ -350,8 +1324,28 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteFormation(id: string): Promise<boolean> {
-    const result = await db.delete(formations).where(eq(formations.id, id));
-    return result.rowCount ? result.rowCount > 0 : false;
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(formations).where(eq(formations.id, id));
+
+      // Formations that required the deleted one no longer wait for it
+      const dependents = await tx
+        .select({ id: formations.id, prerequisiteGroups: formations.prerequisiteGroups })
+        .from(formations)
+        .where(isNotNull(formations.prerequisiteGroups));
+      for (const dependent of dependents) {
+        const groups = dependent.prerequisiteGroups ?? [];
+        if (!groups.some((group) => group.formationIds.includes(id))) {
+          continue;
+        }
+        const remaining = removePrerequisiteFormation(groups, id);
+        await tx
+          .update(formations)
+          .set({ prerequisiteGroups: remaining.length > 0 ? remaining : null })
+          .where(eq(formations.id, dependent.id));
+      }
+
+      return result.rowCount ? result.rowCount > 0 : false;
+    });
   }
 
   async listFormationMaterials(formationId: string): Promise<FormationMaterial[]> {
@@ -408,13 +1402,19 @@ export class DatabaseStorage implements IStorage {
       return await db
         .select()
         .from(sessions)
-        .where(and(eq(sessions.formationId, formationId), sql`${sessions.startDate} > ${now}`))
+        .where(
+          and(
+            eq(sessions.formationId, formationId),
+            sql`${sessions.startDate} > ${now}`,
+            notInArray(sessions.status, CLOSED_SESSION_STATUSES)
+          )
+        )
         .orderBy(asc(sessions.startDate));
     }
     return await db
       .select()
       .from(sessions)
-      .where(sql`${sessions.startDate} > ${now}`)
+      .where(and(sql`${sessions.startDate} > ${now}`, notInArray(sessions.status, CLOSED_SESSION_STATUSES)))
       .orderBy(asc(sessions.startDate));
   }
 
@@ -445,6 +1445,139 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount ? result.rowCount > 0 : false;
   }
 
+  /**
+   * Cancels the session and its registrations in one transaction. Converted intentions
+   * go back to approved, unless another active registration still covers the formation,
+   * so that participants keep their P1/P2 and can enrol in another session.
+   */
+  async cancelSession(id: string, reason: string): Promise<SessionCancellationResult> {
+    return await db.transaction(async (tx) => {
+      const [session] = await tx.select().from(sessions).where(eq(sessions.id, id)).for("update");
+
+      if (!session) {
+        return { outcome: "not_found" };
+      }
+      if (session.status === "cancelled") {
+        return { outcome: "already_cancelled" };
+      }
+
+      const [cancelledSession] = await tx
+        .update(sessions)
+        .set({ status: "cancelled", cancellationReason: reason, cancelledAt: new Date() })
+        .where(eq(sessions.id, id))
+        .returning();
+
+      const cancelledRegistrations = await tx
+        .select()
+        .from(registrations)
+        .where(and(eq(registrations.sessionId, id), ne(registrations.status, "cancelled")));
+
+      if (cancelledRegistrations.length > 0) {
+        await tx
+          .update(registrations)
+          .set({ status: "cancelled", waitlistPosition: null })
+          .where(inArray(registrations.id, cancelledRegistrations.map((registration) => registration.id)));
+      }
+
+      const restoredInterests = await restoreUnusedInterests(tx, cancelledRegistrations);
+
+      return {
+        outcome: "cancelled",
+        session: cancelledSession,
+        cancelledRegistrations,
+        restoredInterests,
+      };
+    });
+  }
+
+  /**
+   * Derives session and registration statuses from dates and seat usage. Cancelled
+   * sessions are left alone, and completed registrations keep the `attended` flag
+   * recorded by the QR sign-ins.
+   */
+  async syncSessionLifecycle(now: Date = new Date()): Promise<SessionLifecycleSummary> {
+    return await db.transaction(async (tx) => {
+      const completedSessions = await tx
+        .update(sessions)
+        .set({ status: "completed" })
+        .where(and(inArray(sessions.status, ["open", "full"]), lte(sessions.endDate, now)))
+        .returning({ id: sessions.id });
+
+      // Also covers sessions RH marked as completed by hand
+      const completedRegistrations = await tx
+        .update(registrations)
+        .set({ status: "completed" })
+        .where(
+          and(
+            eq(registrations.status, "validated"),
+            inArray(
+              registrations.sessionId,
+              tx
+                .select({ id: sessions.id })
+                .from(sessions)
+                .where(and(eq(sessions.status, "completed"), lte(sessions.endDate, now)))
+            )
+          )
+        )
+        .returning({ id: registrations.id });
+
+      // Nobody left waiting for a seat or a validation can still attend a session that is over
+      const expiredRegistrations = await tx
+        .update(registrations)
+        .set({ status: "cancelled", waitlistPosition: null })
+        .where(
+          and(
+            inArray(registrations.status, ["waitlisted", "pending"]),
+            inArray(
+              registrations.sessionId,
+              tx
+                .select({ id: sessions.id })
+                .from(sessions)
+                .where(and(eq(sessions.status, "completed"), lte(sessions.endDate, now)))
+            )
+          )
+        )
+        .returning({ userId: registrations.userId, formationId: registrations.formationId });
+      await restoreUnusedInterests(tx, expiredRegistrations);
+
+      const upcomingSessions = await tx
+        .select({
+          id: sessions.id,
+          status: sessions.status,
+          capacity: sessions.capacity,
+          occupiedSeats: sql<number>`(
+            SELECT count(*)::int FROM registrations
+            WHERE registrations.session_id = ${sessions.id}
+              AND registrations.status NOT IN ('cancelled', 'waitlisted')
+          )`,
+        })
+        .from(sessions)
+        .where(and(inArray(sessions.status, ["open", "full"]), gt(sessions.endDate, now)));
+
+      const toFull = upcomingSessions
+        .filter((session) => session.status === "open" && Number(session.occupiedSeats) >= session.capacity)
+        .map((session) => session.id);
+      const toOpen = upcomingSessions
+        .filter((session) => session.status === "full" && Number(session.occupiedSeats) < session.capacity)
+        .map((session) => session.id);
+
+      if (toFull.length > 0) {
+        await tx.update(sessions).set({ status: "full" }).where(inArray(sessions.id, toFull));
+      }
+      if (toOpen.length > 0) {
+        await tx.update(sessions).set({ status: "open" }).where(inArray(sessions.id, toOpen));
+      }
+
+      return {
+        completedSessions: completedSessions.length,
+        completedRegistrations: completedRegistrations.length,
+        expiredRegistrations: expiredRegistrations.length,
+        fullSessions: toFull.length,
+        reopenedSessions: toOpen.length,
+      };
+    });
+  }
+
   // Formation Interest methods
   async getFormationInterest(id: string): Promise<FormationInterest | undefined> {
     const [interest] = await db.select().from(formationInterests).where(eq(formationInterests.id, id));
@@ -492,21 +1625,57 @@ export class DatabaseStorage implements IStorage {
       }
     }
 
-    const { customPlannedDate, completedAt, ...rest } = insertInterest;
-    const normalizedInsert = {
-      ...rest,
-      customPlannedDate:
-        typeof customPlannedDate === "string"
-          ? new Date(customPlannedDate)
-          : customPlannedDate ?? undefined,
-      completedAt:
-        typeof completedAt === "string" ? new Date(completedAt) : completedAt ?? undefined,
-    } satisfies InsertFormationInterest & { status: string };
-
-    const [interest] = await db.insert(formationInterests).values(normalizedInsert).returning();
+    const [interest] = await db
+      .insert(formationInterests)
+      .values(normalizeInterestInsert(insertInterest))
+      .returning();
     return interest;
   }
 
+  async createFormationInterestWithQuotaCheck(
+    insertInterest: InsertFormationInterest & { status: string },
+    quota: QuotaCheck
+  ): Promise<InterestAttemptResult> {
+    return await db.transaction(async (tx) => {
+      const allowed = await lockQuotaAndCheck(
+        tx,
+        insertInterest.userId,
+        insertInterest.priority,
+        null,
+        quota
+      );
+
+      // Checked under the user lock so that a double submission cannot slip through
+      if (insertInterest.formationId) {
+        const [activeInterest] = await tx
+          .select({ id: formationInterests.id })
+          .from(formationInterests)
+          .where(
+            and(
+              eq(formationInterests.userId, insertInterest.userId),
+              eq(formationInterests.formationId, insertInterest.formationId),
+              inArray(formationInterests.status, ["pending", "approved"])
+            )
+          )
+          .limit(1);
+
+        if (activeInterest) {
+          return { outcome: "already_active" };
+        }
+      }
+
+      if (!allowed) {
+        return { outcome: "quota_exceeded" };
+      }
+
+      const [interest] = await tx
+        .insert(formationInterests)
+        .values(normalizeInterestInsert(insertInterest))
+        .returning();
+      return { outcome: "created", interest };
+    });
+  }
+
   async updateFormationInterest(
     id: string,
     updates: Partial<FormationInterest>
@@ -592,6 +1761,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(registrations.registeredAt));
   }
 
+  // Formations the user completed, dated by the end of the session they followed
+  async listFormationCompletions(userId: string): Promise<PrerequisiteCompletion[]> {
+    return await db
+      .select({ formationId: sessions.formationId, completedAt: sessions.endDate })
+      .from(registrations)
+      .innerJoin(sessions, eq(registrations.sessionId, sessions.id))
+      .where(and(eq(registrations.userId, userId), eq(registrations.status, "completed")));
+  }
+
   async createRegistration(insertRegistration: InsertRegistration & { status: string }): Promise<Registration> {
     const [registration] = await db.insert(registrations).values(insertRegistration).returning();
     return registration;
@@ -609,6 +1787,199 @@ export class DatabaseStorage implements IStorage {
     return registration || undefined;
   }
 
+  async registerWithCapacityCheck(attempt: RegistrationAttempt): Promise<RegistrationAttemptResult> {
+    return await db.transaction(async (tx) => {
+      // Locking the session row serialises concurrent enrolments on the same session
+      const [session] = await tx
+        .select({ id: sessions.id, capacity: sessions.capacity, status: sessions.status })
+        .from(sessions)
+        .where(eq(sessions.id, attempt.sessionId))
+        .for("update");
+
+      if (!session) {
+        return { outcome: "session_not_found" };
+      }
+
+      if (session.status !== "open" && session.status !== "full") {
+        return { outcome: "session_closed", status: session.status };
+      }
+
+      const activeRegistrations = await tx
+        .select({ userId: registrations.userId, status: registrations.status })
+        .from(registrations)
+        .where(
+          and(eq(registrations.sessionId, attempt.sessionId), ne(registrations.status, "cancelled"))
+        );
+
+      if (activeRegistrations.some((registration) => registration.userId === attempt.userId)) {
+        return { outcome: "already_registered" };
+      }
+
+      const occupiedSeats = activeRegistrations.filter(
+        (registration) => !SEAT_EXCLUDED_STATUSES.includes(registration.status)
+      ).length;
+      const waitlisted = occupiedSeats >= session.capacity;
+
+      if (waitlisted && !attempt.allowWaitlist) {
+        return { outcome: "session_full" };
+      }
+
+      let createdInterest: FormationInterest | undefined;
+      if (attempt.createInterestWithQuota) {
+        const allowed = await lockQuotaAndCheck(
+          tx,
+          attempt.userId,
+          attempt.priority,
+          attempt.formationId,
+          attempt.createInterestWithQuota
+        );
+        if (!allowed) {
+          return { outcome: "quota_exceeded" };
+        }
+
+        // A waitlisted registration keeps the intention approved until it is promoted
+        [createdInterest] = await tx
+          .insert(formationInterests)
+          .values({
+            userId: attempt.userId,
+            formationId: attempt.formationId,
+            priority: attempt.priority,
+            status: waitlisted ? "approved" : "converted",
+            coachStatus: "approved",
+            coachValidatedAt: new Date(),
+          })
+          .returning();
+      }
+
+      if (attempt.convertInterestId && !waitlisted) {
+        await tx
+          .update(formationInterests)
+          .set({ status: "converted" })
+          .where(eq(formationInterests.id, attempt.convertInterestId));
+      }
+
+      const [registration] = await tx
+        .insert(registrations)
+        .values({
+          userId: attempt.userId,
+          sessionId: attempt.sessionId,
+          formationId: attempt.formationId,
+          priority: attempt.priority,
+          status: waitlisted ? "waitlisted" : attempt.status,
+        })
+        .returning();
+
+      if (!waitlisted) {
+        return { outcome: "created", registration, createdInterest };
+      }
+
+      await renumberWaitlist(tx, attempt.sessionId);
+      const [queued] = await tx
+        .select()
+        .from(registrations)
+        .where(eq(registrations.id, registration.id));
+      return { outcome: "created", registration: queued, createdInterest };
+    });
+  }
+
+  async promoteFromWaitlist(sessionId: string): Promise<Registration[]> {
+    return await db.transaction(async (tx) => {
+      // Same lock as enrolments, so a freed seat cannot be taken twice
+      const [session] = await tx
+        .select({ id: sessions.id, capacity: sessions.capacity })
+        .from(sessions)
+        .where(eq(sessions.id, sessionId))
+        .for("update");
+
+      if (!session) {
+        return [];
+      }
+
+      const freeSeats = session.capacity - (await countOccupiedSeats(tx, sessionId));
+      const promoted: Registration[] = [];
+
+      if (freeSeats > 0) {
+        const candidates = await tx
+          .select()
+          .from(registrations)
+          .where(and(eq(registrations.sessionId, sessionId), eq(registrations.status, "waitlisted")))
+          .orderBy(...waitlistOrder)
+          .limit(freeSeats);
+
+        for (const candidate of candidates) {
+          // Same rule as a direct enrolment: an approved intention validates the registration
+          const intentions = await tx
+            .select()
+            .from(formationInterests)
+            .where(
+              and(
+                eq(formationInterests.userId, candidate.userId),
+                eq(formationInterests.formationId, candidate.formationId)
+              )
+            );
+          const approvedIntention = intentions.find((intention) => intention.status === "approved");
+          const convertedIntention = intentions.find((intention) => intention.status === "converted");
+
+          if (approvedIntention) {
+            await tx
+              .update(formationInterests)
+              .set({ status: "converted" })
+              .where(eq(formationInterests.id, approvedIntention.id));
+          }
+
+          const [registration] = await tx
+            .update(registrations)
+            .set({
+              status: approvedIntention || convertedIntention ? "validated" : "pending",
+              waitlistPosition: null,
+            })
+            .where(eq(registrations.id, candidate.id))
+            .returning();
+          promoted.push(registration);
+        }
+      }
+
+      await renumberWaitlist(tx, sessionId);
+      return promoted;
+    });
+  }
+
+  async updateRegistrationWithQuotaCheck(
+    id: string,
+    updates: Partial<InsertRegistration>,
+    quota: QuotaCheck
+  ): Promise<RegistrationUpdateResult> {
+    return await db.transaction(async (tx) => {
+      const [registration] = await tx
+        .select()
+        .from(registrations)
+        .where(eq(registrations.id, id))
+        .for("update");
+
+      if (!registration) {
+        return { outcome: "not_found" };
+      }
+
+      const allowed = await lockQuotaAndCheck(
+        tx,
+        registration.userId,
+        registration.priority,
+        registration.formationId,
+        quota
+      );
+      if (!allowed) {
+        return { outcome: "quota_exceeded" };
+      }
+
+      const [updated] = await tx
+        .update(registrations)
+        .set(updates)
+        .where(eq(registrations.id, id))
+        .returning();
+      return { outcome: "updated", registration: updated };
+    });
+  }
+
   async deleteRegistration(id: string): Promise<boolean> {
     const result = await db.delete(registrations).where(eq(registrations.id, id)).returning();
     return result.length > 0;
@@ -616,12 +1987,12 @@ export class DatabaseStorage implements IStorage {
 
   async getRegistrationCount(sessionId: string): Promise<number> {
     const result = await db
-      .select({ count: sql<number>`count(*)` })
+      .select({ count: sql<number>`count(*)::int` })
       .from(registrations)
       .where(
         and(
           eq(registrations.sessionId, sessionId),
-          sql`${registrations.status} != 'cancelled'`
+          sql`${registrations.status} NOT IN ('cancelled', 'waitlisted')`
         )
       );
     return result[0]?.count || 0;
@@ -654,6 +2025,72 @@ export class DatabaseStorage implements IStorage {
     return registration || undefined;
   }
 
+  // Returns undefined when the registration already signed for that slot
+  async recordSegmentAttendance(attendance: {
+    registrationId: string;
+    sessionId: string;
+    segmentIndex: number;
+    period: AttendancePeriod;
+    codeWindow: number | null;
+    signedAt: Date;
+  }): Promise<RegistrationAttendance | undefined> {
+    const [record] = await db
+      .insert(registrationAttendances)
+      .values(attendance)
+      .onConflictDoNothing({
+        target: [
+          registrationAttendances.registrationId,
+          registrationAttendances.segmentIndex,
+          registrationAttendances.period,
+        ],
+      })
+      .returning();
+    return record || undefined;
+  }
+
+  async listRegistrationAttendances(registrationIds: string[]): Promise<RegistrationAttendance[]> {
+    if (registrationIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(registrationAttendances)
+      .where(inArray(registrationAttendances.registrationId, registrationIds))
+      .orderBy(asc(registrationAttendances.segmentIndex), asc(registrationAttendances.signedAt));
+  }
+
+  // Idempotent: a registration that already has a certificate keeps its original code
+  async issueCertificate(certificate: InsertCertificate): Promise<Certificate> {
+    const [created] = await db
+      .insert(certificates)
+      .values(certificate)
+      .onConflictDoNothing({ target: certificates.registrationId })
+      .returning();
+    if (created) {
+      return created;
+    }
+    const [existing] = await db
+      .select()
+      .from(certificates)
+      .where(eq(certificates.registrationId, certificate.registrationId));
+    return existing;
+  }
+
+  async getCertificateByCode(code: string): Promise<Certificate | undefined> {
+    const [certificate] = await db.select().from(certificates).where(eq(certificates.code, code));
+    return certificate || undefined;
+  }
+
+  async listCertificatesForRegistrations(registrationIds: string[]): Promise<Certificate[]> {
+    if (registrationIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(certificates)
+      .where(inArray(certificates.registrationId, registrationIds));
+  }
+
   async listFormationReviews(formationId: string): Promise<FormationReview[]> {
     return await db
       .select()
@@ -785,6 +2222,9 @@ export class DatabaseStorage implements IStorage {
   async createSessionAttendanceToken(data: {
     sessionId: string;
     token: string;
+    segmentIndex: number;
+    period: AttendancePeriod;
+    live: boolean;
     expiresAt: Date;
     createdBy: string;
   }): Promise<SessionAttendanceToken> {
@@ -793,6 +2233,9 @@ export class DatabaseStorage implements IStorage {
       .values({
         sessionId: data.sessionId,
         token: data.token,
+        segmentIndex: data.segmentIndex,
+        period: data.period,
+        live: data.live,
         expiresAt: data.expiresAt,
         createdBy: data.createdBy,
       })
@@ -824,6 +2267,183 @@ export class DatabaseStorage implements IStorage {
     return result.length;
   }
 
+  async createPasswordResetToken(data: {
+    userId: string;
+    tokenHash: string;
+    expiresAt: Date;
+  }): Promise<PasswordResetToken> {
+    const [token] = await db
+      .insert(passwordResetTokens)
+      .values({
+        userId: data.userId,
+        tokenHash: data.tokenHash,
+        expiresAt: data.expiresAt,
+      })
+      .returning();
+    return token;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(passwordResetTokens)
+      .where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  async consumePasswordResetToken(id: string): Promise<boolean> {
+    // Conditional update so that two concurrent confirmations cannot both succeed
+    const result = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning({ id: passwordResetTokens.id });
+    return result.length > 0;
+  }
+
+  async invalidatePasswordResetTokensForUser(userId: string): Promise<number> {
+    const result = await db
+      .update(passwordResetTokens)
+      .set({ usedAt: new Date() })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)))
+      .returning({ id: passwordResetTokens.id });
+    return result.length;
+  }
+
+  async cleanupExpiredPasswordResetTokens(referenceDate: Date = new Date()): Promise<number> {
+    const result = await db
+      .delete(passwordResetTokens)
+      .where(sql`${passwordResetTokens.expiresAt} < ${referenceDate}`)
+      .returning({ id: passwordResetTokens.id });
+    return result.length;
+  }
+
+  async getLoginAttempts(
+    keys: Array<{ scope: LoginAttemptScope; identifier: string }>
+  ): Promise<LoginAttempt[]> {
+    if (keys.length === 0) {
+      return [];
+    }
+
+    return await db
+      .select()
+      .from(loginAttempts)
+      .where(
+        or(
+          ...keys.map((key) =>
+            and(eq(loginAttempts.scope, key.scope), eq(loginAttempts.identifier, key.identifier))
+          )
+        )
+      );
+  }
+
+  async recordLoginFailure(
+    key: { scope: LoginAttemptScope; identifier: string },
+    policy: { maxFailures: number; lockDurationMs: number; failureWindowMs: number }
+  ): Promise<LoginAttempt> {
+    const now = new Date();
+    const windowStart = new Date(now.getTime() - policy.failureWindowMs);
+    const lockUntil = new Date(now.getTime() + policy.lockDurationMs);
+
+    // The counter restarts once the previous streak is stale or its lock has elapsed,
+    // and the whole computation happens in a single upsert so parallel attempts
+    // cannot lose increments
+    const isStale = sql`(${loginAttempts.lastFailureAt} IS NULL OR ${loginAttempts.lastFailureAt} < ${windowStart} OR ${loginAttempts.lockedUntil} <= ${now})`;
+    const nextCount = sql`CASE WHEN ${isStale} THEN 1 ELSE ${loginAttempts.failureCount} + 1 END`;
+
+    const [attempt] = await db
+      .insert(loginAttempts)
+      .values({
+        scope: key.scope,
+        identifier: key.identifier,
+        failureCount: 1,
+        lastFailureAt: now,
+        lockedUntil: policy.maxFailures <= 1 ? lockUntil : null,
+      })
+      .onConflictDoUpdate({
+        target: [loginAttempts.scope, loginAttempts.identifier],
+        set: {
+          failureCount: nextCount,
+          lastFailureAt: now,
+          lockedUntil: sql`CASE
+            WHEN ${nextCount} >= ${policy.maxFailures} THEN ${lockUntil}::timestamp
+            WHEN ${isStale} THEN NULL
+            ELSE ${loginAttempts.lockedUntil}
+          END`,
+        },
+      })
+      .returning();
+    return attempt;
+  }
+
+  async clearLoginAttempts(scope: LoginAttemptScope, identifier: string): Promise<boolean> {
+    const result = await db
+      .delete(loginAttempts)
+      .where(and(eq(loginAttempts.scope, scope), eq(loginAttempts.identifier, identifier)))
+      .returning({ id: loginAttempts.id });
+    return result.length > 0;
+  }
+
+  async createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent> {
+    await ensureAuditEventsTable();
+    const [created] = await db.insert(auditEvents).values(event).returning();
+    return created;
+  }
+
+  async listAuditEvents(
+    filters: AuditEventFilters = {}
+  ): Promise<{ events: AuditEvent[]; total: number }> {
+    await ensureAuditEventsTable();
+    const conditions = [];
+
+    if (filters.actorId) {
+      conditions.push(eq(auditEvents.actorId, filters.actorId));
+    }
+    if (filters.action) {
+      conditions.push(eq(auditEvents.action, filters.action));
+    }
+    if (filters.entityType) {
+      conditions.push(eq(auditEvents.entityType, filters.entityType));
+    }
+    if (filters.entityId) {
+      conditions.push(eq(auditEvents.entityId, filters.entityId));
+    }
+    if (filters.from) {
+      conditions.push(sql`${auditEvents.createdAt} >= ${filters.from}`);
+    }
+    if (filters.to) {
+      conditions.push(sql`${auditEvents.createdAt} <= ${filters.to}`);
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(auditEvents)
+      .where(whereClause);
+
+    const events = await db
+      .select()
+      .from(auditEvents)
+      .where(whereClause)
+      .orderBy(desc(auditEvents.createdAt))
+      .limit(filters.limit ?? 100)
+      .offset(filters.offset ?? 0);
+
+    return { events, total: count };
+  }
+
+  async listLockedLoginAttempts(
+    scope: LoginAttemptScope,
+    referenceDate: Date = new Date()
+  ): Promise<LoginAttempt[]> {
+    return await db
+      .select()
+      .from(loginAttempts)
+      .where(and(eq(loginAttempts.scope, scope), sql`${loginAttempts.lockedUntil} > ${referenceDate}`))
+      .orderBy(desc(loginAttempts.lockedUntil));
+  }
+
   // Instructor Formation methods
   async getInstructorFormations(instructorId: string): Promise<string[]> {
     const result = await db
@@ -978,13 +2598,58 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Notification methods
-  async listNotifications(userId: string): Promise<Notification[]> {
+  async listNotifications(userId: string, limit = 100): Promise<Notification[]> {
     await ensureNotificationsTable();
     return await db
       .select()
       .from(notifications)
-      .where(eq(notifications.userId, userId))
-      .orderBy(desc(notifications.createdAt));
+      .where(and(eq(notifications.userId, userId), isNull(notifications.archivedAt)))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async listNotificationsPage(
+    userId: string,
+    filters: NotificationFilters = {}
+  ): Promise<{ notifications: Notification[]; total: number }> {
+    await ensureNotificationsTable();
+    const conditions = [
+      eq(notifications.userId, userId),
+      filters.archived ? isNotNull(notifications.archivedAt) : isNull(notifications.archivedAt),
+    ];
+
+    if (filters.read !== undefined) {
+      conditions.push(eq(notifications.read, filters.read));
+    }
+    if (filters.category) {
+      conditions.push(eq(notifications.category, filters.category));
+    }
+    if (filters.kind) {
+      conditions.push(eq(notifications.kind, filters.kind));
+    }
+
+    const whereClause = and(...conditions);
+
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(whereClause);
+
+    const page = await db
+      .select()
+      .from(notifications)
+      .where(whereClause)
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(filters.limit ?? 20)
+      .offset(filters.offset ?? 0);
+
+    return { notifications: page, total: count };
+  }
+
+  async getNotification(id: string): Promise<Notification | undefined> {
+    await ensureNotificationsTable();
+    const [notification] = await db.select().from(notifications).where(eq(notifications.id, id));
+    return notification || undefined;
   }
 
   async createNotification(notification: InsertNotification): Promise<Notification> {
@@ -993,12 +2658,22 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async createNotifications(items: InsertNotification[]): Promise<Notification[]> {
+    if (items.length === 0) return [];
+    await ensureNotificationsTable();
+    return await db.insert(notifications).values(items).returning();
+  }
+
   async markNotificationsRead(
     userId: string,
     filter?: { notificationIds?: string[]; route?: string }
   ): Promise<number> {
     await ensureNotificationsTable();
-    const conditions = [eq(notifications.userId, userId), eq(notifications.read, false)];
+    const conditions = [
+      eq(notifications.userId, userId),
+      eq(notifications.read, false),
+      isNull(notifications.archivedAt),
+    ];
 
     if (filter?.notificationIds && filter.notificationIds.length > 0) {
       conditions.push(inArray(notifications.id, filter.notificationIds));
@@ -1015,6 +2690,132 @@ export class DatabaseStorage implements IStorage {
     return result.length;
   }
 
+  async markNotificationsUnread(userId: string, notificationIds: string[]): Promise<number> {
+    if (notificationIds.length === 0) return 0;
+    await ensureNotificationsTable();
+    const result = await db
+      .update(notifications)
+      .set({ read: false, readAt: null })
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          eq(notifications.read, true),
+          isNull(notifications.archivedAt),
+          inArray(notifications.id, notificationIds)
+        )
+      )
+      .returning({ id: notifications.id });
+
+    return result.length;
+  }
+
+  // Archiving also marks as read: archived notifications never count as unread
+  async setNotificationsArchived(userId: string, notificationIds: string[], archived: boolean): Promise<number> {
+    if (notificationIds.length === 0) return 0;
+    await ensureNotificationsTable();
+    const now = new Date();
+    const result = await db
+      .update(notifications)
+      .set(
+        archived
+          ? { archivedAt: now, read: true, readAt: sql`coalesce(${notifications.readAt}, ${now})` }
+          : { archivedAt: null }
+      )
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          archived ? isNull(notifications.archivedAt) : isNotNull(notifications.archivedAt),
+          inArray(notifications.id, notificationIds)
+        )
+      )
+      .returning({ id: notifications.id });
+
+    return result.length;
+  }
+
+  async listNotificationsSince(userId: string, since: Date, categories: string[]): Promise<Notification[]> {
+    if (categories.length === 0) return [];
+    await ensureNotificationsTable();
+    return await db
+      .select()
+      .from(notifications)
+      .where(
+        and(
+          eq(notifications.userId, userId),
+          gt(notifications.createdAt, since),
+          inArray(notifications.category, categories)
+        )
+      )
+      .orderBy(asc(notifications.createdAt));
+  }
+
+  async listNotificationPreferences(userIds: string[]): Promise<NotificationPreference[]> {
+    if (userIds.length === 0) return [];
+    await ensureNotificationPreferencesTables();
+    return await db
+      .select()
+      .from(notificationPreferences)
+      .where(inArray(notificationPreferences.userId, userIds));
+  }
+
+  async listNotificationPreferencesByChannel(channel: string): Promise<NotificationPreference[]> {
+    await ensureNotificationPreferencesTables();
+    return await db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.channel, channel));
+  }
+
+  async setNotificationPreferences(userId: string, preferences: Record<string, string>): Promise<void> {
+    const entries = Object.entries(preferences);
+    if (entries.length === 0) return;
+    await ensureNotificationPreferencesTables();
+    await db
+      .insert(notificationPreferences)
+      .values(entries.map(([category, channel]) => ({ userId, category, channel })))
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.category],
+        set: { channel: sql`excluded.channel`, updatedAt: new Date() },
+      });
+  }
+
+  async getLatestNotificationDigest(userId: string, frequency: string): Promise<NotificationDigest | undefined> {
+    await ensureNotificationPreferencesTables();
+    const [digest] = await db
+      .select()
+      .from(notificationDigests)
+      .where(and(eq(notificationDigests.userId, userId), eq(notificationDigests.frequency, frequency)))
+      .orderBy(desc(notificationDigests.createdAt))
+      .limit(1);
+    return digest || undefined;
+  }
+
+  // Same claim-then-queue transaction as session reminders: a period is never digested twice
+  async recordNotificationDigest(
+    digest: InsertNotificationDigest,
+    email: InsertEmailOutboxEntry | null
+  ): Promise<NotificationDigest | undefined> {
+    await Promise.all([ensureNotificationPreferencesTables(), ensureEmailOutboxTable()]);
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .insert(notificationDigests)
+        .values(digest)
+        .onConflictDoNothing({ target: [notificationDigests.userId, notificationDigests.periodKey] })
+        .returning();
+      if (!claimed || !email) {
+        return claimed || undefined;
+      }
+
+      const [entry] = await tx.insert(emailOutbox).values(email).returning({ id: emailOutbox.id });
+      const [updated] = await tx
+        .update(notificationDigests)
+        .set({ emailId: entry.id })
+        .where(eq(notificationDigests.id, claimed.id))
+        .returning();
+      return updated;
+    });
+  }
+
   async getUnreadNotificationCounts(
     userId: string
   ): Promise<Array<{ route: string; count: number }>> {
@@ -1022,7 +2823,9 @@ export class DatabaseStorage implements IStorage {
     const unread = await db
       .select({ route: notifications.route, count: sql<number>`count(*)` })
       .from(notifications)
-      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)))
+      .where(
+        and(eq(notifications.userId, userId), eq(notifications.read, false), isNull(notifications.archivedAt))
+      )
       .groupBy(notifications.route);
 
     return unread.map(({ route, count }) => ({
@@ -1120,6 +2923,65 @@ export class DatabaseStorage implements IStorage {
     return result.length;
   }
 
+  async listPrerequisiteOverrides(
+    filters: { userId?: string; formationId?: string } = {}
+  ): Promise<PrerequisiteOverride[]> {
+    await ensureFormationPrerequisiteInfrastructure();
+    const conditions = [];
+    if (filters.userId) {
+      conditions.push(eq(prerequisiteOverrides.userId, filters.userId));
+    }
+    if (filters.formationId) {
+      conditions.push(eq(prerequisiteOverrides.formationId, filters.formationId));
+    }
+    return await db
+      .select()
+      .from(prerequisiteOverrides)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(prerequisiteOverrides.createdAt));
+  }
+
+  async getPrerequisiteOverride(id: string): Promise<PrerequisiteOverride | undefined> {
+    await ensureFormationPrerequisiteInfrastructure();
+    const [override] = await db.select().from(prerequisiteOverrides).where(eq(prerequisiteOverrides.id, id));
+    return override || undefined;
+  }
+
+  async getPrerequisiteOverrideForUser(
+    userId: string,
+    formationId: string
+  ): Promise<PrerequisiteOverride | undefined> {
+    await ensureFormationPrerequisiteInfrastructure();
+    const [override] = await db
+      .select()
+      .from(prerequisiteOverrides)
+      .where(and(eq(prerequisiteOverrides.userId, userId), eq(prerequisiteOverrides.formationId, formationId)));
+    return override || undefined;
+  }
+
+  // Granting again replaces the reason and grantor of the existing override
+  async grantPrerequisiteOverride(override: InsertPrerequisiteOverride): Promise<PrerequisiteOverride> {
+    await ensureFormationPrerequisiteInfrastructure();
+    const [granted] = await db
+      .insert(prerequisiteOverrides)
+      .values(override)
+      .onConflictDoUpdate({
+        target: [prerequisiteOverrides.userId, prerequisiteOverrides.formationId],
+        set: { reason: override.reason, grantedBy: override.grantedBy ?? null, createdAt: sql`now()` },
+      })
+      .returning();
+    return granted;
+  }
+
+  async deletePrerequisiteOverride(id: string): Promise<boolean> {
+    await ensureFormationPrerequisiteInfrastructure();
+    const result = await db
+      .delete(prerequisiteOverrides)
+      .where(eq(prerequisiteOverrides.id, id))
+      .returning({ id: prerequisiteOverrides.id });
+    return result.length > 0;
+  }
+
   async getSetting<T>(key: string): Promise<T | null> {
     const [setting] = await db.select().from(appSettings).where(eq(appSettings.key, key));
     if (!setting) return null;
@@ -1137,6 +2999,165 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return setting;
   }
+
+  async enqueueOutboxEmail(email: InsertEmailOutboxEntry): Promise<EmailOutboxEntry> {
+    await ensureEmailOutboxTable();
+    const [entry] = await db.insert(emailOutbox).values(email).returning();
+    return entry;
+  }
+
+  async getOutboxEmail(id: string): Promise<EmailOutboxEntry | undefined> {
+    await ensureEmailOutboxTable();
+    const [entry] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    return entry || undefined;
+  }
+
+  async listOutboxEmails(
+    filters: { status?: EmailOutboxStatus; limit?: number } = {}
+  ): Promise<EmailOutboxEntry[]> {
+    await ensureEmailOutboxTable();
+    return await db
+      .select()
+      .from(emailOutbox)
+      .where(filters.status ? eq(emailOutbox.status, filters.status) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(filters.limit ?? 200);
+  }
+
+  /**
+   * Leases due emails to the calling worker: they move to `sending` and their next attempt
+   * is pushed past the lease, so a worker that dies mid-delivery releases them automatically.
+   * SKIP LOCKED lets several app instances drain the outbox without sending twice.
+   */
+  async claimDueOutboxEmails(options: { now: Date; limit: number; leaseMs: number }): Promise<EmailOutboxEntry[]> {
+    await ensureEmailOutboxTable();
+    return await db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: emailOutbox.id })
+        .from(emailOutbox)
+        .where(
+          and(
+            inArray(emailOutbox.status, ["pending", "sending"]),
+            lte(emailOutbox.nextAttemptAt, options.now)
+          )
+        )
+        .orderBy(asc(emailOutbox.nextAttemptAt))
+        .limit(options.limit)
+        .for("update", { skipLocked: true });
+
+      if (due.length === 0) {
+        return [];
+      }
+
+      return await tx
+        .update(emailOutbox)
+        .set({
+          status: "sending",
+          nextAttemptAt: new Date(options.now.getTime() + options.leaseMs),
+        })
+        .where(inArray(emailOutbox.id, due.map((entry) => entry.id)))
+        .returning();
+    });
+  }
+
+  async updateOutboxEmail(
+    id: string,
+    updates: Partial<InsertEmailOutboxEntry>
+  ): Promise<EmailOutboxEntry | undefined> {
+    await ensureEmailOutboxTable();
+    const [entry] = await db.update(emailOutbox).set(updates).where(eq(emailOutbox.id, id)).returning();
+    return entry || undefined;
+  }
+
+  async listSessionsStartingBetween(from: Date, to: Date): Promise<Session[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(
+        and(
+          inArray(sessions.status, ["open", "full"]),
+          gt(sessions.startDate, from),
+          lte(sessions.startDate, to)
+        )
+      )
+      .orderBy(asc(sessions.startDate));
+  }
+
+  async listSessionReminders(sessionId: string): Promise<SessionReminder[]> {
+    await ensureSessionRemindersTable();
+    return await db.select().from(sessionReminders).where(eq(sessionReminders.sessionId, sessionId));
+  }
+
+  /**
+   * Claims the reminder and queues its email in the same transaction: a reminder that was
+   * already recorded, by a previous run or another instance, is skipped and nothing is queued.
+   */
+  async recordSessionReminder(
+    reminder: InsertSessionReminder,
+    email: InsertEmailOutboxEntry
+  ): Promise<SessionReminder | undefined> {
+    await Promise.all([ensureSessionRemindersTable(), ensureEmailOutboxTable()]);
+    return await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .insert(sessionReminders)
+        .values(reminder)
+        .onConflictDoNothing({
+          target: [
+            sessionReminders.sessionId,
+            sessionReminders.userId,
+            sessionReminders.recipientRole,
+            sessionReminders.offsetDays,
+          ],
+        })
+        .returning();
+      if (!claimed) {
+        return undefined;
+      }
+
+      const [entry] = await tx.insert(emailOutbox).values(email).returning({ id: emailOutbox.id });
+      const [updated] = await tx
+        .update(sessionReminders)
+        .set({ emailId: entry.id })
+        .where(eq(sessionReminders.id, claimed.id))
+        .returning();
+      return updated;
+    });
+  }
+
+  async listQuotaCycleUsages(userId: string): Promise<QuotaCycleUsage[]> {
+    await ensureQuotaCycleUsagesTable();
+    return await db
+      .select()
+      .from(quotaCycleUsages)
+      .where(eq(quotaCycleUsages.userId, userId))
+      .orderBy(desc(quotaCycleUsages.cycleYear));
+  }
+
+  // Re-archiving a cycle overwrites the previous snapshot, which keeps the rollover idempotent
+  async saveQuotaCycleUsages(usages: InsertQuotaCycleUsage[]): Promise<number> {
+    if (usages.length === 0) {
+      return 0;
+    }
+    await ensureQuotaCycleUsagesTable();
+    const result = await db
+      .insert(quotaCycleUsages)
+      .values(usages)
+      .onConflictDoUpdate({
+        target: [quotaCycleUsages.userId, quotaCycleUsages.cycleYear],
+        set: {
+          cycleLabel: sql`excluded.cycle_label`,
+          cycleStart: sql`excluded.cycle_start`,
+          cycleEnd: sql`excluded.cycle_end`,
+          p1Allowance: sql`excluded.p1_allowance`,
+          p2Allowance: sql`excluded.p2_allowance`,
+          p1Used: sql`excluded.p1_used`,
+          p2Used: sql`excluded.p2_used`,
+          archivedAt: sql`now()`,
+        },
+      })
+      .returning({ id: quotaCycleUsages.id });
+    return result.length;
+  }
 }
 
 export const storage = new DatabaseStorage();
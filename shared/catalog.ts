@@ -0,0 +1,14 @@
+export const FORMATION_SORTS = ["relevance", "rating", "next_session"] as const;
+export type FormationSort = (typeof FORMATION_SORTS)[number];
+
+export const FORMATION_SORT_LABELS: Record<FormationSort, string> = {
+  relevance: "Pertinence",
+  rating: "Mieux notées",
+  next_session: "Prochaine session",
+};
+
+// Query parameters of GET /api/formations; the catalog keeps the same names in its URL
+export const FORMATION_SEARCH_PARAMS = ["q", "theme", "modality", "seniority", "sort", "page", "pageSize"] as const;
+
+export const isFormationSort = (value: unknown): value is FormationSort =>
+  typeof value === "string" && (FORMATION_SORTS as readonly string[]).includes(value);
@@ -0,0 +1,331 @@
+import { z } from "zod";
+
+export const EMAIL_TEMPLATE_KEYS = [
+  "session_invitation",
+  "registration_confirmation",
+  "session_reminder",
+  "instructor_reminder",
+] as const;
+export type EmailTemplateKey = (typeof EMAIL_TEMPLATE_KEYS)[number];
+
+export const EMAIL_TEMPLATE_VARIABLES = {
+  "participant.name": "Nom complet du destinataire",
+  "participant.firstName": "Prénom du destinataire",
+  "participant.email": "Adresse email du destinataire",
+  "formation.title": "Titre de la formation",
+  "session.segments": "Dates et horaires de chaque journée, une ligne par jour",
+  "session.startDate": "Date de début de la session",
+  "session.endDate": "Date de fin de la session",
+  "session.location": "Lieu de la session",
+  "session.meetingUrl": "Lien de visio de la session",
+  "session.materials": "Supports de la formation disponibles sur la plateforme, un par ligne",
+  "session.attendees": "Participants inscrits, un par ligne",
+  "session.attendeeCount": "Nombre de participants inscrits",
+  "formation.url": "Lien vers la fiche de la formation",
+  "reminder.delay": "Délai avant la session (« demain », « dans 7 jours »)",
+  message: "Message propre à l'envoi (mise à jour, annulation, place libérée…)",
+} as const;
+export type EmailTemplateVariable = keyof typeof EMAIL_TEMPLATE_VARIABLES;
+export type EmailTemplateVariables = Partial<Record<EmailTemplateVariable, string>>;
+
+export const EMAIL_TEMPLATE_DEFINITIONS: Record<
+  EmailTemplateKey,
+  { label: string; description: string; variables: EmailTemplateVariable[] }
+> = {
+  session_invitation: {
+    label: "Invitation à une session",
+    description:
+      "Envoyée avec l'invitation calendrier : validation, mise à jour, annulation ou place libérée.",
+    variables: [
+      "participant.name",
+      "participant.firstName",
+      "participant.email",
+      "formation.title",
+      "session.segments",
+      "session.startDate",
+      "session.endDate",
+      "session.location",
+      "session.meetingUrl",
+      "message",
+    ],
+  },
+  registration_confirmation: {
+    label: "Confirmation d'inscription",
+    description: "Envoyée au collaborateur dès sa demande d'inscription, avant la validation RH.",
+    variables: [
+      "participant.name",
+      "participant.firstName",
+      "participant.email",
+      "formation.title",
+      "session.segments",
+      "session.startDate",
+      "session.endDate",
+      "session.location",
+      "session.meetingUrl",
+    ],
+  },
+  session_reminder: {
+    label: "Rappel participant",
+    description: "Envoyé avant la session à chaque participant inscrit, avec l'invitation calendrier.",
+    variables: [
+      "participant.name",
+      "participant.firstName",
+      "participant.email",
+      "formation.title",
+      "formation.url",
+      "session.segments",
+      "session.startDate",
+      "session.endDate",
+      "session.location",
+      "session.meetingUrl",
+      "session.materials",
+      "reminder.delay",
+    ],
+  },
+  instructor_reminder: {
+    label: "Rappel formateur",
+    description: "Envoyé avant la session au formateur, avec la liste des participants inscrits.",
+    variables: [
+      "participant.name",
+      "participant.firstName",
+      "participant.email",
+      "formation.title",
+      "formation.url",
+      "session.segments",
+      "session.startDate",
+      "session.endDate",
+      "session.location",
+      "session.meetingUrl",
+      "session.materials",
+      "session.attendees",
+      "session.attendeeCount",
+      "reminder.delay",
+    ],
+  },
+};
+
+export interface EmailTemplate {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// Invitation and confirmation keep the wording used before templates became editable
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailTemplateKey, EmailTemplate> = {
+  session_invitation: {
+    subject: "[Invitation] {{formation.title}}",
+    text: [
+      "Bonjour{{#participant.firstName}} {{participant.firstName}}{{/participant.firstName}},",
+      "",
+      'Vous êtes invité(e) à la session "{{formation.title}}".',
+      "Dates :",
+      "{{session.segments}}",
+      "{{#session.location}}Lieu : {{session.location}}",
+      "{{/session.location}}{{#session.meetingUrl}}Lien de visio : {{session.meetingUrl}}",
+      "{{/session.meetingUrl}}{{#message}}",
+      "{{message}}",
+      "{{/message}}",
+      "L'invitation est jointe à cet email pour ajouter l'événement à votre agenda.",
+      "",
+      "À très vite sur Colombus Learning !",
+    ].join("\n"),
+    html: [
+      "<p>Bonjour{{#participant.firstName}} {{participant.firstName}}{{/participant.firstName}},</p>",
+      "<p>Vous êtes invité(e) à la session <strong>{{formation.title}}</strong>.</p>",
+      "<p><strong>Dates :</strong><br/>{{session.segments}}</p>",
+      "{{#session.location}}<p><strong>Lieu :</strong> {{session.location}}</p>{{/session.location}}",
+      '{{#session.meetingUrl}}<p><strong>Lien de visio :</strong> <a href="{{session.meetingUrl}}">{{session.meetingUrl}}</a></p>{{/session.meetingUrl}}',
+      "{{#message}}<p>{{message}}</p>{{/message}}",
+      "<p>L'invitation en pièce jointe vous permet d'ajouter l'événement à votre agenda.</p>",
+      "<p>À très vite sur Colombus Learning !</p>",
+    ].join("\n"),
+  },
+  registration_confirmation: {
+    subject: "[Confirmation d'inscription] {{formation.title}}",
+    text: [
+      "Bonjour{{#participant.firstName}} {{participant.firstName}}{{/participant.firstName}},",
+      "",
+      'Votre demande d\'inscription à la session "{{formation.title}}" a bien été enregistrée.',
+      "",
+      "Dates de la session :",
+      "{{session.segments}}",
+      "{{#session.location}}Lieu : {{session.location}}",
+      "{{/session.location}}{{#session.meetingUrl}}Lien de visio : {{session.meetingUrl}}",
+      "{{/session.meetingUrl}}",
+      "Statut : En attente de validation RH",
+      "",
+      "Vous recevrez un second email avec l'invitation calendrier dès que votre inscription sera validée par les RH.",
+      "",
+      "À très vite sur Colombus Learning !",
+    ].join("\n"),
+    html: [
+      "<p>Bonjour{{#participant.firstName}} {{participant.firstName}}{{/participant.firstName}},</p>",
+      "<p>Votre demande d'inscription à la session <strong>{{formation.title}}</strong> a bien été enregistrée.</p>",
+      "<p><strong>Dates de la session :</strong><br/>{{session.segments}}</p>",
+      "{{#session.location}}<p><strong>Lieu :</strong> {{session.location}}</p>{{/session.location}}",
+      '{{#session.meetingUrl}}<p><strong>Lien de visio :</strong> <a href="{{session.meetingUrl}}">{{session.meetingUrl}}</a></p>{{/session.meetingUrl}}',
+      '<p><strong>Statut :</strong> <em style="color: #f59e0b;">En attente de validation RH</em></p>',
+      "<p>Vous recevrez un second email avec l'invitation calendrier dès que votre inscription sera validée par les RH.</p>",
+      "<p>À très vite sur Colombus Learning !</p>",
+    ].join("\n"),
+  },
+  session_reminder: {
+    subject: "[Rappel] {{formation.title}} {{reminder.delay}}",
+    text: [
+      "Bonjour{{#participant.firstName}} {{participant.firstName}}{{/participant.firstName}},",
+      "",
+      'La session "{{formation.title}}" commence {{reminder.delay}}.',
+      "Dates :",
+      "{{session.segments}}",
+      "{{#session.location}}Lieu : {{session.location}}",
+      "{{/session.location}}{{#session.meetingUrl}}Lien de visio : {{session.meetingUrl}}",
+      "{{/session.meetingUrl}}{{#session.materials}}",
+      "Supports disponibles :",
+      "{{session.materials}}",
+      "{{/session.materials}}{{#formation.url}}",
+      "Retrouvez la formation sur {{formation.url}}",
+      "{{/formation.url}}",
+      "L'invitation jointe vous permet de mettre à jour votre agenda.",
+      "",
+      "À très vite sur Colombus Learning !",
+    ].join("\n"),
+    html: [
+      "<p>Bonjour{{#participant.firstName}} {{participant.firstName}}{{/participant.firstName}},</p>",
+      "<p>La session <strong>{{formation.title}}</strong> commence {{reminder.delay}}.</p>",
+      "<p><strong>Dates :</strong><br/>{{session.segments}}</p>",
+      "{{#session.location}}<p><strong>Lieu :</strong> {{session.location}}</p>{{/session.location}}",
+      '{{#session.meetingUrl}}<p><strong>Lien de visio :</strong> <a href="{{session.meetingUrl}}">{{session.meetingUrl}}</a></p>{{/session.meetingUrl}}',
+      "{{#session.materials}}<p><strong>Supports disponibles :</strong><br/>{{session.materials}}</p>{{/session.materials}}",
+      '{{#formation.url}}<p><a href="{{formation.url}}">Retrouvez la formation sur Colombus Learning</a></p>{{/formation.url}}',
+      "<p>L'invitation jointe vous permet de mettre à jour votre agenda.</p>",
+      "<p>À très vite sur Colombus Learning !</p>",
+    ].join("\n"),
+  },
+  instructor_reminder: {
+    subject: "[Rappel formateur] {{formation.title}} {{reminder.delay}}",
+    text: [
+      "Bonjour{{#participant.firstName}} {{participant.firstName}}{{/participant.firstName}},",
+      "",
+      'Vous animez la session "{{formation.title}}" qui commence {{reminder.delay}}.',
+      "Dates :",
+      "{{session.segments}}",
+      "{{#session.location}}Lieu : {{session.location}}",
+      "{{/session.location}}{{#session.meetingUrl}}Lien de visio : {{session.meetingUrl}}",
+      "{{/session.meetingUrl}}",
+      "Participants inscrits ({{session.attendeeCount}}) :",
+      "{{session.attendees}}",
+      "{{#session.materials}}",
+      "Supports de la formation :",
+      "{{session.materials}}",
+      "{{/session.materials}}",
+      "L'invitation jointe vous permet de mettre à jour votre agenda.",
+      "",
+      "À très vite sur Colombus Learning !",
+    ].join("\n"),
+    html: [
+      "<p>Bonjour{{#participant.firstName}} {{participant.firstName}}{{/participant.firstName}},</p>",
+      "<p>Vous animez la session <strong>{{formation.title}}</strong> qui commence {{reminder.delay}}.</p>",
+      "<p><strong>Dates :</strong><br/>{{session.segments}}</p>",
+      "{{#session.location}}<p><strong>Lieu :</strong> {{session.location}}</p>{{/session.location}}",
+      '{{#session.meetingUrl}}<p><strong>Lien de visio :</strong> <a href="{{session.meetingUrl}}">{{session.meetingUrl}}</a></p>{{/session.meetingUrl}}',
+      "<p><strong>Participants inscrits ({{session.attendeeCount}}) :</strong><br/>{{session.attendees}}</p>",
+      "{{#session.materials}}<p><strong>Supports de la formation :</strong><br/>{{session.materials}}</p>{{/session.materials}}",
+      "<p>L'invitation jointe vous permet de mettre à jour votre agenda.</p>",
+      "<p>À très vite sur Colombus Learning !</p>",
+    ].join("\n"),
+  },
+};
+
+// {{#name}}…{{/name}} keeps its content only when the variable is not empty
+const SECTION_PATTERN = /\{\{#\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\1\s*\}\}/g;
+const VARIABLE_PATTERN = /\{\{\s*([#/]?)\s*([\w.]+)\s*\}\}/g;
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+export const listTemplateVariables = (source: string) =>
+  Array.from(new Set(Array.from(source.matchAll(VARIABLE_PATTERN), (match) => match[2])));
+
+/**
+ * Replaces {{name}} placeholders. In HTML mode values are escaped and their line breaks
+ * become <br/>, so RH-provided wording can never inject markup into the email.
+ */
+export const renderTemplate = (
+  source: string,
+  variables: EmailTemplateVariables,
+  options: { html?: boolean } = {}
+) => {
+  const lookup = (name: string) => (variables[name as EmailTemplateVariable] ?? "").trim();
+  const format = (value: string) =>
+    options.html ? escapeHtml(value).replace(/\r?\n/g, "<br/>") : value;
+
+  // Sections may be nested, kept content is expanded in turn
+  const renderSections = (value: string): string =>
+    value.replace(SECTION_PATTERN, (_match, name: string, content: string) =>
+      lookup(name) ? renderSections(content) : ""
+    );
+
+  return renderSections(source).replace(VARIABLE_PATTERN, (_match, marker: string, name: string) =>
+    marker ? "" : format(lookup(name))
+  );
+};
+
+export const renderEmailTemplate = (template: EmailTemplate, variables: EmailTemplateVariables): EmailTemplate => ({
+  subject: renderTemplate(template.subject, variables).replace(/\s+/g, " ").trim(),
+  text: renderTemplate(template.text, variables),
+  html: renderTemplate(template.html, variables, { html: true }),
+});
+
+const createEmailTemplateSchema = (key: EmailTemplateKey) =>
+  z
+    .object({
+      subject: z.string().trim().min(1, "L'objet est obligatoire").max(300),
+      text: z.string().trim().min(1, "La version texte est obligatoire").max(20000),
+      html: z.string().trim().min(1, "La version HTML est obligatoire").max(50000),
+    })
+    .superRefine((template, ctx) => {
+      const allowed = new Set<string>(EMAIL_TEMPLATE_DEFINITIONS[key].variables);
+      (["subject", "text", "html"] as const).forEach((field) => {
+        listTemplateVariables(template[field])
+          .filter((name) => !allowed.has(name))
+          .forEach((name) => {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [field],
+              message: `Variable inconnue : {{${name}}}`,
+            });
+          });
+      });
+    });
+
+export const emailTemplatesSettingsSchema = z.object({
+  session_invitation: createEmailTemplateSchema("session_invitation").default(
+    DEFAULT_EMAIL_TEMPLATES.session_invitation
+  ),
+  registration_confirmation: createEmailTemplateSchema("registration_confirmation").default(
+    DEFAULT_EMAIL_TEMPLATES.registration_confirmation
+  ),
+  session_reminder: createEmailTemplateSchema("session_reminder").default(
+    DEFAULT_EMAIL_TEMPLATES.session_reminder
+  ),
+  instructor_reminder: createEmailTemplateSchema("instructor_reminder").default(
+    DEFAULT_EMAIL_TEMPLATES.instructor_reminder
+  ),
+});
+
+export type EmailTemplatesSettings = z.infer<typeof emailTemplatesSettingsSchema>;
+
+export const emailTemplatePreviewSchema = z.object({
+  key: z.enum(EMAIL_TEMPLATE_KEYS),
+  sessionId: z.string().min(1, "La session est obligatoire"),
+  template: z.object({
+    subject: z.string().max(300),
+    text: z.string().max(20000),
+    html: z.string().max(50000),
+  }),
+});
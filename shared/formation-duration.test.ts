@@ -0,0 +1,80 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getSessionBoundsFromSlots, parseFormationDuration } from "./formation-duration";
+
+// Local wall-clock time, as the slots are planned in the server's time zone
+const formatLocal = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")} ` +
+  `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+
+const boundsOf = (...args: Parameters<typeof getSessionBoundsFromSlots>) => {
+  const bounds = getSessionBoundsFromSlots(...args);
+  assert.ok(bounds, "slots give bounds");
+  return [formatLocal(bounds.startDate), formatLocal(bounds.endDate)];
+};
+
+describe("parseFormationDuration", () => {
+  test("reads days, with fractional days counted in half-days", () => {
+    assert.deepEqual(parseFormationDuration("2 jours"), { unit: "days", value: 2 });
+    assert.deepEqual(parseFormationDuration("Trois journées"), { unit: "days", value: 3 });
+    assert.deepEqual(parseFormationDuration("1,5 jour"), { unit: "half_days", value: 3 });
+    assert.deepEqual(parseFormationDuration("une demi-journée"), { unit: "half_days", value: 1 });
+  });
+
+  test("reads hours and minutes by quarter hours", () => {
+    assert.deepEqual(parseFormationDuration("3h30"), { unit: "hours", value: 3.5 });
+    assert.deepEqual(parseFormationDuration("7 heures"), { unit: "hours", value: 7 });
+    assert.deepEqual(parseFormationDuration("90 min"), { unit: "hours", value: 1.5 });
+  });
+
+  test("returns null for what it cannot read", () => {
+    for (const text of ["", null, undefined, "selon les besoins", "1,3 jour", "2h10", "0 jour", "10 min"]) {
+      assert.equal(parseFormationDuration(text), null, `"${text}"`);
+    }
+  });
+});
+
+describe("getSessionBoundsFromSlots in hours", () => {
+  const hours = (value: number) => ({ unit: "hours" as const, value, schedule: null });
+
+  test("ends once the hours are taught, across the lunch break", () => {
+    assert.deepEqual(boundsOf([{ date: "2026-11-03", timeSlot: "full_day" }], hours(2)), [
+      "2026-11-03 09:00",
+      "2026-11-03 11:00",
+    ]);
+    assert.deepEqual(boundsOf([{ date: "2026-11-03", timeSlot: "full_day" }], hours(3.5)), [
+      "2026-11-03 09:00",
+      "2026-11-03 14:30",
+    ]);
+  });
+
+  test("an afternoon slot starts after lunch", () => {
+    assert.deepEqual(boundsOf([{ date: "2026-11-03", timeSlot: "afternoon" }], hours(3)), [
+      "2026-11-03 14:00",
+      "2026-11-03 17:00",
+    ]);
+  });
+
+  test("follows the formation's own schedule", () => {
+    const schedule = { morningStart: "08:30", morningEnd: "12:30", afternoonStart: "13:30", afternoonEnd: "17:00" };
+    assert.deepEqual(
+      boundsOf([{ date: "2026-11-03", timeSlot: "full_day" }], { unit: "hours", value: 5, schedule }),
+      ["2026-11-03 08:30", "2026-11-03 14:30"]
+    );
+  });
+
+  test("hours beyond the first day keep the end of the last slot", () => {
+    const slots = [
+      { date: "2026-11-04", timeSlot: "morning" as const },
+      { date: "2026-11-03", timeSlot: "full_day" as const },
+    ];
+    assert.deepEqual(boundsOf(slots, hours(10)), ["2026-11-03 09:00", "2026-11-04 12:00"]);
+  });
+
+  test("never ends after the selected slots", () => {
+    assert.deepEqual(boundsOf([{ date: "2026-11-03", timeSlot: "morning" }], hours(5)), [
+      "2026-11-03 09:00",
+      "2026-11-03 12:00",
+    ]);
+  });
+});
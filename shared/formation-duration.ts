@@ -0,0 +1,265 @@
+import { z } from "zod";
+
+export const FORMATION_DURATION_UNITS = ["days", "half_days", "hours"] as const;
+export type FormationDurationUnit = (typeof FORMATION_DURATION_UNITS)[number];
+
+export const FORMATION_DURATION_UNIT_LABELS: Record<FormationDurationUnit, string> = {
+  days: "Jours",
+  half_days: "Demi-journées",
+  hours: "Heures",
+};
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Heure invalide (HH:MM)");
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+// Teaching hours of a formation day, with the lunch break between both halves
+export const formationScheduleSchema = z
+  .object({
+    morningStart: timeOfDaySchema,
+    morningEnd: timeOfDaySchema,
+    afternoonStart: timeOfDaySchema,
+    afternoonEnd: timeOfDaySchema,
+  })
+  .refine(
+    (schedule) =>
+      toMinutes(schedule.morningStart) < toMinutes(schedule.morningEnd) &&
+      toMinutes(schedule.morningEnd) <= toMinutes(schedule.afternoonStart) &&
+      toMinutes(schedule.afternoonStart) < toMinutes(schedule.afternoonEnd),
+    { message: "Les horaires de la journée doivent se suivre" }
+  );
+
+export type FormationSchedule = z.infer<typeof formationScheduleSchema>;
+
+export const DEFAULT_FORMATION_SCHEDULE: FormationSchedule = {
+  morningStart: "09:00",
+  morningEnd: "12:00",
+  afternoonStart: "14:00",
+  afternoonEnd: "18:00",
+};
+
+// Days and half-days are whole numbers; hours go by quarters ("3h30" is 3.5)
+export const formationDurationSchema = z
+  .object({
+    unit: z.enum(FORMATION_DURATION_UNITS),
+    value: z.number().positive("La durée doit être positive").max(365),
+    schedule: formationScheduleSchema.nullish(),
+  })
+  .refine(
+    (duration) =>
+      duration.unit === "hours" ? Number.isInteger(duration.value * 4) : Number.isInteger(duration.value),
+    {
+      message: "Les jours et demi-journées sont entiers, les heures vont par quart d'heure",
+      path: ["value"],
+    }
+  );
+
+export type FormationDuration = z.infer<typeof formationDurationSchema>;
+
+interface StructuredDurationFields {
+  durationUnit: string | null;
+  durationValue: number | null;
+  dailySchedule: FormationSchedule | null;
+}
+
+/**
+ * Structured duration of a formation, or null while its legacy free-text duration could not
+ * be parsed and waits for RH to fix it.
+ */
+export const getFormationDuration = (formation: StructuredDurationFields): FormationDuration | null => {
+  if (
+    !formation.durationUnit ||
+    !(FORMATION_DURATION_UNITS as readonly string[]).includes(formation.durationUnit) ||
+    !formation.durationValue
+  ) {
+    return null;
+  }
+  return {
+    unit: formation.durationUnit as FormationDurationUnit,
+    value: formation.durationValue,
+    schedule: formation.dailySchedule,
+  };
+};
+
+export const getFormationSchedule = (duration: Pick<FormationDuration, "schedule"> | null) =>
+  duration?.schedule ?? DEFAULT_FORMATION_SCHEDULE;
+
+const getHalfDayHours = (schedule: FormationSchedule) => ({
+  morning: (toMinutes(schedule.morningEnd) - toMinutes(schedule.morningStart)) / 60,
+  afternoon: (toMinutes(schedule.afternoonEnd) - toMinutes(schedule.afternoonStart)) / 60,
+});
+
+export const getDailyHours = (schedule: FormationSchedule) => {
+  const halves = getHalfDayHours(schedule);
+  return halves.morning + halves.afternoon;
+};
+
+// Planned teaching time; a duration in hours counts as the share of a day it fills
+export const getFormationDurationTotals = (duration: FormationDuration) => {
+  const dailyHours = getDailyHours(getFormationSchedule(duration));
+  switch (duration.unit) {
+    case "days":
+      return { hours: duration.value * dailyHours, days: duration.value };
+    case "half_days":
+      return { hours: (duration.value * dailyHours) / 2, days: duration.value / 2 };
+    case "hours":
+      return { hours: duration.value, days: dailyHours > 0 ? duration.value / dailyHours : 0 };
+  }
+};
+
+// Half-days an instructor must be available to teach the whole formation
+export const getRequiredHalfDays = (duration: FormationDuration) => {
+  switch (duration.unit) {
+    case "days":
+      return duration.value * 2;
+    case "half_days":
+      return duration.value;
+    case "hours": {
+      const halfDayHours = getDailyHours(getFormationSchedule(duration)) / 2;
+      return halfDayHours > 0 ? Math.ceil(duration.value / halfDayHours) : 0;
+    }
+  }
+};
+
+export const countSlotHalfDays = (slots: { timeSlot: "full_day" | "morning" | "afternoon" }[]) =>
+  slots.reduce((total, slot) => total + (slot.timeSlot === "full_day" ? 2 : 1), 0);
+
+// "2 jours", "1 demi-journée", "1,5 jour"
+export const formatHalfDays = (halfDays: number) => {
+  if (halfDays === 1) {
+    return "1 demi-journée";
+  }
+  const days = halfDays / 2;
+  return `${String(days).replace(".", ",")} jour${days >= 2 ? "s" : ""}`;
+};
+
+const formatHours = (value: number) => {
+  const hours = Math.floor(value);
+  const minutes = Math.round((value - hours) * 60);
+  return minutes > 0 ? `${hours}h${String(minutes).padStart(2, "0")}` : `${hours}h`;
+};
+
+// Label stored in `formations.duration` and shown wherever the duration is displayed
+export const formatFormationDuration = (duration: Pick<FormationDuration, "unit" | "value">) => {
+  switch (duration.unit) {
+    case "days":
+      return `${duration.value} jour${duration.value > 1 ? "s" : ""}`;
+    case "half_days":
+      return `${duration.value} demi-journée${duration.value > 1 ? "s" : ""}`;
+    case "hours":
+      return formatHours(duration.value);
+  }
+};
+
+const NUMBER_WORDS: Record<string, number> = { un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5 };
+
+/**
+ * Reads the free-text durations entered before durations were structured: "2 jours",
+ * "1,5 jour", "une demi-journée", "3h30", "7 heures", "90 min". Returns null for
+ * anything else, which RH then fix by hand.
+ */
+export const parseFormationDuration = (
+  text: string | null | undefined
+): Pick<FormationDuration, "unit" | "value"> | null => {
+  if (!text) {
+    return null;
+  }
+
+  const normalized = text
+    .trim()
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ");
+  const amountPattern = "(\\d+(?:[.,]\\d+)?|un|une|deux|trois|quatre|cinq)";
+  const readAmount = (value: string) => NUMBER_WORDS[value] ?? Number(value.replace(",", "."));
+
+  const halfDays = normalized.match(new RegExp(`^(?:${amountPattern} )?demi[- ]?(?:journees?|jours?)$`));
+  if (halfDays) {
+    const value = halfDays[1] ? readAmount(halfDays[1]) : 1;
+    return Number.isInteger(value) && value > 0 ? { unit: "half_days", value } : null;
+  }
+
+  const days = normalized.match(new RegExp(`^${amountPattern} ?(?:j|jours?|journees?)$`));
+  if (days) {
+    const value = readAmount(days[1]);
+    if (Number.isInteger(value) && value > 0) {
+      return { unit: "days", value };
+    }
+    return Number.isInteger(value * 2) && value > 0 ? { unit: "half_days", value: value * 2 } : null;
+  }
+
+  const hours = normalized.match(/^(\d+(?:[.,]\d+)?) ?(?:h|heures?)(?: ?(\d{1,2}) ?(?:min)?)?$/);
+  if (hours) {
+    const value = Number(hours[1].replace(",", ".")) + (hours[2] ? Number(hours[2]) / 60 : 0);
+    return value > 0 && Number.isInteger(value * 4) ? { unit: "hours", value } : null;
+  }
+
+  const minutes = normalized.match(/^(\d+) ?(?:min|minutes?)$/);
+  if (minutes) {
+    const value = Number(minutes[1]) / 60;
+    return value > 0 && Number.isInteger(value * 4) ? { unit: "hours", value } : null;
+  }
+
+  return null;
+};
+
+const atTime = (date: string, time: string) => {
+  const result = new Date(`${date}T00:00:00`);
+  const minutes = toMinutes(time);
+  result.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+  return result;
+};
+
+/**
+ * Default start and end of a session planned on instructor slots (dates as "yyyy-MM-dd"),
+ * following the formation's daily schedule. A formation counted in hours ends once its
+ * hours are taught when they fit in the first day.
+ */
+export const getSessionBoundsFromSlots = (
+  slots: { date: string; timeSlot: "full_day" | "morning" | "afternoon" }[],
+  duration: FormationDuration | null
+) => {
+  if (slots.length === 0) {
+    return null;
+  }
+
+  const schedule = getFormationSchedule(duration);
+  const sorted = [...slots].sort((a, b) => a.date.localeCompare(b.date));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+
+  const startTime = first.timeSlot === "afternoon" ? schedule.afternoonStart : schedule.morningStart;
+  const startDate = atTime(first.date, startTime);
+  let endDate = atTime(last.date, last.timeSlot === "morning" ? schedule.morningEnd : schedule.afternoonEnd);
+
+  if (duration?.unit === "hours") {
+    let remaining = duration.value * 60;
+    let end: number | null = null;
+    const periods =
+      first.timeSlot === "afternoon"
+        ? [[schedule.afternoonStart, schedule.afternoonEnd]]
+        : [
+            [schedule.morningStart, schedule.morningEnd],
+            [schedule.afternoonStart, schedule.afternoonEnd],
+          ];
+    for (const [periodStart, periodEnd] of periods) {
+      const length = toMinutes(periodEnd) - toMinutes(periodStart);
+      if (remaining <= length) {
+        end = toMinutes(periodStart) + remaining;
+        break;
+      }
+      remaining -= length;
+    }
+    if (end !== null) {
+      const sameDayEnd = atTime(first.date, "00:00");
+      sameDayEnd.setMinutes(end);
+      endDate = sameDayEnd < endDate ? sameDayEnd : endDate;
+    }
+  }
+
+  return { startDate, endDate };
+};
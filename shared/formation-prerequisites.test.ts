@@ -0,0 +1,122 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  evaluatePrerequisites,
+  findPrerequisiteDependents,
+  prerequisiteGroupSchema,
+  removePrerequisiteFormation,
+  type PrerequisiteGroup,
+} from "./formation-prerequisites";
+
+const now = new Date("2026-11-03T12:00:00Z");
+const titles = new Map([
+  ["docker", "Docker"],
+  ["k8s", "Kubernetes"],
+  ["python", "Python"],
+  ["java", "Java"],
+]);
+
+const completed = (formationId: string, completedAt: string) => ({ formationId, completedAt: new Date(completedAt) });
+
+describe("evaluatePrerequisites", () => {
+  test("all_of needs every formation, any_of a single one", () => {
+    const groups: PrerequisiteGroup[] = [
+      { mode: "all_of", formationIds: ["docker", "k8s"] },
+      { mode: "any_of", formationIds: ["python", "java"] },
+    ];
+    const completions = [completed("docker", "2026-01-10"), completed("java", "2025-06-01")];
+
+    const [allOf, anyOf] = evaluatePrerequisites(groups, completions, titles, now);
+
+    assert.equal(allOf.met, false);
+    assert.deepEqual(
+      allOf.formations.map((formation) => [formation.title, formation.status]),
+      [
+        ["Docker", "completed"],
+        ["Kubernetes", "missing"],
+      ]
+    );
+    assert.equal(anyOf.met, true);
+
+    const [allOfDone] = evaluatePrerequisites(groups, [...completions, completed("k8s", "2026-02-01")], titles, now);
+    assert.equal(allOfDone.met, true);
+  });
+
+  test("completions older than the validity have expired", () => {
+    const groups: PrerequisiteGroup[] = [{ mode: "any_of", formationIds: ["docker", "k8s"], validityMonths: 24 }];
+
+    const [group] = evaluatePrerequisites(
+      groups,
+      [completed("docker", "2024-10-01"), completed("k8s", "2020-05-01")],
+      titles,
+      now
+    );
+
+    assert.equal(group.met, false);
+    assert.deepEqual(
+      group.formations.map((formation) => formation.status),
+      ["expired", "expired"]
+    );
+  });
+
+  test("the latest completion of a formation counts", () => {
+    const groups: PrerequisiteGroup[] = [{ mode: "all_of", formationIds: ["docker"], validityMonths: 12 }];
+
+    const [group] = evaluatePrerequisites(
+      groups,
+      [completed("docker", "2026-03-01"), completed("docker", "2019-01-01")],
+      titles,
+      now
+    );
+
+    assert.equal(group.met, true);
+    assert.deepEqual(group.formations[0].completedAt, new Date("2026-03-01"));
+  });
+
+  test("no group means no prerequisite", () => {
+    assert.deepEqual(evaluatePrerequisites([], [], titles, now), []);
+  });
+});
+
+describe("findPrerequisiteDependents", () => {
+  const formations = [
+    { id: "docker", prerequisiteGroups: null },
+    { id: "k8s", prerequisiteGroups: [{ mode: "all_of" as const, formationIds: ["docker"] }] },
+    { id: "helm", prerequisiteGroups: [{ mode: "any_of" as const, formationIds: ["python", "k8s"] }] },
+    { id: "python", prerequisiteGroups: [] },
+  ];
+
+  test("includes the formation and everything requiring it, directly or not", () => {
+    assert.deepEqual(Array.from(findPrerequisiteDependents("docker", formations)).sort(), ["docker", "helm", "k8s"]);
+    assert.deepEqual(Array.from(findPrerequisiteDependents("helm", formations)), ["helm"]);
+  });
+
+  test("spots the cycle a new prerequisite would close", () => {
+    // Docker requiring Helm would loop through Kubernetes back to Docker
+    assert.ok(findPrerequisiteDependents("docker", formations).has("helm"));
+    assert.ok(!findPrerequisiteDependents("python", formations).has("docker"));
+  });
+
+  test("terminates on data that already holds a cycle", () => {
+    const cyclic = [
+      { id: "a", prerequisiteGroups: [{ mode: "all_of" as const, formationIds: ["b"] }] },
+      { id: "b", prerequisiteGroups: [{ mode: "all_of" as const, formationIds: ["a"] }] },
+    ];
+    assert.deepEqual(Array.from(findPrerequisiteDependents("a", cyclic)).sort(), ["a", "b"]);
+  });
+});
+
+describe("prerequisite groups", () => {
+  test("duplicate formations are dropped when parsing", () => {
+    const group = prerequisiteGroupSchema.parse({ mode: "all_of", formationIds: ["docker", "k8s", "docker"] });
+    assert.deepEqual(group.formationIds, ["docker", "k8s"]);
+  });
+
+  test("removing a formation drops the groups it leaves empty", () => {
+    const groups: PrerequisiteGroup[] = [
+      { mode: "all_of", formationIds: ["docker"] },
+      { mode: "any_of", formationIds: ["docker", "k8s"] },
+    ];
+    assert.deepEqual(removePrerequisiteFormation(groups, "docker"), [{ mode: "any_of", formationIds: ["k8s"] }]);
+  });
+});
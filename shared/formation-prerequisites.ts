@@ -0,0 +1,128 @@
+import { z } from "zod";
+
+export const PREREQUISITE_GROUP_MODES = ["all_of", "any_of"] as const;
+export type PrerequisiteGroupMode = (typeof PREREQUISITE_GROUP_MODES)[number];
+
+export const PREREQUISITE_GROUP_MODE_LABELS: Record<PrerequisiteGroupMode, string> = {
+  all_of: "Toutes ces formations",
+  any_of: "Au moins une de ces formations",
+};
+
+// A formation is open once every group is met; `validityMonths` ignores older completions
+export const prerequisiteGroupSchema = z.object({
+  mode: z.enum(PREREQUISITE_GROUP_MODES),
+  formationIds: z
+    .array(z.string().min(1))
+    .min(1, "Choisissez au moins une formation")
+    .max(20)
+    .transform((ids) => ids.filter((id, index) => ids.indexOf(id) === index)),
+  validityMonths: z.number().int().positive("La validité doit être positive").max(240).nullish(),
+});
+
+export const prerequisiteGroupsSchema = z.array(prerequisiteGroupSchema).max(10);
+
+export type PrerequisiteGroup = z.infer<typeof prerequisiteGroupSchema>;
+
+export interface PrerequisiteCompletion {
+  formationId: string;
+  completedAt: Date;
+}
+
+export type PrerequisiteFormationStatus = "completed" | "expired" | "missing";
+
+export interface PrerequisiteGroupStatus extends PrerequisiteGroup {
+  met: boolean;
+  formations: Array<{
+    formationId: string;
+    title: string;
+    status: PrerequisiteFormationStatus;
+    completedAt: Date | null;
+  }>;
+}
+
+const subtractMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() - months);
+  return result;
+};
+
+// Checks each group against the user's completed formations, keeping the latest completion of each
+export const evaluatePrerequisites = (
+  groups: PrerequisiteGroup[],
+  completions: PrerequisiteCompletion[],
+  formationTitles: Map<string, string>,
+  now: Date = new Date()
+): PrerequisiteGroupStatus[] => {
+  const latestCompletions = new Map<string, Date>();
+  completions.forEach((completion) => {
+    const previous = latestCompletions.get(completion.formationId);
+    if (!previous || previous < completion.completedAt) {
+      latestCompletions.set(completion.formationId, completion.completedAt);
+    }
+  });
+
+  return groups.map((group) => {
+    const validFrom = group.validityMonths ? subtractMonths(now, group.validityMonths) : null;
+    const formations = group.formationIds.map((formationId) => {
+      const completedAt = latestCompletions.get(formationId) ?? null;
+      const status: PrerequisiteFormationStatus = !completedAt
+        ? "missing"
+        : validFrom && completedAt < validFrom
+        ? "expired"
+        : "completed";
+      return { formationId, title: formationTitles.get(formationId) ?? formationId, status, completedAt };
+    });
+    const completedCount = formations.filter((formation) => formation.status === "completed").length;
+
+    return {
+      ...group,
+      met: group.mode === "all_of" ? completedCount === formations.length : completedCount > 0,
+      formations,
+    };
+  });
+};
+
+// "Docker et Kubernetes", "Python ou Java (suivie depuis moins de 24 mois)"
+export const describePrerequisiteGroup = (group: PrerequisiteGroupStatus) => {
+  const titles = group.formations
+    .filter((formation) => group.mode === "any_of" || formation.status !== "completed")
+    .map((formation) => formation.title);
+  const separator = group.mode === "all_of" ? " et " : " ou ";
+  const label =
+    titles.length > 1 ? `${titles.slice(0, -1).join(", ")}${separator}${titles[titles.length - 1]}` : titles[0];
+  return group.validityMonths ? `${label} (suivie depuis moins de ${group.validityMonths} mois)` : label;
+};
+
+/**
+ * Formations whose prerequisites include `formationId`, directly or through other formations;
+ * a formation may not require any of them without making both impossible to follow.
+ */
+export const findPrerequisiteDependents = (
+  formationId: string,
+  formations: Array<{ id: string; prerequisiteGroups: PrerequisiteGroup[] | null }>
+) => {
+  const dependents = new Set<string>([formationId]);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    formations.forEach((formation) => {
+      if (dependents.has(formation.id)) {
+        return;
+      }
+      const requiresDependent = (formation.prerequisiteGroups ?? []).some((group) =>
+        group.formationIds.some((id) => dependents.has(id))
+      );
+      if (requiresDependent) {
+        dependents.add(formation.id);
+        changed = true;
+      }
+    });
+  }
+  return dependents;
+};
+
+// Drops a deleted formation from prerequisite groups, and the groups left without formations
+export const removePrerequisiteFormation = (groups: PrerequisiteGroup[], formationId: string) =>
+  groups
+    .map((group) => ({ ...group, formationIds: group.formationIds.filter((id) => id !== formationId) }))
+    .filter((group) => group.formationIds.length > 0);
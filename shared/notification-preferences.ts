@@ -0,0 +1,73 @@
+import { z } from "zod";
+
+export const NOTIFICATION_CATEGORIES = [
+  "validation_requests",
+  "interest_updates",
+  "registrations",
+  "new_sessions",
+] as const;
+export type NotificationCategory = (typeof NOTIFICATION_CATEGORIES)[number];
+
+// Every channel but "off" keeps the in-app notification; the others add an email on top
+export const NOTIFICATION_CHANNELS = ["in_app", "email", "daily_digest", "weekly_digest", "off"] as const;
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+export const DIGEST_FREQUENCIES = ["daily", "weekly"] as const;
+export type DigestFrequency = (typeof DIGEST_FREQUENCIES)[number];
+
+export const DIGEST_CHANNEL_BY_FREQUENCY: Record<DigestFrequency, NotificationChannel> = {
+  daily: "daily_digest",
+  weekly: "weekly_digest",
+};
+
+export const NOTIFICATION_CATEGORY_DEFINITIONS: Record<
+  NotificationCategory,
+  { label: string; description: string }
+> = {
+  validation_requests: {
+    label: "Intentions à valider",
+    description: "Nouvelles intentions de vos coachés ou des collaborateurs en attente de votre validation.",
+  },
+  interest_updates: {
+    label: "Suivi de mes intentions",
+    description: "Validation, refus ou annulation de vos intentions de formation.",
+  },
+  registrations: {
+    label: "Mes inscriptions",
+    description: "Inscriptions, liste d'attente, places libérées et sessions annulées.",
+  },
+  new_sessions: {
+    label: "Nouvelles sessions",
+    description: "Sessions ouvertes pour les formations qui vous intéressent.",
+  },
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "Dans l'application",
+  email: "Email immédiat",
+  daily_digest: "Récapitulatif quotidien",
+  weekly_digest: "Récapitulatif hebdomadaire",
+  off: "Désactivé",
+};
+
+export type NotificationPreferences = Record<NotificationCategory, NotificationChannel>;
+
+// Matches the behaviour before preferences existed: in-app notifications only
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  validation_requests: "in_app",
+  interest_updates: "in_app",
+  registrations: "in_app",
+  new_sessions: "in_app",
+};
+
+const notificationChannelSchema = z.enum(NOTIFICATION_CHANNELS);
+
+// Partial updates: categories left out keep their current channel
+export const notificationPreferencesSchema = z
+  .object({
+    validation_requests: notificationChannelSchema.optional(),
+    interest_updates: notificationChannelSchema.optional(),
+    registrations: notificationChannelSchema.optional(),
+    new_sessions: notificationChannelSchema.optional(),
+  })
+  .strict();
@@ -0,0 +1,73 @@
+import type { NotificationMetadata } from "./schema";
+import type { NotificationCategory } from "./notification-preferences";
+
+export const NOTIFICATION_KINDS = [
+  "interest_submitted",
+  "interest_awaiting_validation",
+  "interest_approved",
+  "interest_coach_approved",
+  "interest_rejected",
+  "interest_withdrawn",
+  "interest_converted",
+  "registration_created",
+  "registration_validated",
+  "registration_waitlisted",
+  "registration_promoted",
+  "session_created",
+  "session_updated",
+  "session_cancelled",
+] as const;
+export type NotificationKind = (typeof NOTIFICATION_KINDS)[number];
+
+// The kind decides the preference category, so senders cannot file a notification under the wrong one
+export const NOTIFICATION_KIND_DEFINITIONS: Record<
+  NotificationKind,
+  { label: string; category: NotificationCategory }
+> = {
+  interest_submitted: { label: "Nouvelle intention", category: "validation_requests" },
+  interest_awaiting_validation: { label: "Validation coach reçue", category: "validation_requests" },
+  interest_approved: { label: "Intention validée", category: "interest_updates" },
+  interest_coach_approved: { label: "Validation du coach", category: "interest_updates" },
+  interest_rejected: { label: "Intention refusée", category: "interest_updates" },
+  interest_withdrawn: { label: "Intention annulée", category: "interest_updates" },
+  interest_converted: { label: "Intention concrétisée", category: "interest_updates" },
+  registration_created: { label: "Inscription", category: "registrations" },
+  registration_validated: { label: "Inscription validée", category: "registrations" },
+  registration_waitlisted: { label: "Liste d'attente", category: "registrations" },
+  registration_promoted: { label: "Place libérée", category: "registrations" },
+  session_created: { label: "Nouvelle session", category: "new_sessions" },
+  session_updated: { label: "Session modifiée", category: "registrations" },
+  session_cancelled: { label: "Session annulée", category: "registrations" },
+};
+
+export const isNotificationKind = (value: unknown): value is NotificationKind =>
+  typeof value === "string" && (NOTIFICATION_KINDS as readonly string[]).includes(value);
+
+/**
+ * Page opening the exact entity behind a notification: the validation screen for requests,
+ * the dashboard card for the user's own intentions and the formation page for sessions.
+ * Notifications created before kinds existed fall back to their route.
+ */
+export const getNotificationLink = (notification: {
+  kind?: string | null;
+  route: string;
+  metadata?: NotificationMetadata | null;
+}) => {
+  const metadata = notification.metadata ?? {};
+  if (!isNotificationKind(notification.kind)) {
+    return notification.route;
+  }
+
+  const { category } = NOTIFICATION_KIND_DEFINITIONS[notification.kind];
+  if (category === "validation_requests" && metadata.interestId) {
+    return `${notification.route}?interest=${encodeURIComponent(metadata.interestId)}`;
+  }
+  if (category === "interest_updates" && metadata.interestId) {
+    return `/?interest=${encodeURIComponent(metadata.interestId)}`;
+  }
+  if (metadata.formationId) {
+    const base = `/training/${encodeURIComponent(metadata.formationId)}`;
+    return metadata.sessionId ? `${base}?session=${encodeURIComponent(metadata.sessionId)}` : base;
+  }
+  return notification.route;
+};
@@ -0,0 +1,65 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { getQuotaConsumptions, getQuotaCycle, quotaCycleSettingsSchema } from "./quota";
+
+const september = quotaCycleSettingsSchema.parse({ startMonth: 9, startDay: 1 });
+
+const cycleAt = (iso: string, settings = september) => {
+  const cycle = getQuotaCycle(new Date(iso), settings);
+  return { label: cycle.label, startsAt: cycle.startsAt.toISOString(), endsAt: cycle.endsAt.toISOString() };
+};
+
+describe("getQuotaCycle", () => {
+  test("the default cycle is the calendar year", () => {
+    assert.deepEqual(cycleAt("2026-01-01T00:00:00Z", quotaCycleSettingsSchema.parse({})), {
+      label: "2026",
+      startsAt: "2026-01-01T00:00:00.000Z",
+      endsAt: "2027-01-01T00:00:00.000Z",
+    });
+    assert.equal(getQuotaCycle(new Date("2026-12-31T23:59:59.999Z")).label, "2026");
+  });
+
+  test("rolls over exactly at the configured start, in UTC", () => {
+    assert.deepEqual(cycleAt("2026-08-31T23:59:59.999Z"), {
+      label: "2025-2026",
+      startsAt: "2025-09-01T00:00:00.000Z",
+      endsAt: "2026-09-01T00:00:00.000Z",
+    });
+    assert.deepEqual(cycleAt("2026-09-01T00:00:00.000Z"), {
+      label: "2026-2027",
+      startsAt: "2026-09-01T00:00:00.000Z",
+      endsAt: "2027-09-01T00:00:00.000Z",
+    });
+  });
+
+  test("a cycle ends where the next one starts", () => {
+    const current = getQuotaCycle(new Date("2026-10-15T10:00:00Z"), september);
+    const next = getQuotaCycle(current.endsAt, september);
+
+    assert.equal(next.year, current.year + 1);
+    assert.equal(next.startsAt.getTime(), current.endsAt.getTime());
+  });
+
+  test("a start late in the month still rolls over on that day", () => {
+    const settings = quotaCycleSettingsSchema.parse({ startMonth: 2, startDay: 28 });
+    assert.equal(cycleAt("2028-02-27T23:00:00Z", settings).label, "2027-2028");
+    assert.equal(cycleAt("2028-02-28T00:00:00Z", settings).label, "2028-2029");
+  });
+});
+
+describe("quota usage across a rollover", () => {
+  test("intentions count in the cycle they were expressed in", () => {
+    const interests = [
+      { id: "i1", formationId: "docker", priority: "P1", status: "approved", expressedAt: "2026-08-31T22:00:00Z" },
+      { id: "i2", formationId: "k8s", priority: "P1", status: "pending", expressedAt: "2026-09-01T08:00:00Z" },
+      { id: "i3", formationId: null, priority: "P2", status: "pending", expressedAt: "2026-09-02T08:00:00Z" },
+      { id: "i4", formationId: "java", priority: "P2", status: "withdrawn", expressedAt: "2026-09-03T08:00:00Z" },
+    ];
+
+    const previous = getQuotaConsumptions(interests, [], getQuotaCycle(new Date("2026-08-31T23:00:00Z"), september));
+    const current = getQuotaConsumptions(interests, [], getQuotaCycle(new Date("2026-09-01T00:00:00Z"), september));
+
+    assert.deepEqual([Array.from(previous.P1), Array.from(previous.P2)], [["docker"], []]);
+    assert.deepEqual([Array.from(current.P1), Array.from(current.P2)], [["k8s"], ["interest:i3"]]);
+  });
+});
@@ -0,0 +1,178 @@
+import { z } from "zod";
+import { resolveSeniorityLevel } from "./schema";
+
+export const QUOTA_PRIORITIES = ["P1", "P2"] as const;
+export type QuotaPriority = (typeof QUOTA_PRIORITIES)[number];
+
+export const isQuotaPriority = (priority: string): priority is QuotaPriority =>
+  QUOTA_PRIORITIES.includes(priority as QuotaPriority);
+
+const allowanceValueSchema = z.number().int().min(0).max(10);
+
+export const quotaAllowanceRuleSchema = z.object({
+  seniority: z.string().trim().max(120).nullable().default(null),
+  businessUnit: z.string().trim().max(120).nullable().default(null),
+  P1: allowanceValueSchema,
+  P2: allowanceValueSchema,
+});
+
+export const quotaCycleSettingsSchema = z.object({
+  // Day 29-31 does not exist every month, so campaigns start on the 28th at the latest
+  startMonth: z.number().int().min(1).max(12).default(1),
+  startDay: z.number().int().min(1).max(28).default(1),
+  defaultAllowance: z
+    .object({ P1: allowanceValueSchema.default(1), P2: allowanceValueSchema.default(1) })
+    .default({}),
+  rules: z.array(quotaAllowanceRuleSchema).max(50).default([]),
+});
+
+export type QuotaAllowanceRule = z.infer<typeof quotaAllowanceRuleSchema>;
+export type QuotaCycleSettings = z.infer<typeof quotaCycleSettingsSchema>;
+export type QuotaAllowance = Record<QuotaPriority, number>;
+
+export const DEFAULT_QUOTA_CYCLE_SETTINGS: QuotaCycleSettings = quotaCycleSettingsSchema.parse({});
+
+export interface QuotaCycle {
+  // Calendar year in which the cycle starts
+  year: number;
+  label: string;
+  startsAt: Date;
+  endsAt: Date;
+}
+
+export interface QuotaSummary {
+  cycle: { year: number; label: string; startsAt: string; endsAt: string };
+  allowance: QuotaAllowance;
+  used: QuotaAllowance;
+  remaining: QuotaAllowance;
+}
+
+// Boundaries are computed in UTC so that server and browser agree on the current cycle
+export const getQuotaCycle = (
+  date: Date,
+  settings: QuotaCycleSettings = DEFAULT_QUOTA_CYCLE_SETTINGS
+): QuotaCycle => {
+  const startOf = (year: number) =>
+    new Date(Date.UTC(year, settings.startMonth - 1, settings.startDay));
+
+  let year = date.getUTCFullYear();
+  if (date.getTime() < startOf(year).getTime()) {
+    year -= 1;
+  }
+
+  const spansTwoYears = settings.startMonth !== 1 || settings.startDay !== 1;
+
+  return {
+    year,
+    label: spansTwoYears ? `${year}-${year + 1}` : `${year}`,
+    startsAt: startOf(year),
+    endsAt: startOf(year + 1),
+  };
+};
+
+const matchesRuleValue = (expected: string | null, actual: string | null | undefined) =>
+  !expected || expected.trim().toLowerCase() === (actual ?? "").trim().toLowerCase();
+
+// Rules are evaluated in order and the first one matching the collaborator wins
+export const resolveQuotaAllowance = (
+  user: { seniority?: string | null; businessUnit?: string | null },
+  settings: QuotaCycleSettings = DEFAULT_QUOTA_CYCLE_SETTINGS
+): QuotaAllowance => {
+  const rule = settings.rules.find(
+    (candidate) =>
+      matchesRuleValue(candidate.seniority, resolveSeniorityLevel(user.seniority) ?? user.seniority) &&
+      matchesRuleValue(candidate.businessUnit, user.businessUnit)
+  );
+
+  return rule ? { P1: rule.P1, P2: rule.P2 } : { ...settings.defaultAllowance };
+};
+
+export interface QuotaInterestRecord {
+  id: string;
+  formationId: string | null;
+  priority: string;
+  status: string;
+  expressedAt: Date | string | null;
+}
+
+export interface QuotaRegistrationRecord {
+  formationId: string;
+  priority: string;
+  status: string;
+  registeredAt: Date | string | null;
+}
+
+const COUNTED_INTEREST_STATUSES = new Set(["pending", "approved", "converted"]);
+const COUNTED_REGISTRATION_STATUSES = new Set(["validated", "completed"]);
+
+const isWithinCycle = (value: Date | string | null, cycle: QuotaCycle) => {
+  if (!value) {
+    return false;
+  }
+  const time = new Date(value).getTime();
+  return time >= cycle.startsAt.getTime() && time < cycle.endsAt.getTime();
+};
+
+/**
+ * Keys (formation id, or interest id for off-catalog requests) that consume each
+ * priority during the cycle. An active intention consumes the quota when it is
+ * expressed; a validated registration only counts when no active intention already
+ * covers its formation, e.g. after an intention was withdrawn once the training took place.
+ */
+export const getQuotaConsumptions = (
+  interests: QuotaInterestRecord[],
+  registrations: QuotaRegistrationRecord[],
+  cycle: QuotaCycle
+): Record<QuotaPriority, Set<string>> => {
+  const consumptions: Record<QuotaPriority, Set<string>> = { P1: new Set(), P2: new Set() };
+  const coveredFormationIds = new Set<string>();
+
+  for (const interest of interests) {
+    if (!COUNTED_INTEREST_STATUSES.has(interest.status)) {
+      continue;
+    }
+    if (interest.formationId) {
+      coveredFormationIds.add(interest.formationId);
+    }
+    if (isQuotaPriority(interest.priority) && isWithinCycle(interest.expressedAt, cycle)) {
+      consumptions[interest.priority].add(interest.formationId ?? `interest:${interest.id}`);
+    }
+  }
+
+  for (const registration of registrations) {
+    if (
+      !COUNTED_REGISTRATION_STATUSES.has(registration.status) ||
+      !isQuotaPriority(registration.priority) ||
+      coveredFormationIds.has(registration.formationId) ||
+      !isWithinCycle(registration.registeredAt, cycle)
+    ) {
+      continue;
+    }
+    consumptions[registration.priority].add(registration.formationId);
+  }
+
+  return consumptions;
+};
+
+export const buildQuotaSummary = (
+  cycle: QuotaCycle,
+  allowance: QuotaAllowance,
+  consumptions: Record<QuotaPriority, Set<string>>
+): QuotaSummary => {
+  const used = { P1: consumptions.P1.size, P2: consumptions.P2.size };
+
+  return {
+    cycle: {
+      year: cycle.year,
+      label: cycle.label,
+      startsAt: cycle.startsAt.toISOString(),
+      endsAt: cycle.endsAt.toISOString(),
+    },
+    allowance,
+    used,
+    remaining: {
+      P1: Math.max(0, allowance.P1 - used.P1),
+      P2: Math.max(0, allowance.P2 - used.P2),
+    },
+  };
+};
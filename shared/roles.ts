@@ -36,3 +36,73 @@ export function hasRole(roles: string[], role: UserRole): boolean {
 export function isInstructor(roles: string[]): boolean {
   return roles.some((role) => INSTRUCTOR_ROLES.includes(role as InstructorRole));
 }
+
+// Breadth of a grant: every resource, resources the user is assigned to
+// (formations they teach, coachees…), or only resources the user owns
+export type PermissionScope = "all" | "assigned" | "own";
+
+const SCOPE_RANK: Record<PermissionScope, number> = {
+  own: 1,
+  assigned: 2,
+  all: 3,
+};
+
+const INSTRUCTOR_ASSIGNED = { formateur: "assigned", formateur_externe: "assigned" } as const;
+
+// Single source of truth for who may do what, shared by the API middleware and the navigation
+export const PERMISSIONS = {
+  "learning.access": { consultant: "own", rh: "all" },
+  "instructor.workspace": { formateur: "own", formateur_externe: "own" },
+  "instructor.formations.selfAssign": { formateur: "own" },
+  "team.view": { manager: "assigned" },
+  "coaching.access": { coach: "assigned" },
+  "users.manage": { rh: "all" },
+  "coachAssignments.manage": { rh: "all" },
+  "settings.manage": { rh: "all" },
+  "communication.manage": { rh: "all" },
+  "catalog.manage": { rh: "all" },
+  "formations.manage": { rh: "all", ...INSTRUCTOR_ASSIGNED },
+  "sessions.plan": { rh: "all" },
+  "sessions.manage": { rh: "all", ...INSTRUCTOR_ASSIGNED },
+  "reviews.moderate": { rh: "all" },
+  "interests.manage": { rh: "all" },
+  "registrations.manage": { rh: "all" },
+  "analytics.view": { rh: "all" },
+  "audit.view": { rh: "all" },
+} as const satisfies Record<string, Partial<Record<UserRole, PermissionScope>>>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export interface PermissionContext {
+  isOwner?: boolean;
+  isAssigned?: boolean;
+}
+
+// Broadest scope granted by any of the roles, or null when none grants the permission
+export function getPermissionScope(roles: string[], permission: Permission): PermissionScope | null {
+  const grants: Partial<Record<string, PermissionScope>> = PERMISSIONS[permission];
+  let best: PermissionScope | null = null;
+
+  for (const role of roles) {
+    const scope = grants[role];
+    if (scope && (!best || SCOPE_RANK[scope] > SCOPE_RANK[best])) {
+      best = scope;
+    }
+  }
+
+  return best;
+}
+
+// Without a context this answers "may the user perform the action at all",
+// with one it also checks the scope against the targeted resource
+export function hasPermission(
+  roles: string[],
+  permission: Permission,
+  context?: PermissionContext
+): boolean {
+  const scope = getPermissionScope(roles, permission);
+  if (!scope) return false;
+  if (!context || scope === "all") return true;
+  if (scope === "assigned") return Boolean(context.isAssigned || context.isOwner);
+  return Boolean(context.isOwner);
+}
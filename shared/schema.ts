@@ -8,11 +8,18 @@ import {
   boolean,
   uniqueIndex,
   jsonb,
+  real,
   customType,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import type { Buffer } from "buffer";
+import {
+  FORMATION_DURATION_UNITS,
+  formationScheduleSchema,
+  type FormationSchedule,
+} from "./formation-duration";
+import { prerequisiteGroupsSchema, type PrerequisiteGroup } from "./formation-prerequisites";
 
 const bytea = customType<{ data: Buffer; driverData: Buffer }>({
   dataType: () => "bytea",
@@ -97,9 +104,10 @@ export const users = pgTable("users", {
   roles: text("roles").array().notNull(), // consultant, rh, formateur, formateur_externe, manager
   seniority: text("seniority"), // e.g. Alternant, Junior, Senior...
   businessUnit: text("business_unit"),
-  p1Used: integer("p1_used").default(0),
-  p2Used: integer("p2_used").default(0),
   archived: boolean("archived").default(false),
+  mustChangePassword: boolean("must_change_password").default(false),
+  // Roles granted by SSO group claims, recomputed at each SSO login; the others were granted in the app
+  ssoRoles: text("sso_roles").array().notNull().default(sql`'{}'::text[]`),
 });
 
 export const formations = pgTable("formations", {
@@ -108,13 +116,19 @@ export const formations = pgTable("formations", {
   description: text("description").notNull(),
   objectives: text("objectives").notNull(),
   prerequisites: text("prerequisites"),
-  duration: text("duration").notNull(), // "2 jours", "3h30"
+  duration: text("duration").notNull(), // Label derived from the structured duration: "2 jours", "3h30"
+  // days, half_days, hours; null while a legacy free-text duration awaits RH
+  durationUnit: text("duration_unit"),
+  durationValue: real("duration_value"),
+  dailySchedule: jsonb("daily_schedule").$type<FormationSchedule>(), // null: DEFAULT_FORMATION_SCHEDULE
   modality: text("modality").notNull(), // presentiel, distanciel, hybride
   seniorityRequired: text("seniority_required"), // Alternant, Junior, Senior...
   theme: text("theme").notNull(),
   tags: text("tags").array(),
   active: boolean("active").default(true),
   content: text("content"),
+  // Formations to complete first; `prerequisites` above stays a free-text note
+  prerequisiteGroups: jsonb("prerequisite_groups").$type<PrerequisiteGroup[]>(),
 });
 
 export const formationMaterials = pgTable("formation_materials", {
@@ -139,9 +153,12 @@ export const sessions = pgTable("sessions", {
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
   location: text("location"), // "Salle A" or "Visio"
+  meetingUrl: text("meeting_url"), // visio link sent with invitations and reminders
   capacity: integer("capacity").notNull(),
   instructorId: varchar("instructor_id"),
   status: text("status").notNull(), // open, full, completed, cancelled
+  cancellationReason: text("cancellation_reason"),
+  cancelledAt: timestamp("cancelled_at"),
 });
 
 export const formationInterests = pgTable("formation_interests", {
@@ -189,7 +206,9 @@ export const registrations = pgTable("registrations", {
   sessionId: varchar("session_id").notNull(),
   formationId: varchar("formation_id").notNull(),
   priority: text("priority").notNull(), // P1, P2, P3
-  status: text("status").notNull(), // pending, validated, completed, cancelled
+  status: text("status").notNull(), // pending, validated, completed, cancelled, waitlisted
+  // 1-based rank among the session's waitlisted registrations, null once promoted
+  waitlistPosition: integer("waitlist_position"),
   registeredAt: timestamp("registered_at").default(sql`now()`),
   attended: boolean("attended").default(false),
   attendanceSignedAt: timestamp("attendance_signed_at"),
@@ -226,6 +245,11 @@ export const sessionAttendanceTokens = pgTable(
       .notNull()
       .references(() => sessions.id, { onDelete: "cascade" }),
     token: varchar("token").notNull(),
+    // Day of the session (see buildSessionSegments) and part of that day the token signs for
+    segmentIndex: integer("segment_index").notNull().default(0),
+    period: text("period").notNull().default("day"),
+    // Live tokens only sign through the rotating codes derived from them
+    live: boolean("live").notNull().default(false),
     expiresAt: timestamp("expires_at").notNull(),
     createdAt: timestamp("created_at").default(sql`now()`),
     createdBy: varchar("created_by").notNull(),
@@ -236,6 +260,178 @@ export const sessionAttendanceTokens = pgTable(
   })
 );
 
+export const ATTENDANCE_PERIODS = ["day", "morning", "afternoon"] as const;
+export type AttendancePeriod = (typeof ATTENDANCE_PERIODS)[number];
+
+export const registrationAttendances = pgTable(
+  "registration_attendances",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    registrationId: varchar("registration_id")
+      .notNull()
+      .references(() => registrations.id, { onDelete: "cascade" }),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => sessions.id, { onDelete: "cascade" }),
+    segmentIndex: integer("segment_index").notNull(),
+    period: text("period").notNull(), // day, morning, afternoon
+    // Rotation window of the live QR code used to sign, null for static codes
+    codeWindow: integer("code_window"),
+    signedAt: timestamp("signed_at").notNull().default(sql`now()`),
+  },
+  (table) => ({
+    slotUnique: uniqueIndex("registration_attendances_slot_idx").on(
+      table.registrationId,
+      table.segmentIndex,
+      table.period
+    ),
+  })
+);
+
+// One attestation per completed and attended registration; the code is printed on the PDF
+export const certificates = pgTable(
+  "certificates",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    registrationId: varchar("registration_id")
+      .notNull()
+      .references(() => registrations.id, { onDelete: "cascade" }),
+    userId: varchar("user_id").notNull(),
+    sessionId: varchar("session_id").notNull(),
+    formationId: varchar("formation_id").notNull(),
+    code: varchar("code").notNull(),
+    issuedAt: timestamp("issued_at").notNull().default(sql`now()`),
+  },
+  (table) => ({
+    registrationUnique: uniqueIndex("certificates_registration_idx").on(table.registrationId),
+    codeUnique: uniqueIndex("certificates_code_idx").on(table.code),
+  })
+);
+
+export const EMAIL_OUTBOX_STATUSES = ["pending", "sending", "sent", "failed"] as const;
+export type EmailOutboxStatus = (typeof EMAIL_OUTBOX_STATUSES)[number];
+
+// Outgoing emails, delivered by the outbox worker with retries
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  kind: text("kind").notNull(), // invitation, invitation_cancel, registration_confirmation, session_reminder, instructor_reminder, template_test, notification, notification_digest
+  recipients: text("recipients").array().notNull(),
+  subject: text("subject").notNull(),
+  text: text("text").notNull(),
+  html: text("html").notNull(),
+  icsContent: text("ics_content"),
+  sessionId: varchar("session_id"),
+  status: text("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  // Next delivery attempt; while sending, the time after which the claim is considered stale
+  nextAttemptAt: timestamp("next_attempt_at").notNull().default(sql`now()`),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+});
+
+// One row per reminder sent, so a session is never announced twice to the same person for an offset
+export const sessionReminders = pgTable(
+  "session_reminders",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    sessionId: varchar("session_id")
+      .notNull()
+      .references(() => sessions.id, { onDelete: "cascade" }),
+    // Null for the instructor reminder
+    registrationId: varchar("registration_id").references(() => registrations.id, {
+      onDelete: "cascade",
+    }),
+    userId: varchar("user_id").notNull(),
+    recipientRole: text("recipient_role").notNull(), // participant, instructor
+    offsetDays: integer("offset_days").notNull(),
+    emailId: varchar("email_id"),
+    createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  },
+  (table) => ({
+    reminderUnique: uniqueIndex("session_reminders_unique_idx").on(
+      table.sessionId,
+      table.userId,
+      table.recipientRole,
+      table.offsetDays
+    ),
+  })
+);
+
+export const passwordResetTokens = pgTable(
+  "password_reset_tokens",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    tokenHash: varchar("token_hash").notNull(),
+    expiresAt: timestamp("expires_at").notNull(),
+    usedAt: timestamp("used_at"),
+    createdAt: timestamp("created_at").default(sql`now()`),
+  },
+  (table) => ({
+    tokenHashUnique: uniqueIndex("password_reset_tokens_token_hash_idx").on(table.tokenHash),
+  })
+);
+
+export const loginAttempts = pgTable(
+  "login_attempts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    scope: varchar("scope").notNull(), // email | ip
+    identifier: varchar("identifier").notNull(),
+    failureCount: integer("failure_count").notNull().default(0),
+    lastFailureAt: timestamp("last_failure_at"),
+    lockedUntil: timestamp("locked_until"),
+    createdAt: timestamp("created_at").default(sql`now()`),
+  },
+  (table) => ({
+    scopeIdentifierUnique: uniqueIndex("login_attempts_scope_identifier_idx").on(
+      table.scope,
+      table.identifier
+    ),
+  })
+);
+
+// Frozen P1/P2 usage of each collaborator once a quota cycle is over
+export const quotaCycleUsages = pgTable(
+  "quota_cycle_usages",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    cycleYear: integer("cycle_year").notNull(),
+    cycleLabel: text("cycle_label").notNull(),
+    cycleStart: timestamp("cycle_start").notNull(),
+    cycleEnd: timestamp("cycle_end").notNull(),
+    p1Allowance: integer("p1_allowance").notNull(),
+    p2Allowance: integer("p2_allowance").notNull(),
+    p1Used: integer("p1_used").notNull(),
+    p2Used: integer("p2_used").notNull(),
+    archivedAt: timestamp("archived_at").default(sql`now()`).notNull(),
+  },
+  (table) => ({
+    userCycleUnique: uniqueIndex("quota_cycle_usages_user_cycle_idx").on(
+      table.userId,
+      table.cycleYear
+    ),
+  })
+);
+
+export const auditEvents = pgTable("audit_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id"), // kept without FK so history survives user deletion
+  actorName: text("actor_name"),
+  action: varchar("action").notNull(), // e.g. user.archive, registration.update
+  entityType: varchar("entity_type").notNull(), // user, formation, session, registration, interest, coach_assignment, app_setting, prerequisite_override
+  entityId: varchar("entity_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+});
+
 export const instructorFormations = pgTable("instructor_formations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   instructorId: varchar("instructor_id").notNull(),
@@ -245,18 +441,90 @@ export const instructorFormations = pgTable("instructor_formations", {
   instructorFormationUnique: uniqueIndex("instructor_formation_unique_idx").on(table.instructorId, table.formationId),
 }));
 
+// Lets a user register for a formation whose prerequisites they have not completed
+export const prerequisiteOverrides = pgTable(
+  "prerequisite_overrides",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    formationId: varchar("formation_id")
+      .notNull()
+      .references(() => formations.id, { onDelete: "cascade" }),
+    reason: text("reason").notNull(),
+    grantedBy: varchar("granted_by"),
+    createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+  },
+  (table) => ({
+    userFormationUnique: uniqueIndex("prerequisite_overrides_user_formation_idx").on(
+      table.userId,
+      table.formationId
+    ),
+  })
+);
+
+// Entities a notification points to; links are derived from them rather than stored
+export const notificationMetadataSchema = z.object({
+  interestId: z.string().optional(),
+  registrationId: z.string().optional(),
+  sessionId: z.string().optional(),
+  formationId: z.string().optional(),
+});
+
+export type NotificationMetadata = z.infer<typeof notificationMetadataSchema>;
+
 export const notifications = pgTable("notifications", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
+  // Page whose sidebar entry counts the notification as unread
   route: text("route").notNull(),
   title: text("title").notNull(),
   message: text("message"),
-  metadata: jsonb("metadata"),
+  // Null on notifications created before kinds existed
+  kind: text("kind"), // see NOTIFICATION_KINDS in shared/notifications.ts
+  metadata: jsonb("metadata").$type<NotificationMetadata>(),
+  // Preference category (validation_requests, interest_updates, registrations, new_sessions)
+  category: text("category"),
   read: boolean("read").default(false),
   createdAt: timestamp("created_at").default(sql`now()`),
   readAt: timestamp("read_at"),
+  archivedAt: timestamp("archived_at"),
 });
 
+// Only the categories a user changed are stored, the others use the defaults
+export const notificationPreferences = pgTable(
+  "notification_preferences",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    category: text("category").notNull(),
+    channel: text("channel").notNull(), // in_app, email, daily_digest, weekly_digest, off
+    updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
+  },
+  (table) => ({
+    userCategoryUnique: uniqueIndex("notification_preferences_user_category_idx").on(
+      table.userId,
+      table.category
+    ),
+  })
+);
+
+// One row per user and digest period, claimed even when there was nothing to send
+export const notificationDigests = pgTable(
+  "notification_digests",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull(),
+    frequency: text("frequency").notNull(), // daily, weekly
+    periodKey: text("period_key").notNull(),
+    itemCount: integer("item_count").notNull().default(0),
+    emailId: varchar("email_id"),
+    createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  },
+  (table) => ({
+    periodUnique: uniqueIndex("notification_digests_period_idx").on(table.userId, table.periodKey),
+  })
+);
+
 // Availability slot schema
 export const availabilitySlotSchema = z.object({
   date: z.string(), // ISO date string
@@ -276,10 +544,30 @@ export const instructorAvailabilities = pgTable("instructor_availabilities", {
 }));
 
 export const insertUserSchema = createInsertSchema(users).omit({ id: true });
-export const insertFormationSchema = createInsertSchema(formations).omit({ id: true });
-export const insertSessionSchema = createInsertSchema(sessions).omit({ id: true }).extend({
+export const insertFormationSchema = createInsertSchema(formations).omit({ id: true }).extend({
+  // Rebuilt by the server from the structured duration
+  duration: z.string().default(""),
+  durationUnit: z.enum(FORMATION_DURATION_UNITS),
+  durationValue: z.number().positive(),
+  dailySchedule: formationScheduleSchema.nullish(),
+  prerequisiteGroups: prerequisiteGroupsSchema.nullish(),
+});
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  id: true,
+  cancellationReason: true,
+  cancelledAt: true,
+}).extend({
   startDate: z.union([z.date(), z.string()]).transform((val) => typeof val === 'string' ? new Date(val) : val),
   endDate: z.union([z.date(), z.string()]).transform((val) => typeof val === 'string' ? new Date(val) : val),
+  // Printed as a link in emails: only web addresses, an empty field clears it
+  meetingUrl: z
+    .string()
+    .trim()
+    .url("Lien de visio invalide")
+    .regex(/^https?:\/\//i, "Lien de visio invalide")
+    .or(z.literal(""))
+    .nullish()
+    .transform((value) => value || null),
 });
 export const insertFormationInterestSchema = createInsertSchema(formationInterests)
   .omit({
@@ -310,7 +598,12 @@ export const insertFormationInterestSchema = createInsertSchema(formationInteres
         return val ?? undefined;
       }),
   });
-export const insertRegistrationSchema = createInsertSchema(registrations).omit({ id: true, registeredAt: true, status: true });
+export const insertRegistrationSchema = createInsertSchema(registrations).omit({
+  id: true,
+  registeredAt: true,
+  status: true,
+  waitlistPosition: true,
+});
 export const insertFormationMaterialSchema = createInsertSchema(formationMaterials).omit({
   id: true,
   fileData: true,
@@ -326,6 +619,9 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   createdAt: true,
   read: true,
   readAt: true,
+  archivedAt: true,
+}).extend({
+  metadata: notificationMetadataSchema.nullish(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -343,6 +639,19 @@ export type InsertCoachAssignment = typeof coachAssignments.$inferInsert;
 export type AppSetting = typeof appSettings.$inferSelect;
 export type InsertAppSetting = typeof appSettings.$inferInsert;
 
+export const AUDIT_ENTITY_TYPES = [
+  "user",
+  "formation",
+  "session",
+  "registration",
+  "interest",
+  "coach_assignment",
+  "app_setting",
+  "prerequisite_override",
+] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
 export const DASHBOARD_INFORMATION_LAYOUTS = [
   "text-only",
   "image-right",
@@ -425,5 +734,24 @@ export type InstructorAvailability = typeof instructorAvailabilities.$inferSelec
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type Notification = typeof notifications.$inferSelect;
 export type SessionAttendanceToken = typeof sessionAttendanceTokens.$inferSelect;
+export type RegistrationAttendance = typeof registrationAttendances.$inferSelect;
+export type Certificate = typeof certificates.$inferSelect;
+export type InsertCertificate = typeof certificates.$inferInsert;
+export type EmailOutboxEntry = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxEntry = typeof emailOutbox.$inferInsert;
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+export type NotificationDigest = typeof notificationDigests.$inferSelect;
+export type InsertNotificationDigest = typeof notificationDigests.$inferInsert;
+export type SessionReminder = typeof sessionReminders.$inferSelect;
+export type InsertSessionReminder = typeof sessionReminders.$inferInsert;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
+export type LoginAttemptScope = "email" | "ip";
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = typeof auditEvents.$inferInsert;
+export type QuotaCycleUsage = typeof quotaCycleUsages.$inferSelect;
+export type InsertQuotaCycleUsage = typeof quotaCycleUsages.$inferInsert;
+export type PrerequisiteOverride = typeof prerequisiteOverrides.$inferSelect;
+export type InsertPrerequisiteOverride = typeof prerequisiteOverrides.$inferInsert;
 export type FormationReview = typeof formationReviews.$inferSelect;
 export type InsertFormationReview = typeof formationReviews.$inferInsert;
@@ -0,0 +1,16 @@
+import { z } from "zod";
+
+export const sessionReminderSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  // Days before the start of the session, J-7 and J-1 by default
+  offsetsInDays: z
+    .array(z.number().int().min(1).max(60))
+    .max(5)
+    .default([7, 1])
+    .transform((offsets) => Array.from(new Set(offsets)).sort((a, b) => b - a)),
+});
+
+export type SessionReminderSettings = z.infer<typeof sessionReminderSettingsSchema>;
+
+export const DEFAULT_SESSION_REMINDER_SETTINGS: SessionReminderSettings =
+  sessionReminderSettingsSchema.parse({});